@@ -0,0 +1,117 @@
+import { DbContext } from '../core/context/DbContext';
+import { DbSet } from '../core/context/DbSet';
+import { SqlDialects } from '../core/dialects/SqlDialect';
+import { Expression } from '../core/expressions/Expression';
+import { InMemoryDatabaseProvider } from '../core/providers/InMemoryDatabaseProvider';
+import { Window } from '../core/query/Window';
+import { ExpressionDeserializer } from '../utils/ExpressionDeserializer';
+import { ExpressionJson, ExpressionJsonValidator } from '../utils/ExpressionJson';
+import { Order } from './common/models';
+
+describe('CASE expressions', () => {
+  let provider: InMemoryDatabaseProvider;
+  let dbContext: DbContext;
+  let orders: DbSet<Order>;
+  let execAsync: jest.SpyInstance;
+
+  const lastJson = () => execAsync.mock.calls[execAsync.mock.calls.length - 1][0] as ExpressionJson;
+
+  const lastStatement = (dialect = 'sqlserver') => {
+    const expr = ExpressionDeserializer.deserialize(lastJson()) as Expression;
+    return expr.accept(SqlDialects.resolve(dialect).createVisitor());
+  };
+
+  beforeEach(() => {
+    provider = new InMemoryDatabaseProvider({
+      orders: [
+        { id: 1, userId: 1, amount: 1500, status: 'paid' },
+        { id: 2, userId: 2, amount: 600, status: 'open' },
+        { id: 3, userId: 1, amount: 80, status: 'cancelled' },
+        { id: 4, userId: 2, amount: 2000, status: 'refunded' },
+      ],
+    });
+    dbContext = new DbContext(provider);
+    orders = dbContext.set<Order>('orders');
+    execAsync = jest.spyOn(provider, 'execAsync');
+  });
+
+  test('ternaries and object lookups in select()', async () => {
+    const rows = await orders
+      .select(o => ({
+        id: o.id,
+        tier: o.amount > 1000 ? 'gold' : o.amount > 500 ? 'silver' : 'std',
+        code: { paid: 1, open: 2, cancelled: 3 }[o.status],
+      }))
+      .toListAsync();
+
+    expect(rows).toEqual([
+      { id: 1, tier: 'gold', code: 1 },
+      { id: 2, tier: 'silver', code: 2 },
+      { id: 3, tier: 'std', code: 3 },
+      { id: 4, tier: 'gold', code: null },
+    ]);
+    expect(lastStatement()).toEqual(
+      `SELECT [o].[id] AS [id], CASE WHEN ([o].[amount] > 1000) THEN N'gold' WHEN ([o].[amount] > 500) THEN N'silver' ELSE N'std' END AS [tier], CASE [o].[status] WHEN N'paid' THEN 1 WHEN N'open' THEN 2 WHEN N'cancelled' THEN 3 END AS [code]
+FROM [orders] AS [o]`,
+    );
+    expect(lastStatement('postgres')).toContain(
+      `CASE "o"."status" WHEN 'paid' THEN 1 WHEN 'open' THEN 2 WHEN 'cancelled' THEN 3 END AS "code"`,
+    );
+    expect(ExpressionJsonValidator.validate(lastJson()).valid).toBe(true);
+  });
+
+  test('ternaries in where(), orderBy() and groupBy()', async () => {
+    const rows = await orders
+      .where(o => (o.amount > 1000 ? 'big' : 'small') === 'big')
+      .orderBy(o => (o.status === 'paid' ? 0 : 1))
+      .select(o => ({ id: o.id }))
+      .toListAsync();
+
+    expect(rows).toEqual([{ id: 1 }, { id: 4 }]);
+    expect(lastStatement()).toEqual(`SELECT [o].[id] AS [id]
+FROM [orders] AS [o]
+WHERE (CASE WHEN ([o].[amount] > 1000) THEN N'big' ELSE N'small' END = N'big')
+ORDER BY CASE WHEN ([o].[status] = N'paid') THEN 0 ELSE 1 END ASC`);
+
+    const sql = orders
+      .groupBy(o => [o.amount > 1000 ? 'big' : 'small'])
+      .select(o => ({ size: o.amount > 1000 ? 'big' : 'small' }))
+      .toQueryString();
+
+    expect(sql)
+      .toEqual(`SELECT CASE WHEN ([o].[amount] > 1000) THEN N'big' ELSE N'small' END AS [size]
+FROM [orders] AS [o]
+GROUP BY CASE WHEN ([o].[amount] > 1000) THEN N'big' ELSE N'small' END`);
+  });
+
+  test('parameters of a CASE inside a window follow the positional placeholders', () => {
+    const { sql, parameters } = orders
+      .useDialect('sqlite')
+      .select(o => ({
+        previous: Window.lag(o.amount, 1, 0)
+          .partitionBy(o.amount > 1000 ? 'big' : 'small')
+          .orderBy(o.status === 'paid' ? 0 : 1),
+      }))
+      .toParameterizedQuery();
+
+    expect(sql).toEqual(
+      `SELECT LAG("o"."amount", ?, ?) OVER (PARTITION BY CASE WHEN ("o"."amount" > ?) THEN ? ELSE ? END ORDER BY CASE WHEN ("o"."status" = ?) THEN ? ELSE ? END ASC) AS "previous"
+FROM "orders" AS "o"`,
+    );
+    expect(parameters.map(p => p.value)).toEqual([1, 0, 1000, 'big', 'small', 'paid', 0, 1]);
+  });
+
+  test('lookups in an object passed with withVariables()', async () => {
+    const labels = { paid: 'Pago', open: 'Aberto' };
+
+    const rows = await orders
+      .withVariables({ labels })
+      .where((o, params) => params.labels[o.status] === 'Pago')
+      .toListAsync();
+
+    expect(rows.map(o => o.id)).toEqual([1]);
+    expect(lastStatement()).toContain(
+      `WHERE (CASE [o].[status] WHEN N'paid' THEN N'Pago' WHEN N'open' THEN N'Aberto' END = N'Pago')`,
+    );
+  });
+});
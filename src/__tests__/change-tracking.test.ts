@@ -0,0 +1,180 @@
+import { DbContext } from '../core/context/DbContext';
+import { DbSet } from '../core/context/DbSet';
+import { SqlDialects } from '../core/dialects/SqlDialect';
+import { Expression } from '../core/expressions/Expression';
+import { InMemoryDatabaseProvider } from '../core/providers/InMemoryDatabaseProvider';
+import { ExpressionDeserializer } from '../utils/ExpressionDeserializer';
+import { ExpressionJson } from '../utils/ExpressionJson';
+import { Order, User } from './common/models';
+
+interface Customer extends User {
+  orders: Order[];
+}
+
+describe('Change tracking', () => {
+  let provider: InMemoryDatabaseProvider;
+  let dbContext: DbContext;
+  let customers: DbSet<Customer>;
+  let orders: DbSet<Order>;
+  let execAsync: jest.SpyInstance;
+
+  const statements = () =>
+    execAsync.mock.calls
+      .map(call => call[0] as ExpressionJson)
+      .filter(json => json.type !== 'SelectExpression')
+      .map(json =>
+        (ExpressionDeserializer.deserialize(json) as Expression).accept(
+          SqlDialects.resolve('sqlserver').createVisitor(),
+        ),
+      );
+
+  beforeEach(() => {
+    provider = new InMemoryDatabaseProvider({
+      users: [
+        { id: 1, name: 'Alice', age: 30 },
+        { id: 2, name: 'Bob', age: 17 },
+      ],
+      orders: [{ id: 10, userId: 1, amount: 100 }],
+    })
+      .useIdentity('users')
+      .useIdentity('orders');
+    dbContext = new DbContext(provider);
+    dbContext.modelBuilder
+      .entity<Customer>('users')
+      .hasMany<Order>(u => u.orders)
+      .withForeignKey(o => o.userId);
+    customers = dbContext.set<Customer>('users');
+    orders = dbContext.set<Order>('orders');
+    execAsync = jest.spyOn(provider, 'execAsync');
+  });
+
+  test('Saves only the modified properties of attached entities', async () => {
+    const list = await customers.toListAsync();
+    customers.attach(list);
+
+    list[0].name = 'Alicia';
+    list[0].age = 31;
+
+    expect(dbContext.changeTracker.entry(list[0])).toMatchObject({
+      state: 'modified',
+      changes: { name: 'Alicia', age: 31 },
+    });
+    expect(dbContext.changeTracker.entry(list[1])?.state).toBe('unchanged');
+
+    await expect(dbContext.saveChangesAsync()).resolves.toBe(1);
+    expect(statements()).toEqual([
+      `UPDATE [u]
+SET [name] = N'Alicia', [age] = 31
+FROM [users] AS [u]
+WHERE ([u].[id] = 1)`,
+    ]);
+    expect(provider.getTable('users')[0]).toEqual({ id: 1, name: 'Alicia', age: 31 });
+
+    // Depois de salvar, o snapshot passa a ser o estado atual
+    await expect(dbContext.saveChangesAsync()).resolves.toBe(0);
+    expect(dbContext.changeTracker.entry(list[0])?.state).toBe('unchanged');
+  });
+
+  test('Inserts principals before dependents and fills the foreign keys', async () => {
+    const order = { amount: 50 } as Order;
+    const carol = { name: 'Carol', age: 45, orders: [order] } as unknown as Customer;
+
+    orders.add(order);
+    customers.add(carol);
+
+    await expect(dbContext.saveChangesAsync()).resolves.toBe(2);
+    expect(carol.id).toBe(3);
+    expect(order).toEqual({ id: 11, amount: 50, userId: 3 });
+    expect(provider.getTable('orders')[1]).toEqual({ id: 11, amount: 50, userId: 3 });
+    expect(dbContext.changeTracker.entry(carol)?.state).toBe('unchanged');
+  });
+
+  test('Deletes dependents before principals', async () => {
+    const [alice] = await customers.where(u => u.id === 1).toListAsync();
+    const aliceOrders = await orders.where(o => o.userId === 1).toListAsync();
+
+    customers.remove(alice);
+    orders.remove(aliceOrders);
+
+    await dbContext.saveChangesAsync();
+
+    expect(statements()).toEqual([
+      'DELETE [o] FROM [orders] AS [o]\nWHERE ([o].[id] = 10)',
+      'DELETE [u] FROM [users] AS [u]\nWHERE ([u].[id] = 1)',
+    ]);
+    expect(provider.getTable('users').map(u => u.id)).toEqual([2]);
+    expect(dbContext.changeTracker.entry(alice)).toBeUndefined();
+
+    // Remover uma entidade ainda não inserida apenas cancela a inserção
+    const draft = { name: 'Draft' } as Customer;
+    customers.add(draft);
+    customers.remove(draft);
+    expect(dbContext.changeTracker.hasChanges()).toBe(false);
+  });
+
+  test('Rolls back every change when a statement fails', async () => {
+    const [alice, bob] = await customers.toListAsync();
+    customers.attach([alice, bob]);
+    customers.add({ name: 'Carol' } as Customer);
+    alice.name = 'Alicia';
+    bob.name = 'Robert';
+    provider.seed('users', [{ id: 1, name: 'Alice', age: 30 }]);
+
+    await expect(dbContext.saveChangesAsync()).rejects.toThrow(
+      "The 'users' record with key [2] was not found",
+    );
+
+    expect(provider.getTable('users')).toEqual([{ id: 1, name: 'Alice', age: 30 }]);
+    expect(dbContext.changeTracker.entry(alice)?.state).toBe('modified');
+  });
+
+  test('Copies generated values to the added entities only after the commit', async () => {
+    const ghost = { id: 99, name: 'Ghost', age: 1 } as Customer;
+    customers.attach(ghost);
+    const order = { amount: 50 } as Order;
+    const carol = { name: 'Carol', age: 45, orders: [order] } as unknown as Customer;
+    customers.add(carol);
+    orders.add(order);
+    customers.remove(ghost);
+
+    await expect(dbContext.saveChangesAsync()).rejects.toThrow(
+      "The 'users' record with key [99] was not found",
+    );
+
+    expect(carol).toEqual({ name: 'Carol', age: 45, orders: [order] });
+    expect(order).toEqual({ amount: 50 });
+    expect(provider.getTable('orders')).toHaveLength(1);
+    expect(dbContext.changeTracker.entry(carol)?.state).toBe('added');
+  });
+
+  test('Does not check the affected rows when the provider does not report them', async () => {
+    const [alice] = await customers.where(u => u.id === 1).toListAsync();
+    customers.attach(alice);
+    alice.name = 'Alicia';
+    execAsync.mockImplementation(async (json: ExpressionJson) =>
+      json.type === 'UpdateExpression' ? { rows: [] } : [],
+    );
+
+    await expect(dbContext.saveChangesAsync()).resolves.toBe(1);
+    expect(dbContext.changeTracker.entry(alice)?.state).toBe('unchanged');
+  });
+
+  test('Uses the key declared in the model', async () => {
+    dbContext.modelBuilder.entity<User>('users').hasKey(u => [u.name, u.age]);
+    const [alice] = await customers.where(u => u.id === 1).toListAsync();
+    customers.attach(alice);
+
+    expect(() => customers.attach({ ...alice })).toThrow(
+      `Another 'users' entity with key ["Alice",30] is already tracked`,
+    );
+
+    alice.id = 7;
+    await dbContext.saveChangesAsync();
+    expect(statements()[0]).toContain("WHERE (([u].[name] = N'Alice') AND ([u].[age] = 30))");
+
+    alice.name = 'Alicia';
+    expect(() => dbContext.changeTracker.hasChanges()).toThrow(
+      "The key 'name' of a tracked 'users' entity cannot be changed",
+    );
+  });
+});
@@ -45,5 +45,6 @@ export interface Product {
 export interface Category {
   id: number;
   name: string;
+  parentId?: number;
   description?: string;
 }
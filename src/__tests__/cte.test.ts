@@ -0,0 +1,172 @@
+import { DbContext } from '../core/context/DbContext';
+import { DbSet } from '../core/context/DbSet';
+import { SqlDialects } from '../core/dialects/SqlDialect';
+import { Expression } from '../core/expressions/Expression';
+import { InMemoryDatabaseProvider } from '../core/providers/InMemoryDatabaseProvider';
+import { ExpressionDeserializer } from '../utils/ExpressionDeserializer';
+import { ExpressionJson, ExpressionJsonValidator } from '../utils/ExpressionJson';
+import { Category, Order, User } from './common/models';
+
+describe('Common table expressions', () => {
+  let provider: InMemoryDatabaseProvider;
+  let dbContext: DbContext;
+  let users: DbSet<User>;
+  let orders: DbSet<Order>;
+  let categories: DbSet<Category>;
+  let execAsync: jest.SpyInstance;
+
+  const lastJson = () => execAsync.mock.calls[execAsync.mock.calls.length - 1][0] as ExpressionJson;
+
+  const lastStatement = (dialect = 'sqlserver') => {
+    const expr = ExpressionDeserializer.deserialize(lastJson()) as Expression;
+    return expr.accept(SqlDialects.resolve(dialect).createVisitor());
+  };
+
+  beforeEach(() => {
+    provider = new InMemoryDatabaseProvider({
+      users: [
+        { id: 1, name: 'Alice', email: 'alice@x.com', age: 30, isActive: true },
+        { id: 2, name: 'Bob', email: 'bob@x.com', age: 17, isActive: false },
+        { id: 3, name: 'Carol', email: 'carol@x.com', age: 45, isActive: true },
+      ],
+      orders: [
+        { id: 10, userId: 1, amount: 250, status: 'paid' },
+        { id: 11, userId: 3, amount: 40, status: 'paid' },
+        { id: 12, userId: 3, amount: 120, status: 'open' },
+      ],
+      categories: [
+        { id: 1, name: 'Electronics', parentId: null },
+        { id: 2, name: 'Computers', parentId: 1 },
+        { id: 3, name: 'Laptops', parentId: 2 },
+        { id: 4, name: 'Books', parentId: null },
+        { id: 5, name: 'Phones', parentId: 1 },
+      ],
+    });
+    dbContext = new DbContext(provider);
+    users = dbContext.set<User>('users');
+    orders = dbContext.set<Order>('orders');
+    categories = dbContext.set<Category>('categories');
+    execAsync = jest.spyOn(provider, 'execAsync');
+  });
+
+  test('with() declares a query that is read like a table', async () => {
+    const bigOrders = dbContext.with(
+      'bigOrders',
+      orders.where(o => o.amount > 100),
+    );
+
+    const rows = await bigOrders.where(o => o.status === 'paid').toListAsync();
+
+    expect(rows.map(o => o.id)).toEqual([10]);
+    expect(lastStatement()).toEqual(`WITH [bigOrders] AS (
+  SELECT *
+    FROM [orders] AS [o]
+    WHERE ([o].[amount] > 100)
+)
+SELECT *
+FROM [bigOrders] AS [b]
+WHERE ([b].[status] = N'paid')`);
+  });
+
+  test('a common table expression can be joined and used in subqueries', async () => {
+    const totals = dbContext.with(
+      'orderTotals',
+      orders.select(o => ({ customerId: o.userId, amount: o.amount })),
+    );
+
+    const joined = await users
+      .join(
+        totals,
+        u => u.id,
+        t => t.customerId,
+        (user, total) => ({ user, total }),
+      )
+      .select(j => ({ name: j.user.name, amount: j.total.amount }))
+      .toListAsync();
+
+    expect(joined).toEqual([
+      { name: 'Alice', amount: 250 },
+      { name: 'Carol', amount: 40 },
+      { name: 'Carol', amount: 120 },
+    ]);
+    expect(lastStatement()).toEqual(`WITH [orderTotals] AS (
+  SELECT [o].[userId] AS [customerId], [o].[amount] AS [amount]
+    FROM [orders] AS [o]
+)
+SELECT [u].[name] AS [name], [o1].[amount] AS [amount]
+FROM [users] AS [u]
+INNER JOIN [orderTotals] AS [o1] ON ([u].[id] = [o1].[customerId])`);
+
+    const buyers = await users
+      .whereIn(
+        u => u.id,
+        totals.select(t => t.customerId),
+      )
+      .select(u => ({ name: u.name }))
+      .toListAsync();
+
+    expect(buyers.map(u => u.name)).toEqual(['Alice', 'Carol']);
+    expect(lastStatement()).toMatch(/^WITH \[orderTotals\] AS \(/);
+    expect(lastStatement()).toContain('FROM [orderTotals] AS [o1]');
+  });
+
+  test('withRecursive() walks a category tree', async () => {
+    const tree = dbContext.withRecursive(
+      'categoryTree',
+      categories.where(c => c.id === 1).select(c => ({ id: c.id, name: c.name, depth: 1 })),
+      tree =>
+        categories
+          .join(
+            tree,
+            c => c.parentId,
+            t => t.id,
+            (category, parent) => ({ category, parent }),
+          )
+          .select(j => ({ id: j.category.id, name: j.category.name, depth: j.parent.depth + 1 })),
+    );
+
+    const rows = await tree.orderBy(t => t.depth).toListAsync();
+
+    expect(rows).toEqual([
+      { id: 1, name: 'Electronics', depth: 1 },
+      { id: 2, name: 'Computers', depth: 2 },
+      { id: 5, name: 'Phones', depth: 2 },
+      { id: 3, name: 'Laptops', depth: 3 },
+    ]);
+    expect(lastStatement()).toEqual(`WITH [categoryTree] AS (
+  SELECT [c].[id] AS [id], [c].[name] AS [name], 1 AS [depth]
+    FROM [categories] AS [c]
+    WHERE ([c].[id] = 1)
+  UNION ALL
+  SELECT [c].[id] AS [id], [c].[name] AS [name], ([c1].[depth] + 1) AS [depth]
+    FROM [categories] AS [c]
+    INNER JOIN [categoryTree] AS [c1] ON ([c].[parentId] = [c1].[id])
+)
+SELECT *
+FROM [categoryTree] AS [c1]
+ORDER BY [c1].[depth] ASC`);
+    expect(lastStatement('postgres')).toMatch(/^WITH RECURSIVE "categoryTree" AS \(/);
+    expect(ExpressionJsonValidator.validate(lastJson()).valid).toBe(true);
+  });
+
+  test('names are unique and recursive queries need matching columns', () => {
+    dbContext.with(
+      'paidOrders',
+      orders.where(o => o.status === 'paid'),
+    );
+
+    expect(() =>
+      dbContext.with(
+        'paidOrders',
+        orders.where(o => o.amount > 0),
+      ),
+    ).toThrow("A common table expression named 'paidOrders' is already defined in this context");
+    expect(() =>
+      dbContext.withRecursive(
+        'broken',
+        categories.select(c => ({ id: c.id })),
+        broken => broken.select(b => ({ id: b.id, name: b.id })),
+      ),
+    ).toThrow('unionAll() requires queries with the same number of columns, but got 1 and 2');
+  });
+});
@@ -0,0 +1,128 @@
+import { DbContext } from '../core/context/DbContext';
+import { DbSet } from '../core/context/DbSet';
+import { SqlDialects } from '../core/dialects/SqlDialect';
+import { Expression } from '../core/expressions/Expression';
+import { InMemoryDatabaseProvider } from '../core/providers/InMemoryDatabaseProvider';
+import { ExpressionDeserializer } from '../utils/ExpressionDeserializer';
+import { ExpressionJson, ExpressionJsonValidator } from '../utils/ExpressionJson';
+import { Order, User } from './common/models';
+
+describe('Set-based delete', () => {
+  let provider: InMemoryDatabaseProvider;
+  let dbContext: DbContext;
+  let users: DbSet<User>;
+  let orders: DbSet<Order>;
+  let execAsync: jest.SpyInstance;
+
+  const lastStatement = (dialect = 'sqlserver') => {
+    const json = execAsync.mock.calls[execAsync.mock.calls.length - 1][0] as ExpressionJson;
+    const expr = ExpressionDeserializer.deserialize(json) as Expression;
+    return expr.accept(SqlDialects.resolve(dialect).createVisitor());
+  };
+
+  beforeEach(() => {
+    provider = new InMemoryDatabaseProvider({
+      users: [
+        { id: 1, name: 'Alice', isActive: true },
+        { id: 2, name: 'Bob', isActive: false },
+        { id: 3, name: 'Carol', isActive: false },
+      ],
+      orders: [
+        { id: 10, userId: 1, amount: 100, status: 'open' },
+        { id: 11, userId: 2, amount: 50, status: 'cancelled' },
+      ],
+    });
+    dbContext = new DbContext(provider);
+    users = dbContext.set<User>('users');
+    orders = dbContext.set<Order>('orders');
+    execAsync = jest.spyOn(provider, 'execAsync');
+  });
+
+  test('Deletes the filtered rows and returns the rows affected', async () => {
+    const deleted = await users.where(u => u.isActive === false).deleteAsync();
+
+    expect(deleted).toBe(2);
+    expect(lastStatement()).toEqual(`DELETE [u] FROM [users] AS [u]
+WHERE ([u].[isActive] = 0)`);
+    expect(provider.getTable('users').map(u => u.name)).toEqual(['Alice']);
+  });
+
+  test('Filters with joins in the syntax of each dialect', async () => {
+    const deleted = await orders
+      .join(
+        users,
+        o => o.userId,
+        u => u.id,
+        (order, user) => ({ order, user }),
+      )
+      .where(j => j.user.isActive === false)
+      .deleteAsync();
+
+    expect(deleted).toBe(1);
+    expect(provider.getTable('orders').map(o => o.id)).toEqual([10]);
+    expect(lastStatement()).toEqual(`DELETE [o] FROM [orders] AS [o]
+INNER JOIN [users] AS [u] ON ([o].[userId] = [u].[id])
+WHERE ([u].[isActive] = 0)`);
+    expect(lastStatement('mysql')).toEqual(`DELETE \`o\` FROM \`orders\` AS \`o\`
+INNER JOIN \`users\` AS \`u\` ON (\`o\`.\`userId\` = \`u\`.\`id\`)
+WHERE (\`u\`.\`isActive\` = FALSE)`);
+    expect(lastStatement('postgres')).toEqual(`DELETE FROM "orders" AS "o"
+USING "users" AS "u"
+WHERE (("o"."userId" = "u"."id") AND ("u"."isActive" = FALSE))`);
+    expect(lastStatement('sqlite')).toEqual(`DELETE FROM "orders" AS "o"
+WHERE EXISTS (
+  (SELECT 1
+    FROM "users" AS "u"
+    WHERE (("o"."userId" = "u"."id") AND ("u"."isActive" = 0))))`);
+  });
+
+  test('Filters with whereExists and whereIn subqueries', async () => {
+    await expect(
+      users
+        .whereExists(
+          orders,
+          u => u.id,
+          o => o.userId,
+          query => query.where(o => o.status === 'cancelled').select(_ => 1),
+        )
+        .deleteAsync(),
+    ).resolves.toBe(1);
+    expect(lastStatement()).toContain('WHERE EXISTS (');
+
+    await expect(
+      users
+        .whereIn(
+          u => u.id,
+          orders.where(o => o.amount > 75).select(o => o.userId),
+        )
+        .deleteAsync(),
+    ).resolves.toBe(1);
+    expect(lastStatement()).toContain('WHERE [u].[id] IN (');
+
+    expect(provider.getTable('users').map(u => u.name)).toEqual(['Carol']);
+  });
+
+  test('Refuses to delete without a where clause unless allowed', async () => {
+    await expect(users.query().deleteAsync()).rejects.toThrow(
+      "deleteAsync() without a where clause would delete every record of 'users'",
+    );
+    expect(execAsync).not.toHaveBeenCalled();
+
+    await expect(users.query().deleteAsync({ allowWithoutWhere: true })).resolves.toBe(3);
+    expect(lastStatement()).toEqual('DELETE [u] FROM [users] AS [u]');
+  });
+
+  test('Applies the global query filters and serializes a valid DeleteExpression', async () => {
+    dbContext.modelBuilder.entity<User>('users').hasQueryFilter(u => u.id !== 1);
+
+    await users.query().deleteAsync({ allowWithoutWhere: true });
+
+    expect(execAsync.mock.calls[0][0]).toMatchObject({
+      type: 'DeleteExpression',
+      table: { tableName: 'users', alias: 'u' },
+      joins: [],
+    });
+    expect(ExpressionJsonValidator.validate(execAsync.mock.calls[0][0]).valid).toBe(true);
+    expect(provider.getTable('users').map(u => u.name)).toEqual(['Alice']);
+  });
+});
@@ -0,0 +1,122 @@
+import { DbContext } from '../core/context/DbContext';
+import { User } from './common/models';
+import { DbSet } from '../core/context/DbSet';
+import { IDatabaseProvider } from '../core/query/Types';
+import { SqlDialect, SqlDialects, SqliteDialect } from '../core/dialects/SqlDialect';
+import { SqlServerGenerationVisitor } from '../core/visitors/SqlServerGenerationVisitor';
+
+const mockDatabaseProvider: IDatabaseProvider = {
+  execAsync: jest.fn().mockResolvedValue([{ id: 1, name: 'Alice' }]),
+};
+
+describe('SQL Dialects', () => {
+  let dbContext: DbContext;
+  let users: DbSet<User>;
+
+  beforeEach(() => {
+    dbContext = new DbContext(mockDatabaseProvider, { dialect: 'sqlite' });
+    users = dbContext.set<User>('users');
+  });
+
+  afterEach(() => {
+    SqlDialects.unregister('custom');
+  });
+
+  test('Uses SQL Server when no dialect is configured', () => {
+    const context = new DbContext(mockDatabaseProvider);
+    const sql = context
+      .set<User>('users')
+      .where(u => u.isActive === true)
+      .toQueryString();
+
+    expect(context.getDialect().name).toEqual('sqlserver');
+    expect(sql).toEqual(`SELECT *
+FROM [users] AS [u]
+WHERE ([u].[isActive] = 1)`);
+  });
+
+  test('Uses the dialect configured on the context', () => {
+    const query = users
+      .where(u => u.name.includes('John'))
+      .limit(10)
+      .offset(20);
+
+    expect(query.toQueryString()).toEqual(`SELECT *
+FROM "users" AS "u"
+WHERE "u"."name" LIKE ('%' || 'John' || '%')
+LIMIT 10
+OFFSET 20`);
+  });
+
+  test('SQLite requires LIMIT when only OFFSET is used', () => {
+    const query = users.orderBy(u => u.name).offset(5);
+
+    expect(query.toQueryString()).toEqual(`SELECT *
+FROM "users" AS "u"
+ORDER BY "u"."name" ASC
+LIMIT -1
+OFFSET 5`);
+  });
+
+  test('Dialect can be overridden per query', () => {
+    const query = users
+      .where(u => u.age > 18)
+      .limit(5)
+      .useDialect('sqlserver');
+
+    expect(query.toQueryString()).toEqual(`SELECT TOP 5 *
+FROM [users] AS [u]
+WHERE ([u].[age] > 18)`);
+  });
+
+  test('Per query override is kept by further operations', () => {
+    const query = users
+      .useDialect(new SqliteDialect())
+      .where(u => u.age > 18)
+      .select(u => ({ name: u.name }));
+
+    dbContext.useDialect('sqlserver');
+
+    expect(query.toQueryString()).toEqual(`SELECT "u"."name" AS "name"
+FROM "users" AS "u"
+WHERE ("u"."age" > 18)`);
+  });
+
+  test('Custom dialects can be registered by name', () => {
+    class BacktickVisitor extends SqlServerGenerationVisitor {
+      protected quoteIdentifier(identifier: string): string {
+        return `\`${identifier}\``;
+      }
+    }
+
+    const customDialect: SqlDialect = {
+      name: 'custom',
+      createVisitor: (parameters, options) => new BacktickVisitor(parameters, options),
+    };
+    SqlDialects.register(customDialect);
+
+    const context = new DbContext(mockDatabaseProvider, { dialect: 'custom' });
+    const sql = context
+      .set<User>('users')
+      .where(u => u.id === 1)
+      .toQueryString();
+
+    expect(sql).toEqual(`SELECT *
+FROM \`users\` AS \`u\`
+WHERE (\`u\`.\`id\` = 1)`);
+  });
+
+  test('Unknown dialect names are rejected', () => {
+    expect(() => new DbContext(mockDatabaseProvider, { dialect: 'oracle' })).toThrow(
+      "Unknown SQL dialect 'oracle'",
+    );
+  });
+
+  test('Unregistered dialects can no longer be resolved', () => {
+    SqlDialects.register({ name: 'custom', createVisitor: SqlDialects.default.createVisitor });
+
+    expect(SqlDialects.unregister('Custom')).toBe(true);
+    expect(() => SqlDialects.get('custom')).toThrow("Unknown SQL dialect 'custom'");
+    expect(SqlDialects.unregister('custom')).toBe(false);
+  });
+});
@@ -0,0 +1,151 @@
+import { DbContext } from '../core/context/DbContext';
+import { DbSet } from '../core/context/DbSet';
+import { JoinType } from '../core/expressions/JoinExpression';
+import { ParentColumnExpression } from '../core/expressions/ParentColumnExpression';
+import { SelectExpression, OrderingExpression } from '../core/expressions/SelectExpression';
+import { Queryable } from '../core/query/Queryable';
+import { IDatabaseProvider } from '../core/query/Types';
+import { SqlServerGenerationVisitor } from '../core/visitors/SqlServerGenerationVisitor';
+import { ExpressionDeserializer } from '../utils/ExpressionDeserializer';
+import { ExpressionJson } from '../utils/ExpressionJson';
+import { ExpressionSerializer } from '../utils/ExpressionSerializer';
+import { Order, User } from './common/models';
+
+const mockDatabaseProvider: IDatabaseProvider = {
+  execAsync: jest.fn().mockResolvedValue([]),
+};
+
+/**
+ * Serializa, envia como texto JSON e reconstrói a consulta
+ */
+function roundTrip(query: Queryable<any>): { json: ExpressionJson; select: SelectExpression } {
+  const json = ExpressionSerializer.serialize(query.toMetadata());
+  const received = JSON.parse(JSON.stringify(json));
+  return { json, select: ExpressionDeserializer.deserialize(received) as SelectExpression };
+}
+
+describe('ExpressionDeserializer', () => {
+  let dbContext: DbContext;
+  let users: DbSet<User>;
+  let orders: DbSet<Order>;
+
+  beforeEach(() => {
+    dbContext = new DbContext(mockDatabaseProvider);
+    users = dbContext.set<User>('users');
+    orders = dbContext.set<Order>('orders');
+  });
+
+  test('Rebuilds a SelectExpression that renders the same SQL', () => {
+    const query = users
+      .join(
+        orders,
+        u => u.id,
+        o => o.userId,
+        (user, order) => ({ user, order }),
+        JoinType.LEFT,
+      )
+      .where(j => j.user.age > 18 && !(j.order.status === 'cancelled'))
+      .groupBy(j => [j.user.name])
+      .select(j => ({ name: j.user.name }))
+      .count()
+      .having(g => (g as any).count > 1)
+      .orderByCount()
+      .limit(10)
+      .offset(5);
+
+    const { select } = roundTrip(query);
+
+    expect(select).toBeInstanceOf(SelectExpression);
+    expect(select.accept(new SqlServerGenerationVisitor())).toEqual(query.toQueryString());
+  });
+
+  test('Preserves every serialized node type', () => {
+    const query = users
+      .withVariables({ statuses: ['active', 'pending'], since: new Date('2024-01-01T00:00:00Z') })
+      .where((u, params) => params.statuses.includes(u.status) && u.createdAt >= params.since)
+      .whereIn(
+        u => u.id,
+        orders.where(o => o.amount > 100).select(o => o.userId),
+      )
+      .whereExists(
+        orders,
+        u => u.id,
+        o => o.userId,
+        q => q.select(_ => 1),
+      )
+      .select(u => ({ id: u.id, name: u.name.toUpperCase() }))
+      .withSubquery(
+        'total',
+        orders,
+        u => u.id,
+        o => o.userId,
+        q => q.sum(o => o.amount),
+      )
+      .orderBy(u => u.name);
+
+    const { json, select } = roundTrip(query);
+
+    expect(ExpressionSerializer.serialize(select)).toEqual(json);
+  });
+
+  test('Restores dates sent as ISO strings', () => {
+    const since = new Date('2024-01-01T00:00:00Z');
+    const { select } = roundTrip(
+      users.withVariables({ since }).where((u, params) => u.createdAt >= params.since),
+    );
+
+    const constant: any = (select.getWhereClause() as any).getRight();
+    expect(constant.getValue()).toEqual(since);
+    expect(constant.getValueType()).toBe('date');
+  });
+
+  test('Rebuilds ParentColumnExpression, FragmentExpression and ordering nodes', () => {
+    const parentColumn = ExpressionDeserializer.deserialize(
+      ExpressionSerializer.serialize(new ParentColumnExpression('u', 'id')),
+    ) as ParentColumnExpression;
+    expect(parentColumn).toBeInstanceOf(ParentColumnExpression);
+    expect(parentColumn.getTableAlias()).toBe('u');
+    expect(parentColumn.getColumnName()).toBe('id');
+
+    const ordering = ExpressionDeserializer.deserialize({
+      formatVersion: 1,
+      type: 'OrderByExpression',
+      column: { type: 'FragmentExpression', value: '1' },
+      ascending: false,
+    }) as OrderingExpression;
+    expect(ordering).toBeInstanceOf(OrderingExpression);
+    expect(ordering.isAscending()).toBe(false);
+  });
+
+  test('Rejects unknown node types and operators', () => {
+    expect(() =>
+      ExpressionDeserializer.deserialize({ formatVersion: 1, type: 'MergeExpression' } as any),
+    ).toThrow("Invalid expression payload: $.type: unknown node type 'MergeExpression'");
+    expect(() =>
+      ExpressionDeserializer.deserialize({
+        formatVersion: 1,
+        type: 'BinaryExpression',
+        operatorType: 'Xor',
+        left: { type: 'ConstantExpression', value: 1, valueType: 'integer' },
+        right: { type: 'ConstantExpression', value: 2, valueType: 'integer' },
+      } as any),
+    ).toThrow("Invalid expression payload: $.operatorType: unknown binary operator 'Xor'");
+  });
+
+  test('Validates the payload before rebuilding it', () => {
+    const received: any = JSON.parse(
+      JSON.stringify(ExpressionSerializer.serialize(users.where(u => u.age > 18).toMetadata())),
+    );
+
+    delete received.formatVersion;
+    expect(() => ExpressionDeserializer.deserialize(received)).toThrow(
+      'Invalid expression payload: $.formatVersion: expected an integer format version',
+    );
+
+    received.formatVersion = 1;
+    received.whereClause.right = { type: 'FragmentExpression' };
+    expect(() => ExpressionDeserializer.deserialize(received)).toThrow(
+      'Invalid expression payload: $.whereClause.right.value: missing required field',
+    );
+  });
+});
@@ -0,0 +1,166 @@
+import { DbContext } from '../core/context/DbContext';
+import { DbSet } from '../core/context/DbSet';
+import { ExpressionBuilder } from '../core/query/ExpressionBuilder';
+import { IDatabaseProvider } from '../core/query/Types';
+import {
+  EXPRESSION_FORMAT_VERSION,
+  ExpressionJsonValidator,
+  MIN_SUPPORTED_FORMAT_VERSION,
+} from '../utils/ExpressionJson';
+import { ExpressionSerializer } from '../utils/ExpressionSerializer';
+import { Order, User } from './common/models';
+
+const mockDatabaseProvider: IDatabaseProvider = {
+  execAsync: jest.fn().mockResolvedValue([]),
+};
+
+describe('ExpressionJson wire format', () => {
+  let users: DbSet<User>;
+  let orders: DbSet<Order>;
+
+  beforeEach(() => {
+    const dbContext = new DbContext(mockDatabaseProvider);
+    users = dbContext.set<User>('users');
+    orders = dbContext.set<Order>('orders');
+  });
+
+  const serialize = (json: any) => JSON.parse(JSON.stringify(json));
+
+  test('Adds the format version to the root only', () => {
+    const json: any = ExpressionSerializer.serialize(users.where(u => u.age > 18).toMetadata());
+
+    expect(json.formatVersion).toBe(1);
+    expect(json.whereClause.formatVersion).toBeUndefined();
+  });
+
+  test('Stamps the lowest version that describes the tree', () => {
+    const versionOf = (query: { toMetadata(): any }) =>
+      ExpressionSerializer.serialize(query.toMetadata())!.formatVersion;
+
+    expect(versionOf(users.where(u => u.age > 18).select(u => ({ name: u.name })))).toBe(1);
+    expect(versionOf(users.select(u => ({ adult: u.age >= 18 ? 'yes' : 'no' })))).toBe(11);
+    expect(versionOf(users.where(u => u.name === null))).toBe(12);
+  });
+
+  test('A SELECT without FROM requires version 13', () => {
+    const builder = new ExpressionBuilder();
+    const json: any = serialize(
+      ExpressionSerializer.serialize(
+        builder.createSelect([builder.createProjection(builder.createConstant(1), 'one')], null),
+      ),
+    );
+
+    expect(json.formatVersion).toBe(13);
+    expect(json.fromTable).toBeNull();
+    expect(ExpressionJsonValidator.validate(json).valid).toBe(true);
+
+    json.formatVersion = 12;
+    expect(ExpressionJsonValidator.validate(json).errors).toEqual([
+      {
+        path: '$.fromTable',
+        message:
+          'null fromTable on SelectExpression requires format version 13 but the payload declares 12',
+      },
+    ]);
+  });
+
+  test('Rejects nodes newer than the declared version', () => {
+    const json = serialize(
+      ExpressionSerializer.serialize(
+        users
+          .where(u => u.name === null)
+          .select(u => ({ tier: u.age > 60 ? 'senior' : 'adult' }))
+          .toMetadata(),
+      ),
+    );
+    expect(json.formatVersion).toBe(12);
+    json.formatVersion = 10;
+
+    expect(ExpressionJsonValidator.validate(json).errors).toEqual([
+      {
+        path: '$.projections[0].expression',
+        message: "'CaseExpression' requires format version 11 but the payload declares 10",
+      },
+      {
+        path: '$.whereClause.operatorType',
+        message: "unary operator 'IsNull' requires format version 12 but the payload declares 10",
+      },
+    ]);
+  });
+
+  test('Accepts payloads produced by the serializer', () => {
+    const query = users
+      .where(u => u.name.includes('a') && !(u.age < 18))
+      .whereIn(
+        u => u.id,
+        orders.where(o => o.amount > 100).select(o => o.userId),
+      )
+      .groupBy(u => [u.status])
+      .select(u => ({ status: u.status }))
+      .count()
+      .orderByCount()
+      .limit(5);
+
+    const result = ExpressionJsonValidator.validate(
+      serialize(ExpressionSerializer.serialize(query.toMetadata())),
+    );
+
+    expect(result).toEqual({ valid: true, errors: [] });
+  });
+
+  test('Reports malformed and unknown nodes with their paths', () => {
+    const json = serialize(
+      ExpressionSerializer.serialize(users.where(u => u.age > 18).toMetadata()),
+    );
+    json.whereClause.operatorType = 'Xor';
+    json.whereClause.right = { type: 'RegexExpression', pattern: '.*' };
+    json.fromTable.hint = 'NOLOCK';
+    delete json.isDistinct;
+
+    const { valid, errors } = ExpressionJsonValidator.validate(json);
+
+    expect(valid).toBe(false);
+    expect(errors).toEqual([
+      { path: '$.fromTable.hint', message: 'unknown field on TableExpression' },
+      { path: '$.whereClause.operatorType', message: "unknown binary operator 'Xor'" },
+      { path: '$.whereClause.right.type', message: "unknown node type 'RegexExpression'" },
+      { path: '$.isDistinct', message: 'missing required field' },
+    ]);
+  });
+
+  test('Rejects structural nodes in expression positions', () => {
+    const json = serialize(
+      ExpressionSerializer.serialize(users.where(u => u.age > 18).toMetadata()),
+    );
+    json.whereClause.left = json.fromTable;
+
+    expect(ExpressionJsonValidator.validate(json).errors).toEqual([
+      {
+        path: '$.whereClause.left.type',
+        message: "'TableExpression' is not valid in an expression",
+      },
+    ]);
+  });
+
+  test('Rejects payloads newer than the supported version', () => {
+    const json = serialize(ExpressionSerializer.serialize(users.query().toMetadata()));
+    json.formatVersion = EXPRESSION_FORMAT_VERSION + 1;
+
+    expect(() => ExpressionJsonValidator.assertValid(json)).toThrow(
+      `Invalid expression payload: $.formatVersion: format version ${
+        EXPRESSION_FORMAT_VERSION + 1
+      } is newer than the supported version ${EXPRESSION_FORMAT_VERSION}`,
+    );
+    expect(ExpressionJsonValidator.isSupportedVersion(EXPRESSION_FORMAT_VERSION + 1)).toBe(false);
+    expect(ExpressionJsonValidator.isSupportedVersion(MIN_SUPPORTED_FORMAT_VERSION)).toBe(true);
+  });
+
+  test('Requires the format version', () => {
+    const json = serialize(ExpressionSerializer.serialize(users.query().toMetadata()));
+    delete json.formatVersion;
+
+    expect(ExpressionJsonValidator.validate(json).errors).toEqual([
+      { path: '$.formatVersion', message: 'expected an integer format version' },
+    ]);
+  });
+});
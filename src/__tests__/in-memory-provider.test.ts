@@ -0,0 +1,184 @@
+import { DbContext } from '../core/context/DbContext';
+import { DbSet } from '../core/context/DbSet';
+import { JoinType } from '../core/expressions/JoinExpression';
+import { InMemoryDatabaseProvider } from '../core/providers/InMemoryDatabaseProvider';
+import { OrderDirection } from '../core/query/Types';
+import { Order, User } from './common/models';
+
+describe('InMemoryDatabaseProvider', () => {
+  let provider: InMemoryDatabaseProvider;
+  let dbContext: DbContext;
+  let users: DbSet<User>;
+  let orders: DbSet<Order>;
+
+  beforeEach(() => {
+    provider = new InMemoryDatabaseProvider({
+      users: [
+        { id: 1, name: 'Alice', age: 30, isActive: true, status: 'active' },
+        { id: 2, name: 'Bob', age: 17, isActive: false, status: 'pending' },
+        { id: 3, name: 'Carol', age: 30, isActive: true, status: null },
+        { id: 4, name: 'Dave', age: 45, isActive: true, status: 'active' },
+      ],
+      orders: [
+        { id: 10, userId: 1, amount: 100, status: 'completed' },
+        { id: 11, userId: 1, amount: 250, status: 'pending' },
+        { id: 12, userId: 3, amount: 75, status: 'completed' },
+        { id: 13, userId: 99, amount: 40, status: 'completed' },
+      ],
+    });
+    dbContext = new DbContext(provider);
+    users = dbContext.set<User>('users');
+    orders = dbContext.set<Order>('orders');
+  });
+
+  test('Filters with WHERE and treats NULL as unknown', async () => {
+    const adults = await users.where(u => u.age >= 18 && u.isActive === true).toListAsync();
+    expect(adults.map(u => u.name)).toEqual(['Alice', 'Carol', 'Dave']);
+
+    const notActive = await users.where(u => u.status !== 'active').toListAsync();
+    expect(notActive.map(u => u.name)).toEqual(['Bob']);
+  });
+
+  test('Evaluates LIKE, string functions and IN lists', async () => {
+    const withA = await users.where(u => u.name.toLowerCase().includes('a')).pluckAsync(u => u.id);
+    expect(withA).toEqual([1, 3, 4]);
+
+    const selected = await users
+      .withVariables({ ids: [2, 4] })
+      .where((u, params) => params.ids.includes(u.id))
+      .pluckAsync(u => u.name);
+    expect(selected).toEqual(['Bob', 'Dave']);
+  });
+
+  test('Projects, orders and paginates', async () => {
+    const page = await users
+      .orderBy(u => u.age, OrderDirection.DESC)
+      .select(u => ({ name: u.name, nextAge: u.age + 1 }))
+      .limit(2)
+      .offset(1)
+      .toListAsync();
+
+    expect(page).toEqual([
+      { name: 'Alice', nextAge: 31 },
+      { name: 'Carol', nextAge: 31 },
+    ]);
+  });
+
+  test('Supports every join type', async () => {
+    const join = (joinType: JoinType) =>
+      users
+        .join(
+          orders,
+          u => u.id,
+          o => o.userId,
+          (user, order) => ({ user, order }),
+          joinType,
+        )
+        .select(j => ({ name: j.user.name, orderId: j.order.id }))
+        .toListAsync();
+
+    expect(await join(JoinType.INNER)).toEqual([
+      { name: 'Alice', orderId: 10 },
+      { name: 'Alice', orderId: 11 },
+      { name: 'Carol', orderId: 12 },
+    ]);
+    expect((await join(JoinType.LEFT)).map(r => r.orderId)).toEqual([10, 11, null, 12, null]);
+    expect((await join(JoinType.RIGHT)).map(r => r.name)).toEqual([
+      'Alice',
+      'Alice',
+      'Carol',
+      null,
+    ]);
+    expect(await join(JoinType.FULL)).toHaveLength(6);
+  });
+
+  test('Groups rows and filters groups with HAVING', async () => {
+    const groups = await users
+      .groupBy(u => [u.age])
+      .select(g => ({ age: g.age }))
+      .count()
+      .having(g => (g as any).count > 1)
+      .toListAsync();
+
+    expect(groups).toEqual([{ age: 30, count: 2 }]);
+  });
+
+  test('Computes aggregates without GROUP BY', async () => {
+    const [totals] = await orders
+      .query()
+      .sum(o => o.amount, 'total')
+      .toListAsync();
+    expect(totals).toEqual({ total: 465 });
+
+    await expect(orders.where(o => o.amount > 1000).countAsync()).resolves.toBe(0);
+    await expect(orders.countAsync()).resolves.toBe(4);
+  });
+
+  test('Evaluates IN subqueries', async () => {
+    const buyers = await users
+      .whereIn(
+        u => u.id,
+        orders.where(o => o.status === 'completed').select(o => o.userId),
+      )
+      .pluckAsync(u => u.name);
+    expect(buyers).toEqual(['Alice', 'Carol']);
+
+    const nonBuyers = await users
+      .whereNotIn(
+        u => u.id,
+        orders.select(o => o.userId),
+      )
+      .toListAsync();
+    expect(nonBuyers.map(u => u.name)).toEqual(['Bob', 'Dave']);
+  });
+
+  test('Evaluates correlated EXISTS subqueries', async () => {
+    const withPending = await users
+      .whereExists(
+        orders,
+        u => u.id,
+        o => o.userId,
+        query => query.where(o => o.status === 'pending').select(_ => 1),
+      )
+      .pluckAsync(u => u.name);
+    expect(withPending).toEqual(['Alice']);
+
+    const withoutOrders = await users
+      .whereNotExists(
+        orders,
+        u => u.id,
+        o => o.userId,
+        query => query.select(_ => 1),
+      )
+      .pluckAsync(u => u.name);
+    expect(withoutOrders).toEqual(['Bob', 'Dave']);
+  });
+
+  test('Evaluates correlated scalar subqueries in projections', async () => {
+    const totals = await users
+      .select(u => ({ userId: u.id, name: u.name }))
+      .withSubquery(
+        'orderCount',
+        orders,
+        u => u.userId,
+        o => o.userId,
+        query => query.count(),
+      )
+      .toListAsync();
+
+    expect(totals.map((r: any) => r.orderCount)).toEqual([2, 0, 1, 0]);
+  });
+
+  test('Does not expose the stored rows', async () => {
+    const [alice] = await users.where(u => u.id === 1).toListAsync();
+    alice.name = 'Changed';
+
+    expect(provider.getTable('users')[0].name).toBe('Alice');
+  });
+
+  test('Fails on unknown tables', async () => {
+    await expect(dbContext.set<User>('missing').toListAsync()).rejects.toThrow(
+      "Table 'missing' does not exist in the in-memory database",
+    );
+  });
+});
@@ -0,0 +1,130 @@
+import { DbContext } from '../core/context/DbContext';
+import { DbSet } from '../core/context/DbSet';
+import { SqlDialects } from '../core/dialects/SqlDialect';
+import { Expression } from '../core/expressions/Expression';
+import { InMemoryDatabaseProvider } from '../core/providers/InMemoryDatabaseProvider';
+import { ExpressionDeserializer } from '../utils/ExpressionDeserializer';
+import { ExpressionJson, ExpressionJsonValidator } from '../utils/ExpressionJson';
+import { Order, User } from './common/models';
+
+interface ArchivedOrder {
+  id: number;
+  orderId: number;
+  customer: string;
+  total: number;
+}
+
+describe('Insert from a query', () => {
+  let provider: InMemoryDatabaseProvider;
+  let dbContext: DbContext;
+  let archive: DbSet<ArchivedOrder>;
+  let orders: DbSet<Order>;
+  let users: DbSet<User>;
+  let execAsync: jest.SpyInstance;
+
+  const lastStatement = (dialect = 'sqlserver') => {
+    const json = execAsync.mock.calls[execAsync.mock.calls.length - 1][0] as ExpressionJson;
+    const expr = ExpressionDeserializer.deserialize(json) as Expression;
+    return expr.accept(SqlDialects.resolve(dialect).createVisitor());
+  };
+
+  beforeEach(() => {
+    provider = new InMemoryDatabaseProvider({
+      archived_orders: [],
+      orders: [
+        { id: 10, userId: 1, amount: 100, status: 'closed' },
+        { id: 11, userId: 2, amount: 50, status: 'open' },
+        { id: 12, userId: 2, amount: 70, status: 'closed' },
+      ],
+      users: [
+        { id: 1, name: 'Alice' },
+        { id: 2, name: 'Bob' },
+      ],
+    }).useIdentity('archived_orders');
+    dbContext = new DbContext(provider);
+    dbContext.modelBuilder.entity<ArchivedOrder>('archived_orders', entity => {
+      entity.property(a => a.orderId).hasColumnName('order_id');
+      entity.property(a => a.customer);
+      entity.property(a => a.total);
+    });
+    archive = dbContext.set<ArchivedOrder>('archived_orders');
+    orders = dbContext.set<Order>('orders');
+    users = dbContext.set<User>('users');
+    execAsync = jest.spyOn(provider, 'execAsync');
+  });
+
+  test('Inserts the rows of the query in a single statement', async () => {
+    const inserted = await archive.insertFrom(
+      orders
+        .where(o => o.status === 'closed')
+        .select(o => ({ orderId: o.id, total: o.amount * 2 })),
+    );
+
+    expect(inserted).toBe(2);
+    expect(execAsync).toHaveBeenCalledTimes(1);
+    expect(lastStatement()).toEqual(`INSERT INTO [archived_orders] ([order_id], [total])
+SELECT [o].[id] AS [orderId], ([o].[amount] * 2) AS [total]
+FROM [orders] AS [o]
+WHERE ([o].[status] = N'closed')`);
+    expect(provider.getTable('archived_orders')).toEqual([
+      { id: 1, order_id: 10, total: 200 },
+      { id: 2, order_id: 12, total: 140 },
+    ]);
+  });
+
+  test('Accepts joined queries and serializes a valid InsertExpression', async () => {
+    await archive.insertFrom(
+      orders
+        .join(
+          users,
+          o => o.userId,
+          u => u.id,
+          (order, user) => ({ order, user }),
+        )
+        .where(j => j.order.amount > 60)
+        .select(j => ({ orderId: j.order.id, customer: j.user.name })),
+    );
+
+    expect(provider.getTable('archived_orders').map(a => a.customer)).toEqual(['Alice', 'Bob']);
+    expect(lastStatement('postgres'))
+      .toEqual(`INSERT INTO "archived_orders" ("order_id", "customer")
+SELECT "o"."id" AS "orderId", "u"."name" AS "customer"
+FROM "orders" AS "o"
+INNER JOIN "users" AS "u" ON ("o"."userId" = "u"."id")
+WHERE ("o"."amount" > 60)`);
+
+    const json = execAsync.mock.calls[0][0];
+    expect(json).toMatchObject({
+      type: 'InsertExpression',
+      columns: ['order_id', 'customer'],
+      values: [],
+      query: { type: 'SelectExpression' },
+    });
+    expect(ExpressionJsonValidator.validate(json).valid).toBe(true);
+  });
+
+  test('Rejects projections that do not name the target columns', async () => {
+    await expect(archive.insertFrom(orders.where(o => o.id === 10))).rejects.toThrow(
+      "insertFrom() into 'archived_orders' needs a query with select()",
+    );
+
+    await expect(archive.insertFrom(orders.select(o => o.id) as any)).rejects.toThrow(
+      "Projection 0 of the query inserted into 'archived_orders' has no name",
+    );
+
+    await expect(
+      archive.insertFrom(orders.select(o => ({ orderId: o.id, totl: o.amount }) as any)),
+    ).rejects.toThrow(
+      "'totl' is not a property of 'archived_orders'. Expected one of: id, orderId, customer, total",
+    );
+
+    await expect(
+      archive.insertFrom(orders.select(o => ({ orderId: o.id, order_id: o.userId }) as any)),
+    ).rejects.toThrow("'order_id' is not a property of 'archived_orders'");
+
+    await expect(
+      dbContext.set<Order>('order_history').insertFrom(orders.select(o => ({ id: o.id }))),
+    ).rejects.toThrow("insertFrom() into 'order_history' needs the properties of the entity");
+    expect(execAsync).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,146 @@
+import { DbContext } from '../core/context/DbContext';
+import { SqlDialects } from '../core/dialects/SqlDialect';
+import { Expression } from '../core/expressions/Expression';
+import { InMemoryDatabaseProvider } from '../core/providers/InMemoryDatabaseProvider';
+import { SnakeCaseNamingConvention } from '../core/model/NamingConvention';
+import { ExpressionDeserializer } from '../utils/ExpressionDeserializer';
+import { ExpressionJson, ExpressionJsonValidator } from '../utils/ExpressionJson';
+import { User } from './common/models';
+
+describe('Insert', () => {
+  let provider: InMemoryDatabaseProvider;
+  let dbContext: DbContext;
+  let execAsync: jest.SpyInstance;
+
+  const lastStatement = (dialect = 'sqlserver') => {
+    const json = execAsync.mock.calls[execAsync.mock.calls.length - 1][0] as ExpressionJson;
+    const expr = ExpressionDeserializer.deserialize(json) as Expression;
+    return expr.accept(SqlDialects.resolve(dialect).createVisitor());
+  };
+
+  beforeEach(() => {
+    provider = new InMemoryDatabaseProvider({
+      users: [{ id: 1, name: 'Alice', age: 30 }],
+    }).useIdentity('users');
+    dbContext = new DbContext(provider);
+    execAsync = jest.spyOn(provider, 'execAsync');
+  });
+
+  test('insert() returns the row with the generated identity', async () => {
+    const users = dbContext.set<User>('users');
+
+    const bob = await users.insert({ name: 'Bob', age: 17 });
+
+    expect(bob).toEqual({ id: 2, name: 'Bob', age: 17 });
+    expect(provider.getTable('users')).toEqual([
+      { id: 1, name: 'Alice', age: 30 },
+      { id: 2, name: 'Bob', age: 17 },
+    ]);
+  });
+
+  test('insertMany() writes rows with the same properties in a single statement', async () => {
+    const users = dbContext.set<User>('users');
+
+    const inserted = await users.insertMany([
+      { name: 'Bob', age: 17 },
+      { name: "O'Neil", age: 40 },
+    ]);
+
+    expect(inserted.map(u => u.id)).toEqual([2, 3]);
+    expect(execAsync).toHaveBeenCalledTimes(1);
+    expect(lastStatement()).toEqual(`INSERT INTO [users] ([name], [age])
+OUTPUT INSERTED.*
+VALUES (N'Bob', 17), (N'O''Neil', 40)`);
+  });
+
+  test('insertMany() leaves missing properties to the database defaults', async () => {
+    const users = dbContext.set<User>('users');
+
+    const inserted = await users.insertMany([
+      { name: 'Bob', age: 17 },
+      { name: 'Carol', isActive: true },
+      { age: 20, name: 'Dave' },
+    ]);
+
+    expect(inserted).toEqual([
+      { id: 2, name: 'Bob', age: 17 },
+      { id: 4, name: 'Carol', isActive: true },
+      { id: 3, name: 'Dave', age: 20 },
+    ]);
+    expect(execAsync).toHaveBeenCalledTimes(2);
+    expect(lastStatement()).toEqual(`INSERT INTO [users] ([name], [isActive])
+OUTPUT INSERTED.*
+VALUES (N'Carol', 1)`);
+  });
+
+  test('insertMany() matches the returned rows by key when the entities have one', async () => {
+    execAsync.mockResolvedValueOnce({
+      rowsAffected: 2,
+      rows: [
+        { id: 6, name: 'Bob', createdAt: 'b' },
+        { id: 5, name: 'Alice', createdAt: 'a' },
+      ],
+    });
+
+    const inserted = await dbContext.set<User>('users').insertMany([
+      { id: 5, name: 'Alice' },
+      { id: 6, name: 'Bob' },
+    ]);
+
+    expect(inserted.map(u => u.createdAt)).toEqual(['a', 'b']);
+  });
+
+  test('Uses the returning syntax of each dialect', async () => {
+    await dbContext.set<User>('users').insert({ name: 'Bob' });
+
+    expect(lastStatement('postgres')).toEqual(`INSERT INTO "users" ("name")
+VALUES ('Bob')
+RETURNING *`);
+    expect(lastStatement('sqlite')).toEqual(`INSERT INTO "users" ("name")
+VALUES ('Bob')
+RETURNING *`);
+    expect(lastStatement('mysql')).toEqual(`INSERT INTO \`users\` (\`name\`)
+VALUES ('Bob')`);
+  });
+
+  test('Maps properties to columns and generated columns back to properties', async () => {
+    provider.seed('app_users', []).useIdentity('app_users', 'user_id');
+    dbContext.useNamingConvention(new SnakeCaseNamingConvention({ tablePrefix: 'app_' }));
+    dbContext.modelBuilder.entity<User & { userId: number }>('users', entity => {
+      entity.property(u => u.userId).hasColumnName('user_id');
+    });
+
+    const user = await dbContext.set<User & { userId: number }>('users').insert({
+      name: 'Bob',
+      isActive: true,
+    });
+
+    expect(lastStatement()).toEqual(`INSERT INTO [app_users] ([name], [is_active])
+OUTPUT INSERTED.*
+VALUES (N'Bob', 1)`);
+    expect(user).toEqual({ userId: 1, name: 'Bob', isActive: true });
+  });
+
+  test('Serializes the statement as a valid InsertExpression', async () => {
+    provider.seed('dbo.users', []);
+    await dbContext.set<User>({ schema: 'dbo', table: 'users' }).insert({ name: 'Bob' });
+
+    const json = execAsync.mock.calls[0][0];
+    expect(json).toMatchObject({
+      type: 'InsertExpression',
+      table: { type: 'TableExpression', tableName: 'users', schema: 'dbo' },
+      columns: ['name'],
+      values: [[{ type: 'ConstantExpression', value: 'Bob' }]],
+      returning: true,
+    });
+    expect(ExpressionJsonValidator.validate(json).valid).toBe(true);
+    expect(lastStatement()).toContain('INSERT INTO [dbo].[users] ([name])');
+  });
+
+  test('Rejects inserts without values', async () => {
+    await expect(dbContext.set<User>('users').insert({})).rejects.toThrow(
+      "Cannot insert into 'users' without any values",
+    );
+    await expect(dbContext.set<User>('users').insertMany([])).resolves.toEqual([]);
+  });
+});
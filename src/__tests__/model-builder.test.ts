@@ -0,0 +1,93 @@
+import { DbContext } from '../core/context/DbContext';
+import { DbSet } from '../core/context/DbSet';
+import { OrderDirection } from '../core/query/Types';
+import { InMemoryDatabaseProvider } from '../core/providers/InMemoryDatabaseProvider';
+import { Order, User } from './common/models';
+
+describe('Model Builder - Column Mapping', () => {
+  let provider: InMemoryDatabaseProvider;
+  let dbContext: DbContext;
+  let users: DbSet<User>;
+  let orders: DbSet<Order>;
+
+  beforeEach(() => {
+    provider = new InMemoryDatabaseProvider({
+      users: [
+        { id: 1, name: 'Alice', is_active: true, created_at: '2024-01-01' },
+        { id: 2, name: 'Bob', is_active: false, created_at: '2024-02-01' },
+      ],
+      orders: [
+        { id: 10, user_id: 1, amount: 100 },
+        { id: 11, user_id: 1, amount: 50 },
+      ],
+    });
+    dbContext = new DbContext(provider);
+    dbContext.modelBuilder.entity<User>('users', entity => {
+      entity.property(u => u.createdAt).hasColumnName('created_at');
+      entity.property(u => u.isActive).hasColumnName('is_active');
+    });
+    dbContext.modelBuilder
+      .entity<Order>('orders')
+      .property(o => o.userId)
+      .hasColumnName('user_id');
+
+    users = dbContext.set<User>('users');
+    orders = dbContext.set<Order>('orders');
+  });
+
+  test('Uses mapped columns in where, select and order by', () => {
+    const query = users
+      .where(u => u.isActive === true)
+      .orderBy(u => u.createdAt, OrderDirection.DESC)
+      .select(u => ({ name: u.name, createdAt: u.createdAt }));
+
+    expect(query.toQueryString())
+      .toEqual(`SELECT [u].[name] AS [name], [u].[created_at] AS [createdAt]
+FROM [users] AS [u]
+WHERE ([u].[is_active] = 1)
+ORDER BY [u].[created_at] DESC`);
+  });
+
+  test('Uses mapped columns in joins and group by', () => {
+    const query = users
+      .join(
+        orders,
+        u => u.id,
+        o => o.userId,
+        (user, order) => ({ user, order }),
+      )
+      .groupBy(j => [j.order.userId])
+      .select(j => ({ userId: j.order.userId }));
+
+    expect(query.toQueryString()).toEqual(`SELECT [o].[user_id] AS [userId]
+FROM [users] AS [u]
+INNER JOIN [orders] AS [o] ON ([u].[id] = [o].[user_id])
+GROUP BY [o].[user_id]`);
+  });
+
+  test('Maps result rows back to property names', async () => {
+    const [alice] = await users.where(u => u.id === 1).toListAsync();
+    expect(alice).toEqual({ id: 1, name: 'Alice', isActive: true, createdAt: '2024-01-01' });
+
+    const active = await users.where(u => u.isActive === true).pluckAsync(u => u.createdAt);
+    expect(active).toEqual(['2024-01-01']);
+
+    const userOrders = await orders.where(o => o.userId === 1).toListAsync();
+    expect(userOrders.map(o => o.userId)).toEqual([1, 1]);
+  });
+
+  test('Rejects invalid property selectors', () => {
+    expect(() =>
+      dbContext.modelBuilder.entity<User>('users').property(u => u.name.toUpperCase()),
+    ).toThrow('Invalid property selector');
+  });
+
+  test('Rejects columns mapped to two properties', () => {
+    expect(() =>
+      dbContext.modelBuilder
+        .entity<User>('users')
+        .property(u => u.role)
+        .hasColumnName('is_active'),
+    ).toThrow("Column 'is_active' of table 'users' is already mapped to property 'isActive'");
+  });
+});
@@ -0,0 +1,126 @@
+import { DbContext } from '../core/context/DbContext';
+import { User, Order } from './common/models';
+import { JoinType } from '../core/expressions/JoinExpression';
+import { DbSet } from '../core/context/DbSet';
+import { IDatabaseProvider } from '../core/query/Types';
+
+const mockDatabaseProvider: IDatabaseProvider = {
+  execAsync: jest.fn().mockResolvedValue([{ id: 1, name: 'Alice' }]),
+};
+
+describe('MySQL Queries', () => {
+  let dbContext: DbContext;
+  let users: DbSet<User>;
+  let orders: DbSet<Order>;
+
+  beforeEach(() => {
+    dbContext = new DbContext(mockDatabaseProvider, { dialect: 'mysql' });
+    users = dbContext.set<User>('users');
+    orders = dbContext.set<Order>('orders');
+  });
+
+  test('Uses backticks and boolean literals', () => {
+    const sql = users.where(u => u.age > 18 && u.isActive === true).toQueryString();
+
+    expect(sql).toEqual(`SELECT *
+FROM \`users\` AS \`u\`
+WHERE ((\`u\`.\`age\` > 18) AND (\`u\`.\`isActive\` = TRUE))`);
+  });
+
+  test('String contains condition uses CONCAT', () => {
+    const sql = users.where(u => u.name.includes("O'Brien")).toQueryString();
+
+    expect(sql).toEqual(`SELECT *
+FROM \`users\` AS \`u\`
+WHERE \`u\`.\`name\` LIKE CONCAT('%', 'O''Brien', '%')`);
+  });
+
+  test('Backslashes are escaped in string literals', () => {
+    const sql = users.where(u => u.name === 'C:\\temp').toQueryString();
+
+    expect(sql).toEqual(`SELECT *
+FROM \`users\` AS \`u\`
+WHERE (\`u\`.\`name\` = 'C:\\\\temp')`);
+  });
+
+  test('Date literals use the DATETIME format', () => {
+    const since = new Date('2024-03-15T10:30:00.000Z');
+    const sql = users
+      .withVariables({ since })
+      .where((u, params) => u.createdAt >= params.since)
+      .toQueryString();
+
+    expect(sql).toEqual(`SELECT *
+FROM \`users\` AS \`u\`
+WHERE (\`u\`.\`createdAt\` >= '2024-03-15 10:30:00.000')`);
+  });
+
+  test('Limit only', () => {
+    const sql = users
+      .orderBy(u => u.name)
+      .limit(10)
+      .toQueryString();
+
+    expect(sql).toEqual(`SELECT *
+FROM \`users\` AS \`u\`
+ORDER BY \`u\`.\`name\` ASC
+LIMIT 10`);
+  });
+
+  test('Limit with offset uses LIMIT offset, count', () => {
+    const sql = users
+      .orderBy(u => u.name)
+      .limit(10)
+      .offset(20)
+      .toQueryString();
+
+    expect(sql).toEqual(`SELECT *
+FROM \`users\` AS \`u\`
+ORDER BY \`u\`.\`name\` ASC
+LIMIT 20, 10`);
+  });
+
+  test('Offset without limit', () => {
+    const sql = users
+      .orderBy(u => u.name)
+      .offset(5)
+      .toQueryString();
+
+    expect(sql).toEqual(`SELECT *
+FROM \`users\` AS \`u\`
+ORDER BY \`u\`.\`name\` ASC
+LIMIT 5, 18446744073709551615`);
+  });
+
+  test('Left join', () => {
+    const sql = users
+      .join(
+        orders,
+        user => user.id,
+        order => order.userId,
+        (user, order) => ({ user, order }),
+        JoinType.LEFT,
+      )
+      .select(joined => ({
+        userName: joined.user.name,
+        orderAmount: joined.order.amount,
+      }))
+      .toQueryString();
+
+    expect(sql).toEqual(`SELECT \`u\`.\`name\` AS \`userName\`, \`o\`.\`amount\` AS \`orderAmount\`
+FROM \`users\` AS \`u\`
+LEFT OUTER JOIN \`orders\` AS \`o\` ON (\`u\`.\`id\` = \`o\`.\`userId\`)`);
+  });
+
+  test('Full join is rejected', () => {
+    const query = users.join(
+      orders,
+      user => user.id,
+      order => order.userId,
+      (user, order) => ({ user, order }),
+      JoinType.FULL,
+    );
+
+    expect(() => query.toQueryString()).toThrow('MySQL does not support FULL OUTER JOIN');
+  });
+});
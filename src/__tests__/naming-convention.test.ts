@@ -0,0 +1,101 @@
+import { DbContext } from '../core/context/DbContext';
+import { DefaultNamingConvention, SnakeCaseNamingConvention } from '../core/model/NamingConvention';
+import { InMemoryDatabaseProvider } from '../core/providers/InMemoryDatabaseProvider';
+import { IDatabaseProvider } from '../core/query/Types';
+import { Order, User } from './common/models';
+
+describe('Naming Conventions', () => {
+  const mockProvider: IDatabaseProvider = {
+    execAsync: async () => [],
+  };
+
+  test('SnakeCaseNamingConvention translates names in both directions', () => {
+    const convention = new SnakeCaseNamingConvention();
+
+    expect(convention.getColumnName('createdAt')).toBe('created_at');
+    expect(convention.getColumnName('userID')).toBe('user_id');
+    expect(convention.getColumnName('HTMLContent')).toBe('html_content');
+    expect(convention.getColumnName('created_at')).toBe('created_at');
+    expect(convention.getPropertyName('created_at')).toBe('createdAt');
+    expect(convention.getTableName('OrderItem')).toBe('order_item');
+  });
+
+  test('Pluralizes and prefixes table names', () => {
+    const convention = new DefaultNamingConvention({ pluralizeTables: true, tablePrefix: 'app_' });
+
+    expect(convention.getTableName('user')).toBe('app_users');
+    expect(convention.getTableName('category')).toBe('app_categories');
+    expect(convention.getTableName('address')).toBe('app_addresses');
+    expect(convention.getColumnName('createdAt')).toBe('createdAt');
+  });
+
+  test('Applies the convention to tables and columns of a query', () => {
+    const dbContext = new DbContext(mockProvider, {
+      namingConvention: new SnakeCaseNamingConvention({ pluralizeTables: true }),
+    });
+    const users = dbContext.set<User>('user');
+    const orders = dbContext.set<Order>('order');
+
+    const query = users
+      .join(
+        orders,
+        u => u.id,
+        o => o.userId,
+        (user, order) => ({ user, order }),
+      )
+      .where(j => j.user.isActive === true)
+      .orderBy(j => j.order.createdAt)
+      .select(j => ({ name: j.user.name, createdAt: j.order.createdAt }));
+
+    expect(query.toQueryString())
+      .toEqual(`SELECT [u].[name] AS [name], [o].[created_at] AS [createdAt]
+FROM [users] AS [u]
+INNER JOIN [orders] AS [o] ON ([u].[id] = [o].[user_id])
+WHERE ([u].[is_active] = 1)
+ORDER BY [o].[created_at] ASC`);
+  });
+
+  test('Explicit column mappings take precedence over the convention', () => {
+    const dbContext = new DbContext(mockProvider).useNamingConvention(
+      new SnakeCaseNamingConvention(),
+    );
+    dbContext.modelBuilder
+      .entity<User>('users')
+      .property(u => u.createdAt)
+      .hasColumnName('dt_cad');
+    const users = dbContext.set<User>('users');
+
+    expect(
+      users
+        .where(u => u.isActive === true)
+        .orderBy(u => u.createdAt)
+        .toQueryString(),
+    ).toEqual(`SELECT *
+FROM [users] AS [u]
+WHERE ([u].[is_active] = 1)
+ORDER BY [u].[dt_cad] ASC`);
+    expect(dbContext.getPropertyName('u', 'dt_cad')).toBe('createdAt');
+    expect(dbContext.getPropertyName('u', 'is_active')).toBe('isActive');
+  });
+
+  test('Returns rows with the property names', async () => {
+    const provider = new InMemoryDatabaseProvider({
+      users: [
+        { id: 1, name: 'Alice', is_active: true, created_at: '2024-01-01' },
+        { id: 2, name: 'Bob', is_active: false, created_at: '2024-02-01' },
+      ],
+    });
+    const dbContext = new DbContext(provider, {
+      namingConvention: new SnakeCaseNamingConvention({ pluralizeTables: true }),
+    });
+    const users = dbContext.set<User>('user');
+
+    await expect(users.where(u => u.isActive === true).toListAsync()).resolves.toEqual([
+      { id: 1, name: 'Alice', isActive: true, createdAt: '2024-01-01' },
+    ]);
+    await expect(users.orderBy(u => u.createdAt).pluckAsync(u => u.isActive)).resolves.toEqual([
+      true,
+      false,
+    ]);
+  });
+});
@@ -0,0 +1,161 @@
+import { DbContext } from '../core/context/DbContext';
+import { DbSet } from '../core/context/DbSet';
+import { InMemoryDatabaseProvider } from '../core/providers/InMemoryDatabaseProvider';
+import { Order, User } from './common/models';
+
+interface Customer extends User {
+  orders: Order[];
+}
+
+describe('Navigation properties', () => {
+  let provider: InMemoryDatabaseProvider;
+  let dbContext: DbContext;
+  let customers: DbSet<Customer>;
+
+  beforeEach(() => {
+    provider = new InMemoryDatabaseProvider({
+      users: [
+        { id: 1, name: 'Alice', age: 30 },
+        { id: 2, name: 'Bob', age: 17 },
+        { id: 3, name: 'Carol', age: 45 },
+      ],
+      orders: [
+        { id: 10, userId: 1, amount: 100 },
+        { id: 11, userId: 1, amount: 250 },
+        { id: 12, userId: 3, amount: 75 },
+      ],
+    });
+    dbContext = new DbContext(provider);
+    dbContext.modelBuilder
+      .entity<Customer>('users')
+      .hasMany<Order>(u => u.orders)
+      .withForeignKey(o => o.userId);
+    customers = dbContext.set<Customer>('users');
+  });
+
+  test('Translates some() on a navigation to a correlated EXISTS', () => {
+    const query = customers.where(u => u.orders.some(o => o.amount > 100));
+
+    expect(query.toQueryString()).toEqual(`SELECT *
+FROM [users] AS [u]
+WHERE EXISTS (
+  (SELECT 1
+    FROM [orders] AS [o]
+    WHERE (([o].[userId] = [u].[id]) AND ([o].[amount] > 100))))`);
+  });
+
+  test('Translates every() to NOT EXISTS, where a NULL predicate does not pass', () => {
+    const query = customers.where(u => u.orders.every(o => o.amount >= 100));
+
+    expect(query.toQueryString()).toEqual(`SELECT *
+FROM [users] AS [u]
+WHERE NOT EXISTS (
+  (SELECT 1
+    FROM [orders] AS [o]
+    WHERE (([o].[userId] = [u].[id]) AND (CASE WHEN ([o].[amount] >= 100) THEN 1 ELSE 0 END = 0))))`);
+  });
+
+  test('every() does not accept related rows where the predicate is NULL', async () => {
+    provider.seed('orders', [
+      { id: 10, userId: 1, amount: 100 },
+      { id: 11, userId: 1, amount: null },
+      { id: 12, userId: 3, amount: 75 },
+    ]);
+
+    await expect(
+      customers.where(u => u.orders.every(o => o.amount < 200)).pluckAsync(u => u.name),
+    ).resolves.toEqual(['Bob', 'Carol']);
+  });
+
+  test('Navigation aliases do not depend on the queries built before', () => {
+    const build = () =>
+      customers
+        .where(u => u.orders.some(o => o.amount > 100) && u.orders.every(o => o.amount > 0))
+        .toQueryString();
+
+    const first = build();
+    build();
+    dbContext.set<Order>('orderLines');
+
+    expect(build()).toEqual(first);
+    expect(first).not.toContain('[o1]');
+  });
+
+  test('Nested navigations do not hide the alias of the enclosing query', () => {
+    dbContext.modelBuilder
+      .entity<Order & { children: Order[] }>('orders')
+      .hasMany<Order>(o => o.children, 'orders')
+      .withForeignKey(o => o.userId);
+
+    const sql = customers
+      .where(u => u.orders.some(o => (o as any).children.some(c => c.amount > o.amount)))
+      .toQueryString();
+
+    expect(sql).toContain('FROM [orders] AS [o]');
+    expect(sql).toContain('FROM [orders] AS [o1]');
+    expect(sql).toContain('([o1].[amount] > [o].[amount])');
+  });
+
+  test('Resolves references to the outer lambda inside the predicate', () => {
+    const query = customers.where(u => u.age > 18 && u.orders.some(o => o.amount > u.age));
+
+    expect(query.toQueryString()).toContain('([o].[amount] > [u].[age])');
+  });
+
+  test('Filters rows with navigation predicates in memory', async () => {
+    await expect(
+      customers.where(u => u.orders.some(o => o.amount > 100)).pluckAsync(u => u.name),
+    ).resolves.toEqual(['Alice']);
+
+    await expect(
+      customers.where(u => u.orders.every(o => o.amount < 200)).pluckAsync(u => u.name),
+    ).resolves.toEqual(['Bob', 'Carol']);
+  });
+
+  test('include() loads the related rows as nested arrays', async () => {
+    const execAsync = jest.spyOn(provider, 'execAsync');
+
+    const result = await customers
+      .include(u => u.orders)
+      .orderBy(u => u.id)
+      .toListAsync();
+
+    expect(result.map(u => [u.name, u.orders.map(o => o.id)])).toEqual([
+      ['Alice', [10, 11]],
+      ['Bob', []],
+      ['Carol', [12]],
+    ]);
+    expect(execAsync).toHaveBeenCalledTimes(2);
+
+    const relatedQuery = execAsync.mock.calls[1][0] as any;
+    expect(relatedQuery.whereClause).toMatchObject({
+      type: 'BinaryExpression',
+      operatorType: 'In',
+      left: { type: 'ColumnExpression', columnName: 'userId' },
+      right: { type: 'ConstantExpression', value: [1, 2, 3] },
+    });
+  });
+
+  test('include() works with firstAsync()', async () => {
+    const alice = await customers
+      .where(u => u.id === 1)
+      .include(u => u.orders)
+      .firstAsync();
+
+    expect(alice.orders.map(o => o.amount)).toEqual([100, 250]);
+  });
+
+  test('include() rejects properties without a navigation', () => {
+    expect(() => customers.include(u => (u as any).invoices)).toThrow(
+      "No navigation 'invoices' is configured for table 'users'",
+    );
+  });
+
+  test('Requires a foreign key', () => {
+    dbContext.modelBuilder.entity<Customer>('users').hasMany<Order>(u => u.orders);
+
+    expect(() => customers.include(u => u.orders)).toThrow(
+      "Navigation 'orders' of table 'users' has no foreign key",
+    );
+  });
+});
@@ -0,0 +1,103 @@
+import { DbContext } from '../core/context/DbContext';
+import { DbSet } from '../core/context/DbSet';
+import { JoinType } from '../core/expressions/JoinExpression';
+import { InMemoryDatabaseProvider } from '../core/providers/InMemoryDatabaseProvider';
+import { ExpressionSerializer } from '../utils/ExpressionSerializer';
+import { ExpressionJsonValidator } from '../utils/ExpressionJson';
+import { Order, User } from './common/models';
+
+describe('Null semantics', () => {
+  let provider: InMemoryDatabaseProvider;
+  let dbContext: DbContext;
+  let users: DbSet<User>;
+  let orders: DbSet<Order>;
+
+  beforeEach(() => {
+    provider = new InMemoryDatabaseProvider({
+      users: [
+        { id: 1, name: 'Ana', email: null },
+        { id: 2, name: 'Bia', email: 'bia@example.com' },
+        { id: 3, name: 'Caio', email: null },
+      ],
+      orders: [
+        { id: 10, userId: 1, amount: 50 },
+        { id: 11, userId: 2, amount: 70 },
+      ],
+    });
+    dbContext = new DbContext(provider);
+    users = dbContext.set<User>('users');
+    orders = dbContext.set<Order>('orders');
+  });
+
+  test('comparisons with null become IS NULL and IS NOT NULL', async () => {
+    const query = users.where(u => u.email !== null && undefined != u.name);
+
+    expect(query.toQueryString()).toEqual(`SELECT *
+FROM [users] AS [u]
+WHERE (([u].[email] IS NOT NULL) AND ([u].[name] IS NOT NULL))`);
+    expect((await query.toListAsync()).map(u => u.id)).toEqual([2]);
+
+    const email: string | null = null;
+    const byVariable = users
+      .withVariables({ email })
+      .where((u, params) => u.email === params.email);
+
+    expect(byVariable.toParameterizedQuery()).toEqual({
+      sql: `SELECT *
+FROM [users] AS [u]
+WHERE ([u].[email] IS NULL)`,
+      parameters: [],
+    });
+    expect((await byVariable.toListAsync()).map(u => u.id)).toEqual([1, 3]);
+
+    const json = ExpressionSerializer.serialize(query.toMetadata());
+    expect(ExpressionJsonValidator.validate(json).valid).toBe(true);
+  });
+
+  test('?? becomes COALESCE', async () => {
+    const rows = await users
+      .where(u => (u.email ?? 'none') === 'none')
+      .orderBy(u => u.email ?? u.name)
+      .select(u => ({ contact: u.email ?? u.name ?? 'unknown' }))
+      .toListAsync();
+
+    expect(rows).toEqual([{ contact: 'Ana' }, { contact: 'Caio' }]);
+    expect(
+      users
+        .where(u => (u.email ?? 'none') === 'none')
+        .select(u => ({ contact: u.email ?? u.name ?? 'unknown' }))
+        .toQueryString(),
+    ).toEqual(`SELECT COALESCE([u].[email], [u].[name], N'unknown') AS [contact]
+FROM [users] AS [u]
+WHERE (COALESCE([u].[email], N'none') = N'none')`);
+  });
+
+  test('optional chaining through a left-joined object', async () => {
+    const joined = users.join(
+      orders,
+      user => user.id,
+      order => order.userId,
+      (user, order) => ({ user, order }),
+      JoinType.LEFT,
+    );
+
+    const query = joined.select(j => ({ name: j.user.name, amount: j.order?.amount ?? 0 }));
+
+    expect(query.toQueryString())
+      .toEqual(`SELECT [u].[name] AS [name], COALESCE([o].[amount], 0) AS [amount]
+FROM [users] AS [u]
+LEFT OUTER JOIN [orders] AS [o] ON ([u].[id] = [o].[userId])`);
+    expect(await query.toListAsync()).toEqual([
+      { name: 'Ana', amount: 50 },
+      { name: 'Bia', amount: 70 },
+      { name: 'Caio', amount: 0 },
+    ]);
+
+    const withoutOrders = await joined
+      .where(j => j.order?.id === null)
+      .select(j => ({ name: j.user.name }))
+      .toListAsync();
+
+    expect(withoutOrders).toEqual([{ name: 'Caio' }]);
+  });
+});
@@ -0,0 +1,131 @@
+import { DbContext } from '../core/context/DbContext';
+import { User, Order } from './common/models';
+import { DbSet } from '../core/context/DbSet';
+import { IDatabaseProvider } from '../core/query/Types';
+
+const mockDatabaseProvider: IDatabaseProvider = {
+  execAsync: jest.fn().mockResolvedValue([{ id: 1, name: 'Alice' }]),
+};
+
+describe('Parameterized Queries', () => {
+  let dbContext: DbContext;
+  let users: DbSet<User>;
+  let orders: DbSet<Order>;
+
+  beforeEach(() => {
+    dbContext = new DbContext(mockDatabaseProvider);
+    users = dbContext.set<User>('users');
+    orders = dbContext.set<Order>('orders');
+  });
+
+  test('Extracts constants into SQL Server parameters', () => {
+    const { sql, parameters } = users
+      .where(u => u.name === 'John' && u.age > 18)
+      .toParameterizedQuery();
+
+    expect(sql).toEqual(`SELECT *
+FROM [users] AS [u]
+WHERE (([u].[name] = @p0) AND ([u].[age] > @p1))`);
+    expect(parameters).toEqual([
+      { name: 'p0', placeholder: '@p0', value: 'John', type: 'string' },
+      { name: 'p1', placeholder: '@p1', value: 18, type: 'integer' },
+    ]);
+  });
+
+  test('Extracts context variables with their types', () => {
+    const since = new Date('2024-01-01T00:00:00.000Z');
+    const { sql, parameters } = users
+      .withVariables({ since, active: true })
+      .where((u, params) => u.createdAt >= params.since && u.isActive === params.active)
+      .toParameterizedQuery();
+
+    expect(sql).toEqual(`SELECT *
+FROM [users] AS [u]
+WHERE (([u].[createdAt] >= @p0) AND ([u].[isActive] = @p1))`);
+    expect(parameters).toEqual([
+      { name: 'p0', placeholder: '@p0', value: since, type: 'date' },
+      { name: 'p1', placeholder: '@p1', value: true, type: 'boolean' },
+    ]);
+  });
+
+  test('Expands arrays into one parameter per element for IN', () => {
+    const { sql, parameters } = users
+      .withVariables({ statuses: ['active', 'pending'] })
+      .where((u, params) => params.statuses.includes(u.status))
+      .toParameterizedQuery();
+
+    expect(sql).toEqual(`SELECT *
+FROM [users] AS [u]
+WHERE [u].[status] IN (@p0, @p1)`);
+    expect(parameters.map(p => p.value)).toEqual(['active', 'pending']);
+  });
+
+  test('Keeps paging values inline', () => {
+    const { sql, parameters } = users
+      .where(u => u.age > 18)
+      .orderBy(u => u.name)
+      .limit(10)
+      .offset(20)
+      .toParameterizedQuery();
+
+    expect(sql).toEqual(`SELECT *
+FROM [users] AS [u]
+WHERE ([u].[age] > @p0)
+ORDER BY [u].[name] ASC
+OFFSET 20 ROWS
+FETCH NEXT 10 ROWS ONLY`);
+    expect(parameters).toHaveLength(1);
+  });
+
+  test('Numbers parameters in order across subqueries', () => {
+    const { sql, parameters } = users
+      .where(u => u.name.includes('John'))
+      .whereIn(
+        u => u.id,
+        orders.where(o => o.amount > 1000).select(o => o.userId),
+      )
+      .toParameterizedQuery();
+
+    expect(sql).toEqual(`SELECT *
+FROM [users] AS [u]
+WHERE ([u].[name] LIKE CONCAT(@p0, @p1, @p2) AND [u].[id] IN (
+  (SELECT [o].[userId]
+    FROM [orders] AS [o]
+    WHERE ([o].[amount] > @p3))))`);
+    expect(parameters.map(p => p.value)).toEqual(['%', 'John', '%', 1000]);
+  });
+
+  test('Uses PostgreSQL positional placeholders', () => {
+    const { sql, parameters } = users
+      .useDialect('postgres')
+      .where(u => u.name === 'John' && u.age > 18)
+      .toParameterizedQuery();
+
+    expect(sql).toEqual(`SELECT *
+FROM "users" AS "u"
+WHERE (("u"."name" = $1) AND ("u"."age" > $2))`);
+    expect(parameters.map(p => p.placeholder)).toEqual(['$1', '$2']);
+  });
+
+  test('Uses MySQL positional placeholders', () => {
+    const { sql, parameters } = users
+      .useDialect('mysql')
+      .where(u => u.name === 'John')
+      .limit(5)
+      .toParameterizedQuery();
+
+    expect(sql).toEqual(`SELECT *
+FROM \`users\` AS \`u\`
+WHERE (\`u\`.\`name\` = ?)
+LIMIT 5`);
+    expect(parameters).toEqual([{ name: 'p0', placeholder: '?', value: 'John', type: 'string' }]);
+  });
+
+  test('toQueryString still inlines values', () => {
+    const sql = users.where(u => u.name === 'John').toQueryString();
+
+    expect(sql).toEqual(`SELECT *
+FROM [users] AS [u]
+WHERE ([u].[name] = N'John')`);
+  });
+});
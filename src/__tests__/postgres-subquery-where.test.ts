@@ -0,0 +1,307 @@
+// src/__tests__/postgres-subquery-where.test.ts
+import { DbContext } from '../core/context/DbContext';
+import { IDatabaseProvider } from '../core/query/Types';
+
+const mockDatabaseProvider: IDatabaseProvider = {
+  execAsync: jest.fn().mockResolvedValue([{ id: 1, name: 'Alice' }]),
+};
+
+describe('PostgreSQL - Subquery WHERE Tests', () => {
+  let dbContext: DbContext;
+
+  // Define alguns modelos de teste
+  interface User {
+    id: number;
+    name: string;
+    email: string;
+    salary: number;
+    departmentId: number;
+  }
+
+  interface Order {
+    id: number;
+    userId: number;
+    status: string;
+    amount: number;
+  }
+
+  interface Department {
+    id: number;
+    name: string;
+    managerId: number;
+  }
+
+  beforeEach(() => {
+    // Cria um contexto novo para cada teste
+    dbContext = new DbContext(mockDatabaseProvider, { dialect: 'postgres' });
+  });
+
+  test('WHERE IN com subconsulta', () => {
+    // Arrange
+    const users = dbContext.set<User>('users');
+    const orders = dbContext.set<Order>('orders');
+
+    // Act
+    const query = users
+      .whereIn(
+        u => u.id,
+        orders.where(o => o.status === 'completed').select(o => ({ userId: o.userId })),
+      )
+      .select(u => u.name)
+      .toQueryString();
+
+    // Assert
+    expect(query).toEqual(`SELECT "u"."name"
+FROM "users" AS "u"
+WHERE "u"."id" IN (
+  (SELECT "o"."userId" AS "userId"
+    FROM "orders" AS "o"
+    WHERE ("o"."status" = 'completed')))`);
+  });
+
+  test('WHERE NOT IN com subconsulta', () => {
+    // Arrange
+    const users = dbContext.set<User>('users');
+    const orders = dbContext.set<Order>('orders');
+
+    // Act
+    const query = users
+      .whereNotIn(
+        u => u.id,
+        orders.where(o => o.status === 'canceled').select(o => ({ userId: o.userId })),
+      )
+      .toQueryString();
+
+    // Assert
+    expect(query).toEqual(`SELECT *
+FROM "users" AS "u"
+WHERE "u"."id" NOT IN (
+  (SELECT "o"."userId" AS "userId"
+    FROM "orders" AS "o"
+    WHERE ("o"."status" = 'canceled')))`);
+  });
+
+  test('WHERE EXISTS com subconsulta', () => {
+    // Arrange
+    const users = dbContext.set<User>('users');
+    const orders = dbContext.set<Order>('orders');
+
+    // Act
+    const sql = users
+      .whereExists(
+        orders,
+        user => user.id,
+        order => order.userId,
+        query => query.where(o => o.status === 'completed').select(_ => 1),
+      )
+      .toQueryString();
+
+    // Assert
+    expect(sql).toEqual(`SELECT *
+FROM "users" AS "u"
+WHERE EXISTS (
+  (SELECT 1
+    FROM "orders" AS "o"
+    WHERE (("o"."userId" = "u"."id") AND ("o"."status" = 'completed'))))`);
+  });
+
+  test('WHERE NOT EXISTS com subconsulta', () => {
+    // Arrange
+    const users = dbContext.set<User>('users');
+    const orders = dbContext.set<Order>('orders');
+
+    // Act
+    const sql = users
+      .whereNotExists(
+        orders,
+        user => user.id,
+        order => order.userId,
+        query => query.where(o => o.status === 'canceled').select(_ => 1),
+      )
+      .toQueryString();
+
+    // Assert
+    expect(sql).toEqual(`SELECT *
+FROM "users" AS "u"
+WHERE NOT EXISTS (
+  (SELECT 1
+    FROM "orders" AS "o"
+    WHERE (("o"."userId" = "u"."id") AND ("o"."status" = 'canceled'))))`);
+  });
+
+  test('WHERE = com subconsulta', () => {
+    // Arrange
+    const users = dbContext.set<User>('users');
+    const departments = dbContext.set<Department>('departments');
+
+    // Act
+    const sql = users
+      .whereEqual(
+        u => u.id,
+        departments
+          .where(d => d.name === 'IT')
+          .select(d => d.managerId)
+          .limit(1),
+      )
+      .toQueryString();
+
+    // Assert
+    expect(sql).toEqual(`SELECT *
+FROM "users" AS "u"
+WHERE ("u"."id" = 
+  (SELECT "d"."managerId"
+    FROM "departments" AS "d"
+    WHERE ("d"."name" = 'IT')
+    LIMIT 1))`);
+  });
+
+  test('WHERE > com subconsulta', () => {
+    // Arrange
+    const users = dbContext.set<User>('users');
+
+    // Act
+    const sql = users
+      .whereGreaterThan(u => u.salary, users.avg(u => u.salary).limit(1))
+      .toQueryString();
+
+    // Assert
+    expect(sql).toEqual(`SELECT *
+FROM "users" AS "u"
+WHERE ("u"."salary" > 
+  (SELECT AVG("u"."salary") AS "avg"
+    FROM "users" AS "u"
+    LIMIT 1))`);
+  });
+
+  test('WHERE >= com subconsulta', () => {
+    // Arrange
+    const users = dbContext.set<User>('users');
+    const departments = dbContext.set<Department>('departments');
+
+    // Act
+    const sql = users
+      .whereGreaterThanOrEqual(
+        u => u.salary,
+        departments.select(d => ({ min_salary: 50000 })).limit(1),
+      )
+      .toQueryString();
+
+    // Assert
+    expect(sql).toEqual(`SELECT *
+FROM "users" AS "u"
+WHERE ("u"."salary" >= 
+  (SELECT 50000 AS "min_salary"
+    FROM "departments" AS "d"
+    LIMIT 1))`);
+  });
+
+  test('WHERE < com subconsulta', () => {
+    // Arrange
+    const users = dbContext.set<User>('users');
+    const departments = dbContext.set<Department>('departments');
+
+    const sql = users
+      .whereLessThan(u => u.salary, departments.select(d => ({ max_salary: 100000 })).limit(1))
+      .toQueryString();
+
+    // Assert
+    expect(sql).toEqual(`SELECT *
+FROM "users" AS "u"
+WHERE ("u"."salary" < 
+  (SELECT 100000 AS "max_salary"
+    FROM "departments" AS "d"
+    LIMIT 1))`);
+  });
+
+  test('WHERE <= com subconsulta', () => {
+    // Arrange
+    const users = dbContext.set<User>('users');
+    const departments = dbContext.set<Department>('departments');
+
+    // Act
+    const sql = users
+      .whereLessThanOrEqual(
+        u => u.salary,
+        departments.select(_ => ({ avg_salary: 75000 })).limit(1),
+      )
+      .toQueryString();
+
+    // Assert
+    expect(sql).toEqual(`SELECT *
+FROM "users" AS "u"
+WHERE ("u"."salary" <= 
+  (SELECT 75000 AS "avg_salary"
+    FROM "departments" AS "d"
+    LIMIT 1))`);
+  });
+
+  test('WHERE != com subconsulta', () => {
+    // Arrange
+    const users = dbContext.set<User>('users');
+    const departments = dbContext.set<Department>('departments');
+
+    // Act
+    const sql = users
+      .whereNotEqual(
+        u => u.departmentId,
+        departments
+          .where(d => d.name === 'HR')
+          .select(d => d.id)
+          .limit(1),
+      )
+      .toQueryString();
+
+    // Assert
+    expect(sql).toEqual(`SELECT *
+FROM "users" AS "u"
+WHERE ("u"."departmentId" <> 
+  (SELECT "d"."id"
+    FROM "departments" AS "d"
+    WHERE ("d"."name" = 'HR')
+    LIMIT 1))`);
+  });
+
+  test('Consulta complexa com múltiplas subconsultas', () => {
+    // Arrange
+    const users = dbContext.set<User>('users');
+    const orders = dbContext.set<Order>('orders');
+    const departments = dbContext.set<Department>('departments');
+
+    // Act
+    const sql = users
+      .where(u => u.name.includes('John'))
+      .whereIn(
+        u => u.id,
+        orders.where(o => o.amount > 1000).select(o => o.userId),
+      )
+      .whereNotExists(
+        orders,
+        user => user.id,
+        order => order.userId,
+        query => query.where(o => o.status === 'canceled').select(_ => 1),
+      )
+      .whereEqual(
+        u => u.departmentId,
+        departments
+          .where(d => d.name === 'Sales')
+          .select(d => d.id)
+          .limit(1),
+      )
+      .toQueryString();
+
+    // Assert
+    expect(sql).toEqual(`SELECT *
+FROM "users" AS "u"
+WHERE ((("u"."name" LIKE ('%' || 'John' || '%') AND "u"."id" IN (
+  (SELECT "o"."userId"
+    FROM "orders" AS "o"
+    WHERE ("o"."amount" > 1000)))) AND NOT EXISTS (
+  (SELECT 1
+    FROM "orders" AS "o"
+    WHERE (("o"."userId" = "u"."id") AND ("o"."status" = 'canceled'))))) AND ("u"."departmentId" = 
+  (SELECT "d"."id"
+    FROM "departments" AS "d"
+    WHERE ("d"."name" = 'Sales')
+    LIMIT 1)))`);
+  });
+});
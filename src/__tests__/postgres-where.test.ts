@@ -0,0 +1,116 @@
+import { DbContext } from '../core/context/DbContext';
+import { User } from './common/models';
+import { DbSet } from '../core/context/DbSet';
+import { IDatabaseProvider } from '../core/query/Types';
+
+const mockDatabaseProvider: IDatabaseProvider = {
+  execAsync: jest.fn().mockResolvedValue([{ id: 1, name: 'Alice' }]),
+};
+
+describe('PostgreSQL Where Queries', () => {
+  let dbContext: DbContext;
+  let users: DbSet<User>;
+
+  beforeEach(() => {
+    dbContext = new DbContext(mockDatabaseProvider, { dialect: 'postgres' });
+    users = dbContext.set<User>('users');
+  });
+
+  test('Simple equality condition', () => {
+    const query = users.where(u => u.age === 18);
+    const sql = query.toQueryString();
+
+    expect(sql).toEqual(`SELECT *
+FROM "users" AS "u"
+WHERE ("u"."age" = 18)`);
+  });
+
+  test('Greater than condition', () => {
+    const query = users.where(u => u.age > 18);
+    const sql = query.toQueryString();
+
+    expect(sql).toEqual(`SELECT *
+FROM "users" AS "u"
+WHERE ("u"."age" > 18)`);
+  });
+
+  test('Multiple conditions with AND', () => {
+    const query = users.where(u => u.age > 18 && u.isActive === true);
+    const sql = query.toQueryString();
+
+    expect(sql).toEqual(`SELECT *
+FROM "users" AS "u"
+WHERE (("u"."age" > 18) AND ("u"."isActive" = TRUE))`);
+  });
+
+  test('Multiple conditions with OR', () => {
+    const query = users.where(u => u.age < 18 || u.name.includes('Junior'));
+    const sql = query.toQueryString();
+
+    expect(sql).toEqual(`SELECT *
+FROM "users" AS "u"
+WHERE (("u"."age" < 18) OR "u"."name" LIKE ('%' || 'Junior' || '%'))`);
+  });
+
+  test('String contains condition', () => {
+    const query = users.where(u => u.name.includes('John'));
+    const sql = query.toQueryString();
+
+    expect(sql).toEqual(`SELECT *
+FROM "users" AS "u"
+WHERE "u"."name" LIKE ('%' || 'John' || '%')`);
+  });
+
+  test('Case-insensitive contains uses ILIKE', () => {
+    const query = users.where(u => u.name.toLowerCase().includes('john'));
+    const sql = query.toQueryString();
+
+    expect(sql).toEqual(`SELECT *
+FROM "users" AS "u"
+WHERE "u"."name" ILIKE ('%' || 'john' || '%')`);
+  });
+
+  test('Lower-cased column with mixed-case pattern keeps LIKE', () => {
+    const query = users.where(u => u.name.toLowerCase().includes('John'));
+    const sql = query.toQueryString();
+
+    expect(sql).toEqual(`SELECT *
+FROM "users" AS "u"
+WHERE LOWER("u"."name") LIKE ('%' || 'John' || '%')`);
+  });
+
+  test('Date condition uses timestamptz literal', () => {
+    const since = new Date('2024-01-01T00:00:00.000Z');
+    const query = users.withVariables({ since }).where((u, params) => u.createdAt > params.since);
+    const sql = query.toQueryString();
+
+    expect(sql).toEqual(`SELECT *
+FROM "users" AS "u"
+WHERE ("u"."createdAt" > '2024-01-01T00:00:00.000Z'::timestamptz)`);
+  });
+
+  test('Limit and offset', () => {
+    const query = users
+      .where(u => u.isActive === false)
+      .orderBy(u => u.name)
+      .limit(10)
+      .offset(20);
+    const sql = query.toQueryString();
+
+    expect(sql).toEqual(`SELECT *
+FROM "users" AS "u"
+WHERE ("u"."isActive" = FALSE)
+ORDER BY "u"."name" ASC
+LIMIT 10
+OFFSET 20`);
+  });
+
+  test('Null condition', () => {
+    const query = users.where(u => u.email === null);
+    const sql = query.toQueryString();
+
+    expect(sql).toEqual(`SELECT *
+FROM "users" AS "u"
+WHERE ("u"."email" IS NULL)`);
+  });
+});
@@ -0,0 +1,125 @@
+import { DbContext } from '../core/context/DbContext';
+import { DbSet } from '../core/context/DbSet';
+import { InMemoryDatabaseProvider } from '../core/providers/InMemoryDatabaseProvider';
+import { Order, User } from './common/models';
+
+interface TenantOrder extends Order {
+  isDeleted: boolean;
+}
+
+interface TenantUser extends User {
+  tenantId: number;
+  isDeleted: boolean;
+  orders: TenantOrder[];
+}
+
+describe('Global query filters', () => {
+  let provider: InMemoryDatabaseProvider;
+  let dbContext: DbContext;
+  let users: DbSet<TenantUser>;
+  let orders: DbSet<TenantOrder>;
+
+  beforeEach(() => {
+    provider = new InMemoryDatabaseProvider({
+      users: [
+        { id: 1, name: 'Alice', tenantId: 1, isDeleted: false },
+        { id: 2, name: 'Bob', tenantId: 1, isDeleted: true },
+        { id: 3, name: 'Carol', tenantId: 2, isDeleted: false },
+      ],
+      orders: [
+        { id: 10, userId: 1, amount: 100, isDeleted: false },
+        { id: 11, userId: 1, amount: 250, isDeleted: true },
+        { id: 12, userId: 2, amount: 75, isDeleted: false },
+      ],
+    });
+    dbContext = new DbContext(provider).setQueryFilterParameters({ tenantId: 1 });
+    dbContext.modelBuilder
+      .entity<TenantUser>('users')
+      .hasQueryFilter(u => u.isDeleted === false)
+      .hasQueryFilter((u, params) => u.tenantId === params.tenantId)
+      .hasMany<TenantOrder>(u => u.orders)
+      .withForeignKey(o => o.userId);
+    dbContext.modelBuilder.entity<TenantOrder>('orders').hasQueryFilter(o => o.isDeleted === false);
+
+    users = dbContext.set<TenantUser>('users');
+    orders = dbContext.set<TenantOrder>('orders');
+  });
+
+  test('ANDs the filters into the WHERE clause', () => {
+    expect(users.where(u => u.name === 'Alice').toQueryString()).toEqual(`SELECT *
+FROM [users] AS [u]
+WHERE (([u].[name] = N'Alice') AND (([u].[isDeleted] = 0) AND ([u].[tenantId] = 1)))`);
+  });
+
+  test('Reads the filter parameters when the query is built', () => {
+    const query = users.query();
+    dbContext.setQueryFilterParameters({ tenantId: 2 });
+
+    expect(query.toQueryString()).toContain('([u].[tenantId] = 2)');
+  });
+
+  test('Adds the filters of joined tables to the ON clause', () => {
+    const query = users
+      .join(
+        orders,
+        u => u.id,
+        o => o.userId,
+        (user, order) => ({ user, order }),
+      )
+      .select(j => ({ name: j.user.name, amount: j.order.amount }));
+
+    expect(query.toQueryString()).toEqual(`SELECT [u].[name] AS [name], [o].[amount] AS [amount]
+FROM [users] AS [u]
+INNER JOIN [orders] AS [o] ON (([u].[id] = [o].[userId]) AND ([o].[isDeleted] = 0))
+WHERE (([u].[isDeleted] = 0) AND ([u].[tenantId] = 1))`);
+  });
+
+  test('Filters correlated subqueries', () => {
+    const exists = users.whereExists(
+      orders,
+      u => u.id,
+      o => o.userId,
+      query => query.select(_ => 1),
+    );
+    expect(exists.toQueryString()).toContain('AND ([o].[isDeleted] = 0)');
+
+    const withCount = users
+      .select(u => ({ id: u.id }))
+      .withSubquery(
+        'orderCount',
+        orders,
+        u => u.id,
+        o => o.userId,
+        query => query.count(),
+      );
+    expect(withCount.toQueryString()).toContain('AND ([o].[isDeleted] = 0)');
+
+    const navigation = users.where(u => u.orders.some(o => o.amount > 200));
+    expect(navigation.toQueryString()).toContain('AND ([o1].[isDeleted] = 0)');
+  });
+
+  test('Applies the filters when executing', async () => {
+    await expect(users.pluckAsync(u => u.name)).resolves.toEqual(['Alice']);
+
+    const [alice] = await users.include(u => u.orders).toListAsync();
+    expect(alice.orders.map(o => o.id)).toEqual([10]);
+  });
+
+  test('ignoreQueryFilters() disables the filters', async () => {
+    const query = users.ignoreQueryFilters();
+    expect(query.toQueryString()).toEqual(`SELECT *
+FROM [users] AS [u]`);
+
+    await expect(query.where(u => u.id > 0).pluckAsync(u => u.name)).resolves.toEqual([
+      'Alice',
+      'Bob',
+      'Carol',
+    ]);
+
+    const [alice] = await query
+      .where(u => u.id === 1)
+      .include(u => u.orders)
+      .toListAsync();
+    expect(alice.orders.map(o => o.id)).toEqual([10, 11]);
+  });
+});
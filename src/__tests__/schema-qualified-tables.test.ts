@@ -0,0 +1,116 @@
+import { DbContext } from '../core/context/DbContext';
+import { SelectExpression } from '../core/expressions/SelectExpression';
+import { TableExpression } from '../core/expressions/TableExpression';
+import { InMemoryDatabaseProvider } from '../core/providers/InMemoryDatabaseProvider';
+import { IDatabaseProvider } from '../core/query/Types';
+import { PostgreSqlGenerationVisitor } from '../core/visitors/PostgreSqlGenerationVisitor';
+import { ExpressionDeserializer } from '../utils/ExpressionDeserializer';
+import {
+  ExpressionJson,
+  ExpressionJsonValidator,
+  SelectExpressionJson,
+} from '../utils/ExpressionJson';
+import { ExpressionSerializer } from '../utils/ExpressionSerializer';
+import { Order, User } from './common/models';
+
+describe('Schema-qualified tables', () => {
+  const mockProvider: IDatabaseProvider = {
+    execAsync: async () => [],
+  };
+
+  let dbContext: DbContext;
+
+  beforeEach(() => {
+    dbContext = new DbContext(mockProvider);
+  });
+
+  test('Renders schema-qualified tables in FROM and JOIN', () => {
+    const users = dbContext.set<User>({ schema: 'identity', table: 'users' });
+    const orders = dbContext.set<Order>({ schema: 'sales', table: 'orders' });
+
+    const query = users
+      .join(
+        orders,
+        u => u.id,
+        o => o.userId,
+        (user, order) => ({ user, order }),
+      )
+      .select(j => ({ name: j.user.name, amount: j.order.amount }));
+
+    expect(query.toQueryString()).toEqual(`SELECT [u].[name] AS [name], [o].[amount] AS [amount]
+FROM [identity].[users] AS [u]
+INNER JOIN [sales].[orders] AS [o] ON ([u].[id] = [o].[userId])`);
+  });
+
+  test('Renders three-part names for other databases', () => {
+    const orders = dbContext.set<Order>({ database: 'archive', schema: 'sales', table: 'orders' });
+
+    expect(orders.where(o => o.amount > 100).toQueryString()).toEqual(`SELECT *
+FROM [archive].[sales].[orders] AS [o]
+WHERE ([o].[amount] > 100)`);
+  });
+
+  test('Qualifies tables inside subqueries', () => {
+    const users = dbContext.set<User>('users');
+    const orders = dbContext.set<Order>({ schema: 'sales', table: 'orders' });
+
+    const query = users.whereIn(
+      u => u.id,
+      orders.where(o => o.status === 'completed').select(o => o.userId),
+    );
+
+    expect(query.toQueryString()).toEqual(`SELECT *
+FROM [users] AS [u]
+WHERE [u].[id] IN (
+  (SELECT [o].[userId]
+    FROM [sales].[orders] AS [o]
+    WHERE ([o].[status] = N'completed')))`);
+  });
+
+  test('Uses the dialect quoting for every part of the name', () => {
+    dbContext.useDialect('postgres');
+    const orders = dbContext.set<Order>({ schema: 'sales', table: 'orders' });
+
+    expect(orders.toQueryString()).toEqual(`SELECT *
+FROM "sales"."orders" AS "o"`);
+  });
+
+  test('Carries schema and database through serialization', () => {
+    const orders = dbContext.set<Order>({ database: 'archive', schema: 'sales', table: 'orders' });
+    const json = ExpressionSerializer.serialize(orders.query().toMetadata()) as ExpressionJson &
+      SelectExpressionJson;
+
+    expect(json.formatVersion).toBe(2);
+    expect(json.fromTable).toEqual({
+      type: 'TableExpression',
+      tableName: 'orders',
+      alias: 'o',
+      schema: 'sales',
+      database: 'archive',
+    });
+    expect(ExpressionJsonValidator.validate(json).valid).toBe(true);
+
+    const select = ExpressionDeserializer.deserialize(json) as SelectExpression;
+    expect((select.getFromTable() as TableExpression).getSchema()).toBe('sales');
+    expect(select.accept(new PostgreSqlGenerationVisitor())).toEqual(`SELECT *
+FROM "archive"."sales"."orders" AS "o"`);
+  });
+
+  test('Accepts version 1 payloads without schema fields', () => {
+    const json = ExpressionSerializer.serialize(
+      dbContext.set<User>('users').query().toMetadata(),
+    ) as SelectExpressionJson;
+
+    expect(json.fromTable).toEqual({ type: 'TableExpression', tableName: 'users', alias: 'u' });
+    expect(ExpressionJsonValidator.validate({ ...json, formatVersion: 1 }).valid).toBe(true);
+  });
+
+  test('In-memory provider reads qualified tables by dotted name', async () => {
+    const provider = new InMemoryDatabaseProvider({
+      'sales.orders': [{ id: 1, userId: 1, amount: 50, status: 'completed' }],
+    });
+    const orders = new DbContext(provider).set<Order>({ schema: 'sales', table: 'orders' });
+
+    await expect(orders.pluckAsync(o => o.amount)).resolves.toEqual([50]);
+  });
+});
@@ -0,0 +1,227 @@
+import { DbContext } from '../core/context/DbContext';
+import { DbSet } from '../core/context/DbSet';
+import { SqlDialects } from '../core/dialects/SqlDialect';
+import { Expression } from '../core/expressions/Expression';
+import { InMemoryDatabaseProvider } from '../core/providers/InMemoryDatabaseProvider';
+import { ExpressionDeserializer } from '../utils/ExpressionDeserializer';
+import { ExpressionJson, ExpressionJsonValidator } from '../utils/ExpressionJson';
+import { User } from './common/models';
+
+describe('Set operations', () => {
+  let provider: InMemoryDatabaseProvider;
+  let dbContext: DbContext;
+  let users: DbSet<User>;
+  let admins: DbSet<User>;
+  let execAsync: jest.SpyInstance;
+
+  const lastStatement = (dialect = 'sqlserver') => {
+    const json = execAsync.mock.calls[execAsync.mock.calls.length - 1][0] as ExpressionJson;
+    const expr = ExpressionDeserializer.deserialize(json) as Expression;
+    return expr.accept(SqlDialects.resolve(dialect).createVisitor());
+  };
+
+  beforeEach(() => {
+    provider = new InMemoryDatabaseProvider({
+      users: [
+        { id: 1, name: 'Alice', email: 'alice@x.com', age: 30, isActive: true },
+        { id: 2, name: 'Bob', email: 'bob@x.com', age: 17, isActive: false },
+        { id: 3, name: 'Carol', email: 'carol@x.com', age: 45, isActive: true },
+      ],
+      admins: [
+        { id: 1, name: 'Bob', email: 'bob@x.com' },
+        { id: 2, name: 'Dave', email: 'dave@x.com' },
+      ],
+    });
+    dbContext = new DbContext(provider);
+    users = dbContext.set<User>('users');
+    admins = dbContext.set<User>('admins');
+    execAsync = jest.spyOn(provider, 'execAsync');
+  });
+
+  test('union() removes duplicated rows and unionAll() keeps them', async () => {
+    const fromUsers = users.select(u => ({ name: u.name, email: u.email }));
+    const fromAdmins = admins.select(a => ({ name: a.name, email: a.email }));
+
+    const union = await fromUsers.union(fromAdmins).toListAsync();
+    expect(union.map(r => r.name)).toEqual(['Alice', 'Bob', 'Carol', 'Dave']);
+    expect(lastStatement()).toEqual(`SELECT *
+FROM (
+  SELECT [u].[name] AS [name], [u].[email] AS [email]
+    FROM [users] AS [u]
+  UNION
+  SELECT [a].[name] AS [name], [a].[email] AS [email]
+    FROM [admins] AS [a]
+) AS [u]`);
+
+    const unionAll = await fromUsers.unionAll(fromAdmins).toListAsync();
+    expect(unionAll.map(r => r.name)).toEqual(['Alice', 'Bob', 'Carol', 'Bob', 'Dave']);
+    expect(lastStatement()).toContain('  UNION ALL\n');
+  });
+
+  test('intersect() and except() compare whole rows', async () => {
+    const adults = users.where(u => u.age >= 18);
+    const active = users.where(u => u.isActive === false);
+
+    expect((await users.query().intersect(active).toListAsync()).map(u => u.id)).toEqual([2]);
+    expect((await users.query().except(adults).toListAsync()).map(u => u.id)).toEqual([2]);
+    expect(lastStatement('postgres')).toEqual(`SELECT *
+FROM (
+  SELECT *
+    FROM "users" AS "u"
+  EXCEPT
+  SELECT *
+    FROM "users" AS "u"
+    WHERE ("u"."age" >= 18)
+) AS "u"`);
+  });
+
+  test('Orders and paginates the combined rows in the syntax of each dialect', async () => {
+    const query = users
+      .select(u => ({ name: u.name }))
+      .union(admins.select(a => ({ name: a.name })))
+      .where(r => r.name !== 'Alice')
+      .orderByDesc(r => r.name)
+      .limit(2);
+
+    expect((await query.toListAsync()).map(r => r.name)).toEqual(['Dave', 'Carol']);
+    expect(lastStatement()).toEqual(`SELECT TOP 2 *
+FROM (
+  SELECT [u].[name] AS [name]
+    FROM [users] AS [u]
+  UNION
+  SELECT [a].[name] AS [name]
+    FROM [admins] AS [a]
+) AS [u]
+WHERE ([u].[name] <> N'Alice')
+ORDER BY [u].[name] DESC`);
+    expect(lastStatement('mysql')).toEqual(`SELECT *
+FROM (
+  SELECT \`u\`.\`name\` AS \`name\`
+    FROM \`users\` AS \`u\`
+  UNION
+  SELECT \`a\`.\`name\` AS \`name\`
+    FROM \`admins\` AS \`a\`
+) AS \`u\`
+WHERE (\`u\`.\`name\` <> 'Alice')
+ORDER BY \`u\`.\`name\` DESC
+LIMIT 2`);
+  });
+
+  test('Reads the projected names of the combined rows, not the mapped columns', async () => {
+    provider = new InMemoryDatabaseProvider({
+      users: [
+        { id: 1, full_name: 'Alice' },
+        { id: 2, full_name: 'Bob' },
+      ],
+      admins: [{ id: 1, full_name: 'Dave' }],
+    });
+    execAsync = jest.spyOn(provider, 'execAsync');
+    dbContext = new DbContext(provider);
+    for (const table of ['users', 'admins']) {
+      dbContext.modelBuilder.entity<User>(table, entity => {
+        entity.property(u => u.name).hasColumnName('full_name');
+      });
+    }
+
+    const rows = await dbContext
+      .set<User>('users')
+      .select(u => ({ name: u.name }))
+      .union(dbContext.set<User>('admins').select(a => ({ name: a.name })))
+      .where(r => r.name !== 'Alice')
+      .orderByDesc(r => r.name)
+      .toListAsync();
+
+    expect(rows).toEqual([{ name: 'Dave' }, { name: 'Bob' }]);
+    expect(lastStatement()).toEqual(`SELECT *
+FROM (
+  SELECT [u].[full_name] AS [name]
+    FROM [users] AS [u]
+  UNION
+  SELECT [a].[full_name] AS [name]
+    FROM [admins] AS [a]
+) AS [u]
+WHERE ([u].[name] <> N'Alice')
+ORDER BY [u].[name] DESC`);
+  });
+
+  test('Wraps paginated operands and drops the order of the others', async () => {
+    const youngest = users
+      .orderBy(u => u.age)
+      .limit(1)
+      .select(u => ({ name: u.name }));
+    const ordered = admins.orderBy(a => a.name).select(a => ({ name: a.name }));
+
+    const rows = await youngest.unionAll(ordered).unionAll(ordered).toListAsync();
+
+    expect(rows.map(r => r.name)).toEqual(['Bob', 'Bob', 'Dave', 'Bob', 'Dave']);
+    expect(lastStatement()).toEqual(`SELECT *
+FROM (
+  SELECT *
+    FROM (
+      SELECT TOP 1 [u].[name] AS [name]
+        FROM [users] AS [u]
+        ORDER BY [u].[age] ASC
+    ) AS [u]
+  UNION ALL
+  SELECT [a].[name] AS [name]
+    FROM [admins] AS [a]
+  UNION ALL
+  SELECT [a].[name] AS [name]
+    FROM [admins] AS [a]
+) AS [u]`);
+    expect(lastStatement('postgres')).toContain(`        ORDER BY "u"."age" ASC
+        LIMIT 1
+    ) AS "u"`);
+  });
+
+  test('Rejects queries with incompatible columns', () => {
+    expect(() =>
+      users
+        .select(u => ({ name: u.name, email: u.email }))
+        .union(admins.select(a => ({ name: a.name })) as any),
+    ).toThrow('union() requires queries with the same number of columns, but got 2 and 1');
+
+    expect(() =>
+      users
+        .select(u => ({ name: u.name, email: u.email }))
+        .intersect(admins.select(a => ({ email: a.email, name: a.name }))),
+    ).toThrow(
+      "intersect() requires the columns in the same order, but column 1 is 'name' in the first query and 'email' in the second",
+    );
+
+    expect(() => users.except(admins)).toThrow(
+      "except() of queries without select() requires both to read the same table, but got 'users' and 'admins'",
+    );
+
+    expect(() => users.union(admins.select(a => ({ name: a.name })) as any)).toThrow(
+      'union() requires both queries to use select(), or neither of them',
+    );
+  });
+
+  test('Serializes a valid tree and cannot be updated or deleted', async () => {
+    await users
+      .where(u => u.isActive)
+      .union(users.where(u => u.age < 18))
+      .toListAsync();
+
+    const json = execAsync.mock.calls[0][0];
+    expect(json).toMatchObject({
+      type: 'SelectExpression',
+      fromTable: {
+        type: 'DerivedTableExpression',
+        alias: 'u',
+        query: { type: 'CompoundSelectExpression', operation: 'UNION' },
+      },
+    });
+    expect(ExpressionJsonValidator.validate(json).valid).toBe(true);
+
+    json.fromTable.query.operation = 'MINUS';
+    expect(ExpressionJsonValidator.validate(json).errors).toEqual([
+      { path: '$.fromTable.query.operation', message: "unknown set operation 'MINUS'" },
+    ]);
+
+    await expect(
+      users.query().union(users.query()).deleteAsync({ allowWithoutWhere: true }),
+    ).rejects.toThrow('deleteAsync() cannot be used on queries with select()');
+  });
+});
@@ -0,0 +1,211 @@
+import { DbContext } from '../core/context/DbContext';
+import { DbSet } from '../core/context/DbSet';
+import { SqlDialects } from '../core/dialects/SqlDialect';
+import { Expression } from '../core/expressions/Expression';
+import { InMemoryDatabaseProvider } from '../core/providers/InMemoryDatabaseProvider';
+import { IDatabaseProvider } from '../core/query/Types';
+import { ExpressionDeserializer } from '../utils/ExpressionDeserializer';
+import { User } from './common/models';
+
+describe('Terminal Operators', () => {
+  let execAsync: jest.Mock;
+  let dbContext: DbContext;
+  let users: DbSet<User>;
+
+  const lastMetadata = () => execAsync.mock.calls[execAsync.mock.calls.length - 1][0];
+
+  const lastStatement = (dialect = 'sqlserver') => {
+    const expr = ExpressionDeserializer.deserialize(lastMetadata()) as Expression;
+    return expr.accept(SqlDialects.resolve(dialect).createVisitor());
+  };
+
+  beforeEach(() => {
+    execAsync = jest.fn().mockResolvedValue([
+      { id: 1, name: 'Alice' },
+      { id: 2, name: 'Bob' },
+    ]);
+    const provider: IDatabaseProvider = { execAsync };
+    dbContext = new DbContext(provider);
+    users = dbContext.set<User>('users');
+  });
+
+  test('toListAsync returns every row', async () => {
+    const result = await users.where(u => u.age > 18).toListAsync();
+
+    expect(result).toEqual([
+      { id: 1, name: 'Alice' },
+      { id: 2, name: 'Bob' },
+    ]);
+    expect(lastMetadata().limitValue).toBeNull();
+  });
+
+  test('toListAsync rejects non-array provider results', async () => {
+    execAsync.mockResolvedValue({ rowsAffected: 1 });
+
+    await expect(users.toListAsync()).rejects.toThrow('must return an array of rows');
+  });
+
+  test('firstAsync requests TOP 1 and returns the first row', async () => {
+    const query = users.where(u => u.age > 18).orderBy(u => u.name);
+    const result = await query.firstAsync();
+
+    expect(result).toEqual({ id: 1, name: 'Alice' });
+    expect(lastMetadata().limitValue).toEqual({
+      type: 'ConstantExpression',
+      value: 1,
+      valueType: 'integer',
+    });
+    expect(query.limit(1).toQueryString()).toEqual(`SELECT TOP 1 *
+FROM [users] AS [u]
+WHERE ([u].[age] > 18)
+ORDER BY [u].[name] ASC`);
+  });
+
+  test('firstAsync throws when there are no rows', async () => {
+    execAsync.mockResolvedValue([]);
+
+    await expect(users.firstAsync()).rejects.toThrow('Sequence contains no elements');
+  });
+
+  test('firstOrDefaultAsync returns null when there are no rows', async () => {
+    execAsync.mockResolvedValue([]);
+
+    await expect(users.firstOrDefaultAsync()).resolves.toBeNull();
+    expect(lastMetadata().limitValue.value).toBe(1);
+  });
+
+  test('singleAsync requests TOP 2 and returns the only row', async () => {
+    execAsync.mockResolvedValue([{ id: 1, name: 'Alice' }]);
+
+    const result = await users.where(u => u.id === 1).singleAsync();
+
+    expect(result).toEqual({ id: 1, name: 'Alice' });
+    expect(lastMetadata().limitValue.value).toBe(2);
+  });
+
+  test('singleAsync throws when more than one row matches', async () => {
+    await expect(users.singleAsync()).rejects.toThrow('Sequence contains more than one element');
+  });
+
+  test('singleAsync throws when no row matches', async () => {
+    execAsync.mockResolvedValue([]);
+
+    await expect(users.singleAsync()).rejects.toThrow('Sequence contains no elements');
+  });
+
+  test('anyAsync asks the database with CASE WHEN EXISTS and reads the result', async () => {
+    execAsync.mockResolvedValue([{ any: 1 }]);
+
+    const result = await users
+      .where(u => u.isActive === true)
+      .orderBy(u => u.name)
+      .anyAsync();
+
+    expect(result).toBe(true);
+    expect(lastStatement()).toEqual(`SELECT CASE WHEN EXISTS (
+    (SELECT 1
+        FROM [users] AS [u]
+        WHERE ([u].[isActive] = 1))) THEN 1 ELSE 0 END AS [any]`);
+    expect(lastStatement('mysql')).toEqual(`SELECT CASE WHEN EXISTS (
+    (SELECT 1
+        FROM \`users\` AS \`u\`
+        WHERE (\`u\`.\`isActive\` = TRUE))) THEN 1 ELSE 0 END AS \`any\``);
+  });
+
+  test('anyAsync returns false when the database answers 0', async () => {
+    execAsync.mockResolvedValue([{ any: 0 }]);
+
+    await expect(users.anyAsync()).resolves.toBe(false);
+  });
+
+  test('firstAsync, singleAsync and anyAsync keep the limit and offset of the query', async () => {
+    const context = new DbContext(
+      new InMemoryDatabaseProvider({
+        users: [
+          { id: 1, name: 'Alice' },
+          { id: 2, name: 'Bob' },
+          { id: 3, name: 'Carol' },
+        ],
+      }),
+    );
+    const people = context.set<User>('users');
+
+    await expect(people.limit(1).singleAsync()).resolves.toEqual({ id: 1, name: 'Alice' });
+    await expect(people.offset(2).limit(5).singleAsync()).resolves.toEqual({
+      id: 3,
+      name: 'Carol',
+    });
+    await expect(people.offset(1).firstAsync()).resolves.toEqual({ id: 2, name: 'Bob' });
+    await expect(people.limit(0).firstOrDefaultAsync()).resolves.toBeNull();
+    await expect(people.limit(0).anyAsync()).resolves.toBe(false);
+    await expect(people.offset(3).anyAsync()).resolves.toBe(false);
+    await expect(people.where(u => u.name === 'Bob').anyAsync()).resolves.toBe(true);
+  });
+
+  test('a smaller limit of the query is sent instead of TOP 1 or TOP 2', async () => {
+    execAsync.mockResolvedValue([{ id: 1, name: 'Alice' }]);
+    await users.limit(1).singleAsync();
+    expect(lastMetadata().limitValue.value).toBe(1);
+
+    await users.limit(10).singleAsync();
+    expect(lastMetadata().limitValue.value).toBe(2);
+  });
+
+  test('countAsync projects COUNT(*) and converts the result', async () => {
+    execAsync.mockResolvedValue([{ count: '42' }]);
+
+    const result = await users
+      .where(u => u.age > 18)
+      .orderBy(u => u.name)
+      .countAsync();
+
+    const metadata = lastMetadata();
+    expect(result).toBe(42);
+    expect(metadata.projections[0].alias).toBe('count');
+    expect(metadata.projections[0].expression.functionName).toBe('COUNT');
+    expect(metadata.orderByColumns).toEqual([]);
+  });
+
+  test('countAsync rejects paginated queries', async () => {
+    await expect(users.limit(10).countAsync()).rejects.toThrow(
+      'countAsync() does not support grouped, distinct or paginated queries',
+    );
+    expect(execAsync).not.toHaveBeenCalled();
+  });
+
+  test('pluckAsync projects a single column', async () => {
+    execAsync.mockResolvedValue([{ value: 'Alice' }, { value: 'Bob' }]);
+
+    const result = await users.where(u => u.age > 18).pluckAsync(u => u.name);
+
+    expect(result).toEqual(['Alice', 'Bob']);
+    expect(lastMetadata().projections).toEqual([
+      {
+        type: 'ProjectionExpression',
+        expression: { type: 'ColumnExpression', columnName: 'name', tableAlias: 'u' },
+        alias: 'value',
+      },
+    ]);
+  });
+
+  test('pluckAsync reads from the projected rows of a select', async () => {
+    const result = await users.select(u => ({ id: u.id, name: u.name })).pluckAsync(u => u.id);
+
+    expect(result).toEqual([1, 2]);
+  });
+
+  test('toMapAsync indexes rows by key', async () => {
+    const result = await users.toMapAsync(u => u.id);
+
+    expect(result.get(2)).toEqual({ id: 2, name: 'Bob' });
+    expect(result.size).toBe(2);
+  });
+
+  test('toMapAsync throws on duplicate keys', async () => {
+    execAsync.mockResolvedValue([{ id: 1 }, { id: 1 }]);
+
+    await expect(users.toMapAsync(u => u.id)).rejects.toThrow(
+      "An element with the key '1' has already been added",
+    );
+  });
+});
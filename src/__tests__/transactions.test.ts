@@ -0,0 +1,114 @@
+import { DbContext } from '../core/context/DbContext';
+import { InMemoryDatabaseProvider } from '../core/providers/InMemoryDatabaseProvider';
+import { User } from './common/models';
+
+describe('Transactions', () => {
+  let provider: InMemoryDatabaseProvider;
+  let dbContext: DbContext;
+  let begin: jest.SpyInstance;
+
+  const names = () => provider.getTable('users').map(u => u.name);
+
+  beforeEach(() => {
+    provider = new InMemoryDatabaseProvider({
+      users: [{ id: 1, name: 'Alice', isActive: true }],
+    }).useIdentity('users');
+    dbContext = new DbContext(provider);
+    begin = jest.spyOn(provider, 'beginTransactionAsync');
+  });
+
+  test('Commits the statements of the unit of work and returns its result', async () => {
+    const result = await dbContext.transaction(
+      async tx => {
+        const users = tx.set<User>('users');
+        const bob = await users.insert({ name: 'Bob', isActive: true });
+        await users.where(u => u.id === 1).updateAsync(() => ({ isActive: false }));
+        return bob.id;
+      },
+      { isolationLevel: 'SERIALIZABLE' },
+    );
+
+    expect(result).toBe(2);
+    expect(begin).toHaveBeenCalledWith({ isolationLevel: 'SERIALIZABLE' });
+    expect(provider.getTable('users')).toEqual([
+      { id: 1, name: 'Alice', isActive: false },
+      { id: 2, name: 'Bob', isActive: true },
+    ]);
+  });
+
+  test('Runs queries and statements on the transaction provider', async () => {
+    await dbContext.transaction(async tx => {
+      const transaction = await begin.mock.results[0].value;
+      const execAsync = jest.spyOn(transaction, 'execAsync');
+
+      await tx.set<User>('users').insert({ name: 'Bob' });
+      await expect(tx.set<User>('users').query().countAsync()).resolves.toBe(2);
+
+      expect(execAsync).toHaveBeenCalledTimes(2);
+    });
+  });
+
+  test('Rolls back and rethrows when the unit of work throws', async () => {
+    await expect(
+      dbContext.transaction(async tx => {
+        await tx.set<User>('users').insert({ name: 'Bob' });
+        throw new Error('Payment declined');
+      }),
+    ).rejects.toThrow('Payment declined');
+
+    expect(names()).toEqual(['Alice']);
+  });
+
+  test('Nested transactions use savepoints', async () => {
+    await dbContext.transaction(async tx => {
+      await tx.set<User>('users').insert({ name: 'Bob' });
+
+      await expect(
+        tx.transaction(async inner => {
+          await inner.set<User>('users').insert({ name: 'Carol' });
+          throw new Error('Invalid');
+        }),
+      ).rejects.toThrow('Invalid');
+
+      await tx.transaction(inner => inner.set<User>('users').insert({ name: 'Dave' }));
+    });
+
+    expect(names()).toEqual(['Alice', 'Bob', 'Dave']);
+    expect(begin).toHaveBeenCalledTimes(1);
+  });
+
+  test('Aliases and common tables of the transaction stay out of the context', async () => {
+    await dbContext.transaction(async tx => {
+      tx.set<User>('admins');
+      tx.with(
+        'active',
+        tx.set<User>('users').where(u => u.isActive === true),
+      );
+      expect(tx.set<User>('accounts').query().toQueryString()).toContain('AS [a2]');
+    });
+
+    expect(dbContext.set<User>('accounts').query().toQueryString()).toEqual(`SELECT *
+FROM [accounts] AS [a]`);
+    expect(() => dbContext.with('active', dbContext.set<User>('users'))).not.toThrow();
+  });
+
+  test('Rejects invalid uses', async () => {
+    await expect(
+      new DbContext({ execAsync: async () => [] }).transaction(async () => 1),
+    ).rejects.toThrow('The database provider does not support transactions');
+
+    await expect(
+      dbContext.transaction(tx =>
+        tx.transaction(async () => 1, { isolationLevel: 'READ COMMITTED' }),
+      ),
+    ).rejects.toThrow('The isolation level can only be set on the outermost transaction');
+
+    let escaped: DbContext | null = null;
+    await dbContext.transaction(async tx => {
+      escaped = tx;
+    });
+    await expect(escaped!.set<User>('users').toListAsync()).rejects.toThrow(
+      'The transaction has already been committed or rolled back',
+    );
+  });
+});
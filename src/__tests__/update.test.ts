@@ -0,0 +1,155 @@
+import { DbContext } from '../core/context/DbContext';
+import { DbSet } from '../core/context/DbSet';
+import { SqlDialects } from '../core/dialects/SqlDialect';
+import { Expression } from '../core/expressions/Expression';
+import { JoinType } from '../core/expressions/JoinExpression';
+import { InMemoryDatabaseProvider } from '../core/providers/InMemoryDatabaseProvider';
+import { ExpressionDeserializer } from '../utils/ExpressionDeserializer';
+import { ExpressionJson, ExpressionJsonValidator } from '../utils/ExpressionJson';
+import { Order, User } from './common/models';
+
+interface Player extends User {
+  score: number;
+  lastLogin: number;
+}
+
+describe('Set-based update', () => {
+  let provider: InMemoryDatabaseProvider;
+  let dbContext: DbContext;
+  let players: DbSet<Player>;
+  let orders: DbSet<Order>;
+  let execAsync: jest.SpyInstance;
+
+  const lastStatement = (dialect = 'sqlserver') => {
+    const json = execAsync.mock.calls[execAsync.mock.calls.length - 1][0] as ExpressionJson;
+    const expr = ExpressionDeserializer.deserialize(json) as Expression;
+    return expr.accept(SqlDialects.resolve(dialect).createVisitor());
+  };
+
+  beforeEach(() => {
+    provider = new InMemoryDatabaseProvider({
+      players: [
+        { id: 1, name: 'Alice', isActive: true, score: 10, lastLogin: 5 },
+        { id: 2, name: 'Bob', isActive: true, score: 20, lastLogin: 50 },
+        { id: 3, name: 'Carol', isActive: true, score: 30, lastLogin: 1 },
+      ],
+      orders: [
+        { id: 10, userId: 1, amount: 100 },
+        { id: 11, userId: 1, amount: 300 },
+        { id: 12, userId: 2, amount: 50 },
+      ],
+    });
+    dbContext = new DbContext(provider);
+    players = dbContext.set<Player>('players');
+    orders = dbContext.set<Order>('orders');
+    execAsync = jest.spyOn(provider, 'execAsync');
+  });
+
+  test('Updates the filtered rows and returns the rows affected', async () => {
+    const updated = await players
+      .where(p => p.lastLogin < 10)
+      .updateAsync(p => ({ isActive: false, score: p.score - 1 }));
+
+    expect(updated).toBe(2);
+    expect(lastStatement()).toEqual(`UPDATE [p]
+SET [isActive] = 0, [score] = ([p].[score] - 1)
+FROM [players] AS [p]
+WHERE ([p].[lastLogin] < 10)`);
+    expect(provider.getTable('players').map(p => [p.name, p.isActive, p.score])).toEqual([
+      ['Alice', false, 9],
+      ['Bob', true, 20],
+      ['Carol', false, 29],
+    ]);
+  });
+
+  test('Reads the new values from the row before the update', async () => {
+    await players
+      .where(p => p.id === 1)
+      .updateAsync(p => ({ score: p.lastLogin, lastLogin: p.score }));
+
+    expect(provider.getTable('players')[0]).toMatchObject({ score: 5, lastLogin: 10 });
+  });
+
+  test('Uses the join syntax of each dialect', async () => {
+    const query = players
+      .join(
+        orders,
+        p => p.id,
+        o => o.userId,
+        (player, order) => ({ player, order }),
+      )
+      .where(j => j.order.amount > 200);
+
+    const updated = await query.updateAsync(j => ({ score: j.order.amount }));
+
+    expect(updated).toBe(1);
+    expect(provider.getTable('players')[0].score).toBe(300);
+    expect(lastStatement()).toEqual(`UPDATE [p]
+SET [score] = [o].[amount]
+FROM [players] AS [p]
+INNER JOIN [orders] AS [o] ON ([p].[id] = [o].[userId])
+WHERE ([o].[amount] > 200)`);
+    expect(lastStatement('postgres')).toEqual(`UPDATE "players" AS "p"
+SET "score" = "o"."amount"
+FROM "orders" AS "o"
+WHERE (("p"."id" = "o"."userId") AND ("o"."amount" > 200))`);
+    expect(lastStatement('mysql')).toEqual(`UPDATE \`players\` AS \`p\`
+INNER JOIN \`orders\` AS \`o\` ON (\`p\`.\`id\` = \`o\`.\`userId\`)
+SET \`p\`.\`score\` = \`o\`.\`amount\`
+WHERE (\`o\`.\`amount\` > 200)`);
+  });
+
+  test('Only inner joins can be moved into the FROM clause', async () => {
+    await players
+      .join(
+        orders,
+        p => p.id,
+        o => o.userId,
+        (player, order) => ({ player, order }),
+        JoinType.LEFT,
+      )
+      .updateAsync(() => ({ isActive: false }));
+
+    expect(() => lastStatement('postgres')).toThrow(
+      'Only inner joins can be used to filter an UPDATE or DELETE in this dialect',
+    );
+  });
+
+  test('Maps properties to columns and applies the global query filters', async () => {
+    dbContext.modelBuilder
+      .entity<Player>('players', entity => {
+        entity.property(p => p.isActive).hasColumnName('active');
+      })
+      .hasQueryFilter(p => p.id !== 3);
+
+    await players.query().updateAsync(p => ({ isActive: false }));
+
+    expect(lastStatement()).toEqual(`UPDATE [p]
+SET [active] = 0
+FROM [players] AS [p]
+WHERE ([p].[id] <> 3)`);
+  });
+
+  test('Accepts values from the query parameters', async () => {
+    await players
+      .withVariables({ bonus: 5 })
+      .where(p => p.id === 2)
+      .updateAsync((p, params) => ({ score: p.score + params.bonus }));
+
+    expect(provider.getTable('players')[1].score).toBe(25);
+    expect(ExpressionJsonValidator.validate(execAsync.mock.calls[0][0]).valid).toBe(true);
+  });
+
+  test('Rejects projected, grouped or paginated queries', async () => {
+    await expect(
+      players
+        .where(p => p.id === 1)
+        .limit(1)
+        .updateAsync(() => ({ isActive: false })),
+    ).rejects.toThrow('updateAsync() cannot be used on queries with select()');
+
+    await expect(players.where(p => p.id === 1).updateAsync(p => ({ ...p }))).rejects.toThrow(
+      "Unsupported assignment '...p'",
+    );
+  });
+});
@@ -0,0 +1,177 @@
+import { DbContext } from '../core/context/DbContext';
+import { DbSet } from '../core/context/DbSet';
+import { SqlDialects } from '../core/dialects/SqlDialect';
+import { Expression } from '../core/expressions/Expression';
+import { InMemoryDatabaseProvider } from '../core/providers/InMemoryDatabaseProvider';
+import { ExpressionDeserializer } from '../utils/ExpressionDeserializer';
+import { ExpressionJson, ExpressionJsonValidator } from '../utils/ExpressionJson';
+
+interface Customer {
+  id: number;
+  tenantId: number;
+  externalId: string;
+  name: string;
+  visits: number;
+}
+
+describe('Upsert', () => {
+  let provider: InMemoryDatabaseProvider;
+  let dbContext: DbContext;
+  let customers: DbSet<Customer>;
+  let execAsync: jest.SpyInstance;
+
+  const lastStatement = (dialect = 'sqlserver') => {
+    const json = execAsync.mock.calls[execAsync.mock.calls.length - 1][0] as ExpressionJson;
+    const expr = ExpressionDeserializer.deserialize(json) as Expression;
+    return expr.accept(SqlDialects.resolve(dialect).createVisitor());
+  };
+
+  beforeEach(() => {
+    provider = new InMemoryDatabaseProvider({
+      customers: [{ id: 1, tenantId: 1, externalId: 'a', name: 'Alice', visits: 3 }],
+    }).useIdentity('customers');
+    dbContext = new DbContext(provider);
+    customers = dbContext.set<Customer>('customers');
+    execAsync = jest.spyOn(provider, 'execAsync');
+  });
+
+  test('Inserts new rows, updates existing ones and reports the action of each', async () => {
+    const result = await customers.upsert(
+      [
+        { externalId: 'b', name: 'Bob', visits: 1 },
+        { externalId: 'a', name: 'Alicia', visits: 1 },
+      ],
+      { match: c => c.externalId, update: c => ({ name: c.name }) },
+    );
+
+    expect(result).toEqual([
+      { entity: { id: 2, externalId: 'b', name: 'Bob', visits: 1 }, action: 'inserted' },
+      {
+        entity: { id: 1, tenantId: 1, externalId: 'a', name: 'Alicia', visits: 3 },
+        action: 'updated',
+      },
+    ]);
+    expect(execAsync).toHaveBeenCalledTimes(1);
+    expect(lastStatement()).toEqual(`MERGE INTO [customers] AS [c]
+USING (VALUES (N'b', N'Bob', 1), (N'a', N'Alicia', 1)) AS [source] ([externalId], [name], [visits])
+ON ([c].[externalId] = [source].[externalId])
+WHEN MATCHED THEN UPDATE SET [name] = [source].[name]
+WHEN NOT MATCHED THEN INSERT ([externalId], [name], [visits]) VALUES ([source].[externalId], [source].[name], [source].[visits])
+OUTPUT $action AS [__action], INSERTED.*;`);
+  });
+
+  test('Uses the upsert syntax of each dialect', async () => {
+    await customers.upsert([{ externalId: 'a', name: 'Alicia', visits: 1 }], {
+      match: c => c.externalId,
+      update: c => ({ name: c.name, visits: c.visits + 1 }),
+    });
+
+    expect(provider.getTable('customers')[0]).toMatchObject({ name: 'Alicia', visits: 2 });
+    expect(lastStatement('postgres'))
+      .toEqual(`INSERT INTO "customers" ("externalId", "name", "visits")
+VALUES ('a', 'Alicia', 1)
+ON CONFLICT ("externalId") DO UPDATE SET "name" = EXCLUDED."name", "visits" = (EXCLUDED."visits" + 1)
+RETURNING *, CASE WHEN xmax = 0 THEN 'INSERT' ELSE 'UPDATE' END AS "__action"`);
+    expect(lastStatement('mysql'))
+      .toEqual(`INSERT INTO \`customers\` (\`externalId\`, \`name\`, \`visits\`)
+VALUES ('a', 'Alicia', 1)
+ON DUPLICATE KEY UPDATE \`name\` = VALUES(\`name\`), \`visits\` = (VALUES(\`visits\`) + 1)`);
+    expect(lastStatement('sqlite'))
+      .toEqual(`INSERT INTO "customers" ("externalId", "name", "visits")
+VALUES ('a', 'Alicia', 1)
+ON CONFLICT ("externalId") DO UPDATE SET "name" = EXCLUDED."name", "visits" = (EXCLUDED."visits" + 1)
+RETURNING *`);
+  });
+
+  test('Matches composite keys and updates every other property by default', async () => {
+    const result = await customers.upsert(
+      [
+        { tenantId: 1, externalId: 'a', name: 'Alicia', visits: 9 },
+        { tenantId: 2, externalId: 'a', name: 'Ana', visits: 1 },
+      ],
+      { match: c => [c.tenantId, c.externalId] },
+    );
+
+    expect(result.map(r => r.action)).toEqual(['updated', 'inserted']);
+    expect(lastStatement()).toContain(
+      'ON ([c].[tenantId] = [source].[tenantId] AND [c].[externalId] = [source].[externalId])',
+    );
+    expect(lastStatement()).toContain(
+      'WHEN MATCHED THEN UPDATE SET [name] = [source].[name], [visits] = [source].[visits]',
+    );
+    expect(provider.getTable('customers').map(c => [c.id, c.name, c.visits])).toEqual([
+      [1, 'Alicia', 9],
+      [2, 'Ana', 1],
+    ]);
+  });
+
+  test('Maps properties to columns', async () => {
+    provider.seed('customers', [{ id: 1, external_id: 'a', name: 'Alice', visits: 3 }]);
+    dbContext.modelBuilder.entity<Customer>('customers', entity => {
+      entity.property(c => c.externalId).hasColumnName('external_id');
+    });
+
+    const [result] = await customers.upsert([{ externalId: 'a', name: 'Alicia' }], {
+      match: c => c.externalId,
+    });
+
+    expect(result).toEqual({
+      entity: { id: 1, externalId: 'a', name: 'Alicia', visits: 3 },
+      action: 'updated',
+    });
+    expect(lastStatement('postgres')).toContain(
+      'ON CONFLICT ("external_id") DO UPDATE SET "name" = EXCLUDED."name"',
+    );
+    expect(ExpressionJsonValidator.validate(execAsync.mock.calls[0][0]).valid).toBe(true);
+  });
+
+  test('Rejects rows without the match properties', async () => {
+    await expect(customers.upsert([{ name: 'Bob' }], { match: c => c.externalId })).rejects.toThrow(
+      "Row 0 of the upsert into 'customers' has no value for the match property 'externalId'",
+    );
+  });
+
+  test('Deduces the action from the affected rows on MySQL', async () => {
+    const mysql = new DbContext(provider, { dialect: 'mysql' }).set<Customer>('customers');
+    const upsert = (rows: Partial<Customer>[]) => mysql.upsert(rows, { match: c => c.externalId });
+
+    execAsync.mockResolvedValueOnce({ rowsAffected: 1 });
+    await expect(upsert([{ externalId: 'b', name: 'Bob' }])).resolves.toEqual([
+      { entity: { externalId: 'b', name: 'Bob' }, action: 'inserted' },
+    ]);
+
+    execAsync.mockResolvedValueOnce({ rowsAffected: 2 });
+    expect((await upsert([{ externalId: 'a', name: 'Alicia' }]))[0].action).toBe('updated');
+
+    execAsync.mockResolvedValueOnce({ rowsAffected: 0 });
+    expect((await upsert([{ externalId: 'a', name: 'Alicia' }]))[0].action).toBe('updated');
+
+    execAsync.mockResolvedValueOnce({ rowsAffected: 4 });
+    expect((await upsert([{ externalId: 'a' }, { externalId: 'b' }])).map(r => r.action)).toEqual([
+      'updated',
+      'updated',
+    ]);
+
+    execAsync.mockResolvedValueOnce({ rowsAffected: 3 });
+    expect((await upsert([{ externalId: 'a' }, { externalId: 'c' }])).map(r => r.action)).toEqual([
+      'unknown',
+      'unknown',
+    ]);
+  });
+
+  test('Reports an unknown action on SQLite, with the returned rows', async () => {
+    const sqlite = new DbContext(provider, { dialect: 'sqlite' }).set<Customer>('customers');
+    execAsync.mockResolvedValueOnce({
+      rowsAffected: 1,
+      rows: [{ id: 2, externalId: 'b', name: 'Bob', visits: 0 }],
+    });
+
+    const result = await sqlite.upsert([{ externalId: 'b', name: 'Bob' }], {
+      match: c => c.externalId,
+    });
+
+    expect(result).toEqual([
+      { entity: { id: 2, externalId: 'b', name: 'Bob', visits: 0 }, action: 'unknown' },
+    ]);
+  });
+});
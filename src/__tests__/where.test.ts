@@ -68,6 +68,6 @@ WHERE [u].[name] LIKE CONCAT(N'%', N'John', N'%')`);
 
     expect(sql).toEqual(`SELECT *
 FROM [users] AS [u]
-WHERE ([u].[email] = NULL)`);
+WHERE ([u].[email] IS NULL)`);
   });
 });
@@ -0,0 +1,149 @@
+import { DbContext } from '../core/context/DbContext';
+import { DbSet } from '../core/context/DbSet';
+import { SqlDialects } from '../core/dialects/SqlDialect';
+import { Expression } from '../core/expressions/Expression';
+import { InMemoryDatabaseProvider } from '../core/providers/InMemoryDatabaseProvider';
+import { Window } from '../core/query/Window';
+import { ExpressionDeserializer } from '../utils/ExpressionDeserializer';
+import { ExpressionJson, ExpressionJsonValidator } from '../utils/ExpressionJson';
+import { Order } from './common/models';
+
+describe('Window functions', () => {
+  let provider: InMemoryDatabaseProvider;
+  let dbContext: DbContext;
+  let orders: DbSet<Order>;
+  let execAsync: jest.SpyInstance;
+
+  const lastJson = () => execAsync.mock.calls[execAsync.mock.calls.length - 1][0] as ExpressionJson;
+
+  const lastStatement = (dialect = 'sqlserver') => {
+    const expr = ExpressionDeserializer.deserialize(lastJson()) as Expression;
+    return expr.accept(SqlDialects.resolve(dialect).createVisitor());
+  };
+
+  beforeEach(() => {
+    provider = new InMemoryDatabaseProvider({
+      orders: [
+        { id: 1, userId: 1, amount: 100, status: 'paid', createdAt: new Date('2024-01-01') },
+        { id: 2, userId: 2, amount: 50, status: 'paid', createdAt: new Date('2024-01-02') },
+        { id: 3, userId: 1, amount: 30, status: 'open', createdAt: new Date('2024-01-03') },
+        { id: 4, userId: 1, amount: 100, status: 'paid', createdAt: new Date('2024-01-04') },
+        { id: 5, userId: 2, amount: 20, status: 'open', createdAt: new Date('2024-01-05') },
+      ],
+    });
+    dbContext = new DbContext(provider);
+    orders = dbContext.set<Order>('orders');
+    execAsync = jest.spyOn(provider, 'execAsync');
+  });
+
+  test('rowNumber() per partition and a running sum', async () => {
+    const rows = await orders
+      .select(o => ({
+        id: o.id,
+        rn: Window.rowNumber().partitionBy(o.userId).orderBy(o.createdAt),
+        running: Window.sum(o.amount).orderBy(o.createdAt),
+      }))
+      .toListAsync();
+
+    expect(rows).toEqual([
+      { id: 1, rn: 1, running: 100 },
+      { id: 2, rn: 1, running: 150 },
+      { id: 3, rn: 2, running: 180 },
+      { id: 4, rn: 3, running: 280 },
+      { id: 5, rn: 2, running: 300 },
+    ]);
+    expect(lastStatement()).toEqual(
+      `SELECT [o].[id] AS [id], ROW_NUMBER() OVER (PARTITION BY [o].[userId] ORDER BY [o].[createdAt] ASC) AS [rn], SUM([o].[amount]) OVER (ORDER BY [o].[createdAt] ASC) AS [running]
+FROM [orders] AS [o]`,
+    );
+    expect(lastStatement('postgres')).toContain(
+      'ROW_NUMBER() OVER (PARTITION BY "o"."userId" ORDER BY "o"."createdAt" ASC) AS "rn"',
+    );
+  });
+
+  test('ranking, offset and framed functions, also in orderBy()', async () => {
+    const rows = await orders
+      .orderBy(o => Window.rowNumber().orderBy(o.createdAt))
+      .select(o => ({
+        id: o.id,
+        rank: Window.rank().orderByDesc(o.amount),
+        dense: Window.denseRank().orderByDesc(o.amount),
+        previous: Window.lag(o.amount, 1, 0).partitionBy(o.userId).orderBy(o.createdAt),
+        next: Window.lead(o.amount).orderBy(o.createdAt),
+        moving: Window.avg(o.amount).orderBy(o.createdAt).rowsBetween(-1, Window.currentRow),
+        total: Window.count().partitionBy(o.userId),
+      }))
+      .toListAsync();
+
+    expect(rows).toEqual([
+      { id: 1, rank: 1, dense: 1, previous: 0, next: 50, moving: 100, total: 3 },
+      { id: 2, rank: 3, dense: 2, previous: 0, next: 30, moving: 75, total: 2 },
+      { id: 3, rank: 4, dense: 3, previous: 100, next: 100, moving: 40, total: 3 },
+      { id: 4, rank: 1, dense: 1, previous: 30, next: 20, moving: 65, total: 3 },
+      { id: 5, rank: 5, dense: 4, previous: 50, next: null, moving: 60, total: 2 },
+    ]);
+
+    const sql = lastStatement();
+    expect(sql).toContain('RANK() OVER (ORDER BY [o].[amount] DESC) AS [rank]');
+    expect(sql).toContain(
+      'LAG([o].[amount], 1, 0) OVER (PARTITION BY [o].[userId] ORDER BY [o].[createdAt] ASC) AS [previous]',
+    );
+    expect(sql).toContain(
+      'AVG([o].[amount]) OVER (ORDER BY [o].[createdAt] ASC ROWS BETWEEN 1 PRECEDING AND CURRENT ROW) AS [moving]',
+    );
+    expect(sql).toContain('COUNT(*) OVER (PARTITION BY [o].[userId]) AS [total]');
+    expect(sql).toContain('ORDER BY ROW_NUMBER() OVER (ORDER BY [o].[createdAt] ASC) ASC');
+    expect(ExpressionJsonValidator.validate(lastJson()).valid).toBe(true);
+  });
+
+  test('parameters follow the order of the positional placeholders', () => {
+    const { sql, parameters } = orders
+      .useDialect('mysql')
+      .select(o => ({
+        previous: Window.lag(o.amount, 1, 0)
+          .partitionBy(o.userId === 3)
+          .orderBy(o.id),
+      }))
+      .toParameterizedQuery();
+
+    expect(sql).toEqual(
+      `SELECT LAG(\`o\`.\`amount\`, ?, ?) OVER (PARTITION BY (\`o\`.\`userId\` = ?) ORDER BY \`o\`.\`id\` ASC) AS \`previous\`
+FROM \`orders\` AS \`o\``,
+    );
+    expect(parameters.map(p => p.value)).toEqual([1, 0, 3]);
+  });
+
+  test('rangeBetween() reads the rows within a distance of the current value', async () => {
+    const rows = await orders
+      .select(o => ({
+        id: o.id,
+        near: Window.sum(o.amount).orderBy(o.amount).rangeBetween(-50, Window.currentRow),
+        all: Window.max(o.amount).rowsBetween(Window.unboundedPreceding, Window.unboundedFollowing),
+      }))
+      .toListAsync();
+
+    expect(rows.map(r => r.near)).toEqual([250, 100, 50, 250, 20]);
+    expect(rows.every(r => r.all === 100)).toBe(true);
+    expect(lastStatement('postgres')).toContain(
+      'SUM("o"."amount") OVER (ORDER BY "o"."amount" ASC RANGE BETWEEN 50 PRECEDING AND CURRENT ROW) AS "near"',
+    );
+    expect(lastStatement('postgres')).toContain(
+      'MAX("o"."amount") OVER (ROWS BETWEEN UNBOUNDED PRECEDING AND UNBOUNDED FOLLOWING) AS "all"',
+    );
+    expect(() => lastStatement('sqlserver')).toThrow(
+      'SQL Server does not support RANGE frames with offsets. Use rowsBetween()',
+    );
+  });
+
+  test('ranking functions require orderBy() and no frame', () => {
+    expect(() => orders.orderBy(o => Window.rowNumber().partitionBy(o.userId))).toThrow(
+      'The window function ROW_NUMBER requires orderBy()',
+    );
+    expect(() =>
+      orders.orderBy(o => Window.rank().orderBy(o.amount).rowsBetween(-1, Window.currentRow)),
+    ).toThrow('The window function RANK does not accept a frame clause');
+    expect(() => Window.rowNumber()).toThrow(
+      'Window functions can only be used inside the lambdas of select() and orderBy()',
+    );
+  });
+});
@@ -0,0 +1,396 @@
+import { ExpressionSerializer } from '../../utils/ExpressionSerializer';
+import { Expression } from '../expressions/Expression';
+import { NavigationModel } from '../model/EntityModel';
+import { ModelBuilder } from '../model/ModelBuilder';
+import { ExpressionBuilder } from '../query/ExpressionBuilder';
+import { ModificationResult } from '../query/Types';
+import { DbContext } from './DbContext';
+import { DbSet } from './DbSet';
+
+/**
+ * State of a tracked entity:
+ * - 'unchanged': attached and equal to its snapshot
+ * - 'modified': attached and with properties different from its snapshot
+ * - 'added': queued to be inserted
+ * - 'deleted': queued to be deleted
+ */
+export type EntityState = 'unchanged' | 'modified' | 'added' | 'deleted';
+
+/**
+ * An entity tracked by the ChangeTracker
+ */
+export interface EntityEntry<T = any> {
+  entity: T;
+  tableName: string;
+  state: EntityState;
+  /** Properties changed since the snapshot, with their new values */
+  changes: Partial<T>;
+}
+
+/**
+ * Registro interno de uma entidade rastreada. O estado 'modified' é calculado
+ * comparando a entidade com o snapshot
+ */
+interface TrackedEntity {
+  entity: Record<string, any>;
+  tableName: string;
+  alias: string;
+  state: 'unchanged' | 'added' | 'deleted';
+  snapshot: Record<string, any>;
+}
+
+/**
+ * Tracks the entities attached to a DbContext and computes the statements that persist
+ * their changes (unit of work)
+ */
+export class ChangeTracker {
+  private readonly tracked = new Map<object, TrackedEntity>();
+
+  /**
+   * Valores gerados durante o saveChangesAsync() (chaves geradas e chaves estrangeiras
+   * preenchidas), copiados para as entidades só por acceptAllChanges(), após o commit
+   */
+  private readonly generatedValues = new Map<object, Record<string, any>>();
+
+  constructor(private readonly modelBuilder: ModelBuilder) {}
+
+  /**
+   * Starts tracking an entity, or changes the state of a tracked one
+   * @param entity The entity
+   * @param dbSet The set the entity belongs to
+   * @param state 'unchanged' to attach, 'added' to queue an insert or 'deleted' to queue a delete
+   */
+  track(entity: object, dbSet: DbSet<any>, state: 'unchanged' | 'added' | 'deleted'): void {
+    const tableName = dbSet.getTableName();
+    const existing = this.tracked.get(entity);
+
+    if (existing) {
+      if (existing.tableName !== tableName) {
+        throw new Error(`The entity is already tracked for table '${existing.tableName}'`);
+      }
+
+      // Remover uma entidade que ainda não foi inserida apenas cancela a inserção
+      if (state === 'deleted' && existing.state === 'added') {
+        this.tracked.delete(entity);
+      } else if (state !== 'unchanged') {
+        existing.state = state;
+      }
+      return;
+    }
+
+    if (state !== 'added') {
+      this.assertKeyIsUnique(entity as Record<string, any>, tableName);
+    }
+
+    this.tracked.set(entity, {
+      entity: entity as Record<string, any>,
+      tableName,
+      alias: dbSet.getAlias(),
+      state,
+      snapshot: this.takeSnapshot(entity as Record<string, any>, tableName),
+    });
+  }
+
+  /**
+   * Gets the entry of a tracked entity
+   * @param entity The entity
+   */
+  entry<T>(entity: T): EntityEntry<T> | undefined {
+    const tracked = this.tracked.get(entity as any);
+    return tracked ? this.toEntry<T>(tracked) : undefined;
+  }
+
+  /**
+   * Gets the entries of every tracked entity, in the order they were tracked
+   */
+  entries(): EntityEntry[] {
+    return [...this.tracked.values()].map(tracked => this.toEntry(tracked));
+  }
+
+  /**
+   * Whether any tracked entity has changes to save
+   */
+  hasChanges(): boolean {
+    return this.entries().some(entry => entry.state !== 'unchanged');
+  }
+
+  /**
+   * Stops tracking an entity
+   * @param entity The entity
+   */
+  detach(entity: object): void {
+    this.tracked.delete(entity);
+  }
+
+  /**
+   * Stops tracking every entity
+   */
+  clear(): void {
+    this.tracked.clear();
+  }
+
+  /**
+   * Executes the pending changes on the given context: inserts and updates from principal
+   * to dependent tables, then deletes from dependent to principal tables
+   * @param tx Context bound to the transaction of DbContext.saveChangesAsync()
+   * @returns The number of entities written
+   */
+  async saveChangesAsync(tx: DbContext): Promise<number> {
+    const pending = [...this.tracked.values()].filter(
+      tracked => this.getState(tracked) !== 'unchanged',
+    );
+    const tables = this.orderByDependencies([...new Set(pending.map(t => t.tableName))]);
+    const builder = new ExpressionBuilder(tx);
+    this.generatedValues.clear();
+
+    for (const tableName of tables) {
+      for (const tracked of pending.filter(t => t.tableName === tableName)) {
+        if (tracked.state === 'added') {
+          await this.insertAsync(tx, tracked);
+        } else if (tracked.state === 'unchanged') {
+          const changes = this.getChanges(tracked);
+          await this.executeAsync(
+            tx,
+            tracked,
+            builder.createUpdate(
+              builder.createTable(tableName, tracked.alias),
+              Object.keys(changes).map(p => builder.createColumn(p, tracked.alias).getColumnName()),
+              Object.values(changes).map(value => builder.createConstant(value)),
+              [],
+              this.createKeyFilter(builder, tracked),
+            ),
+          );
+        }
+      }
+    }
+
+    for (const tableName of [...tables].reverse()) {
+      for (const tracked of pending.filter(t => t.tableName === tableName)) {
+        if (tracked.state === 'deleted') {
+          await this.executeAsync(
+            tx,
+            tracked,
+            builder.createDelete(
+              builder.createTable(tableName, tracked.alias),
+              [],
+              this.createKeyFilter(builder, tracked),
+            ),
+          );
+        }
+      }
+    }
+
+    return pending.length;
+  }
+
+  /**
+   * Marks every saved change as persisted: deleted entities stop being tracked and the
+   * others become unchanged with a new snapshot
+   */
+  acceptAllChanges(): void {
+    for (const [entity, tracked] of [...this.tracked.entries()]) {
+      if (tracked.state === 'deleted') {
+        this.tracked.delete(entity);
+      } else {
+        Object.assign(tracked.entity, this.generatedValues.get(entity));
+        tracked.state = 'unchanged';
+        tracked.snapshot = this.takeSnapshot(tracked.entity, tracked.tableName);
+      }
+    }
+
+    this.generatedValues.clear();
+  }
+
+  /**
+   * Inserts an added entity and keeps its generated values, and the foreign keys of the
+   * added entities in its navigations, until acceptAllChanges(). A rollback leaves the
+   * entities untouched
+   */
+  private async insertAsync(tx: DbContext, tracked: TrackedEntity): Promise<void> {
+    const dbSet = new DbSet<any>(tx, tx.getProvider(), tracked.tableName, tracked.alias);
+    const inserted = await dbSet.insert({
+      ...this.takeSnapshot(tracked.entity, tracked.tableName),
+      ...this.generatedValues.get(tracked.entity),
+    });
+    const values = { ...this.generatedValues.get(tracked.entity), ...inserted };
+    this.generatedValues.set(tracked.entity, values);
+
+    for (const navigation of this.getNavigations(tracked.tableName)) {
+      const related = tracked.entity[navigation.propertyName];
+      if (!navigation.foreignKey || !Array.isArray(related)) {
+        continue;
+      }
+
+      for (const child of related) {
+        if (this.tracked.get(child)?.state === 'added') {
+          this.generatedValues.set(child, {
+            ...this.generatedValues.get(child),
+            [navigation.foreignKey]: values[navigation.principalKey],
+          });
+        }
+      }
+    }
+  }
+
+  /**
+   * Executes an UPDATE or DELETE of a single entity, which must affect exactly its row.
+   * Providers that do not report rowsAffected are not checked
+   */
+  private async executeAsync(
+    tx: DbContext,
+    tracked: TrackedEntity,
+    statement: Expression,
+  ): Promise<void> {
+    const result: ModificationResult = await tx
+      .getProvider()
+      .execAsync(ExpressionSerializer.serialize(statement));
+
+    if (typeof result?.rowsAffected === 'number' && result.rowsAffected === 0) {
+      throw new Error(
+        `The '${tracked.tableName}' record with key ${this.formatKey(tracked)} was not found. It may have been deleted or changed by another process`,
+      );
+    }
+  }
+
+  /**
+   * Builds the filter key = value of an entity
+   */
+  private createKeyFilter(builder: ExpressionBuilder, tracked: TrackedEntity): Expression {
+    return this.getKey(tracked.tableName)
+      .map(property =>
+        builder.createEqual(
+          builder.createColumn(property, tracked.alias),
+          builder.createConstant(tracked.snapshot[property] ?? null),
+        ),
+      )
+      .reduce((combined, condition) => builder.createAnd(combined, condition));
+  }
+
+  /**
+   * Orders the tables so that principal tables come before their dependents.
+   * Tables in a cycle keep the order in which they were tracked
+   */
+  private orderByDependencies(tables: string[]): string[] {
+    const dependents = new Map(
+      tables.map(table => [
+        table,
+        this.getNavigations(table)
+          .map(navigation => navigation.targetTable.table)
+          .filter(target => target !== table && tables.includes(target)),
+      ]),
+    );
+
+    const remaining = [...tables];
+    const ordered: string[] = [];
+
+    while (remaining.length > 0) {
+      const next =
+        remaining.find(table => !remaining.some(other => dependents.get(other)!.includes(table))) ??
+        remaining[0];
+      ordered.push(next);
+      remaining.splice(remaining.indexOf(next), 1);
+    }
+
+    return ordered;
+  }
+
+  private toEntry<T>(tracked: TrackedEntity): EntityEntry<T> {
+    return {
+      entity: tracked.entity as T,
+      tableName: tracked.tableName,
+      state: this.getState(tracked),
+      changes: (tracked.state === 'unchanged' ? this.getChanges(tracked) : {}) as Partial<T>,
+    };
+  }
+
+  private getState(tracked: TrackedEntity): EntityState {
+    if (tracked.state !== 'unchanged') {
+      return tracked.state;
+    }
+    return Object.keys(this.getChanges(tracked)).length > 0 ? 'modified' : 'unchanged';
+  }
+
+  /**
+   * Compares the entity with its snapshot. Keys cannot change while the entity is tracked
+   */
+  private getChanges(tracked: TrackedEntity): Record<string, any> {
+    const current = this.takeSnapshot(tracked.entity, tracked.tableName);
+    const properties = new Set([...Object.keys(tracked.snapshot), ...Object.keys(current)]);
+    const changes: Record<string, any> = {};
+
+    for (const property of properties) {
+      if (!this.isSameValue(tracked.snapshot[property], current[property])) {
+        changes[property] = current[property] ?? null;
+      }
+    }
+
+    const changedKey = this.getKey(tracked.tableName).find(property => property in changes);
+    if (changedKey) {
+      throw new Error(
+        `The key '${changedKey}' of a tracked '${tracked.tableName}' entity cannot be changed`,
+      );
+    }
+
+    return changes;
+  }
+
+  /**
+   * Copies the properties persisted in the table, leaving the navigations out
+   */
+  private takeSnapshot(entity: Record<string, any>, tableName: string): Record<string, any> {
+    const navigations = this.getNavigations(tableName).map(n => n.propertyName);
+    const snapshot: Record<string, any> = {};
+
+    for (const [property, value] of Object.entries(entity)) {
+      if (value !== undefined && !navigations.includes(property)) {
+        snapshot[property] = this.copyValue(value);
+      }
+    }
+
+    return snapshot;
+  }
+
+  private copyValue(value: any): any {
+    if (value instanceof Date) {
+      return new Date(value.getTime());
+    }
+    // Objetos e arrays (ex: colunas JSON) são copiados para detectar alterações internas
+    return value !== null && typeof value === 'object' ? JSON.parse(JSON.stringify(value)) : value;
+  }
+
+  private isSameValue(original: any, current: any): boolean {
+    if (original instanceof Date && current instanceof Date) {
+      return original.getTime() === current.getTime();
+    }
+    if (original !== null && typeof original === 'object') {
+      return JSON.stringify(original) === JSON.stringify(current);
+    }
+    return (original ?? null) === (current ?? null);
+  }
+
+  private assertKeyIsUnique(entity: Record<string, any>, tableName: string): void {
+    const key = JSON.stringify(this.getKey(tableName).map(property => entity[property]));
+    const duplicate = [...this.tracked.values()].find(
+      tracked =>
+        tracked.tableName === tableName &&
+        tracked.state !== 'added' &&
+        JSON.stringify(this.getKey(tableName).map(p => tracked.entity[p])) === key,
+    );
+
+    if (duplicate) {
+      throw new Error(`Another '${tableName}' entity with key ${key} is already tracked`);
+    }
+  }
+
+  private formatKey(tracked: TrackedEntity): string {
+    return JSON.stringify(this.getKey(tracked.tableName).map(p => tracked.snapshot[p]));
+  }
+
+  private getKey(tableName: string): string[] {
+    return this.modelBuilder.findEntity(tableName)?.getKey() ?? ['id'];
+  }
+
+  private getNavigations(tableName: string): NavigationModel[] {
+    return this.modelBuilder.findEntity(tableName)?.getNavigations() ?? [];
+  }
+}
@@ -1,19 +1,565 @@
-import { IDatabaseProvider } from '../query/Types';
+import {
+  IDatabaseProvider,
+  INameResolver,
+  ITransactionProvider,
+  ResolvedNavigation,
+  TableReference,
+  TransactionOptions,
+} from '../query/Types';
+import { SqlDialect, SqlDialects } from '../dialects/SqlDialect';
+import { ModelBuilder } from '../model/ModelBuilder';
+import { Expression } from '../expressions/Expression';
+import { SelectExpression } from '../expressions/SelectExpression';
+import { CompoundSelectExpression } from '../expressions/CompoundSelectExpression';
+import { DerivedTableExpression } from '../expressions/DerivedTableExpression';
+import { CommonTableExpression } from '../expressions/CommonTableExpression';
+import { ExpressionBuilder } from '../query/ExpressionBuilder';
+import { LambdaParser } from '../query/LambdaParser';
+import { NavigationModel } from '../model/EntityModel';
+import { DefaultNamingConvention, NamingConvention } from '../model/NamingConvention';
 import { DbSet } from './DbSet';
+import { ChangeTracker } from './ChangeTracker';
+import { Queryable } from '../query/Queryable';
+import { ExpressionSerializer } from '../../utils/ExpressionSerializer';
+
+/**
+ * Options used to configure a database context
+ */
+export interface DbContextOptions {
+  /** SQL dialect used to render queries, by instance or registered name (default: 'sqlserver') */
+  dialect?: SqlDialect | string;
+  /** Convention used to translate table and column names (default: names are kept as is) */
+  namingConvention?: NamingConvention;
+}
+
+/**
+ * Transação aberta por DbContext.transaction(), compartilhada pelos savepoints aninhados
+ */
+interface TransactionScope {
+  provider: ITransactionProvider;
+  savepoints: number;
+}
+
+/**
+ * Expressão de tabela comum declarada com with() ou withRecursive()
+ */
+interface CommonTableDefinition {
+  /** Monta a consulta da expressão, com os filtros globais vigentes na execução */
+  build: () => SelectExpression | CompoundSelectExpression;
+  recursive: boolean;
+  /** Tabela cujas colunas a consulta retorna, ou null quando ela tem select() */
+  sourceTable: string | null;
+}
 
 /**
  * The main entry point for the query builder
  * Manages DbSet instances and provides access to database tables
  */
-export class DbContext {
+export class DbContext implements INameResolver {
   private dbSets: Map<string, DbSet<any>> = new Map();
   private usedAliases: Set<string> = new Set<string>();
+  private aliasTables: Map<string, TableReference> = new Map();
+  private navigationSets: Map<NavigationModel, DbSet<any>> = new Map();
+  private queryFilterParameters: Record<string, any> = {};
+  private dialect: SqlDialect;
+  private namingConvention: NamingConvention;
+  private transactionScope: TransactionScope | null = null;
+  private commonTables: Map<string, CommonTableDefinition> = new Map();
+
+  /**
+   * Configuração do mapeamento das entidades (nomes de colunas)
+   */
+  readonly modelBuilder = new ModelBuilder();
+
+  /**
+   * Entidades anexadas com DbSet.attach(), add() e remove(), salvas por saveChangesAsync()
+   */
+  readonly changeTracker = new ChangeTracker(this.modelBuilder);
 
   /**
    * Creates a new database context
+   * @param provider The database provider
+   * @param options Optional context configuration
+   */
+  constructor(
+    private readonly provider: IDatabaseProvider,
+    options: DbContextOptions = {},
+  ) {
+    this.dialect = SqlDialects.resolve(options.dialect || SqlDialects.default);
+    this.namingConvention = options.namingConvention || new DefaultNamingConvention();
+  }
+
+  /**
+   * Gets the database provider that executes the statements of this context
+   */
+  getProvider(): IDatabaseProvider {
+    return this.provider;
+  }
+
+  /**
+   * Gets the SQL dialect used by queries created from this context
+   */
+  getDialect(): SqlDialect {
+    return this.dialect;
+  }
+
+  /**
+   * Changes the SQL dialect used by queries created from this context
+   * @param dialect The dialect or the name of a registered dialect
+   */
+  useDialect(dialect: SqlDialect | string): DbContext {
+    this.dialect = SqlDialects.resolve(dialect);
+    return this;
+  }
+
+  /**
+   * Gets the naming convention used by queries created from this context
+   */
+  getNamingConvention(): NamingConvention {
+    return this.namingConvention;
+  }
+
+  /**
+   * Changes the naming convention used by queries created from this context
+   * @param convention The naming convention
+   */
+  useNamingConvention(convention: NamingConvention): DbContext {
+    this.namingConvention = convention;
+    return this;
+  }
+
+  /**
+   * Runs a unit of work inside a transaction. Every query and statement built from the
+   * context passed to the callback runs on the same transaction, which is committed when
+   * the callback resolves and rolled back when it throws.
+   * Calling transaction() on that context again runs the work inside a savepoint
+   * @param work The unit of work
+   * @param options Isolation level (only on the outermost transaction)
+   * @returns The value returned by the unit of work
+   */
+  async transaction<R>(
+    work: (tx: DbContext) => Promise<R>,
+    options: TransactionOptions = {},
+  ): Promise<R> {
+    if (this.transactionScope) {
+      return this.runInSavepoint(work, options);
+    }
+
+    if (!this.provider.beginTransactionAsync) {
+      throw new Error('The database provider does not support transactions');
+    }
+
+    const transaction = await this.provider.beginTransactionAsync(options);
+    const tx = this.createTransactionContext({ provider: transaction, savepoints: 0 });
+
+    let result: R;
+    try {
+      result = await work(tx);
+    } catch (error) {
+      await transaction.rollbackAsync();
+      throw error;
+    }
+
+    await transaction.commitAsync();
+    return result;
+  }
+
+  /**
+   * Persists the changes of the tracked entities in a single transaction: queued inserts,
+   * minimal UPDATEs of the modified properties and queued deletes, in dependency order
+   * @returns The number of entities written
+   */
+  async saveChangesAsync(): Promise<number> {
+    if (!this.changeTracker.hasChanges()) {
+      return 0;
+    }
+
+    const saved = await this.transaction(tx => this.changeTracker.saveChangesAsync(tx));
+    this.changeTracker.acceptAllChanges();
+    return saved;
+  }
+
+  /**
+   * Runs a nested unit of work inside a savepoint of the current transaction
+   */
+  private async runInSavepoint<R>(
+    work: (tx: DbContext) => Promise<R>,
+    options: TransactionOptions,
+  ): Promise<R> {
+    if (options.isolationLevel) {
+      throw new Error('The isolation level can only be set on the outermost transaction');
+    }
+
+    const scope = this.transactionScope!;
+    const name = `sp_${++scope.savepoints}`;
+    await scope.provider.savepointAsync(name);
+
+    let result: R;
+    try {
+      result = await work(this);
+    } catch (error) {
+      await scope.provider.rollbackToSavepointAsync(name);
+      throw error;
+    }
+
+    await scope.provider.releaseSavepointAsync(name);
+    return result;
+  }
+
+  /**
+   * Creates a context whose DbSets execute on the transaction. The model and the configuration
+   * are shared with this context; the aliases and common tables start as copies of its own, so
+   * the ones registered during the transaction do not leak into this context
    */
-  constructor(private readonly provider: IDatabaseProvider) {
-    // Could accept connection parameters in a real implementation
+  private createTransactionContext(scope: TransactionScope): DbContext {
+    const tx: DbContext = Object.create(DbContext.prototype);
+    return Object.assign(tx, this, {
+      provider: scope.provider,
+      transactionScope: scope,
+      dbSets: new Map(),
+      navigationSets: new Map(),
+      usedAliases: new Set(this.usedAliases),
+      aliasTables: new Map(this.aliasTables),
+      commonTables: new Map(this.commonTables),
+    });
+  }
+
+  /**
+   * Gets the database table for the name used by the model, qualified by the schema
+   * and database given to set()
+   * @param tableName Name passed to set()
+   * @param tableAlias Alias of the table in the query
+   */
+  getTable(tableName: string, tableAlias: string): TableReference {
+    // Expressões de tabela comuns são referenciadas pelo nome dado em with()
+    if (this.commonTables.has(tableName)) {
+      return { table: tableName };
+    }
+
+    const registered = this.aliasTables.get(tableAlias);
+    const table = this.namingConvention.getTableName(tableName);
+
+    if (!registered || registered.table !== tableName) {
+      return { table };
+    }
+
+    return { ...registered, table };
+  }
+
+  /**
+   * Gets the column mapped to a property of the table with the given alias.
+   * Explicit mappings of the modelBuilder take precedence over the naming convention.
+   * @param tableAlias Alias of the table in the query
+   * @param propertyName Name of the property on the model
+   */
+  getColumnName(tableAlias: string, propertyName: string): string {
+    if (this.isProjectedCommonTable(tableAlias)) {
+      return propertyName;
+    }
+
+    const entity = this.findEntity(tableAlias);
+    const mappedColumn = entity?.findColumnName(propertyName);
+
+    if (mappedColumn !== undefined) {
+      return mappedColumn;
+    }
+
+    // Nomes já traduzidos (colunas mapeadas explicitamente) são mantidos
+    if (entity?.findPropertyName(propertyName) !== undefined) {
+      return propertyName;
+    }
+
+    return this.namingConvention.getColumnName(propertyName);
+  }
+
+  /**
+   * Gets the property mapped to a column of the table with the given alias
+   * @param tableAlias Alias of the table in the query
+   * @param columnName Name of the column in the database
+   */
+  getPropertyName(tableAlias: string, columnName: string): string {
+    if (this.isProjectedCommonTable(tableAlias)) {
+      return columnName;
+    }
+
+    const entity = this.findEntity(tableAlias);
+    return (
+      entity?.findPropertyName(columnName) ?? this.namingConvention.getPropertyName(columnName)
+    );
+  }
+
+  /**
+   * Finds the navigation declared for a property of the table with the given alias
+   * @param tableAlias Alias of the owner table in the query
+   * @param propertyName Name of the collection property
+   */
+  findNavigation(tableAlias: string, propertyName: string): NavigationModel | undefined {
+    const navigation = this.findEntity(tableAlias)?.findNavigation(propertyName);
+
+    if (navigation && !navigation.foreignKey) {
+      throw new Error(
+        `Navigation '${propertyName}' of table '${this.aliasTables.get(tableAlias).table}' has no foreign key. Configure it with withForeignKey()`,
+      );
+    }
+
+    return navigation;
+  }
+
+  /**
+   * Resolves a navigation and picks the alias of the related table
+   * @param tableAlias Alias of the owner table in the query
+   * @param propertyName Name of the collection property
+   * @param aliasesInScope Aliases of the enclosing queries, which the alias must not hide
+   */
+  resolveNavigation(
+    tableAlias: string,
+    propertyName: string,
+    aliasesInScope: string[] = [],
+  ): ResolvedNavigation | null {
+    const navigation = this.findNavigation(tableAlias, propertyName);
+
+    if (!navigation) {
+      return null;
+    }
+
+    const alias = this.getNavigationAlias(navigation.targetTable, [tableAlias, ...aliasesInScope]);
+
+    return {
+      tableName: navigation.targetTable.table,
+      alias,
+      foreignKey: navigation.foreignKey,
+      principalKey: navigation.principalKey,
+    };
+  }
+
+  /**
+   * Sets the values available to the query filters as their second parameter
+   * @param parameters The values, e.g. { tenantId: 42 }
+   */
+  setQueryFilterParameters(parameters: Record<string, any>): DbContext {
+    this.queryFilterParameters = { ...parameters };
+    return this;
+  }
+
+  /**
+   * Builds the global query filters of the table with the given alias
+   * @param tableAlias Alias of the table in the query
+   * @param builder Builder used to create the filter expression
+   */
+  getQueryFilter(tableAlias: string, builder: ExpressionBuilder): Expression | null {
+    // Os filtros já foram aplicados na consulta da expressão de tabela comum
+    if (this.findCommonTable(tableAlias)) {
+      return null;
+    }
+
+    const filters = this.findEntity(tableAlias)?.getQueryFilters() || [];
+
+    return filters.reduce<Expression | null>((combined, filter) => {
+      const parser = new LambdaParser(builder, this.queryFilterParameters);
+      const expression = parser.parsePredicateWithNesting(filter, tableAlias);
+      return combined ? builder.createAnd(combined, expression) : expression;
+    }, null);
+  }
+
+  /**
+   * Gets the DbSet used to load the related entities of a navigation
+   * @param navigation The navigation metadata
+   */
+  getNavigationSet<T = any>(navigation: NavigationModel): DbSet<T> {
+    let dbSet = this.navigationSets.get(navigation);
+
+    if (!dbSet) {
+      dbSet = this.set(navigation.targetTable);
+      this.navigationSets.set(navigation, dbSet);
+    }
+
+    return dbSet;
+  }
+
+  /**
+   * Declares a common table expression, queried, joined and used in subqueries through
+   * the returned DbSet. Queries that reference it are preceded by WITH name AS (...)
+   * @param name Name of the common table expression
+   * @param query The query that defines it
+   *
+   * @example
+   * const recentOrders = db.with('recentOrders', orders.where(o => o.total > 100));
+   * recentOrders.join(users, o => o.userId, u => u.id, (o, u) => ({ ...o, user: u.name }));
+   */
+  with<T = any>(name: string, query: Queryable<T> | DbSet<T>): DbSet<T> {
+    return this.defineCommonTable(name, query instanceof DbSet ? query.query() : query);
+  }
+
+  /**
+   * Declares a recursive common table expression: the anchor query combined by UNION ALL
+   * with the query built by the callback, which reads the rows produced so far
+   * @param name Name of the common table expression
+   * @param anchor The query of the first rows
+   * @param recursive Builds the recursive query from the DbSet of the expression
+   *
+   * @example
+   * const tree = db.withRecursive(
+   *   'categoryTree',
+   *   categories.where(c => c.id === 1).select(c => ({ id: c.id, depth: 1 })),
+   *   tree => categories
+   *     .join(tree, c => c.parentId, t => t.id, (c, t) => ({ id: c.id, depth: t.depth + 1 })),
+   * );
+   */
+  withRecursive<T = any>(
+    name: string,
+    anchor: Queryable<T> | DbSet<T>,
+    recursive: (commonTable: DbSet<T>) => Queryable<T>,
+  ): DbSet<T> {
+    return this.defineCommonTable(
+      name,
+      anchor instanceof DbSet ? anchor.query() : anchor,
+      recursive,
+    );
+  }
+
+  /**
+   * Builds the common table expressions referenced by a statement, including the ones
+   * referenced by them, in the order they must be declared
+   * @param statement The statement to be executed
+   * @param builder Builder used to create the expressions
+   */
+  getCommonTables(statement: Expression, builder: ExpressionBuilder): CommonTableExpression[] {
+    const commonTables: CommonTableExpression[] = [];
+    const declared = new Set<string>();
+
+    const declareReferenced = (expression: Expression) => {
+      const json = ExpressionSerializer.serialize(expression);
+      for (const name of this.collectCommonTableNames(json, new Set<string>())) {
+        if (declared.has(name)) {
+          continue;
+        }
+
+        declared.add(name);
+        const definition = this.commonTables.get(name)!;
+        const query = definition.build();
+        // As expressões usadas na consulta são declaradas antes dela
+        declareReferenced(query);
+        commonTables.push(builder.createCommonTable(name, query, definition.recursive));
+      }
+    };
+
+    if (this.commonTables.size > 0) {
+      declareReferenced(statement);
+    }
+
+    return commonTables;
+  }
+
+  private defineCommonTable<T>(
+    name: string,
+    query: Queryable<T>,
+    recursive?: (commonTable: DbSet<T>) => Queryable<T>,
+  ): DbSet<T> {
+    if (this.commonTables.has(name)) {
+      throw new Error(
+        `A common table expression named '${name}' is already defined in this context`,
+      );
+    }
+
+    const definition: CommonTableDefinition = {
+      build: () => query.toMetadata(),
+      recursive: !!recursive,
+      sourceTable: query.projections.length === 0 ? query.tableName : null,
+    };
+    this.commonTables.set(name, definition);
+    const dbSet = this.set<T>(name);
+
+    if (recursive) {
+      try {
+        const recursivePart = recursive(dbSet);
+        // Valida as colunas das duas consultas já na declaração
+        query.unionAll(recursivePart);
+        definition.build = () =>
+          (query.unionAll(recursivePart).fromTable as DerivedTableExpression).getQuery();
+      } catch (error) {
+        this.commonTables.delete(name);
+        throw error;
+      }
+    }
+
+    return dbSet;
+  }
+
+  private collectCommonTableNames(node: any, names: Set<string>): Set<string> {
+    if (!node || typeof node !== 'object') {
+      return names;
+    }
+
+    if (
+      node.type === 'TableExpression' &&
+      !node.schema &&
+      !node.database &&
+      this.commonTables.has(node.tableName)
+    ) {
+      names.add(node.tableName);
+    }
+
+    Object.values(node).forEach(value => this.collectCommonTableNames(value, names));
+    return names;
+  }
+
+  private findCommonTable(tableAlias: string): CommonTableDefinition | undefined {
+    const table = this.aliasTables.get(tableAlias);
+    return table && !table.schema && !table.database
+      ? this.commonTables.get(table.table)
+      : undefined;
+  }
+
+  private isProjectedCommonTable(tableAlias: string): boolean {
+    const commonTable = this.findCommonTable(tableAlias);
+    return !!commonTable && commonTable.sourceTable === null;
+  }
+
+  private findEntity(tableAlias: string) {
+    const table = this.aliasTables.get(tableAlias);
+    if (!table) {
+      return undefined;
+    }
+
+    // Expressões sem select() têm as colunas da tabela de origem
+    const commonTable = this.findCommonTable(tableAlias);
+    if (commonTable) {
+      return commonTable.sourceTable
+        ? this.modelBuilder.findEntity(commonTable.sourceTable)
+        : undefined;
+    }
+
+    return this.modelBuilder.findEntity(table.table);
+  }
+
+  /**
+   * Alias de uma tabela de navegação: o primeiro alias livre, ou já usado pela mesma tabela
+   * em outra navegação, que não esconda um alias das consultas externas. Os aliases são
+   * reaproveitados, então o SQL não depende das consultas montadas antes
+   */
+  private getNavigationAlias(table: TableReference, aliasesInScope: string[]): string {
+    const baseAlias = table.table.charAt(0).toLowerCase();
+
+    for (let counter = 0; ; counter++) {
+      const alias = counter === 0 ? baseAlias : `${baseAlias}${counter}`;
+      if (this.usedAliases.has(alias) || aliasesInScope.includes(alias)) {
+        continue;
+      }
+
+      const registered = this.aliasTables.get(alias);
+      if (!registered) {
+        this.aliasTables.set(alias, { ...table });
+        return alias;
+      }
+
+      if (
+        registered.table === table.table &&
+        registered.schema === table.schema &&
+        registered.database === table.database
+      ) {
+        return alias;
+      }
+    }
   }
 
   /**
@@ -26,7 +572,8 @@ export class DbContext {
     let alias = baseAlias;
     let counter = 1;
 
-    while (this.usedAliases.has(alias)) {
+    // Aliases de navegações também ficam em aliasTables
+    while (this.usedAliases.has(alias) || this.aliasTables.has(alias)) {
       alias = `${baseAlias}${counter}`;
       counter++;
     }
@@ -37,10 +584,16 @@ export class DbContext {
 
   /**
    * Gets or creates a DbSet for the specified table
-   * @param tableName The name of the database table
+   * @param table The name of the database table, or the table qualified by schema and database
    * @returns A DbSet for the table
+   *
+   * @example
+   * db.set<Order>({ schema: 'sales', table: 'orders' }); // [sales].[orders]
    */
-  set<T = any>(tableName: string, customAlias?: string): DbSet<T> {
+  set<T = any>(table: string | TableReference, customAlias?: string): DbSet<T> {
+    const reference: TableReference = typeof table === 'string' ? { table } : { ...table };
+    const tableName = reference.table;
+
     // Determinar qual alias usar
     const alias = customAlias ? customAlias : this.generateUniqueAlias(tableName);
 
@@ -50,7 +603,10 @@ export class DbContext {
     }
 
     // Criar ID único para tabela+alias
-    const setId = `${tableName}_${alias}`;
+    const qualifiedName = [reference.database, reference.schema, tableName]
+      .filter(Boolean)
+      .join('.');
+    const setId = `${qualifiedName}_${alias}`;
 
     // Check if we already have a DbSet for this table+alias combination
     if (this.dbSets.has(setId)) {
@@ -62,6 +618,8 @@ export class DbContext {
       this.usedAliases.add(customAlias);
     }
 
+    this.aliasTables.set(alias, reference);
+
     // Create a new DbSet with the alias
     const dbSet = new DbSet<T>(this, this.provider, tableName, alias);
     this.dbSets.set(setId, dbSet);
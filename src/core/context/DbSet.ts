@@ -1,8 +1,21 @@
 import { Queryable } from '../query/Queryable';
 import { JoinType } from '../expressions/JoinExpression';
-import { IDatabaseProvider, OrderDirection } from '../query/Types';
+import {
+  IDatabaseProvider,
+  ModificationResult,
+  OrderDirection,
+  ParameterizedQuery,
+  UpsertOptions,
+  UpsertResult,
+} from '../query/Types';
 import { ExpressionType } from '../expressions/Expression';
 import { DbContext } from './DbContext';
+import { SqlDialect } from '../dialects/SqlDialect';
+import { ExpressionBuilder } from '../query/ExpressionBuilder';
+import { ExpressionSerializer } from '../../utils/ExpressionSerializer';
+import { LambdaParser } from '../query/LambdaParser';
+import { getSelectedPropertyNames } from '../model/EntityTypeBuilder';
+import { UPSERT_ACTION_COLUMN } from '../expressions/UpsertExpression';
 
 /**
  * Represents a database table or view
@@ -41,7 +54,7 @@ export class DbSet<T> {
    */
   withVariables(variables: Record<string, any>): Queryable<T> {
     // Cria e retorna um novo Queryable com as variáveis fornecidas
-    return new Queryable<T>(this.provider, this.tableName, this.alias, variables);
+    return this.query(variables);
   }
 
   /**
@@ -49,7 +62,14 @@ export class DbSet<T> {
    * @param variables Variáveis opcionais para a consulta (padrão = {})
    */
   query(variables: Record<string, any> = {}): Queryable<T> {
-    return new Queryable<T>(this.provider, this.tableName, this.alias, variables);
+    return new Queryable<T>(
+      this.provider,
+      this.tableName,
+      this.alias,
+      variables,
+      undefined,
+      this.context,
+    );
   }
 
   /**
@@ -136,6 +156,38 @@ export class DbSet<T> {
     return this.query().offset(offset);
   }
 
+  /**
+   * Combines the records with the rows of another query, removing duplicates (UNION)
+   * @param other Query with the same columns
+   */
+  union(other: Queryable<T> | DbSet<T>): Queryable<T> {
+    return this.query().union(other);
+  }
+
+  /**
+   * Combines the records with the rows of another query, keeping duplicates (UNION ALL)
+   * @param other Query with the same columns
+   */
+  unionAll(other: Queryable<T> | DbSet<T>): Queryable<T> {
+    return this.query().unionAll(other);
+  }
+
+  /**
+   * Keeps the records also returned by another query (INTERSECT)
+   * @param other Query with the same columns
+   */
+  intersect(other: Queryable<T> | DbSet<T>): Queryable<T> {
+    return this.query().intersect(other);
+  }
+
+  /**
+   * Keeps the records not returned by another query (EXCEPT)
+   * @param other Query with the same columns
+   */
+  except(other: Queryable<T> | DbSet<T>): Queryable<T> {
+    return this.query().except(other);
+  }
+
   /**
    * Counts the number of records
    * @param selector Optional selector for the column to count
@@ -605,4 +657,383 @@ export class DbSet<T> {
   toQueryString(): string {
     return this.query().toQueryString();
   }
+
+  /**
+   * Converts a query for the entire table to parameterized SQL
+   */
+  toParameterizedQuery(): ParameterizedQuery {
+    return this.query().toParameterizedQuery();
+  }
+
+  /**
+   * Creates a queryable that renders SQL in a specific dialect
+   * @param dialect The dialect or the name of a registered dialect
+   */
+  useDialect(dialect: SqlDialect | string): Queryable<T> {
+    return this.query().useDialect(dialect);
+  }
+
+  /**
+   * Cria uma consulta que ignora os filtros globais do modelo
+   */
+  ignoreQueryFilters(): Queryable<T> {
+    return this.query().ignoreQueryFilters();
+  }
+
+  /**
+   * Carrega uma navegação declarada com hasMany() junto com os registros
+   * @param navigation Seleciona a coleção, ex: u => u.orders
+   */
+  include(navigation: (entity: T) => any[]): Queryable<T> {
+    return this.query().include(navigation);
+  }
+
+  /**
+   * Retorna todos os registros da tabela
+   */
+  toListAsync(): Promise<T[]> {
+    return this.query().toListAsync();
+  }
+
+  /**
+   * Retorna o primeiro registro da tabela
+   * @throws Error se a tabela estiver vazia
+   */
+  firstAsync(): Promise<T> {
+    return this.query().firstAsync();
+  }
+
+  /**
+   * Retorna o primeiro registro da tabela, ou null se ela estiver vazia
+   */
+  firstOrDefaultAsync(): Promise<T | null> {
+    return this.query().firstOrDefaultAsync();
+  }
+
+  /**
+   * Retorna o único registro da tabela
+   * @throws Error se a tabela estiver vazia ou tiver mais de um registro
+   */
+  singleAsync(): Promise<T> {
+    return this.query().singleAsync();
+  }
+
+  /**
+   * Verifica se a tabela possui algum registro
+   */
+  anyAsync(): Promise<boolean> {
+    return this.query().anyAsync();
+  }
+
+  /**
+   * Conta os registros da tabela
+   */
+  countAsync(): Promise<number> {
+    return this.query().countAsync();
+  }
+
+  /**
+   * Retorna os valores de uma propriedade de todos os registros
+   * @param selector Seletor da propriedade
+   */
+  pluckAsync<K>(selector: (entity: T) => K): Promise<K[]> {
+    return this.query().pluckAsync(selector);
+  }
+
+  /**
+   * Retorna os registros indexados por chave
+   * @param keySelector Seletor da chave de cada registro
+   */
+  toMapAsync<K>(keySelector: (entity: T) => K): Promise<Map<K, T>> {
+    return this.query().toMapAsync(keySelector);
+  }
+
+  /**
+   * Insere um registro e o retorna com os valores gerados pelo banco (ex: identidade)
+   * @param entity O registro a inserir
+   */
+  async insert(entity: Partial<T>): Promise<T> {
+    const [inserted] = await this.insertMany([entity]);
+    return inserted;
+  }
+
+  /**
+   * Insere vários registros, com um único INSERT para os registros que definem as mesmas
+   * propriedades. Propriedades ausentes ficam fora da lista de colunas, para que o banco
+   * aplique os valores padrão em vez de NULL.
+   * Os valores gerados pelo banco são lidos de OUTPUT INSERTED.* / RETURNING *
+   * quando o dialeto suporta
+   * @param entities Os registros a inserir
+   */
+  async insertMany(entities: Partial<T>[]): Promise<T[]> {
+    const groups = new Map<string, number[]>();
+    entities.forEach((entity, index) => {
+      const columns = this.getDefinedProperties([entity]).sort().join(',');
+      groups.set(columns, [...(groups.get(columns) || []), index]);
+    });
+
+    const inserted: T[] = new Array(entities.length);
+    for (const indexes of groups.values()) {
+      const rows = await this.insertRows(indexes.map(index => entities[index]));
+      indexes.forEach((entityIndex, i) => (inserted[entityIndex] = rows[i]));
+    }
+
+    return inserted;
+  }
+
+  /**
+   * Anexa registros ao change tracker do contexto, para que as alterações feitas neles
+   * sejam salvas por DbContext.saveChangesAsync()
+   * @param entities Registros carregados do banco (ex: por toListAsync())
+   */
+  attach(entities: T | T[]): void {
+    this.track(entities, 'unchanged');
+  }
+
+  /**
+   * Agenda a inserção de registros no próximo DbContext.saveChangesAsync()
+   * @param entities Os registros a inserir
+   */
+  add(entities: T | T[]): void {
+    this.track(entities, 'added');
+  }
+
+  /**
+   * Agenda a exclusão de registros no próximo DbContext.saveChangesAsync()
+   * @param entities Os registros a excluir
+   */
+  remove(entities: T | T[]): void {
+    this.track(entities, 'deleted');
+  }
+
+  private track(entities: T | T[], state: 'unchanged' | 'added' | 'deleted'): void {
+    for (const entity of Array.isArray(entities) ? entities : [entities]) {
+      this.context.changeTracker.track(entity as object, this, state);
+    }
+  }
+
+  /**
+   * Insere os registros de uma consulta com um único INSERT INTO ... SELECT.
+   * Cada propriedade projetada no select() preenche a coluna mapeada para ela na tabela de destino
+   * @param query Consulta com um select() que projeta as propriedades do registro de destino
+   * @returns O número de registros inseridos
+   */
+  async insertFrom<S extends Partial<T>>(query: Queryable<S>): Promise<number> {
+    const select = query.toStatement();
+    const projections = select.getProjections();
+
+    if (projections.length === 0) {
+      throw new Error(
+        `insertFrom() into '${this.tableName}' needs a query with select(), e.g. select(o => ({ id: o.id }))`,
+      );
+    }
+
+    // As colunas de destino vêm do modelo: um nome desconhecido viraria uma coluna inexistente
+    const entity = this.context.modelBuilder.findEntity(this.tableName);
+    if (!entity) {
+      throw new Error(
+        `insertFrom() into '${this.tableName}' needs the properties of the entity. Declare them with modelBuilder.entity('${this.tableName}', e => e.property(...))`,
+      );
+    }
+    const properties = entity.getPropertyNames();
+
+    const columns = projections.map((projection, index) => {
+      const property = projection.getAlias();
+      if (!property) {
+        throw new Error(
+          `Projection ${index} of the query inserted into '${this.tableName}' has no name. Select an object, e.g. select(o => ({ id: o.id }))`,
+        );
+      }
+      if (this.context.findNavigation(this.alias, property)) {
+        throw new Error(
+          `'${property}' is a navigation of '${this.tableName}' and cannot receive inserted values`,
+        );
+      }
+      if (!properties.includes(property)) {
+        throw new Error(
+          `'${property}' is not a property of '${this.tableName}'. Expected one of: ${properties.join(', ')}`,
+        );
+      }
+      return this.context.getColumnName(this.alias, property);
+    });
+
+    const duplicate = columns.find((column, index) => columns.indexOf(column) !== index);
+    if (duplicate) {
+      throw new Error(
+        `The query inserted into '${this.tableName}' selects more than one value for column '${duplicate}'`,
+      );
+    }
+
+    const builder = new ExpressionBuilder(this.context);
+    const insertExpr = builder.createInsertFrom(
+      builder.createTable(this.tableName, this.alias),
+      columns,
+      select,
+    );
+
+    const result: ModificationResult = await this.provider.execAsync(
+      ExpressionSerializer.serialize(insertExpr),
+    );
+    return result?.rowsAffected ?? 0;
+  }
+
+  /**
+   * Insere os registros novos e atualiza os existentes em um único comando
+   * (MERGE, INSERT ... ON CONFLICT ou ON DUPLICATE KEY UPDATE, conforme o dialeto).
+   * O provider deve retornar cada registro gravado com a coluna __action ('INSERT' / 'UPDATE');
+   * sem ela, a ação é deduzida pelo dialeto a partir de rowsAffected, ou fica 'unknown'
+   * @param entities Os registros a gravar
+   * @param options match: propriedades que identificam um registro existente;
+   * update: novos valores de um registro existente, calculados a partir do registro recebido
+   */
+  async upsert(entities: Partial<T>[], options: UpsertOptions<T>): Promise<UpsertResult<T>[]> {
+    if (entities.length === 0) {
+      return [];
+    }
+
+    const matchProperties = getSelectedPropertyNames(options.match);
+    entities.forEach((entity, index) => {
+      const missing = matchProperties.find(
+        property =>
+          entity[property as keyof T] === undefined || entity[property as keyof T] === null,
+      );
+      if (missing) {
+        throw new Error(
+          `Row ${index} of the upsert into '${this.tableName}' has no value for the match property '${missing}'`,
+        );
+      }
+    });
+
+    const properties = this.getDefinedProperties(entities);
+    const builder = new ExpressionBuilder(this.context);
+
+    // Sem update explícito, todas as propriedades que não identificam o registro são atualizadas
+    const assignments = options.update
+      ? new LambdaParser(builder).parseAssignments(options.update, this.alias)
+      : new Map(
+          properties
+            .filter(property => !matchProperties.includes(property))
+            .map(property => [property, builder.createColumn(property, this.alias)]),
+        );
+
+    const columnOf = (property: string) => this.context.getColumnName(this.alias, property);
+    const upsertExpr = builder.createUpsert(
+      builder.createTable(this.tableName, this.alias),
+      properties.map(columnOf),
+      entities.map(entity =>
+        properties.map(property => builder.createConstant(entity[property as keyof T] ?? null)),
+      ),
+      matchProperties.map(columnOf),
+      [...assignments.keys()].map(columnOf),
+      [...assignments.values()],
+      true,
+    );
+
+    const result: ModificationResult = await this.provider.execAsync(
+      ExpressionSerializer.serialize(upsertExpr),
+    );
+
+    // A ordem das linhas retornadas não é garantida (MERGE), então elas são associadas pela chave
+    const keyOf = (entity: Partial<T>) =>
+      JSON.stringify(matchProperties.map(property => entity[property as keyof T]));
+    const written = new Map<string, { action: any; entity: Partial<T> }>();
+    for (const row of result?.rows || []) {
+      const { [UPSERT_ACTION_COLUMN]: action, ...columns } = row;
+      const entity = this.mapColumnsToProperties(columns);
+      written.set(keyOf(entity), { action, entity });
+    }
+
+    const inferredAction =
+      typeof result?.rowsAffected === 'number'
+        ? this.context.getDialect().inferUpsertAction?.(result.rowsAffected, entities.length)
+        : null;
+
+    return entities.map(entity => {
+      const row = written.get(keyOf(entity));
+      const action =
+        row?.action === 'INSERT' ? 'inserted' : row?.action === 'UPDATE' ? 'updated' : null;
+
+      return {
+        entity: { ...entity, ...row?.entity } as T,
+        action: action ?? inferredAction ?? 'unknown',
+      };
+    });
+  }
+
+  /**
+   * Insere registros que definem as mesmas propriedades em um único comando INSERT
+   */
+  private async insertRows(entities: Partial<T>[]): Promise<T[]> {
+    const properties = this.getDefinedProperties(entities);
+
+    if (properties.length === 0) {
+      throw new Error(`Cannot insert into '${this.tableName}' without any values`);
+    }
+
+    const builder = new ExpressionBuilder(this.context);
+    const insertExpr = builder.createInsert(
+      builder.createTable(this.tableName, this.alias),
+      properties.map(property => this.context.getColumnName(this.alias, property)),
+      entities.map(entity =>
+        properties.map(property => builder.createConstant(entity[property as keyof T])),
+      ),
+      true,
+    );
+
+    const result: ModificationResult = await this.provider.execAsync(
+      ExpressionSerializer.serialize(insertExpr),
+    );
+    const returnedRows = (result?.rows || []).map(row => this.mapColumnsToProperties(row));
+
+    return entities.map(
+      (entity, index) => ({ ...entity, ...this.findReturnedRow(entity, returnedRows, index) }) as T,
+    );
+  }
+
+  /**
+   * Encontra o registro devolvido pelo banco para uma entidade: pela chave do modelo quando
+   * a entidade já a define, ou pela posição. OUTPUT INSERTED / RETURNING não garantem a
+   * ordem dos VALUES, então chaves geradas pelo banco dependem da ordem em que ele as devolve
+   */
+  private findReturnedRow(
+    entity: Partial<T>,
+    returnedRows: Partial<T>[],
+    index: number,
+  ): Partial<T> | undefined {
+    const key = this.context.modelBuilder.findEntity(this.tableName)?.getKey() ?? ['id'];
+    const keyOf = (row: Partial<T>) => JSON.stringify(key.map(p => row[p as keyof T] ?? null));
+
+    if (key.every(property => entity[property as keyof T] !== undefined)) {
+      return returnedRows.find(row => keyOf(row) === keyOf(entity)) ?? returnedRows[index];
+    }
+
+    return returnedRows[index];
+  }
+
+  /**
+   * Propriedades com valor em algum dos registros. Propriedades indefinidas ficam de fora
+   * para que o banco aplique os valores padrão
+   */
+  private getDefinedProperties(entities: Partial<T>[]): string[] {
+    return [
+      ...new Set(
+        entities.flatMap(entity =>
+          Object.keys(entity).filter(key => entity[key as keyof T] !== undefined),
+        ),
+      ),
+    ];
+  }
+
+  /**
+   * Converte as colunas de um registro retornado pelo banco para as propriedades do modelo
+   */
+  private mapColumnsToProperties(row: Record<string, any> | undefined): Partial<T> {
+    const mapped: Record<string, any> = {};
+
+    for (const [columnName, value] of Object.entries(row || {})) {
+      mapped[this.context.getPropertyName(this.alias, columnName)] = value;
+    }
+
+    return mapped as Partial<T>;
+  }
 }
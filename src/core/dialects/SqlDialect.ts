@@ -0,0 +1,147 @@
+import {
+  BaseSqlGenerationVisitor,
+  SqlGenerationOptions,
+} from '../visitors/BaseSqlGenerationVisitor';
+import { SqlServerGenerationVisitor } from '../visitors/SqlServerGenerationVisitor';
+import { SqliteGenerationVisitor } from '../visitors/SqliteGenerationVisitor';
+import { PostgreSqlGenerationVisitor } from '../visitors/PostgreSqlGenerationVisitor';
+import { MySqlGenerationVisitor } from '../visitors/MySqlGenerationVisitor';
+import { UpsertAction } from '../query/Types';
+
+/**
+ * A SQL dialect knows how to render expression trees for a specific database
+ */
+export interface SqlDialect {
+  /** Unique name used to look the dialect up (e.g. 'sqlserver') */
+  readonly name: string;
+
+  /**
+   * Creates a visitor that generates SQL in this dialect
+   * @param parameters Optional map of parameter names to values
+   * @param options Optional SQL generation options
+   */
+  createVisitor(
+    parameters?: Map<string, any>,
+    options?: SqlGenerationOptions,
+  ): BaseSqlGenerationVisitor;
+
+  /**
+   * Deduces the action of an upsert from the affected rows reported by the database, for
+   * dialects whose upsert does not return the action column
+   * @param rowsAffected Affected rows reported by the database
+   * @param rowCount Number of rows sent in the upsert
+   * @returns The action of every row, or null when it cannot be deduced
+   */
+  inferUpsertAction?(rowsAffected: number, rowCount: number): UpsertAction | null;
+}
+
+/**
+ * Microsoft SQL Server dialect
+ */
+export class SqlServerDialect implements SqlDialect {
+  readonly name = 'sqlserver';
+
+  createVisitor(parameters?: Map<string, any>, options?: SqlGenerationOptions) {
+    return new SqlServerGenerationVisitor(parameters, options);
+  }
+}
+
+/**
+ * PostgreSQL dialect
+ */
+export class PostgreSqlDialect implements SqlDialect {
+  readonly name = 'postgres';
+
+  createVisitor(parameters?: Map<string, any>, options?: SqlGenerationOptions) {
+    return new PostgreSqlGenerationVisitor(parameters, options);
+  }
+}
+
+/**
+ * MySQL and MariaDB dialect
+ */
+export class MySqlDialect implements SqlDialect {
+  readonly name = 'mysql';
+
+  createVisitor(parameters?: Map<string, any>, options?: SqlGenerationOptions) {
+    return new MySqlGenerationVisitor(parameters, options);
+  }
+
+  /**
+   * ON DUPLICATE KEY UPDATE conta 1 por registro inserido, 2 por registro atualizado e 0 por
+   * registro que já tinha os mesmos valores. Com vários registros, só a soma de todos
+   * atualizados é inequívoca
+   */
+  inferUpsertAction(rowsAffected: number, rowCount: number): UpsertAction | null {
+    if (rowCount === 1 && rowsAffected === 1) {
+      return 'inserted';
+    }
+    if (rowCount === 1 ? rowsAffected === 0 || rowsAffected === 2 : rowsAffected === 2 * rowCount) {
+      return 'updated';
+    }
+    return null;
+  }
+}
+
+/**
+ * SQLite dialect
+ */
+export class SqliteDialect implements SqlDialect {
+  readonly name = 'sqlite';
+
+  createVisitor(parameters?: Map<string, any>, options?: SqlGenerationOptions) {
+    return new SqliteGenerationVisitor(parameters, options);
+  }
+}
+
+/**
+ * Registry of the dialects that can be selected by name
+ */
+export class SqlDialects {
+  private static readonly dialects = new Map<string, SqlDialect>();
+
+  /** Dialect used when none is configured */
+  static readonly default: SqlDialect = new SqlServerDialect();
+
+  /**
+   * Registers a dialect, replacing any dialect with the same name
+   */
+  static register(dialect: SqlDialect): void {
+    SqlDialects.dialects.set(dialect.name.toLowerCase(), dialect);
+  }
+
+  /**
+   * Removes a registered dialect
+   * @returns true if a dialect with that name was registered
+   */
+  static unregister(name: string): boolean {
+    return SqlDialects.dialects.delete(name.toLowerCase());
+  }
+
+  /**
+   * Gets a registered dialect by name
+   * @throws Error if no dialect is registered with that name
+   */
+  static get(name: string): SqlDialect {
+    const dialect = SqlDialects.dialects.get(name.toLowerCase());
+
+    if (!dialect) {
+      const available = Array.from(SqlDialects.dialects.keys()).join(', ');
+      throw new Error(`Unknown SQL dialect '${name}'. Registered dialects: ${available}`);
+    }
+
+    return dialect;
+  }
+
+  /**
+   * Resolves a dialect given either its name or an instance
+   */
+  static resolve(dialect: SqlDialect | string): SqlDialect {
+    return typeof dialect === 'string' ? SqlDialects.get(dialect) : dialect;
+  }
+}
+
+SqlDialects.register(SqlDialects.default);
+SqlDialects.register(new PostgreSqlDialect());
+SqlDialects.register(new MySqlDialect());
+SqlDialects.register(new SqliteDialect());
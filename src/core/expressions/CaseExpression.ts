@@ -0,0 +1,63 @@
+import { Expression, ICaseExpression, IExpressionVisitor } from './Expression';
+
+/**
+ * A WHEN ... THEN ... branch of a CASE expression
+ */
+export interface CaseWhenClause {
+  /** Condição (CASE pesquisado) ou valor comparado com o operando (CASE simples) */
+  when: Expression;
+  then: Expression;
+}
+
+/**
+ * Represents a CASE expression
+ * Examples: CASE WHEN amount > 1000 THEN 'gold' ELSE 'std' END,
+ * CASE status WHEN 'a' THEN 1 WHEN 'b' THEN 2 END
+ */
+export class CaseExpression extends Expression implements ICaseExpression {
+  /**
+   * Creates a CASE expression
+   * @param operand The value compared with each WHEN (simple CASE), or null for a searched CASE
+   * @param whenClauses The branches, evaluated in order
+   * @param elseResult Result when no branch matches, or null for NULL
+   */
+  constructor(
+    private readonly operand: Expression | null,
+    private readonly whenClauses: CaseWhenClause[],
+    private readonly elseResult: Expression | null = null,
+  ) {
+    super();
+
+    if (whenClauses.length === 0) {
+      throw new Error('A CASE expression requires at least one WHEN clause');
+    }
+  }
+
+  /**
+   * Gets the value compared with each WHEN, or null for a searched CASE
+   */
+  getOperand(): Expression | null {
+    return this.operand;
+  }
+
+  /**
+   * Gets the WHEN ... THEN ... branches
+   */
+  getWhenClauses(): CaseWhenClause[] {
+    return this.whenClauses;
+  }
+
+  /**
+   * Gets the ELSE result, or null when there is none
+   */
+  getElse(): Expression | null {
+    return this.elseResult;
+  }
+
+  /**
+   * Accepts a visitor
+   */
+  accept<T>(visitor: IExpressionVisitor<T>): T {
+    return visitor.visitCaseExpression(this);
+  }
+}
@@ -0,0 +1,56 @@
+import { Expression, ICommonTableExpression, IExpressionVisitor } from './Expression';
+import { CompoundSelectExpression } from './CompoundSelectExpression';
+import { SelectExpression } from './SelectExpression';
+
+/**
+ * Represents a common table expression of a WITH clause: name AS (SELECT ...)
+ */
+export class CommonTableExpression extends Expression implements ICommonTableExpression {
+  /**
+   * Creates a common table expression
+   * @param name Name by which the query is referenced in the statement
+   * @param query The query that produces the rows
+   * @param recursive Whether the query references its own name (anchor UNION ALL recursive part)
+   */
+  constructor(
+    private readonly name: string,
+    private readonly query: SelectExpression | CompoundSelectExpression,
+    private readonly recursive: boolean = false,
+  ) {
+    super();
+
+    if (recursive && !(query instanceof CompoundSelectExpression)) {
+      throw new Error(
+        `The recursive common table expression '${name}' must combine an anchor query with a recursive query`,
+      );
+    }
+  }
+
+  /**
+   * Gets the name of the common table expression
+   */
+  getName(): string {
+    return this.name;
+  }
+
+  /**
+   * Gets the query that produces the rows
+   */
+  getQuery(): SelectExpression | CompoundSelectExpression {
+    return this.query;
+  }
+
+  /**
+   * Whether the query references its own name
+   */
+  isRecursive(): boolean {
+    return this.recursive;
+  }
+
+  /**
+   * Accepts a visitor
+   */
+  accept<T>(visitor: IExpressionVisitor<T>): T {
+    return visitor.visitCommonTableExpression(this);
+  }
+}
@@ -0,0 +1,59 @@
+import { Expression, ICompoundSelectExpression, IExpressionVisitor } from './Expression';
+import { SelectExpression } from './SelectExpression';
+
+/**
+ * Defines the operator that combines two queries
+ */
+export enum SetOperation {
+  UNION = 'UNION',
+  UNION_ALL = 'UNION ALL',
+  INTERSECT = 'INTERSECT',
+  EXCEPT = 'EXCEPT',
+}
+
+/**
+ * Represents two queries combined by a set operation (UNION, INTERSECT, EXCEPT)
+ */
+export class CompoundSelectExpression extends Expression implements ICompoundSelectExpression {
+  /**
+   * Creates a compound select
+   * @param operation The set operation
+   * @param left The first query
+   * @param right The second query, with the same columns as the first
+   */
+  constructor(
+    private readonly operation: SetOperation,
+    private readonly left: SelectExpression | CompoundSelectExpression,
+    private readonly right: SelectExpression | CompoundSelectExpression,
+  ) {
+    super();
+  }
+
+  /**
+   * Gets the set operation
+   */
+  getOperation(): SetOperation {
+    return this.operation;
+  }
+
+  /**
+   * Gets the first query
+   */
+  getLeft(): SelectExpression | CompoundSelectExpression {
+    return this.left;
+  }
+
+  /**
+   * Gets the second query
+   */
+  getRight(): SelectExpression | CompoundSelectExpression {
+    return this.right;
+  }
+
+  /**
+   * Accepts a visitor
+   */
+  accept<T>(visitor: IExpressionVisitor<T>): T {
+    return visitor.visitCompoundSelectExpression(this);
+  }
+}
@@ -0,0 +1,50 @@
+import { Expression, IDeleteExpression, IExpressionVisitor } from './Expression';
+import { JoinExpression } from './JoinExpression';
+import { TableExpression } from './TableExpression';
+
+/**
+ * Represents a set-based DELETE statement
+ */
+export class DeleteExpression extends Expression implements IDeleteExpression {
+  /**
+   * Creates a delete statement
+   * @param table The table whose rows are deleted
+   * @param joins Tables joined to filter the deleted rows
+   * @param whereClause Filter of the deleted rows
+   */
+  constructor(
+    private readonly table: TableExpression,
+    private readonly joins: JoinExpression[] = [],
+    private readonly whereClause: Expression | null = null,
+  ) {
+    super();
+  }
+
+  /**
+   * Gets the table whose rows are deleted
+   */
+  getTable(): TableExpression {
+    return this.table;
+  }
+
+  /**
+   * Gets the joined tables
+   */
+  getJoins(): JoinExpression[] {
+    return this.joins;
+  }
+
+  /**
+   * Gets the filter of the deleted rows
+   */
+  getWhereClause(): Expression | null {
+    return this.whereClause;
+  }
+
+  /**
+   * Accepts a visitor
+   */
+  accept<T>(visitor: IExpressionVisitor<T>): T {
+    return visitor.visitDeleteExpression(this);
+  }
+}
@@ -0,0 +1,36 @@
+import { Expression, IDerivedTableExpression, IExpressionVisitor } from './Expression';
+import { CompoundSelectExpression } from './CompoundSelectExpression';
+import { SelectExpression } from './SelectExpression';
+
+/**
+ * Represents a query used as a table in a SQL FROM clause: (SELECT ...) AS alias
+ */
+export class DerivedTableExpression extends Expression implements IDerivedTableExpression {
+  constructor(
+    private readonly query: SelectExpression | CompoundSelectExpression,
+    private readonly alias: string,
+  ) {
+    super();
+  }
+
+  /**
+   * Gets the query that produces the rows of the table
+   */
+  getQuery(): SelectExpression | CompoundSelectExpression {
+    return this.query;
+  }
+
+  /**
+   * Gets the table alias
+   */
+  getAlias(): string {
+    return this.alias;
+  }
+
+  /**
+   * Accepts a visitor
+   */
+  accept<T>(visitor: IExpressionVisitor<T>): T {
+    return visitor.visitDerivedTableExpression(this);
+  }
+}
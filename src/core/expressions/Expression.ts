@@ -33,6 +33,15 @@ export interface IExpressionVisitor<T> {
   visitParameterExpression(expr: IParameterExpression): T;
   visitParentColumnExpression(expr: IParentColumnExpression): T;
   visitFragmentExpression(expr: IFragmentExpression): T;
+  visitInsertExpression(expr: IInsertExpression): T;
+  visitUpdateExpression(expr: IUpdateExpression): T;
+  visitDeleteExpression(expr: IDeleteExpression): T;
+  visitUpsertExpression(expr: IUpsertExpression): T;
+  visitCompoundSelectExpression(expr: ICompoundSelectExpression): T;
+  visitDerivedTableExpression(expr: IDerivedTableExpression): T;
+  visitCommonTableExpression(expr: ICommonTableExpression): T;
+  visitWindowExpression(expr: IWindowExpression): T;
+  visitCaseExpression(expr: ICaseExpression): T;
 }
 
 /**
@@ -74,6 +83,10 @@ export enum ExpressionType {
   NotIn,
   Exists,
   NotExists,
+
+  // Testes de nulidade (IS NULL / IS NOT NULL)
+  IsNull,
+  IsNotNull,
 }
 
 export interface IParentColumnExpression extends Expression {
@@ -113,7 +126,7 @@ export interface IFunctionExpression extends Expression {
 
 export interface ISelectExpression extends Expression {
   getProjections(): IProjectionExpression[];
-  getFromTable(): ITableExpression;
+  getFromTable(): ITableExpression | IDerivedTableExpression | null;
   getJoins(): IJoinExpression[];
   getWhereClause(): Expression | null;
   getGroupByColumns(): Expression[];
@@ -122,11 +135,82 @@ export interface ISelectExpression extends Expression {
   getLimitValue(): Expression | null;
   getOffsetValue(): Expression | null;
   getIsDistinct(): boolean;
+  getCommonTables(): ICommonTableExpression[];
+}
+
+export interface ICompoundSelectExpression extends Expression {
+  getOperation(): string;
+  getLeft(): ISelectExpression | ICompoundSelectExpression;
+  getRight(): ISelectExpression | ICompoundSelectExpression;
+}
+
+export interface IDerivedTableExpression extends Expression {
+  getQuery(): ISelectExpression | ICompoundSelectExpression;
+  getAlias(): string;
+}
+
+export interface ICommonTableExpression extends Expression {
+  getName(): string;
+  getQuery(): ISelectExpression | ICompoundSelectExpression;
+  isRecursive(): boolean;
+}
+
+export interface IWindowFrame {
+  unit: string;
+  start: number | null;
+  end: number | null;
+}
+
+export interface IWindowExpression extends Expression {
+  getFunction(): IFunctionExpression;
+  getPartitionBy(): Expression[];
+  getOrderBy(): IOrderingExpression[];
+  getFrame(): IWindowFrame | null;
+}
+
+export interface ICaseExpression extends Expression {
+  getOperand(): Expression | null;
+  getWhenClauses(): { when: Expression; then: Expression }[];
+  getElse(): Expression | null;
 }
 
 export interface ITableExpression extends Expression {
   getTableName(): string;
   getAlias(): string;
+  getSchema(): string | null;
+  getDatabase(): string | null;
+}
+
+export interface IInsertExpression extends Expression {
+  getTable(): ITableExpression;
+  getColumns(): string[];
+  getValues(): Expression[][];
+  getReturning(): boolean;
+  getQuery(): ISelectExpression | null;
+}
+
+export interface IUpdateExpression extends Expression {
+  getTable(): ITableExpression;
+  getColumns(): string[];
+  getValues(): Expression[];
+  getJoins(): IJoinExpression[];
+  getWhereClause(): Expression | null;
+}
+
+export interface IDeleteExpression extends Expression {
+  getTable(): ITableExpression;
+  getJoins(): IJoinExpression[];
+  getWhereClause(): Expression | null;
+}
+
+export interface IUpsertExpression extends Expression {
+  getTable(): ITableExpression;
+  getColumns(): string[];
+  getValues(): Expression[][];
+  getMatchColumns(): string[];
+  getUpdateColumns(): string[];
+  getUpdateValues(): Expression[];
+  getReturning(): boolean;
 }
 
 export interface IJoinExpression extends Expression {
@@ -0,0 +1,90 @@
+import { Expression, IExpressionVisitor, IInsertExpression } from './Expression';
+import { SelectExpression } from './SelectExpression';
+import { TableExpression } from './TableExpression';
+
+/**
+ * Represents an INSERT INTO ... VALUES or INSERT INTO ... SELECT statement
+ */
+export class InsertExpression extends Expression implements IInsertExpression {
+  /**
+   * Creates an insert statement
+   * @param table The target table
+   * @param columns Names of the columns receiving values
+   * @param values One list of values per inserted row, in the order of the columns
+   * @param returning Whether the inserted rows (with generated values) should be returned
+   * @param query Query whose rows are inserted instead of the values, with one projection per column
+   */
+  constructor(
+    private readonly table: TableExpression,
+    private readonly columns: string[],
+    private readonly values: Expression[][],
+    private readonly returning: boolean = false,
+    private readonly query: SelectExpression | null = null,
+  ) {
+    super();
+
+    if (query) {
+      if (values.length > 0) {
+        throw new Error(
+          `The insert into '${table.getTableName()}' cannot have both values and a query`,
+        );
+      }
+
+      const projections = query.getProjections().length;
+      if (projections !== columns.length) {
+        throw new Error(
+          `The query inserted into '${table.getTableName()}' selects ${projections} columns but ${columns.length} columns were given`,
+        );
+      }
+    }
+
+    const invalidRow = values.findIndex(row => row.length !== columns.length);
+    if (invalidRow !== -1) {
+      throw new Error(
+        `Row ${invalidRow} of the insert into '${table.getTableName()}' has ${values[invalidRow].length} values but ${columns.length} columns were given`,
+      );
+    }
+  }
+
+  /**
+   * Gets the target table
+   */
+  getTable(): TableExpression {
+    return this.table;
+  }
+
+  /**
+   * Gets the names of the columns receiving values
+   */
+  getColumns(): string[] {
+    return this.columns;
+  }
+
+  /**
+   * Gets the values of each inserted row
+   */
+  getValues(): Expression[][] {
+    return this.values;
+  }
+
+  /**
+   * Gets the query whose rows are inserted, if any
+   */
+  getQuery(): SelectExpression | null {
+    return this.query;
+  }
+
+  /**
+   * Whether the inserted rows should be returned (OUTPUT INSERTED.* / RETURNING *)
+   */
+  getReturning(): boolean {
+    return this.returning;
+  }
+
+  /**
+   * Accepts a visitor
+   */
+  accept<T>(visitor: IExpressionVisitor<T>): T {
+    return visitor.visitInsertExpression(this);
+  }
+}
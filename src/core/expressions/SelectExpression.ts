@@ -2,6 +2,8 @@ import { Expression, IExpressionVisitor } from './Expression';
 import { ProjectionExpression } from './ProjectionExpression';
 import { TableExpression } from './TableExpression';
 import { JoinExpression } from './JoinExpression';
+import { DerivedTableExpression } from './DerivedTableExpression';
+import { CommonTableExpression } from './CommonTableExpression';
 
 /**
  * Represents a complete SQL SELECT statement
@@ -9,7 +11,7 @@ import { JoinExpression } from './JoinExpression';
 export class SelectExpression extends Expression {
   constructor(
     private readonly projections: ProjectionExpression[],
-    private readonly fromTable: TableExpression,
+    private readonly fromTable: TableExpression | DerivedTableExpression | null,
     private readonly joins: JoinExpression[],
     private readonly whereClause: Expression | null,
     private readonly groupByColumns: Expression[],
@@ -18,6 +20,7 @@ export class SelectExpression extends Expression {
     private readonly limitValue: Expression | null,
     private readonly offsetValue: Expression | null,
     private readonly isDistinct: boolean,
+    private readonly commonTables: CommonTableExpression[] = [],
   ) {
     super();
   }
@@ -30,9 +33,10 @@ export class SelectExpression extends Expression {
   }
 
   /**
-   * Gets the FROM table expression
+   * Gets the FROM table expression, which may be a derived table (subquery), or null
+   * in a SELECT without FROM
    */
-  getFromTable(): TableExpression {
+  getFromTable(): TableExpression | DerivedTableExpression | null {
     return this.fromTable;
   }
 
@@ -92,6 +96,33 @@ export class SelectExpression extends Expression {
     return this.isDistinct;
   }
 
+  /**
+   * Gets the common table expressions of the WITH clause
+   */
+  getCommonTables(): CommonTableExpression[] {
+    return this.commonTables;
+  }
+
+  /**
+   * Creates a copy of this select with the given WITH clause
+   * @param commonTables The common table expressions, each after the ones it references
+   */
+  withCommonTables(commonTables: CommonTableExpression[]): SelectExpression {
+    return new SelectExpression(
+      this.projections,
+      this.fromTable,
+      this.joins,
+      this.whereClause,
+      this.groupByColumns,
+      this.havingClause,
+      this.orderByColumns,
+      this.limitValue,
+      this.offsetValue,
+      this.isDistinct,
+      commonTables,
+    );
+  }
+
   /**
    * Accepts a visitor
    */
@@ -7,6 +7,8 @@ export class TableExpression extends Expression implements ITableExpression {
   constructor(
     private readonly tableName: string,
     private readonly alias: string,
+    private readonly schema: string | null = null,
+    private readonly database: string | null = null,
   ) {
     super();
   }
@@ -18,6 +20,20 @@ export class TableExpression extends Expression implements ITableExpression {
     return this.tableName;
   }
 
+  /**
+   * Gets the schema of the table, or null for the default schema
+   */
+  getSchema(): string | null {
+    return this.schema;
+  }
+
+  /**
+   * Gets the database of the table, or null for the current database
+   */
+  getDatabase(): string | null {
+    return this.database;
+  }
+
   /**
    * Gets the table alias
    */
@@ -7,7 +7,7 @@ import {
 
 /**
  * Represents a unary operation on an expression
- * Examples: NOT condition, -value
+ * Examples: NOT condition, -value, value IS NULL
  */
 export class UnaryExpression extends Expression implements IUnaryExpression {
   constructor(
@@ -27,6 +27,8 @@ export class UnaryExpression extends Expression implements IUnaryExpression {
       ExpressionType.Negate,
       ExpressionType.Exists, // Novo operador para subconsultas
       ExpressionType.NotExists, // Novo operador para subconsultas
+      ExpressionType.IsNull,
+      ExpressionType.IsNotNull,
     ];
 
     if (!validOperators.includes(type)) {
@@ -0,0 +1,78 @@
+import { Expression, IExpressionVisitor, IUpdateExpression } from './Expression';
+import { JoinExpression } from './JoinExpression';
+import { TableExpression } from './TableExpression';
+
+/**
+ * Represents a set-based UPDATE statement
+ */
+export class UpdateExpression extends Expression implements IUpdateExpression {
+  /**
+   * Creates an update statement
+   * @param table The table whose rows are updated
+   * @param columns Names of the columns receiving new values
+   * @param values The new value of each column, which may reference the current row
+   * @param joins Tables joined to filter the updated rows or to read values from
+   * @param whereClause Filter of the updated rows
+   */
+  constructor(
+    private readonly table: TableExpression,
+    private readonly columns: string[],
+    private readonly values: Expression[],
+    private readonly joins: JoinExpression[] = [],
+    private readonly whereClause: Expression | null = null,
+  ) {
+    super();
+
+    if (columns.length === 0) {
+      throw new Error(`The update of '${table.getTableName()}' must set at least one column`);
+    }
+
+    if (values.length !== columns.length) {
+      throw new Error(
+        `The update of '${table.getTableName()}' has ${values.length} values but ${columns.length} columns were given`,
+      );
+    }
+  }
+
+  /**
+   * Gets the updated table
+   */
+  getTable(): TableExpression {
+    return this.table;
+  }
+
+  /**
+   * Gets the names of the updated columns
+   */
+  getColumns(): string[] {
+    return this.columns;
+  }
+
+  /**
+   * Gets the new value of each column
+   */
+  getValues(): Expression[] {
+    return this.values;
+  }
+
+  /**
+   * Gets the joined tables
+   */
+  getJoins(): JoinExpression[] {
+    return this.joins;
+  }
+
+  /**
+   * Gets the filter of the updated rows
+   */
+  getWhereClause(): Expression | null {
+    return this.whereClause;
+  }
+
+  /**
+   * Accepts a visitor
+   */
+  accept<T>(visitor: IExpressionVisitor<T>): T {
+    return visitor.visitUpdateExpression(this);
+  }
+}
@@ -0,0 +1,116 @@
+import { Expression, IExpressionVisitor, IUpsertExpression } from './Expression';
+import { TableExpression } from './TableExpression';
+
+/**
+ * Column returned with each upserted row telling whether it was inserted ('INSERT')
+ * or updated ('UPDATE')
+ */
+export const UPSERT_ACTION_COLUMN = '__action';
+
+/**
+ * Represents an insert-or-update statement (MERGE, ON CONFLICT or ON DUPLICATE KEY UPDATE)
+ */
+export class UpsertExpression extends Expression implements IUpsertExpression {
+  /**
+   * Creates an upsert statement
+   * @param table The target table
+   * @param columns Names of the columns receiving values
+   * @param values One list of values per row, in the order of the columns
+   * @param matchColumns Columns that identify an existing row (a unique key)
+   * @param updateColumns Columns updated when the row already exists
+   * @param updateValues New value of each updated column. Columns of the table alias refer to
+   * the incoming row (rendered as [source], EXCLUDED or VALUES() depending on the dialect)
+   * @param returning Whether the written rows should be returned with their action
+   */
+  constructor(
+    private readonly table: TableExpression,
+    private readonly columns: string[],
+    private readonly values: Expression[][],
+    private readonly matchColumns: string[],
+    private readonly updateColumns: string[],
+    private readonly updateValues: Expression[],
+    private readonly returning: boolean = false,
+  ) {
+    super();
+
+    if (matchColumns.length === 0) {
+      throw new Error(`The upsert into '${table.getTableName()}' needs at least one match column`);
+    }
+
+    const missing = matchColumns.find(column => !columns.includes(column));
+    if (missing) {
+      throw new Error(
+        `Match column '${missing}' of the upsert into '${table.getTableName()}' is not one of the inserted columns`,
+      );
+    }
+
+    const invalidRow = values.findIndex(row => row.length !== columns.length);
+    if (invalidRow !== -1) {
+      throw new Error(
+        `Row ${invalidRow} of the upsert into '${table.getTableName()}' has ${values[invalidRow].length} values but ${columns.length} columns were given`,
+      );
+    }
+
+    if (updateValues.length !== updateColumns.length) {
+      throw new Error(
+        `The upsert into '${table.getTableName()}' has ${updateValues.length} update values but ${updateColumns.length} update columns were given`,
+      );
+    }
+  }
+
+  /**
+   * Gets the target table
+   */
+  getTable(): TableExpression {
+    return this.table;
+  }
+
+  /**
+   * Gets the names of the columns receiving values
+   */
+  getColumns(): string[] {
+    return this.columns;
+  }
+
+  /**
+   * Gets the values of each row
+   */
+  getValues(): Expression[][] {
+    return this.values;
+  }
+
+  /**
+   * Gets the columns that identify an existing row
+   */
+  getMatchColumns(): string[] {
+    return this.matchColumns;
+  }
+
+  /**
+   * Gets the columns updated when the row already exists
+   */
+  getUpdateColumns(): string[] {
+    return this.updateColumns;
+  }
+
+  /**
+   * Gets the new value of each updated column
+   */
+  getUpdateValues(): Expression[] {
+    return this.updateValues;
+  }
+
+  /**
+   * Whether the written rows should be returned with their action
+   */
+  getReturning(): boolean {
+    return this.returning;
+  }
+
+  /**
+   * Accepts a visitor
+   */
+  accept<T>(visitor: IExpressionVisitor<T>): T {
+    return visitor.visitUpsertExpression(this);
+  }
+}
@@ -0,0 +1,99 @@
+import { Expression, IExpressionVisitor, IWindowExpression } from './Expression';
+import { FunctionExpression } from './FunctionExpression';
+import { OrderingExpression } from './SelectExpression';
+
+/**
+ * Defines how the bounds of a window frame are measured
+ */
+export enum WindowFrameUnit {
+  ROWS = 'ROWS',
+  RANGE = 'RANGE',
+}
+
+/**
+ * Frame of a window: the rows of the partition the function reads for each row.
+ * Os limites são deslocamentos relativos à linha atual (negativo = PRECEDING,
+ * 0 = CURRENT ROW, positivo = FOLLOWING); null é UNBOUNDED
+ */
+export interface WindowFrame {
+  unit: WindowFrameUnit;
+  start: number | null;
+  end: number | null;
+}
+
+/**
+ * Funções de ranking e de deslocamento, que exigem ORDER BY e não aceitam frame
+ */
+const ORDERED_FUNCTIONS = ['ROW_NUMBER', 'RANK', 'DENSE_RANK', 'NTILE', 'LAG', 'LEAD'];
+
+/**
+ * Represents a window function: FUNCTION(...) OVER (PARTITION BY ... ORDER BY ... ROWS BETWEEN ...)
+ */
+export class WindowExpression extends Expression implements IWindowExpression {
+  /**
+   * Creates a window function
+   * @param fn The function computed over the window
+   * @param partitionBy Expressions that split the rows into partitions
+   * @param orderBy Ordering of the rows inside each partition
+   * @param frame Rows of the partition read for each row, or null for the default frame
+   */
+  constructor(
+    private readonly fn: FunctionExpression,
+    private readonly partitionBy: Expression[],
+    private readonly orderBy: OrderingExpression[],
+    private readonly frame: WindowFrame | null = null,
+  ) {
+    super();
+
+    const functionName = fn.getFunctionName().toUpperCase();
+    if (ORDERED_FUNCTIONS.includes(functionName)) {
+      if (orderBy.length === 0) {
+        throw new Error(`The window function ${functionName} requires orderBy()`);
+      }
+      if (frame) {
+        throw new Error(`The window function ${functionName} does not accept a frame clause`);
+      }
+    }
+
+    if (frame && frame.start !== null && frame.end !== null && frame.start > frame.end) {
+      throw new Error(
+        `The frame of a window must start before it ends, but got ${frame.start} and ${frame.end}`,
+      );
+    }
+  }
+
+  /**
+   * Gets the function computed over the window
+   */
+  getFunction(): FunctionExpression {
+    return this.fn;
+  }
+
+  /**
+   * Gets the PARTITION BY expressions
+   */
+  getPartitionBy(): Expression[] {
+    return this.partitionBy;
+  }
+
+  /**
+   * Gets the ORDER BY of the window
+   */
+  getOrderBy(): OrderingExpression[] {
+    return this.orderBy;
+  }
+
+  /**
+   * Gets the frame of the window, or null for the default frame
+   */
+  getFrame(): WindowFrame | null {
+    return this.frame;
+  }
+
+  /**
+   * Accepts a visitor
+   */
+  accept<T>(visitor: IExpressionVisitor<T>): T {
+    return visitor.visitWindowExpression(this);
+  }
+}
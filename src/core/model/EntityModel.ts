@@ -0,0 +1,170 @@
+import { TableReference } from '../query/Types';
+
+/**
+ * A one-to-many relationship declared with hasMany()
+ */
+export interface NavigationModel {
+  /** Name of the collection property, e.g. 'orders' */
+  propertyName: string;
+  /** Table of the related entities, as passed to DbContext.set() */
+  targetTable: TableReference;
+  /** Property of the related entity that references this entity */
+  foreignKey: string | null;
+  /** Property of this entity referenced by the foreign key (default: 'id') */
+  principalKey: string;
+}
+
+/**
+ * Metadata of an entity mapped to a database table
+ */
+export class EntityModel {
+  /** Nome da coluna de cada propriedade mapeada explicitamente */
+  private readonly columnNames = new Map<string, string>();
+  /** Propriedades declaradas com property() */
+  private readonly properties = new Set<string>();
+  /** Relacionamentos declarados, por nome da propriedade */
+  private readonly navigations = new Map<string, NavigationModel>();
+  /** Filtros globais aplicados a todas as consultas da tabela */
+  private readonly queryFilters: Array<(entity: any, params: any) => boolean> = [];
+  /** Propriedades da chave primária */
+  private keyProperties: string[] = ['id'];
+
+  /**
+   * Creates the metadata of an entity
+   * @param tableName Name of the table the entity is mapped to
+   */
+  constructor(readonly tableName: string) {}
+
+  /**
+   * Declares a property stored in a column of the table
+   * @param propertyName Name of the property on the TypeScript model
+   */
+  addProperty(propertyName: string): void {
+    this.properties.add(propertyName);
+  }
+
+  /**
+   * Gets the properties known to be stored in columns: the declared ones, the ones
+   * mapped to a column and the primary key
+   */
+  getPropertyNames(): string[] {
+    return [...new Set([...this.keyProperties, ...this.properties, ...this.columnNames.keys()])];
+  }
+
+  /**
+   * Maps a property to a column
+   * @param propertyName Name of the property on the TypeScript model
+   * @param columnName Name of the column in the database
+   */
+  setColumnName(propertyName: string, columnName: string): void {
+    const existingProperty = this.findPropertyName(columnName);
+
+    if (existingProperty !== undefined && existingProperty !== propertyName) {
+      throw new Error(
+        `Column '${columnName}' of table '${this.tableName}' is already mapped to property '${existingProperty}'`,
+      );
+    }
+
+    this.columnNames.set(propertyName, columnName);
+  }
+
+  /**
+   * Gets the column a property is mapped to. Unmapped properties keep their own name.
+   * @param propertyName Name of the property
+   */
+  getColumnName(propertyName: string): string {
+    return this.findColumnName(propertyName) ?? propertyName;
+  }
+
+  /**
+   * Gets the property mapped to a column. Unmapped columns keep their own name.
+   * @param columnName Name of the column
+   */
+  getPropertyName(columnName: string): string {
+    return this.findPropertyName(columnName) ?? columnName;
+  }
+
+  /**
+   * Gets the explicit property to column mappings
+   */
+  getColumnMappings(): Map<string, string> {
+    return new Map(this.columnNames);
+  }
+
+  /**
+   * Finds the column explicitly mapped to a property
+   * @param propertyName Name of the property
+   */
+  findColumnName(propertyName: string): string | undefined {
+    return this.columnNames.get(propertyName);
+  }
+
+  /**
+   * Finds the property explicitly mapped to a column
+   * @param columnName Name of the column
+   */
+  findPropertyName(columnName: string): string | undefined {
+    for (const [propertyName, mappedColumn] of this.columnNames.entries()) {
+      if (mappedColumn === columnName) {
+        return propertyName;
+      }
+    }
+    return undefined;
+  }
+
+  /**
+   * Registers a navigation, replacing any previous one with the same property
+   * @param navigation The navigation metadata
+   */
+  addNavigation(navigation: NavigationModel): void {
+    this.navigations.set(navigation.propertyName, navigation);
+  }
+
+  /**
+   * Finds the navigation declared for a property
+   * @param propertyName Name of the collection property
+   */
+  findNavigation(propertyName: string): NavigationModel | undefined {
+    return this.navigations.get(propertyName);
+  }
+
+  /**
+   * Gets every declared navigation
+   */
+  getNavigations(): NavigationModel[] {
+    return [...this.navigations.values()];
+  }
+
+  /**
+   * Adds a global query filter
+   * @param predicate The filter, e.g. u => u.isDeleted === false
+   */
+  addQueryFilter(predicate: (entity: any, params: any) => boolean): void {
+    this.queryFilters.push(predicate);
+  }
+
+  /**
+   * Gets the global query filters, in the order they were added
+   */
+  getQueryFilters(): Array<(entity: any, params: any) => boolean> {
+    return [...this.queryFilters];
+  }
+
+  /**
+   * Sets the properties of the primary key
+   * @param propertyNames One property, or several for a composite key
+   */
+  setKey(propertyNames: string[]): void {
+    if (propertyNames.length === 0) {
+      throw new Error(`The key of table '${this.tableName}' needs at least one property`);
+    }
+    this.keyProperties = [...propertyNames];
+  }
+
+  /**
+   * Gets the properties of the primary key (default: id)
+   */
+  getKey(): string[] {
+    return [...this.keyProperties];
+  }
+}
@@ -0,0 +1,156 @@
+import { TableReference } from '../query/Types';
+import { EntityModel, NavigationModel } from './EntityModel';
+
+/**
+ * Extrai o nome da propriedade de um seletor simples, como u => u.createdAt
+ * @param selector The property selector
+ */
+export function getSelectedPropertyName<T>(selector: (entity: T) => any): string {
+  const source = selector.toString();
+  const match =
+    source.match(/^\s*\(?\s*(\w+)\s*\)?\s*=>\s*\(?\s*\1\.(\w+)\s*\)?\s*;?\s*$/) ||
+    source.match(/^\s*function\s*\w*\s*\(\s*(\w+)\s*\)\s*\{\s*return\s+\1\.(\w+)\s*;?\s*\}\s*$/);
+
+  if (!match) {
+    throw new Error(`Invalid property selector: ${source}. Use a selector such as e => e.name`);
+  }
+
+  return match[2];
+}
+
+/**
+ * Extrai as propriedades de um seletor simples (u => u.email) ou de um array de
+ * propriedades (u => [u.tenantId, u.email])
+ * @param selector The property or properties selector
+ */
+export function getSelectedPropertyNames<T>(selector: (entity: T) => any): string[] {
+  const source = selector.toString();
+  const match = source.match(/^\s*\(?\s*(\w+)\s*\)?\s*=>\s*\[([^\]]*)\]\s*;?\s*$/);
+
+  if (!match) {
+    return [getSelectedPropertyName(selector)];
+  }
+
+  const parameter = match[1];
+  return match[2].split(',').map(item => {
+    const property = item.trim().match(/^(\w+)\.(\w+)$/);
+    if (!property || property[1] !== parameter) {
+      throw new Error(
+        `Invalid property selector: ${source}. Use a selector such as e => [e.tenantId, e.email]`,
+      );
+    }
+    return property[2];
+  });
+}
+
+/**
+ * Configures a single property of an entity
+ */
+export class PropertyBuilder<T> {
+  constructor(
+    private readonly entity: EntityModel,
+    private readonly propertyName: string,
+  ) {}
+
+  /**
+   * Maps the property to a column with a different name
+   * @param columnName Name of the column in the database
+   */
+  hasColumnName(columnName: string): PropertyBuilder<T> {
+    this.entity.setColumnName(this.propertyName, columnName);
+    return this;
+  }
+}
+
+/**
+ * Configures a one-to-many relationship
+ */
+export class CollectionNavigationBuilder<T, TRelated> {
+  constructor(private readonly navigation: NavigationModel) {}
+
+  /**
+   * Sets the property of the related entity that references this entity
+   * @param selector Selects the foreign key, e.g. o => o.userId
+   */
+  withForeignKey(selector: (related: TRelated) => any): CollectionNavigationBuilder<T, TRelated> {
+    this.navigation.foreignKey = getSelectedPropertyName(selector);
+    return this;
+  }
+
+  /**
+   * Sets the property referenced by the foreign key (default: id)
+   * @param selector Selects the principal key, e.g. u => u.code
+   */
+  withPrincipalKey(selector: (entity: T) => any): CollectionNavigationBuilder<T, TRelated> {
+    this.navigation.principalKey = getSelectedPropertyName(selector);
+    return this;
+  }
+}
+
+/**
+ * Configures how an entity is mapped to its table
+ */
+export class EntityTypeBuilder<T> {
+  constructor(private readonly entity: EntityModel) {}
+
+  /**
+   * Starts the configuration of a property
+   * @param selector Selects the property, e.g. u => u.createdAt
+   */
+  property(selector: (entity: T) => any): PropertyBuilder<T> {
+    const propertyName = getSelectedPropertyName(selector);
+    this.entity.addProperty(propertyName);
+    return new PropertyBuilder<T>(this.entity, propertyName);
+  }
+
+  /**
+   * Declares the primary key, used to track changes (default: id)
+   * @param selector Selects the key, e.g. u => u.code, or u => [u.tenantId, u.code] for a composite key
+   */
+  hasKey(selector: (entity: T) => any): EntityTypeBuilder<T> {
+    this.entity.setKey(getSelectedPropertyNames(selector));
+    return this;
+  }
+
+  /**
+   * Adds a filter applied to every query of the table, including joins and subqueries.
+   * Filters added more than once are combined with AND. The params come from
+   * DbContext.setQueryFilterParameters().
+   * @param predicate The filter, e.g. (u, params) => u.tenantId === params.tenantId
+   */
+  hasQueryFilter<P = Record<string, any>>(
+    predicate: (entity: T, params: P) => boolean,
+  ): EntityTypeBuilder<T> {
+    this.entity.addQueryFilter(predicate);
+    return this;
+  }
+
+  /**
+   * Declares a one-to-many relationship navigable from a collection property
+   * @param selector Selects the collection, e.g. u => u.orders
+   * @param targetTable Table of the related entities (default: the property name)
+   */
+  hasMany<TRelated>(
+    selector: (entity: T) => TRelated[],
+    targetTable?: string | TableReference,
+  ): CollectionNavigationBuilder<T, TRelated> {
+    const propertyName = getSelectedPropertyName(selector);
+    const target = targetTable || propertyName;
+    const navigation: NavigationModel = {
+      propertyName,
+      targetTable: typeof target === 'string' ? { table: target } : { ...target },
+      foreignKey: null,
+      principalKey: 'id',
+    };
+
+    this.entity.addNavigation(navigation);
+    return new CollectionNavigationBuilder<T, TRelated>(navigation);
+  }
+
+  /**
+   * Gets the metadata being configured
+   */
+  getMetadata(): EntityModel {
+    return this.entity;
+  }
+}
@@ -0,0 +1,44 @@
+import { EntityModel } from './EntityModel';
+import { EntityTypeBuilder } from './EntityTypeBuilder';
+
+/**
+ * Configures how the entities of a DbContext are mapped to the database
+ *
+ * @example
+ * db.modelBuilder.entity<User>('users').property(u => u.createdAt).hasColumnName('created_at');
+ */
+export class ModelBuilder {
+  private readonly entities = new Map<string, EntityModel>();
+
+  /**
+   * Configures the entity mapped to a table
+   * @param tableName Name of the table
+   * @param configure Optional callback to configure the entity in place
+   */
+  entity<T = any>(
+    tableName: string,
+    configure?: (builder: EntityTypeBuilder<T>) => void,
+  ): EntityTypeBuilder<T> {
+    let entity = this.entities.get(tableName);
+
+    if (!entity) {
+      entity = new EntityModel(tableName);
+      this.entities.set(tableName, entity);
+    }
+
+    const builder = new EntityTypeBuilder<T>(entity);
+    if (configure) {
+      configure(builder);
+    }
+
+    return builder;
+  }
+
+  /**
+   * Finds the metadata of the entity mapped to a table
+   * @param tableName Name of the table
+   */
+  findEntity(tableName: string): EntityModel | undefined {
+    return this.entities.get(tableName);
+  }
+}
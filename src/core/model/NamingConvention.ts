@@ -0,0 +1,95 @@
+/**
+ * Translates the names used by the TypeScript model to the names used by the database
+ */
+export interface NamingConvention {
+  /**
+   * Gets the table name for the name passed to DbContext.set()
+   * @param entityName The name used by the model
+   */
+  getTableName(entityName: string): string;
+
+  /**
+   * Gets the column name for a property
+   * @param propertyName The name of the property
+   */
+  getColumnName(propertyName: string): string;
+
+  /**
+   * Gets the property name for a column returned by the database
+   * @param columnName The name of the column
+   */
+  getPropertyName(columnName: string): string;
+}
+
+/**
+ * Options for the table names generated by a naming convention
+ */
+export interface NamingConventionOptions {
+  /** Prefix added to every table name, e.g. 'app_' */
+  tablePrefix?: string;
+  /** Pluralizes table names using simple English rules (user → users, category → categories) */
+  pluralizeTables?: boolean;
+}
+
+/**
+ * Keeps property names as column names. Table names may still be pluralized or prefixed.
+ */
+export class DefaultNamingConvention implements NamingConvention {
+  constructor(protected readonly options: NamingConventionOptions = {}) {}
+
+  getTableName(entityName: string): string {
+    let tableName = this.translate(entityName);
+
+    if (this.options.pluralizeTables) {
+      tableName = pluralize(tableName);
+    }
+
+    return `${this.options.tablePrefix || ''}${tableName}`;
+  }
+
+  getColumnName(propertyName: string): string {
+    return this.translate(propertyName);
+  }
+
+  getPropertyName(columnName: string): string {
+    return columnName;
+  }
+
+  /**
+   * Converte um nome do modelo para o nome usado no banco
+   */
+  protected translate(name: string): string {
+    return name;
+  }
+}
+
+/**
+ * Maps camelCase properties to snake_case columns (createdAt → created_at) and back
+ */
+export class SnakeCaseNamingConvention extends DefaultNamingConvention {
+  getPropertyName(columnName: string): string {
+    return columnName.replace(/_([a-z0-9])/g, (_, char: string) => char.toUpperCase());
+  }
+
+  protected translate(name: string): string {
+    return name
+      .replace(/([a-z0-9])([A-Z])/g, '$1_$2')
+      .replace(/([A-Z])([A-Z][a-z])/g, '$1_$2')
+      .toLowerCase();
+  }
+}
+
+/**
+ * Pluraliza um nome com regras simples do inglês
+ */
+function pluralize(name: string): string {
+  if (/[^aeiou]y$/i.test(name)) {
+    return `${name.slice(0, -1)}ies`;
+  }
+
+  if (/(s|x|z|ch|sh)$/i.test(name)) {
+    return `${name}es`;
+  }
+
+  return `${name}s`;
+}
@@ -0,0 +1,1461 @@
+import {
+  BinaryExpressionJson,
+  CaseExpressionJson,
+  CommonTableExpressionJson,
+  CompoundSelectExpressionJson,
+  DeleteExpressionJson,
+  DerivedTableExpressionJson,
+  ExpressionJson,
+  ExpressionJsonValidator,
+  ExpressionNodeJson,
+  FunctionExpressionJson,
+  InsertExpressionJson,
+  JoinExpressionJson,
+  OrderByExpressionJson,
+  ProjectionExpressionJson,
+  ScalarSubqueryExpressionJson,
+  SelectExpressionJson,
+  TableExpressionJson,
+  UnaryExpressionJson,
+  UpdateExpressionJson,
+  UpsertExpressionJson,
+  WindowExpressionJson,
+} from '../../utils/ExpressionJson';
+import { JoinType } from '../expressions/JoinExpression';
+import { SetOperation } from '../expressions/CompoundSelectExpression';
+import { UPSERT_ACTION_COLUMN } from '../expressions/UpsertExpression';
+import { WindowFrameUnit } from '../expressions/WindowExpression';
+import {
+  IDatabaseProvider,
+  ITransactionProvider,
+  ModificationResult,
+  TransactionOptions,
+} from '../query/Types';
+
+/**
+ * Registro armazenado em uma tabela em memória
+ */
+type InMemoryRow = Record<string, any>;
+
+/**
+ * Escopo de avaliação de uma expressão: as linhas visíveis por alias,
+ * o escopo da consulta externa (subconsultas correlacionadas) e,
+ * quando a consulta é agrupada, as linhas que formam o grupo
+ */
+interface EvaluationScope {
+  rows: Record<string, InMemoryRow | null>;
+  parent: EvaluationScope | null;
+  group: EvaluationScope[] | null;
+  /** Valores das funções de janela da consulta, calculados antes do SELECT */
+  windowValues?: Map<WindowExpressionJson, any>;
+}
+
+/**
+ * A row of a window partition together with the values of the window's ORDER BY
+ */
+interface WindowItem {
+  scope: EvaluationScope;
+  orderKeys: any[];
+}
+
+/**
+ * A projected result row together with the values used to order it
+ */
+interface ResultItem {
+  row: InMemoryRow;
+  orderKeys: any[];
+}
+
+const AGGREGATE_FUNCTIONS = ['COUNT', 'SUM', 'AVG', 'MIN', 'MAX'];
+
+/**
+ * Limite de iterações de uma expressão de tabela comum recursiva (o MAXRECURSION padrão do SQL Server)
+ */
+const MAX_RECURSION = 100;
+
+/**
+ * Database provider that evaluates the serialized expression tree against JS arrays.
+ *
+ * Intended for tests: filters, joins, grouping, ordering, paging and subqueries run
+ * end to end without a database. String comparisons and LIKE follow JavaScript
+ * semantics (case-sensitive), while NULL follows SQL's three-valued logic.
+ */
+export class InMemoryDatabaseProvider implements IDatabaseProvider {
+  private readonly tables = new Map<string, InMemoryRow[]>();
+  /** Coluna de identidade de cada tabela, preenchida nos INSERTs */
+  private readonly identityColumns = new Map<string, string>();
+  /** Linhas das expressões de tabela comuns (WITH) da consulta em execução */
+  private readonly commonTableRows = new Map<string, InMemoryRow[]>();
+
+  /**
+   * Creates a new in-memory provider
+   * @param tables Initial rows per table name. Qualified tables use dotted names, e.g. 'sales.orders'
+   */
+  constructor(tables: Record<string, InMemoryRow[]> = {}) {
+    for (const tableName of Object.keys(tables)) {
+      this.seed(tableName, tables[tableName]);
+    }
+  }
+
+  /**
+   * Replaces the rows of a table
+   * @param tableName Name of the table
+   * @param rows Rows stored in the table
+   */
+  seed(tableName: string, rows: InMemoryRow[]): InMemoryDatabaseProvider {
+    this.tables.set(
+      tableName,
+      rows.map(row => ({ ...row })),
+    );
+    return this;
+  }
+
+  /**
+   * Returns a copy of the rows currently stored in a table
+   * @param tableName Name of the table
+   */
+  getTable(tableName: string): InMemoryRow[] {
+    return this.getTableRows(tableName).map(row => ({ ...row }));
+  }
+
+  /**
+   * Declares a column whose value is generated on insert, like an IDENTITY column.
+   * Inserted rows without a value receive the highest existing value plus one.
+   * @param tableName Name of the table
+   * @param columnName Name of the generated column (default: 'id')
+   */
+  useIdentity(tableName: string, columnName: string = 'id'): InMemoryDatabaseProvider {
+    this.identityColumns.set(tableName, columnName);
+    return this;
+  }
+
+  /**
+   * Starts a transaction. Rollbacks restore a copy of the tables taken when the transaction
+   * (or the savepoint) started; isolation levels are accepted but not simulated
+   * @param options Options of the transaction
+   */
+  async beginTransactionAsync(options: TransactionOptions = {}): Promise<ITransactionProvider> {
+    return new InMemoryTransaction(
+      this,
+      () => this.takeSnapshot(),
+      snapshot => this.restore(snapshot),
+    );
+  }
+
+  /**
+   * Copies the rows of every table
+   */
+  private takeSnapshot(): Map<string, InMemoryRow[]> {
+    return new Map(
+      [...this.tables.entries()].map(([name, rows]) => [name, rows.map(row => ({ ...row }))]),
+    );
+  }
+
+  /**
+   * Replaces every table with a copy taken by takeSnapshot()
+   */
+  private restore(snapshot: Map<string, InMemoryRow[]>): void {
+    this.tables.clear();
+    snapshot.forEach((rows, name) =>
+      this.tables.set(
+        name,
+        rows.map(row => ({ ...row })),
+      ),
+    );
+  }
+
+  async execAsync(metadata: ExpressionJson): Promise<any> {
+    ExpressionJsonValidator.assertValid(metadata);
+
+    switch (metadata.type) {
+      case 'SelectExpression':
+        return this.executeSelect(metadata, null);
+      case 'InsertExpression':
+        return this.executeInsert(metadata);
+      case 'UpdateExpression':
+        return this.executeUpdate(metadata);
+      case 'DeleteExpression':
+        return this.executeDelete(metadata);
+      case 'UpsertExpression':
+        return this.executeUpsert(metadata);
+      default:
+        throw new Error(`InMemoryDatabaseProvider cannot execute '${metadata.type}' statements`);
+    }
+  }
+
+  /**
+   * Executes an INSERT expression, filling the identity column when declared
+   * @param insert The serialized insert expression
+   */
+  private executeInsert(insert: InsertExpressionJson): ModificationResult {
+    const tableName = this.getQualifiedName(insert.table);
+    const rows = this.getTableRows(tableName);
+    const identityColumn = this.identityColumns.get(tableName);
+    const emptyScope: EvaluationScope = { rows: {}, parent: null, group: null };
+
+    // No INSERT ... SELECT cada coluna recebe a projeção na mesma posição
+    const sourceRows = insert.query
+      ? this.executeSelect(insert.query, null).map(selected =>
+          insert.query!.projections.map(
+            (projection, index) => selected[this.getProjectionName(projection, index)],
+          ),
+        )
+      : insert.values.map(values => values.map(value => this.evaluate(value, emptyScope)));
+
+    const inserted = sourceRows.map(values => {
+      const row: InMemoryRow = {};
+      insert.columns.forEach((column, index) => {
+        row[column] = values[index];
+      });
+
+      this.assignIdentity(row, rows, identityColumn);
+      rows.push(row);
+      return row;
+    });
+
+    return {
+      rowsAffected: inserted.length,
+      rows: insert.returning ? inserted.map(row => ({ ...row })) : [],
+    };
+  }
+
+  /**
+   * Executes an UPDATE expression. Every value is computed from the row before the update,
+   * and a row matched by several joined rows is updated once, with the first match
+   * @param update The serialized update expression
+   */
+  private executeUpdate(update: UpdateExpressionJson): ModificationResult {
+    const alias = update.table.alias;
+    const changes = new Map<InMemoryRow, InMemoryRow>();
+
+    for (const scope of this.filterRows(update.table, update.joins, update.whereClause, null)) {
+      const row = scope.rows[alias];
+      if (row && !changes.has(row)) {
+        const values: InMemoryRow = {};
+        update.columns.forEach((column, index) => {
+          values[column] = this.evaluate(update.values[index], scope);
+        });
+        changes.set(row, values);
+      }
+    }
+
+    changes.forEach((values, row) => Object.assign(row, values));
+
+    return { rowsAffected: changes.size, rows: [] };
+  }
+
+  /**
+   * Executes a DELETE expression
+   * @param del The serialized delete expression
+   */
+  private executeDelete(del: DeleteExpressionJson): ModificationResult {
+    const alias = del.table.alias;
+    const rows = this.getTableRows(this.getQualifiedName(del.table));
+    const deleted = new Set(
+      this.filterRows(del.table, del.joins, del.whereClause, null).map(scope => scope.rows[alias]),
+    );
+
+    const remaining = rows.filter(row => !deleted.has(row));
+    rows.splice(0, rows.length, ...remaining);
+
+    return { rowsAffected: deleted.size, rows: [] };
+  }
+
+  /**
+   * Executes an upsert: rows whose match columns equal an existing row update it with values
+   * computed from the incoming row, the others are inserted. Every returned row carries its action ('INSERT' / 'UPDATE')
+   * @param upsert The serialized upsert expression
+   */
+  private executeUpsert(upsert: UpsertExpressionJson): ModificationResult {
+    const tableName = this.getQualifiedName(upsert.table);
+    const rows = this.getTableRows(tableName);
+    const identityColumn = this.identityColumns.get(tableName);
+    const emptyScope: EvaluationScope = { rows: {}, parent: null, group: null };
+
+    const written = upsert.values.map(values => {
+      const incoming: InMemoryRow = {};
+      upsert.columns.forEach((column, index) => {
+        incoming[column] = this.evaluate(values[index], emptyScope);
+      });
+
+      const key = this.getKey(upsert.matchColumns.map(column => incoming[column]));
+      const existing = rows.find(
+        row => this.getKey(upsert.matchColumns.map(column => row[column])) === key,
+      );
+
+      if (!existing) {
+        this.assignIdentity(incoming, rows, identityColumn);
+        rows.push(incoming);
+        return { ...incoming, [UPSERT_ACTION_COLUMN]: 'INSERT' };
+      }
+
+      const scope: EvaluationScope = {
+        rows: { [upsert.table.alias]: incoming },
+        parent: null,
+        group: null,
+      };
+      const changes: InMemoryRow = {};
+      upsert.updateColumns.forEach((column, index) => {
+        changes[column] = this.evaluate(upsert.updateValues[index], scope);
+      });
+      Object.assign(existing, changes);
+      return { ...existing, [UPSERT_ACTION_COLUMN]: 'UPDATE' };
+    });
+
+    return { rowsAffected: written.length, rows: upsert.returning ? written : [] };
+  }
+
+  /**
+   * Fills the identity column of a new row with the highest existing value plus one
+   */
+  private assignIdentity(row: InMemoryRow, rows: InMemoryRow[], identityColumn?: string): void {
+    if (identityColumn && (row[identityColumn] === null || row[identityColumn] === undefined)) {
+      const existing = rows.map(r => r[identityColumn]).filter(value => typeof value === 'number');
+      row[identityColumn] = Math.max(0, ...existing) + 1;
+    }
+  }
+
+  /**
+   * Executes a SELECT expression
+   * @param select The serialized select expression
+   * @param parent Scope of the outer query, for correlated subqueries
+   */
+  private executeSelect(
+    select: SelectExpressionJson,
+    parent: EvaluationScope | null,
+  ): InMemoryRow[] {
+    if (select.commonTables?.length) {
+      return this.executeWithCommonTables(select, parent);
+    }
+
+    const aliases = [
+      ...(select.fromTable ? [select.fromTable.alias] : []),
+      ...select.joins.map(join => join.targetTable.alias),
+    ];
+
+    // FROM / JOIN / WHERE
+    let scopes = this.filterRows(select.fromTable, select.joins, select.whereClause, parent);
+
+    // GROUP BY / HAVING
+    const orderByColumns: OrderByExpressionJson[] = select.orderByColumns;
+    const isGrouped =
+      select.groupByColumns.length > 0 ||
+      this.containsAggregate(select.havingClause) ||
+      select.projections.some(p => this.containsAggregate(p)) ||
+      orderByColumns.some(o => this.containsAggregate(o.column));
+
+    if (isGrouped) {
+      scopes = this.groupScopes(scopes, select.groupByColumns, aliases, parent);
+
+      if (select.havingClause) {
+        scopes = scopes.filter(scope => this.isTrue(this.evaluate(select.havingClause, scope)));
+      }
+    }
+
+    // Funções de janela
+    const windows = this.collectWindows([select.projections, orderByColumns], []);
+    for (const window of windows) {
+      this.computeWindow(window, scopes);
+    }
+
+    // SELECT
+    let items: ResultItem[] = scopes.map(scope => ({
+      row: this.project(select.projections, scope, aliases),
+      orderKeys: orderByColumns.map(o => this.evaluate(o.column, scope)),
+    }));
+
+    // DISTINCT
+    if (select.isDistinct) {
+      const seen = new Set<string>();
+      items = items.filter(item => {
+        const key = this.getKey(Object.values(item.row));
+        if (seen.has(key)) {
+          return false;
+        }
+        seen.add(key);
+        return true;
+      });
+    }
+
+    // ORDER BY
+    if (orderByColumns.length > 0) {
+      items.sort((a, b) => this.compareOrderKeys(a.orderKeys, b.orderKeys, orderByColumns));
+    }
+
+    // OFFSET / LIMIT
+    const rootScope: EvaluationScope = { rows: {}, parent, group: null };
+    const offset = select.offsetValue ? Number(this.evaluate(select.offsetValue, rootScope)) : 0;
+    const end = select.limitValue
+      ? offset + Number(this.evaluate(select.limitValue, rootScope))
+      : undefined;
+
+    return items.slice(offset, end).map(item => item.row);
+  }
+
+  /**
+   * Executes two queries combined by a set operation. The columns of the second
+   * query are matched by position and take the names of the first query's columns.
+   */
+  private executeCompoundSelect(
+    compound: CompoundSelectExpressionJson,
+    parent: EvaluationScope | null,
+  ): InMemoryRow[] {
+    const left = this.executeQuery(compound.left, parent);
+    const right = this.renameColumns(this.executeQuery(compound.right, parent), left);
+
+    if (compound.operation === SetOperation.UNION_ALL) {
+      return [...left, ...right];
+    }
+
+    const rightKeys = new Set(right.map(row => this.getKey(Object.values(row))));
+    const seen = new Set<string>();
+    const result: InMemoryRow[] = [];
+    const candidates = compound.operation === SetOperation.UNION ? [...left, ...right] : left;
+
+    // UNION, INTERSECT e EXCEPT eliminam as linhas repetidas
+    for (const row of candidates) {
+      const key = this.getKey(Object.values(row));
+      const keep =
+        compound.operation === SetOperation.INTERSECT
+          ? rightKeys.has(key)
+          : compound.operation === SetOperation.EXCEPT
+            ? !rightKeys.has(key)
+            : true;
+
+      if (keep && !seen.has(key)) {
+        seen.add(key);
+        result.push(row);
+      }
+    }
+
+    return result;
+  }
+
+  /**
+   * Gives the rows the column names of the reference rows, matching the columns by position
+   */
+  private renameColumns(rows: InMemoryRow[], reference: InMemoryRow[]): InMemoryRow[] {
+    if (reference.length === 0) {
+      return rows;
+    }
+
+    const columnNames = Object.keys(reference[0]);
+    return rows.map(row => {
+      const values = Object.values(row);
+      return Object.fromEntries(columnNames.map((name, index) => [name, values[index]]));
+    });
+  }
+
+  /**
+   * Executes a SELECT with a WITH clause: the rows of each common table expression are
+   * computed in order and read by name while the statement runs
+   */
+  private executeWithCommonTables(
+    select: SelectExpressionJson,
+    parent: EvaluationScope | null,
+  ): InMemoryRow[] {
+    const previous = new Map(this.commonTableRows);
+
+    try {
+      for (const commonTable of select.commonTables) {
+        this.commonTableRows.set(commonTable.name, this.executeCommonTable(commonTable, parent));
+      }
+      return this.executeSelect({ ...select, commonTables: [] }, parent);
+    } finally {
+      this.commonTableRows.clear();
+      previous.forEach((rows, name) => this.commonTableRows.set(name, rows));
+    }
+  }
+
+  /**
+   * Computes the rows of a common table expression. A recursive one runs the anchor query
+   * and then the recursive query over the rows of the previous iteration until it returns none.
+   */
+  private executeCommonTable(
+    commonTable: CommonTableExpressionJson,
+    parent: EvaluationScope | null,
+  ): InMemoryRow[] {
+    const query = commonTable.query;
+
+    if (!commonTable.recursive || query.type !== 'CompoundSelectExpression') {
+      return this.executeQuery(query, parent);
+    }
+
+    const rows = this.executeQuery(query.left, parent);
+    const seen = new Set(rows.map(row => this.getKey(Object.values(row))));
+    let working = rows;
+
+    for (let iteration = 0; working.length > 0; iteration++) {
+      if (iteration === MAX_RECURSION) {
+        throw new Error(
+          `The recursive common table expression '${commonTable.name}' did not finish after ${MAX_RECURSION} iterations`,
+        );
+      }
+
+      this.commonTableRows.set(commonTable.name, working);
+      working = this.renameColumns(this.executeQuery(query.right, parent), rows);
+
+      // Com UNION as linhas já produzidas não voltam, o que encerra ciclos
+      if (query.operation !== SetOperation.UNION_ALL) {
+        working = working.filter(row => {
+          const key = this.getKey(Object.values(row));
+          if (seen.has(key)) {
+            return false;
+          }
+          seen.add(key);
+          return true;
+        });
+      }
+
+      rows.push(...working);
+    }
+
+    return rows;
+  }
+
+  /**
+   * Executes a SELECT or a compound select
+   */
+  private executeQuery(
+    query: SelectExpressionJson | CompoundSelectExpressionJson,
+    parent: EvaluationScope | null,
+  ): InMemoryRow[] {
+    return query.type === 'CompoundSelectExpression'
+      ? this.executeCompoundSelect(query, parent)
+      : this.executeSelect(query, parent);
+  }
+
+  /**
+   * Reads the rows of a table combined with its joins, keeping those matching the filter
+   */
+  private filterRows(
+    table: TableExpressionJson | DerivedTableExpressionJson | null,
+    joins: JoinExpressionJson[],
+    whereClause: ExpressionNodeJson | null,
+    parent: EvaluationScope | null,
+  ): EvaluationScope[] {
+    const aliases = [...(table ? [table.alias] : []), ...joins.map(join => join.targetTable.alias)];
+
+    // FROM (um SELECT sem tabela lê uma única linha vazia)
+    let scopes: EvaluationScope[] = table
+      ? this.readTable(table, parent).map(row => ({
+          rows: { [table.alias]: row },
+          parent,
+          group: null,
+        }))
+      : [{ rows: {}, parent, group: null }];
+
+    // JOIN
+    joins.forEach((join, index) => {
+      scopes = this.applyJoin(scopes, join, aliases.slice(0, index + 1), parent);
+    });
+
+    // WHERE
+    if (whereClause) {
+      scopes = scopes.filter(scope => this.isTrue(this.evaluate(whereClause, scope)));
+    }
+
+    return scopes;
+  }
+
+  /**
+   * Reads the rows of a table or of the query of a derived table
+   */
+  private readTable(
+    table: TableExpressionJson | DerivedTableExpressionJson,
+    parent: EvaluationScope | null,
+  ): InMemoryRow[] {
+    return table.type === 'DerivedTableExpression'
+      ? this.executeQuery(table.query, parent)
+      : this.getTableRows(this.getQualifiedName(table));
+  }
+
+  /**
+   * Combines the current rows with the rows of a joined table
+   */
+  private applyJoin(
+    scopes: EvaluationScope[],
+    join: JoinExpressionJson,
+    leftAliases: string[],
+    parent: EvaluationScope | null,
+  ): EvaluationScope[] {
+    const alias = join.targetTable.alias;
+    const targetRows = this.getTableRows(this.getQualifiedName(join.targetTable));
+    const matchedTargets = new Set<InMemoryRow>();
+    const result: EvaluationScope[] = [];
+
+    for (const scope of scopes) {
+      let matched = false;
+
+      for (const target of targetRows) {
+        const combined: EvaluationScope = {
+          rows: { ...scope.rows, [alias]: target },
+          parent,
+          group: null,
+        };
+
+        if (this.isTrue(this.evaluate(join.joinCondition, combined))) {
+          matched = true;
+          matchedTargets.add(target);
+          result.push(combined);
+        }
+      }
+
+      if (!matched && (join.joinType === JoinType.LEFT || join.joinType === JoinType.FULL)) {
+        result.push({ rows: { ...scope.rows, [alias]: null }, parent, group: null });
+      }
+    }
+
+    if (join.joinType === JoinType.RIGHT || join.joinType === JoinType.FULL) {
+      // As linhas da esquerda ficam nulas para os registros sem correspondência
+      const emptyRows = this.createEmptyRows(leftAliases);
+
+      for (const target of targetRows) {
+        if (!matchedTargets.has(target)) {
+          result.push({ rows: { ...emptyRows, [alias]: target }, parent, group: null });
+        }
+      }
+    }
+
+    return result;
+  }
+
+  /**
+   * Groups the rows by the GROUP BY columns. Without GROUP BY all rows form a single group.
+   */
+  private groupScopes(
+    scopes: EvaluationScope[],
+    groupByColumns: ExpressionNodeJson[],
+    aliases: string[],
+    parent: EvaluationScope | null,
+  ): EvaluationScope[] {
+    const groups = new Map<string, EvaluationScope[]>();
+
+    if (groupByColumns.length === 0) {
+      groups.set('', scopes);
+    } else {
+      for (const scope of scopes) {
+        const key = this.getKey(groupByColumns.map(column => this.evaluate(column, scope)));
+        if (!groups.has(key)) {
+          groups.set(key, []);
+        }
+        groups.get(key).push(scope);
+      }
+    }
+
+    // Colunas fora de agregações são lidas da primeira linha do grupo
+    return Array.from(groups.values()).map(group => ({
+      rows: group.length > 0 ? group[0].rows : this.createEmptyRows(aliases),
+      parent,
+      group,
+    }));
+  }
+
+  /**
+   * Builds the result row for the projections of a query
+   */
+  private project(
+    projections: ProjectionExpressionJson[],
+    scope: EvaluationScope,
+    aliases: string[],
+  ): InMemoryRow {
+    const row: InMemoryRow = {};
+
+    if (projections.length === 0) {
+      // SELECT * combina as colunas de todas as tabelas
+      for (const alias of aliases) {
+        Object.assign(row, scope.rows[alias] || {});
+      }
+      return row;
+    }
+
+    projections.forEach((projection, index) => {
+      const expression = projection.expression;
+
+      if (expression.type === 'ColumnExpression' && expression.columnName === '*') {
+        Object.assign(row, this.resolveColumn(expression.tableAlias, '*', scope) || {});
+        return;
+      }
+
+      row[this.getProjectionName(projection, index)] = this.evaluate(expression, scope);
+    });
+
+    return row;
+  }
+
+  /**
+   * Gets the name of a projected column: its alias, the column name or columnN
+   */
+  private getProjectionName(projection: ProjectionExpressionJson, index: number): string {
+    const expression = projection.expression;
+    return (
+      projection.alias ||
+      (expression.type === 'ColumnExpression' ? expression.columnName : `column${index + 1}`)
+    );
+  }
+
+  /**
+   * Evaluates an expression in the given scope
+   */
+  private evaluate(expr: ExpressionNodeJson | null, scope: EvaluationScope): any {
+    if (!expr) {
+      return null;
+    }
+
+    switch (expr.type) {
+      case 'ConstantExpression':
+        return expr.value;
+
+      case 'ColumnExpression':
+      case 'ParentColumnExpression':
+        return this.resolveColumn(expr.tableAlias, expr.columnName, scope);
+
+      case 'BinaryExpression':
+        return this.evaluateBinary(expr, scope);
+
+      case 'UnaryExpression':
+        return this.evaluateUnary(expr, scope);
+
+      case 'FunctionExpression':
+        return this.evaluateFunction(expr, scope);
+
+      case 'ScalarSubqueryExpression':
+        return this.evaluateScalarSubquery(expr, scope);
+
+      case 'ProjectionExpression':
+        return this.evaluate(expr.expression, scope);
+
+      case 'CaseExpression':
+        return this.evaluateCase(expr, scope);
+
+      case 'WindowExpression':
+        if (!scope.windowValues?.has(expr)) {
+          throw new Error(
+            'Window functions can only be used in the SELECT and ORDER BY of a query',
+          );
+        }
+        return scope.windowValues.get(expr);
+
+      default:
+        throw new Error(`Unsupported expression type: ${(expr as { type: string }).type}`);
+    }
+  }
+
+  /**
+   * Resolves a column by alias, walking up to the outer queries
+   */
+  private resolveColumn(tableAlias: string, columnName: string, scope: EvaluationScope): any {
+    for (let current = scope; current; current = current.parent) {
+      if (tableAlias in current.rows) {
+        const row = current.rows[tableAlias];
+
+        if (!row) {
+          return null;
+        }
+
+        if (columnName === '*') {
+          return { ...row };
+        }
+
+        return row[columnName] === undefined ? null : row[columnName];
+      }
+    }
+
+    throw new Error(`Unknown table alias '${tableAlias}'`);
+  }
+
+  /**
+   * Evaluates a CASE expression: the result of the first matching WHEN, or the ELSE result.
+   * In a simple CASE a NULL operand matches no WHEN
+   */
+  private evaluateCase(expr: CaseExpressionJson, scope: EvaluationScope): any {
+    const operand = expr.operand ? this.evaluate(expr.operand, scope) : null;
+
+    for (const clause of expr.whenClauses) {
+      const when = this.evaluate(clause.when, scope);
+      const matches = expr.operand
+        ? operand !== null && when !== null && this.compareValues(operand, when) === 0
+        : this.isTrue(when);
+
+      if (matches) {
+        return this.evaluate(clause.then, scope);
+      }
+    }
+
+    return this.evaluate(expr.elseResult, scope);
+  }
+
+  /**
+   * Evaluates a binary expression
+   */
+  private evaluateBinary(expr: BinaryExpressionJson, scope: EvaluationScope): any {
+    switch (expr.operatorType) {
+      case 'AndAlso': {
+        const left = this.toBoolean(this.evaluate(expr.left, scope));
+        if (left === false) {
+          return false;
+        }
+        const right = this.toBoolean(this.evaluate(expr.right, scope));
+        if (right === false) {
+          return false;
+        }
+        return left === null || right === null ? null : true;
+      }
+
+      case 'OrElse': {
+        const left = this.toBoolean(this.evaluate(expr.left, scope));
+        if (left === true) {
+          return true;
+        }
+        const right = this.toBoolean(this.evaluate(expr.right, scope));
+        if (right === true) {
+          return true;
+        }
+        return left === null || right === null ? null : false;
+      }
+
+      case 'In':
+      case 'NotIn':
+        return this.evaluateIn(expr, scope);
+    }
+
+    const left = this.evaluate(expr.left, scope);
+    const right = this.evaluate(expr.right, scope);
+
+    // Qualquer operação com NULL resulta em NULL
+    if (left === null || right === null) {
+      return null;
+    }
+
+    switch (expr.operatorType) {
+      case 'Equal':
+        return this.compareValues(left, right) === 0;
+      case 'NotEqual':
+        return this.compareValues(left, right) !== 0;
+      case 'GreaterThan':
+        return this.compareValues(left, right) > 0;
+      case 'GreaterThanOrEqual':
+        return this.compareValues(left, right) >= 0;
+      case 'LessThan':
+        return this.compareValues(left, right) < 0;
+      case 'LessThanOrEqual':
+        return this.compareValues(left, right) <= 0;
+      case 'Add':
+        return typeof left === 'string' || typeof right === 'string'
+          ? `${left}${right}`
+          : left + right;
+      case 'Subtract':
+        return left - right;
+      case 'Multiply':
+        return left * right;
+      case 'Divide':
+        if (right === 0) {
+          throw new Error('Divide by zero error encountered');
+        }
+        return left / right;
+      case 'Modulo':
+        return left % right;
+      default:
+        throw new Error(`Unsupported binary operator: ${expr.operatorType}`);
+    }
+  }
+
+  /**
+   * Evaluates IN / NOT IN against a list of constants or a subquery
+   */
+  private evaluateIn(expr: BinaryExpressionJson, scope: EvaluationScope): boolean | null {
+    const value = this.evaluate(expr.left, scope);
+    const isNotIn = expr.operatorType === 'NotIn';
+
+    let candidates: any[];
+    if (expr.right.type === 'ScalarSubqueryExpression') {
+      candidates = this.executeSelect(expr.right.query, scope).map(row => this.firstValue(row));
+    } else {
+      const right = this.evaluate(expr.right, scope);
+      candidates = Array.isArray(right) ? right : [right];
+    }
+
+    if (value === null) {
+      return null;
+    }
+
+    if (
+      candidates.some(candidate => candidate !== null && this.compareValues(value, candidate) === 0)
+    ) {
+      return !isNotIn;
+    }
+
+    // x NOT IN (..., NULL) é desconhecido, não verdadeiro
+    return candidates.some(candidate => candidate === null) ? null : isNotIn;
+  }
+
+  /**
+   * Evaluates a unary expression
+   */
+  private evaluateUnary(expr: UnaryExpressionJson, scope: EvaluationScope): any {
+    switch (expr.operatorType) {
+      case 'Exists':
+      case 'NotExists': {
+        if (expr.operand.type !== 'ScalarSubqueryExpression') {
+          throw new Error(`${expr.operatorType} requires a subquery operand`);
+        }
+        const exists = this.executeSelect(expr.operand.query, scope).length > 0;
+        return expr.operatorType === 'Exists' ? exists : !exists;
+      }
+
+      case 'Not': {
+        const operand = this.toBoolean(this.evaluate(expr.operand, scope));
+        return operand === null ? null : !operand;
+      }
+
+      case 'Negate': {
+        const operand = this.evaluate(expr.operand, scope);
+        return operand === null ? null : -operand;
+      }
+
+      case 'IsNull':
+      case 'IsNotNull': {
+        const operand = this.evaluate(expr.operand, scope);
+        const isNull = operand === null || operand === undefined;
+        return expr.operatorType === 'IsNull' ? isNull : !isNull;
+      }
+
+      default:
+        throw new Error(`Unsupported unary operator: ${expr.operatorType}`);
+    }
+  }
+
+  /**
+   * Evaluates a scalar subquery: the first column of its only row
+   */
+  private evaluateScalarSubquery(expr: ScalarSubqueryExpressionJson, scope: EvaluationScope): any {
+    const rows = this.executeSelect(expr.query, scope);
+
+    if (rows.length > 1) {
+      throw new Error('Subquery returned more than 1 value');
+    }
+
+    return rows.length === 0 ? null : this.firstValue(rows[0]);
+  }
+
+  /**
+   * Evaluates a function call, including aggregates over the current group
+   */
+  private evaluateFunction(expr: FunctionExpressionJson, scope: EvaluationScope): any {
+    const functionName = expr.functionName.toUpperCase();
+    const fnArgs = expr.arguments;
+
+    if (AGGREGATE_FUNCTIONS.includes(functionName)) {
+      return this.evaluateAggregate(functionName, fnArgs[0], scope);
+    }
+
+    const args = fnArgs.map(arg => this.evaluate(arg, scope));
+
+    switch (functionName) {
+      case 'CONCAT':
+        return args.map(arg => (arg === null ? '' : String(arg))).join('');
+
+      case 'COALESCE':
+      case 'ISNULL':
+      case 'IFNULL':
+        return args.find(arg => arg !== null) ?? null;
+
+      case 'NOW':
+      case 'GETDATE':
+      case 'CURRENT_TIMESTAMP':
+        return new Date();
+    }
+
+    // As demais funções retornam NULL quando o primeiro argumento é NULL
+    if (args[0] === null || args[0] === undefined) {
+      return null;
+    }
+
+    switch (functionName) {
+      case 'LIKE':
+      case 'INCLUDES':
+        return args[1] === null ? null : this.likeToRegExp(String(args[1])).test(String(args[0]));
+      case 'STARTSWITH':
+        return String(args[0]).startsWith(String(args[1]));
+      case 'ENDSWITH':
+        return String(args[0]).endsWith(String(args[1]));
+      case 'LOWER':
+        return String(args[0]).toLowerCase();
+      case 'UPPER':
+        return String(args[0]).toUpperCase();
+      case 'TRIM':
+        return String(args[0]).trim();
+      case 'LTRIM':
+        return String(args[0]).trimStart();
+      case 'RTRIM':
+        return String(args[0]).trimEnd();
+      case 'LEN':
+      case 'LENGTH':
+      case 'CHAR_LENGTH':
+        return String(args[0]).length;
+      case 'ABS':
+        return Math.abs(args[0]);
+      case 'ROUND':
+        return Number(Number(args[0]).toFixed(args[1] ?? 0));
+      case 'FLOOR':
+        return Math.floor(args[0]);
+      case 'CEILING':
+      case 'CEIL':
+        return Math.ceil(args[0]);
+      default:
+        throw new Error(`Unsupported function: ${expr.functionName}`);
+    }
+  }
+
+  /**
+   * Evaluates COUNT, SUM, AVG, MIN or MAX over the rows of the current group
+   */
+  private evaluateAggregate(
+    functionName: string,
+    argument: ExpressionNodeJson,
+    scope: EvaluationScope,
+  ): any {
+    if (!scope.group) {
+      throw new Error(`Aggregate function ${functionName} used outside of a grouped query`);
+    }
+
+    if (functionName === 'COUNT' && (!argument || argument.type === 'FragmentExpression')) {
+      return scope.group.length;
+    }
+
+    // Agregações ignoram valores NULL
+    const values = scope.group
+      .map(member => this.evaluate(argument, member))
+      .filter(value => value !== null);
+
+    switch (functionName) {
+      case 'COUNT':
+        return values.length;
+      case 'SUM':
+        return values.length === 0 ? null : values.reduce((sum, value) => sum + Number(value), 0);
+      case 'AVG':
+        return values.length === 0
+          ? null
+          : values.reduce((sum, value) => sum + Number(value), 0) / values.length;
+      case 'MIN':
+        return values.reduce(
+          (min, value) => (min === null || this.compareValues(value, min) < 0 ? value : min),
+          null,
+        );
+      case 'MAX':
+        return values.reduce(
+          (max, value) => (max === null || this.compareValues(value, max) > 0 ? value : max),
+          null,
+        );
+    }
+  }
+
+  /**
+   * Finds the window functions of a query, outside of subqueries
+   */
+  private collectWindows(expr: any, windows: WindowExpressionJson[]): WindowExpressionJson[] {
+    if (!expr || typeof expr !== 'object') {
+      return windows;
+    }
+
+    if (Array.isArray(expr)) {
+      expr.forEach(item => this.collectWindows(item, windows));
+      return windows;
+    }
+
+    if (expr.type === 'ScalarSubqueryExpression' || expr.type === 'SelectExpression') {
+      return windows;
+    }
+
+    if (expr.type === 'WindowExpression') {
+      windows.push(expr);
+      return windows;
+    }
+
+    Object.keys(expr).forEach(key => this.collectWindows(expr[key], windows));
+    return windows;
+  }
+
+  /**
+   * Computes a window function for every row of the query, partition by partition
+   */
+  private computeWindow(window: WindowExpressionJson, scopes: EvaluationScope[]): void {
+    const partitions = new Map<string, EvaluationScope[]>();
+
+    for (const scope of scopes) {
+      const key = this.getKey(window.partitionBy.map(column => this.evaluate(column, scope)));
+      if (!partitions.has(key)) {
+        partitions.set(key, []);
+      }
+      partitions.get(key).push(scope);
+    }
+
+    for (const partition of partitions.values()) {
+      const items: WindowItem[] = partition
+        .map(scope => ({
+          scope,
+          orderKeys: window.orderBy.map(o => this.evaluate(o.column, scope)),
+        }))
+        .sort((a, b) => this.compareOrderKeys(a.orderKeys, b.orderKeys, window.orderBy));
+
+      items.forEach((item, index) => {
+        item.scope.windowValues = item.scope.windowValues || new Map();
+        item.scope.windowValues.set(window, this.evaluateWindowFunction(window, items, index));
+      });
+    }
+  }
+
+  /**
+   * Evaluates the function of a window for the row at the given position of its partition
+   */
+  private evaluateWindowFunction(
+    window: WindowExpressionJson,
+    items: WindowItem[],
+    index: number,
+  ): any {
+    const functionName = window.function.functionName.toUpperCase();
+    const args = window.function.arguments;
+    const scope = items[index].scope;
+    const isPeer = (i: number) =>
+      this.compareOrderKeys(items[i].orderKeys, items[index].orderKeys, window.orderBy) === 0;
+
+    switch (functionName) {
+      case 'ROW_NUMBER':
+        return index + 1;
+
+      case 'RANK': {
+        let first = index;
+        while (first > 0 && isPeer(first - 1)) {
+          first--;
+        }
+        return first + 1;
+      }
+
+      case 'DENSE_RANK': {
+        let rank = 1;
+        for (let i = 1; i <= index; i++) {
+          if (
+            this.compareOrderKeys(items[i - 1].orderKeys, items[i].orderKeys, window.orderBy) !== 0
+          ) {
+            rank++;
+          }
+        }
+        return rank;
+      }
+
+      case 'NTILE': {
+        // Os primeiros grupos recebem uma linha a mais quando a divisão não é exata
+        const buckets = Number(this.evaluate(args[0], scope));
+        const size = Math.floor(items.length / buckets);
+        const larger = (items.length % buckets) * (size + 1);
+        return index < larger
+          ? Math.floor(index / (size + 1)) + 1
+          : (items.length % buckets) + Math.floor((index - larger) / size) + 1;
+      }
+
+      case 'LAG':
+      case 'LEAD': {
+        const offset = args[1] ? Number(this.evaluate(args[1], scope)) : 1;
+        const target = functionName === 'LAG' ? index - offset : index + offset;
+        if (target < 0 || target >= items.length) {
+          return args[2] ? this.evaluate(args[2], scope) : null;
+        }
+        return this.evaluate(args[0], items[target].scope);
+      }
+    }
+
+    const frame = this.getFrameScopes(window, items, index);
+
+    switch (functionName) {
+      case 'FIRST_VALUE':
+        return frame.length === 0 ? null : this.evaluate(args[0], frame[0]);
+
+      case 'LAST_VALUE':
+        return frame.length === 0 ? null : this.evaluate(args[0], frame[frame.length - 1]);
+    }
+
+    if (AGGREGATE_FUNCTIONS.includes(functionName)) {
+      return this.evaluateAggregate(functionName, args[0], { ...scope, group: frame });
+    }
+
+    throw new Error(`Unsupported window function: ${functionName}`);
+  }
+
+  /**
+   * Gets the rows of the frame of the row at the given position. Without a frame, a window
+   * with ORDER BY reads up to the last row tied with the current one, and a window without
+   * ORDER BY reads the whole partition
+   */
+  private getFrameScopes(
+    window: WindowExpressionJson,
+    items: WindowItem[],
+    index: number,
+  ): EvaluationScope[] {
+    const frame =
+      window.frame ||
+      (window.orderBy.length > 0
+        ? { unit: WindowFrameUnit.RANGE, start: null, end: 0 }
+        : { unit: WindowFrameUnit.ROWS, start: null, end: null });
+
+    if (frame.unit === WindowFrameUnit.ROWS) {
+      const start = frame.start === null ? 0 : Math.max(0, index + frame.start);
+      const end = frame.end === null ? items.length - 1 : index + frame.end;
+      return end < start ? [] : items.slice(start, end + 1).map(item => item.scope);
+    }
+
+    // RANGE: distância entre os valores do ORDER BY, no sentido da ordenação
+    const offsets = [frame.start, frame.end].filter(bound => bound !== null && bound !== 0);
+    if (offsets.length > 0 && window.orderBy.length !== 1) {
+      throw new Error('A RANGE frame with offsets requires exactly one orderBy() in the window');
+    }
+
+    const current = items[index].orderKeys;
+    return items
+      .filter(item => {
+        const distance = this.getRangeDistance(item.orderKeys, current, window.orderBy);
+        return (
+          (frame.start === null || distance >= frame.start) &&
+          (frame.end === null || distance <= frame.end)
+        );
+      })
+      .map(item => item.scope);
+  }
+
+  /**
+   * Distance between the ORDER BY values of a row and of the current row: 0 for tied rows,
+   * negative before and positive after. With more than one ORDER BY value only the sign is known
+   */
+  private getRangeDistance(
+    keys: any[],
+    current: any[],
+    orderByColumns: OrderByExpressionJson[],
+  ): number {
+    const comparison = this.compareOrderKeys(keys, current, orderByColumns);
+
+    if (
+      comparison === 0 ||
+      orderByColumns.length !== 1 ||
+      keys[0] === null ||
+      current[0] === null
+    ) {
+      return comparison === 0 ? 0 : comparison * Infinity;
+    }
+
+    const value = keys[0] instanceof Date ? keys[0].getTime() : Number(keys[0]);
+    const base = current[0] instanceof Date ? current[0].getTime() : Number(current[0]);
+    return orderByColumns[0].ascending ? value - base : base - value;
+  }
+
+  /**
+   * Compares the ORDER BY values of two rows
+   */
+  private compareOrderKeys(a: any[], b: any[], orderByColumns: OrderByExpressionJson[]): number {
+    for (let i = 0; i < orderByColumns.length; i++) {
+      const result = this.compareForOrdering(a[i], b[i]);
+      if (result !== 0) {
+        return orderByColumns[i].ascending ? result : -result;
+      }
+    }
+    return 0;
+  }
+
+  /**
+   * Checks whether an expression contains an aggregate outside of subqueries
+   */
+  private containsAggregate(expr: any): boolean {
+    if (!expr || typeof expr !== 'object') {
+      return false;
+    }
+
+    if (Array.isArray(expr)) {
+      return expr.some(item => this.containsAggregate(item));
+    }
+
+    if (expr.type === 'ScalarSubqueryExpression' || expr.type === 'SelectExpression') {
+      return false;
+    }
+
+    // A função de uma janela não agrupa a consulta, mas seus argumentos podem agrupar
+    if (expr.type === 'WindowExpression') {
+      return this.containsAggregate([expr.function.arguments, expr.partitionBy, expr.orderBy]);
+    }
+
+    if (
+      expr.type === 'FunctionExpression' &&
+      AGGREGATE_FUNCTIONS.includes(expr.functionName.toUpperCase())
+    ) {
+      return true;
+    }
+
+    return Object.keys(expr).some(key => this.containsAggregate(expr[key]));
+  }
+
+  /**
+   * Converts a LIKE pattern into a regular expression
+   */
+  private likeToRegExp(pattern: string): RegExp {
+    const source = pattern
+      .split('')
+      .map(char => {
+        if (char === '%') return '.*';
+        if (char === '_') return '.';
+        return char.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+      })
+      .join('');
+
+    return new RegExp(`^${source}$`, 's');
+  }
+
+  /**
+   * Compares two non-null values
+   */
+  private compareValues(left: any, right: any): number {
+    const a = left instanceof Date ? left.getTime() : left;
+    const b = right instanceof Date ? right.getTime() : right;
+
+    if (a === b) {
+      return 0;
+    }
+
+    return a < b ? -1 : 1;
+  }
+
+  /**
+   * Compares two values for ORDER BY. NULL values come first in ascending order.
+   */
+  private compareForOrdering(left: any, right: any): number {
+    if (left === null || left === undefined) {
+      return right === null || right === undefined ? 0 : -1;
+    }
+
+    if (right === null || right === undefined) {
+      return 1;
+    }
+
+    return this.compareValues(left, right);
+  }
+
+  /**
+   * Converts a value into SQL's three-valued logic
+   */
+  private toBoolean(value: any): boolean | null {
+    return value === null || value === undefined ? null : Boolean(value);
+  }
+
+  /**
+   * Checks whether a predicate is satisfied (NULL counts as false)
+   */
+  private isTrue(value: any): boolean {
+    return this.toBoolean(value) === true;
+  }
+
+  /**
+   * Builds a comparable key for a list of values
+   */
+  private getKey(values: any[]): string {
+    return JSON.stringify(values.map(value => (value instanceof Date ? value.getTime() : value)));
+  }
+
+  /**
+   * Creates a row set where every alias is NULL
+   */
+  private createEmptyRows(aliases: string[]): Record<string, InMemoryRow | null> {
+    const rows: Record<string, InMemoryRow | null> = {};
+    for (const alias of aliases) {
+      rows[alias] = null;
+    }
+    return rows;
+  }
+
+  /**
+   * Returns the value of the first column of a row
+   */
+  private firstValue(row: InMemoryRow): any {
+    const keys = Object.keys(row);
+    return keys.length === 0 ? null : row[keys[0]];
+  }
+
+  /**
+   * Joins database, schema and table name with dots
+   */
+  private getQualifiedName(table: TableExpressionJson): string {
+    return [table.database, table.schema, table.tableName].filter(Boolean).join('.');
+  }
+
+  /**
+   * Returns the rows stored in a table
+   */
+  private getTableRows(tableName: string): InMemoryRow[] {
+    const rows = this.commonTableRows.get(tableName) || this.tables.get(tableName);
+
+    if (!rows) {
+      throw new Error(`Table '${tableName}' does not exist in the in-memory database`);
+    }
+
+    return rows;
+  }
+}
+
+/**
+ * Transaction of the in-memory provider: statements run directly on the tables and
+ * rollbacks restore the copies taken at the start and at each savepoint
+ */
+class InMemoryTransaction implements ITransactionProvider {
+  private readonly initial: Map<string, InMemoryRow[]>;
+  private readonly savepoints = new Map<string, Map<string, InMemoryRow[]>>();
+  private completed = false;
+
+  constructor(
+    private readonly provider: InMemoryDatabaseProvider,
+    private readonly takeSnapshot: () => Map<string, InMemoryRow[]>,
+    private readonly restore: (snapshot: Map<string, InMemoryRow[]>) => void,
+  ) {
+    this.initial = takeSnapshot();
+  }
+
+  async execAsync(metadata: ExpressionJson): Promise<any> {
+    this.assertActive();
+    return this.provider.execAsync(metadata);
+  }
+
+  async commitAsync(): Promise<void> {
+    this.assertActive();
+    this.completed = true;
+  }
+
+  async rollbackAsync(): Promise<void> {
+    this.assertActive();
+    this.restore(this.initial);
+    this.completed = true;
+  }
+
+  async savepointAsync(name: string): Promise<void> {
+    this.assertActive();
+    this.savepoints.set(name, this.takeSnapshot());
+  }
+
+  async rollbackToSavepointAsync(name: string): Promise<void> {
+    this.assertActive();
+    this.restore(this.getSavepoint(name));
+  }
+
+  async releaseSavepointAsync(name: string): Promise<void> {
+    this.assertActive();
+    this.getSavepoint(name);
+    this.savepoints.delete(name);
+  }
+
+  private getSavepoint(name: string): Map<string, InMemoryRow[]> {
+    const snapshot = this.savepoints.get(name);
+    if (!snapshot) {
+      throw new Error(`Savepoint '${name}' does not exist`);
+    }
+    return snapshot;
+  }
+
+  private assertActive(): void {
+    if (this.completed) {
+      throw new Error('The transaction has already been committed or rolled back');
+    }
+  }
+}
@@ -10,9 +10,18 @@ import { JoinExpression, JoinType } from '../expressions/JoinExpression';
 import { ScalarSubqueryExpression } from '../expressions/ScalarSubqueryExpression';
 import { ProjectionExpression } from '../expressions/ProjectionExpression';
 import { ParameterExpression } from '../expressions/ParameterExpression';
-import { OrderDirection } from './Types';
+import { INameResolver, OrderDirection, ResolvedNavigation } from './Types';
 import { ParentColumnExpression } from '../expressions/ParentColumnExpression';
 import { FragmentExpression } from '../expressions/FragmentExpression';
+import { InsertExpression } from '../expressions/InsertExpression';
+import { UpdateExpression } from '../expressions/UpdateExpression';
+import { DeleteExpression } from '../expressions/DeleteExpression';
+import { UpsertExpression } from '../expressions/UpsertExpression';
+import { CompoundSelectExpression, SetOperation } from '../expressions/CompoundSelectExpression';
+import { DerivedTableExpression } from '../expressions/DerivedTableExpression';
+import { CommonTableExpression } from '../expressions/CommonTableExpression';
+import { WindowExpression, WindowFrame } from '../expressions/WindowExpression';
+import { CaseExpression, CaseWhenClause } from '../expressions/CaseExpression';
 
 /**
  * Builds expression trees for SQL queries
@@ -20,19 +29,73 @@ import { FragmentExpression } from '../expressions/FragmentExpression';
  */
 export class ExpressionBuilder {
   /**
-   * Creates a table expression
+   * Aliases de tabelas derivadas com select(), cujas colunas já têm o nome das propriedades
+   */
+  private readonly projectedAliases = new Set<string>();
+
+  /**
+   * Creates a new expression builder
+   * @param nameResolver Optional resolver that maps model names to table and column names
+   */
+  constructor(private readonly nameResolver?: INameResolver) {}
+
+  /**
+   * Reads the columns of an alias by the names projected by its derived table, without
+   * the column mapping of the model
+   * @param alias Alias of the derived table
+   */
+  addProjectedAlias(alias: string): void {
+    this.projectedAliases.add(alias);
+  }
+
+  /**
+   * Checks whether an alias is a derived table read by its projected names
+   */
+  isProjectedAlias(alias: string): boolean {
+    return this.projectedAliases.has(alias);
+  }
+
+  /**
+   * Creates a table expression, mapping the model name to its table when configured
    */
   createTable(tableName: string, alias: string): TableExpression {
+    if (this.nameResolver) {
+      const table = this.nameResolver.getTable(tableName, alias);
+      return new TableExpression(table.table, alias, table.schema ?? null, table.database ?? null);
+    }
     return new TableExpression(tableName, alias);
   }
 
   /**
-   * Creates a column expression
+   * Creates a column expression, mapping the property name to its column when configured
    */
   createColumn(columnName: string, tableAlias: string): ColumnExpression {
+    if (this.nameResolver && columnName !== '*' && !this.projectedAliases.has(tableAlias)) {
+      columnName = this.nameResolver.getColumnName(tableAlias, columnName);
+    }
     return new ColumnExpression(columnName, tableAlias);
   }
 
+  /**
+   * Resolves a navigation property of a table, if the model declares one
+   */
+  resolveNavigation(
+    tableAlias: string,
+    propertyName: string,
+    aliasesInScope: string[] = [],
+  ): ResolvedNavigation | null {
+    return this.nameResolver
+      ? this.nameResolver.resolveNavigation(tableAlias, propertyName, aliasesInScope)
+      : null;
+  }
+
+  /**
+   * Creates the global query filter of a table, if the model declares one
+   */
+  createQueryFilter(tableAlias: string): Expression | null {
+    return this.nameResolver ? this.nameResolver.getQueryFilter(tableAlias, this) : null;
+  }
+
   /**
    * Creates a constant expression
    */
@@ -112,7 +175,7 @@ export class ExpressionBuilder {
    */
   createSelect(
     projections: ProjectionExpression[],
-    fromTable: TableExpression,
+    fromTable: TableExpression | DerivedTableExpression | null,
     joins: JoinExpression[] = [],
     whereClause: Expression | null = null,
     groupByColumns: Expression[] = [],
@@ -136,6 +199,132 @@ export class ExpressionBuilder {
     );
   }
 
+  /**
+   * Creates two queries combined by a set operation (UNION, INTERSECT, EXCEPT)
+   */
+  createCompoundSelect(
+    operation: SetOperation,
+    left: SelectExpression | CompoundSelectExpression,
+    right: SelectExpression | CompoundSelectExpression,
+  ): CompoundSelectExpression {
+    return new CompoundSelectExpression(operation, left, right);
+  }
+
+  /**
+   * Creates a query used as a table in the FROM clause
+   */
+  createDerivedTable(
+    query: SelectExpression | CompoundSelectExpression,
+    alias: string,
+  ): DerivedTableExpression {
+    return new DerivedTableExpression(query, alias);
+  }
+
+  /**
+   * Creates a common table expression of a WITH clause
+   */
+  createCommonTable(
+    name: string,
+    query: SelectExpression | CompoundSelectExpression,
+    recursive: boolean = false,
+  ): CommonTableExpression {
+    return new CommonTableExpression(name, query, recursive);
+  }
+
+  /**
+   * Creates an INSERT INTO ... VALUES statement
+   */
+  createInsert(
+    table: TableExpression,
+    columns: string[],
+    values: Expression[][],
+    returning: boolean = false,
+  ): InsertExpression {
+    return new InsertExpression(table, columns, values, returning);
+  }
+
+  /**
+   * Creates an INSERT INTO ... SELECT statement
+   */
+  createInsertFrom(
+    table: TableExpression,
+    columns: string[],
+    query: SelectExpression,
+    returning: boolean = false,
+  ): InsertExpression {
+    return new InsertExpression(table, columns, [], returning, query);
+  }
+
+  /**
+   * Creates a set-based UPDATE statement
+   */
+  createUpdate(
+    table: TableExpression,
+    columns: string[],
+    values: Expression[],
+    joins: JoinExpression[] = [],
+    whereClause: Expression | null = null,
+  ): UpdateExpression {
+    return new UpdateExpression(table, columns, values, joins, whereClause);
+  }
+
+  /**
+   * Creates a set-based DELETE statement
+   */
+  createDelete(
+    table: TableExpression,
+    joins: JoinExpression[] = [],
+    whereClause: Expression | null = null,
+  ): DeleteExpression {
+    return new DeleteExpression(table, joins, whereClause);
+  }
+
+  /**
+   * Creates an insert-or-update statement
+   */
+  createUpsert(
+    table: TableExpression,
+    columns: string[],
+    values: Expression[][],
+    matchColumns: string[],
+    updateColumns: string[],
+    updateValues: Expression[],
+    returning: boolean = false,
+  ): UpsertExpression {
+    return new UpsertExpression(
+      table,
+      columns,
+      values,
+      matchColumns,
+      updateColumns,
+      updateValues,
+      returning,
+    );
+  }
+
+  /**
+   * Creates a window function: fn OVER (PARTITION BY ... ORDER BY ... frame)
+   */
+  createWindow(
+    fn: FunctionExpression,
+    partitionBy: Expression[] = [],
+    orderBy: OrderingExpression[] = [],
+    frame: WindowFrame | null = null,
+  ): WindowExpression {
+    return new WindowExpression(fn, partitionBy, orderBy, frame);
+  }
+
+  /**
+   * Creates a CASE expression: searched when operand is null, simple otherwise
+   */
+  createCase(
+    operand: Expression | null,
+    whenClauses: CaseWhenClause[],
+    elseResult: Expression | null = null,
+  ): CaseExpression {
+    return new CaseExpression(operand, whenClauses, elseResult);
+  }
+
   /**
    * Creates a COUNT function expression
    */
@@ -238,6 +427,27 @@ export class ExpressionBuilder {
     return this.createUnary(ExpressionType.Not, operand);
   }
 
+  /**
+   * Cria uma expressão IS NULL
+   */
+  createIsNull(operand: Expression): UnaryExpression {
+    return this.createUnary(ExpressionType.IsNull, operand);
+  }
+
+  /**
+   * Cria uma expressão IS NOT NULL
+   */
+  createIsNotNull(operand: Expression): UnaryExpression {
+    return this.createUnary(ExpressionType.IsNotNull, operand);
+  }
+
+  /**
+   * Cria uma chamada COALESCE: o primeiro valor não nulo
+   */
+  createCoalesce(values: Expression[]): FunctionExpression {
+    return this.createFunction('COALESCE', values);
+  }
+
   /**
    * Cria uma expressão IN com uma subconsulta
    */
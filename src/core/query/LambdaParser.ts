@@ -4,6 +4,30 @@ import { Expression, ExpressionType } from '../expressions/Expression';
 import { ExpressionBuilder } from './ExpressionBuilder';
 import { PropertyTracker } from './PropertyTracker';
 import { AggregateSelector } from './Types';
+import { OrderingExpression } from '../expressions/SelectExpression';
+import { WindowExpression, WindowFrame, WindowFrameUnit } from '../expressions/WindowExpression';
+import { CaseWhenClause } from '../expressions/CaseExpression';
+import { ConstantExpression } from '../expressions/ConstantExpression';
+import { FunctionExpression } from '../expressions/FunctionExpression';
+
+/**
+ * Funções de Window traduzidas para funções de janela SQL
+ */
+const WINDOW_FUNCTIONS: Record<string, string> = {
+  rowNumber: 'ROW_NUMBER',
+  rank: 'RANK',
+  denseRank: 'DENSE_RANK',
+  ntile: 'NTILE',
+  lag: 'LAG',
+  lead: 'LEAD',
+  firstValue: 'FIRST_VALUE',
+  lastValue: 'LAST_VALUE',
+  sum: 'SUM',
+  avg: 'AVG',
+  min: 'MIN',
+  max: 'MAX',
+  count: 'COUNT',
+};
 
 /**
  * Interface que representa um resultado de mapeamento de propriedade
@@ -32,6 +56,8 @@ export class LambdaParser {
   private parameterName: string = '';
   private secondParameterName: string | null = null;
   private readonly propertyTracker?: PropertyTracker;
+  /** Parâmetros de lambdas externas (nome → alias), visíveis em predicados de navegação */
+  private outerParameters = new Map<string, string>();
 
   /**
    * Cria um novo analisador lambda
@@ -49,11 +75,67 @@ export class LambdaParser {
     this.propertyTracker = propertyTracker;
   }
 
+  /**
+   * Analisa um seletor de array, como o de groupBy(), pela AST quando algum elemento é
+   * calculado (ternário ou busca em objeto). Retorna null quando todos são propriedades
+   * @param selector O seletor
+   * @param defaultTableAlias O alias da tabela principal
+   */
+  parseComputedArraySelector<T>(
+    selector: (entity: T) => any[],
+    defaultTableAlias: string,
+  ): Expression[] | null {
+    this.extractParameterName(selector.toString());
+    const body = this.parseLambda(selector.toString());
+    const array =
+      ts.isReturnStatement(body) && body.expression
+        ? this.skipParentheses(body.expression)
+        : undefined;
+
+    if (!array || !ts.isArrayLiteralExpression(array)) {
+      return null;
+    }
+
+    const elements = array.elements.map(element => this.skipParentheses(element));
+    const isComputed = (element: ts.Expression) =>
+      ts.isConditionalExpression(element) || ts.isElementAccessExpression(element);
+
+    if (!elements.some(isComputed)) {
+      return null;
+    }
+
+    return elements.map(element => this.processNode(element, defaultTableAlias));
+  }
+
   parseAggregationSelector<T>(selector: (entity: T) => any, defaultTableAlias: string): Expression {
     // Extract the function string
     const selectorStr = selector.toString();
     this.extractParameterName(selectorStr);
 
+    // Funções de janela (Window.rowNumber()...), expressões CASE, ?? e ?. são analisados pela AST
+    const body = this.parseLambda(selectorStr);
+    const bodyExpression =
+      ts.isReturnStatement(body) && body.expression
+        ? this.skipParentheses(body.expression)
+        : undefined;
+
+    if (bodyExpression && ts.isCallExpression(bodyExpression)) {
+      const windowExpr = this.processWindowCall(bodyExpression, defaultTableAlias);
+      if (windowExpr) {
+        return windowExpr;
+      }
+    }
+
+    if (
+      bodyExpression &&
+      (ts.isConditionalExpression(bodyExpression) ||
+        ts.isElementAccessExpression(bodyExpression) ||
+        this.isCoalesceNode(bodyExpression) ||
+        ts.isOptionalChain(bodyExpression))
+    ) {
+      return this.processNode(bodyExpression, defaultTableAlias);
+    }
+
     // Check if we have a nested property (like joined.order.amount)
     const nestedPropertyMatch = selectorStr.match(/=>\s*\w+\.(\w+)\.(\w+)/);
 
@@ -336,7 +418,7 @@ export class LambdaParser {
 
     if (paramMatch) {
       // Usar o nome do parâmetro capturado
-      this.parameterName = (paramMatch[1] || paramMatch[2]).trim();
+      this.parameterName = (paramMatch[1] || paramMatch[2] || '').trim();
     } else {
       // Nome de parâmetro padrão se não pudermos extraí-lo
       this.parameterName = 'entity';
@@ -431,6 +513,17 @@ export class LambdaParser {
       return this.processCallExpression(node, tableAlias);
     }
 
+    if (ts.isConditionalExpression(node)) {
+      return this.processConditionalExpression(node, tableAlias);
+    }
+
+    if (ts.isElementAccessExpression(node)) {
+      const lookupExpr = this.processLookupExpression(node, tableAlias);
+      if (lookupExpr) {
+        return lookupExpr;
+      }
+    }
+
     if (ts.isParenthesizedExpression(node)) {
       return this.processNode(node.expression, tableAlias);
     }
@@ -735,6 +828,11 @@ export class LambdaParser {
       return this.builder.createConstant(null);
     }
 
+    const outerAlias = this.resolveOuterParameter(propPath);
+    if (outerAlias) {
+      return this.builder.createColumn(propPath[1], outerAlias);
+    }
+
     // Get the full path as a string for property tracker lookups
     const fullPropertyPath = propPath.join('.');
 
@@ -807,17 +905,66 @@ export class LambdaParser {
    * @param tableAlias O alias para a tabela
    */
   private processBinaryExpression(node: ts.BinaryExpression, tableAlias: string): Expression {
-    // Obter o operador
-    const operator = this.mapBinaryOperator(node.operatorToken.kind);
-
     // Processar operandos à esquerda e à direita
     const left = this.processNode(node.left, tableAlias);
     const right = this.processNode(node.right, tableAlias);
 
     // Criar uma expressão binária
+    return this.createBinaryOperation(node, left, right);
+  }
+
+  /**
+   * Cria a operação de uma expressão binária já com os operandos processados.
+   * a ?? b vira COALESCE(a, b), e comparações com null (literal ou variável nula)
+   * viram IS NULL / IS NOT NULL, já que = NULL nunca é verdadeiro em SQL
+   * @param node O nó de expressão binária
+   * @param left O operando à esquerda
+   * @param right O operando à direita
+   */
+  private createBinaryOperation(
+    node: ts.BinaryExpression,
+    left: Expression,
+    right: Expression,
+  ): Expression {
+    if (node.operatorToken.kind === ts.SyntaxKind.QuestionQuestionToken) {
+      // a ?? b ?? c é ((a ?? b) ?? c): junta tudo em um único COALESCE
+      const values =
+        this.isCoalesceNode(node.left) && left instanceof FunctionExpression
+          ? [...left.getArguments(), right]
+          : [left, right];
+      return this.builder.createCoalesce(values);
+    }
+
+    const operator = this.mapBinaryOperator(node.operatorToken.kind);
+
+    if (operator === ExpressionType.Equal || operator === ExpressionType.NotEqual) {
+      const operand = this.isNullConstant(right) ? left : this.isNullConstant(left) ? right : null;
+      if (operand) {
+        return operator === ExpressionType.Equal
+          ? this.builder.createIsNull(operand)
+          : this.builder.createIsNotNull(operand);
+      }
+    }
+
     return this.builder.createBinary(operator, left, right);
   }
 
+  /**
+   * Verifica se um nó é uma expressão a ?? b
+   */
+  private isCoalesceNode(node: ts.Node): boolean {
+    return (
+      ts.isBinaryExpression(node) && node.operatorToken.kind === ts.SyntaxKind.QuestionQuestionToken
+    );
+  }
+
+  /**
+   * Verifica se uma expressão é a constante null
+   */
+  private isNullConstant(expr: Expression): boolean {
+    return expr instanceof ConstantExpression && expr.getValue() === null;
+  }
+
   /**
    * Processa uma expressão unária de prefixo
    * @param node O nó de expressão unária de prefixo
@@ -845,6 +992,11 @@ export class LambdaParser {
   private processIdentifier(node: ts.Identifier, tableAlias: string): Expression {
     const name = node.text;
 
+    // undefined não existe em SQL: equivale a NULL
+    if (name === 'undefined') {
+      return this.builder.createConstant(null);
+    }
+
     // Verificar se este é nosso parâmetro
     if (name === this.parameterName) {
       // Esta é uma referência à entidade inteira - não comum em SQL
@@ -951,6 +1103,16 @@ export class LambdaParser {
    * @param tableAlias O alias para a tabela
    */
   private processCallExpression(node: ts.CallExpression, tableAlias: string): Expression {
+    const windowExpr = this.processWindowCall(node, tableAlias);
+    if (windowExpr) {
+      return windowExpr;
+    }
+
+    const navigationExpr = this.processNavigationCall(node, tableAlias);
+    if (navigationExpr) {
+      return navigationExpr;
+    }
+
     // Lidar com chamadas de método como string.includes(), array.some(), etc.
     if (ts.isPropertyAccessExpression(node.expression)) {
       const method = node.expression.name.text;
@@ -972,6 +1134,14 @@ export class LambdaParser {
           case 'trimRight':
             // Converter para função SQL RTRIM
             return this.builder.createFunction('RTRIM', [object]);
+
+          case 'toLowerCase':
+            // Converter para função SQL LOWER
+            return this.builder.createFunction('LOWER', [object]);
+
+          case 'toUpperCase':
+            // Converter para função SQL UPPER
+            return this.builder.createFunction('UPPER', [object]);
         }
       }
 
@@ -1035,6 +1205,361 @@ export class LambdaParser {
     return this.builder.createConstant(node.getText());
   }
 
+  /**
+   * Converte um ternário em um CASE pesquisado. Ternários aninhados no ramo falso
+   * viram outros WHEN do mesmo CASE
+   * @param node O nó do ternário
+   * @param tableAlias O alias da tabela
+   */
+  private processConditionalExpression(
+    node: ts.ConditionalExpression,
+    tableAlias: string,
+  ): Expression {
+    const whenClauses: CaseWhenClause[] = [];
+    let current: ts.Expression = node;
+
+    while (ts.isConditionalExpression(current)) {
+      whenClauses.push({
+        when: this.processNode(current.condition, tableAlias),
+        then: this.processNode(current.whenTrue, tableAlias),
+      });
+      current = this.skipParentheses(current.whenFalse);
+    }
+
+    return this.builder.createCase(null, whenClauses, this.processNode(current, tableAlias));
+  }
+
+  /**
+   * Converte a busca em um objeto, como ({ a: 1, b: 2 })[o.status], labels[o.status] ou
+   * params.labels[o.status] (labels sendo uma variável de contexto), em um CASE simples sem ELSE.
+   * Retorna null quando o objeto não é um literal nem uma variável
+   * @param node O nó de acesso por índice
+   * @param tableAlias O alias da tabela
+   */
+  private processLookupExpression(
+    node: ts.ElementAccessExpression,
+    tableAlias: string,
+  ): Expression | null {
+    const target = this.skipParentheses(node.expression);
+    const lookupVariable = this.findLookupVariable(target);
+    const whenClauses: CaseWhenClause[] = [];
+
+    if (ts.isObjectLiteralExpression(target)) {
+      for (const property of target.properties) {
+        if (!ts.isPropertyAssignment(property)) {
+          throw new Error(
+            `Unsupported property '${property.getText()}' in a lookup object. Use key: value`,
+          );
+        }
+
+        whenClauses.push({
+          when: this.processLookupKey(property.name),
+          then: this.processNode(property.initializer, tableAlias),
+        });
+      }
+    } else if (lookupVariable) {
+      for (const [key, value] of Object.entries(lookupVariable)) {
+        whenClauses.push({
+          when: this.builder.createConstant(key),
+          then: this.builder.createConstant(value),
+        });
+      }
+    } else {
+      return null;
+    }
+
+    if (whenClauses.length === 0) {
+      return this.builder.createConstant(null);
+    }
+
+    return this.builder.createCase(
+      this.processNode(node.argumentExpression, tableAlias),
+      whenClauses,
+    );
+  }
+
+  /**
+   * Converte a chave de um objeto de busca no valor do WHEN
+   */
+  private processLookupKey(name: ts.PropertyName): Expression {
+    if (ts.isNumericLiteral(name)) {
+      return this.builder.createConstant(Number(name.text));
+    }
+
+    if (ts.isIdentifier(name) || ts.isStringLiteral(name)) {
+      return this.builder.createConstant(name.text);
+    }
+
+    throw new Error(`Unsupported key '${name.getText()}' in a lookup object`);
+  }
+
+  /**
+   * Obtém o objeto de uma variável de contexto usada em uma busca, ou null
+   */
+  private findLookupVariable(node: ts.Expression): Record<string, any> | null {
+    let name: string | null = null;
+
+    if (ts.isIdentifier(node) && node.text !== this.parameterName) {
+      name = node.text;
+    } else if (this.isParameterArrayReference(node)) {
+      name = this.extractParamPropertyName(node);
+    }
+
+    const value = name !== null && name in this.variables ? this.variables[name] : null;
+    return typeof value === 'object' &&
+      value !== null &&
+      !Array.isArray(value) &&
+      !(value instanceof Date)
+      ? value
+      : null;
+  }
+
+  private skipParentheses(node: ts.Expression): ts.Expression {
+    while (ts.isParenthesizedExpression(node)) {
+      node = node.expression;
+    }
+    return node;
+  }
+
+  /**
+   * Converte Window.fn(...).partitionBy(...).orderBy(...) em uma função de janela.
+   * Retorna null quando a cadeia de chamadas não começa em Window
+   * @param node A última chamada da cadeia
+   * @param tableAlias O alias da tabela
+   */
+  private processWindowCall(node: ts.CallExpression, tableAlias: string): WindowExpression | null {
+    const calls: ts.CallExpression[] = [];
+    let current: ts.Expression = node;
+
+    while (ts.isCallExpression(current) && ts.isPropertyAccessExpression(current.expression)) {
+      calls.unshift(current);
+      current = current.expression.expression;
+    }
+
+    if (calls.length === 0 || !this.isWindowReference(current)) {
+      return null;
+    }
+
+    const [functionCall, ...clauseCalls] = calls;
+    const fn = this.createWindowFunction(functionCall, tableAlias);
+    const partitionBy: Expression[] = [];
+    const orderBy: OrderingExpression[] = [];
+    let frame: WindowFrame | null = null;
+
+    for (const call of clauseCalls) {
+      const clause = (call.expression as ts.PropertyAccessExpression).name.text;
+
+      switch (clause) {
+        case 'partitionBy':
+          partitionBy.push(...call.arguments.map(arg => this.processNode(arg, tableAlias)));
+          break;
+
+        case 'orderBy':
+        case 'orderByDesc':
+          orderBy.push(
+            this.builder.createOrderBy(
+              this.processNode(call.arguments[0], tableAlias),
+              clause === 'orderBy',
+            ),
+          );
+          break;
+
+        case 'rowsBetween':
+        case 'rangeBetween':
+          if (call.arguments.length !== 2) {
+            throw new Error(`${clause}() requires the start and the end of the frame`);
+          }
+          frame = {
+            unit: clause === 'rowsBetween' ? WindowFrameUnit.ROWS : WindowFrameUnit.RANGE,
+            start: this.getFrameBound(call.arguments[0]),
+            end: this.getFrameBound(call.arguments[1]),
+          };
+          break;
+
+        default:
+          throw new Error(`Unsupported window clause: ${clause}()`);
+      }
+    }
+
+    return this.builder.createWindow(fn, partitionBy, orderBy, frame);
+  }
+
+  /**
+   * Cria a função de Window.fn(...), a primeira chamada da cadeia
+   */
+  private createWindowFunction(call: ts.CallExpression, tableAlias: string) {
+    const method = (call.expression as ts.PropertyAccessExpression).name.text;
+    const functionName = WINDOW_FUNCTIONS[method];
+
+    if (!functionName) {
+      throw new Error(`Unsupported window function: Window.${method}()`);
+    }
+
+    const args = call.arguments.map(arg => this.processNode(arg, tableAlias));
+
+    if (functionName === 'COUNT' && args.length === 0) {
+      return this.builder.createCount(null);
+    }
+
+    return this.builder.createFunction(functionName, args);
+  }
+
+  /**
+   * Lê um limite de frame: um número (negativo = PRECEDING), uma variável,
+   * null ou Window.unboundedPreceding / currentRow / unboundedFollowing
+   */
+  private getFrameBound(node: ts.Expression): number | null {
+    if (node.kind === ts.SyntaxKind.NullKeyword) {
+      return null;
+    }
+
+    if (ts.isPropertyAccessExpression(node) && this.isWindowReference(node.expression)) {
+      switch (node.name.text) {
+        case 'unboundedPreceding':
+        case 'unboundedFollowing':
+          return null;
+        case 'currentRow':
+          return 0;
+      }
+    }
+
+    if (ts.isNumericLiteral(node)) {
+      return Number(node.text);
+    }
+
+    if (
+      ts.isPrefixUnaryExpression(node) &&
+      node.operator === ts.SyntaxKind.MinusToken &&
+      ts.isNumericLiteral(node.operand)
+    ) {
+      return -Number(node.operand.text);
+    }
+
+    if (ts.isIdentifier(node) && node.text in this.variables) {
+      const value = this.variables[node.text];
+      return value === null || value === undefined ? null : Number(value);
+    }
+
+    throw new Error(
+      `Invalid window frame bound '${node.getText()}'. Use a number, null or Window.currentRow`,
+    );
+  }
+
+  /**
+   * Verifica se a expressão é a classe Window (também quando importada, como Window_1.Window)
+   */
+  private isWindowReference(node: ts.Expression): boolean {
+    if (ts.isIdentifier(node)) {
+      return (
+        node.text === 'Window' && node.text !== this.parameterName && !(node.text in this.variables)
+      );
+    }
+
+    return ts.isPropertyAccessExpression(node) && node.name.text === 'Window';
+  }
+
+  /**
+   * Traduz some()/every() sobre uma navegação declarada com hasMany() em EXISTS correlacionado
+   * Exemplo: u.orders.some(o => o.amount > 100)
+   * @returns A expressão EXISTS, ou null se a chamada não for sobre uma navegação
+   */
+  private processNavigationCall(node: ts.CallExpression, tableAlias: string): Expression | null {
+    if (!ts.isPropertyAccessExpression(node.expression)) {
+      return null;
+    }
+
+    const method = node.expression.name.text;
+    const collection = node.expression.expression;
+    if ((method !== 'some' && method !== 'every') || !ts.isPropertyAccessExpression(collection)) {
+      return null;
+    }
+
+    const path = this.extractPropertyPath(collection);
+    if (path.length !== 2) {
+      return null;
+    }
+
+    const ownerAlias =
+      path[0] === this.parameterName ? tableAlias : this.outerParameters.get(path[0]);
+    if (!ownerAlias) {
+      return null;
+    }
+
+    const navigation = this.builder.resolveNavigation(ownerAlias, path[1], [
+      tableAlias,
+      ...this.outerParameters.values(),
+    ]);
+    if (!navigation) {
+      return null;
+    }
+
+    const predicate = node.arguments[0];
+    if (!predicate || (!ts.isArrowFunction(predicate) && !ts.isFunctionExpression(predicate))) {
+      throw new Error(`${method}() on navigation '${path[1]}' expects a lambda predicate`);
+    }
+
+    const outerParameters = new Map(this.outerParameters);
+    outerParameters.set(this.parameterName, tableAlias);
+
+    const parser = new LambdaParser(this.builder, this.variables);
+    parser.outerParameters = outerParameters;
+
+    const fnString = predicate.getText();
+    parser.extractParameterNames(fnString);
+    parser.secondParameterName = parser.secondParameterName || this.secondParameterName;
+
+    const inner = parser.processNodeWithNesting(parser.parseLambda(fnString), navigation.alias);
+
+    // Correlação: related.foreignKey = owner.principalKey
+    // every(p) equivale a NOT EXISTS (... AND p não é verdadeiro): como no JavaScript, uma
+    // linha em que p é NULL não satisfaz o predicado
+    let condition = this.builder.createAnd(
+      this.builder.createEqual(
+        this.builder.createColumn(navigation.foreignKey, navigation.alias),
+        this.builder.createColumn(navigation.principalKey, ownerAlias),
+      ),
+      method === 'every'
+        ? this.builder.createEqual(
+            this.builder.createCase(
+              null,
+              [{ when: inner, then: this.builder.createConstant(1) }],
+              this.builder.createConstant(0),
+            ),
+            this.builder.createConstant(0),
+          )
+        : inner,
+    );
+
+    const filter = this.builder.createQueryFilter(navigation.alias);
+    if (filter) {
+      condition = this.builder.createAnd(condition, filter);
+    }
+
+    const subquery = this.builder.createSubquery(
+      this.builder.createSelect(
+        [this.builder.createProjection(this.builder.createConstant(1), null)],
+        this.builder.createTable(navigation.tableName, navigation.alias),
+        [],
+        condition,
+      ),
+    );
+
+    return method === 'every'
+      ? this.builder.createNotExistsSubquery(subquery)
+      : this.builder.createExistsSubquery(subquery);
+  }
+
+  /**
+   * Resolve o alias de um acesso a parâmetro de uma lambda externa (ex: u.id dentro de
+   * u.orders.some(o => o.userId === u.id))
+   */
+  private resolveOuterParameter(propPath: string[]): string | undefined {
+    if (propPath.length !== 2 || propPath[0] === this.parameterName) {
+      return undefined;
+    }
+    return this.outerParameters.get(propPath[0]);
+  }
+
   /**
    * Processa uma expressão de projeção (literal de objeto na função select)
    * @param node O nó AST
@@ -1240,6 +1765,42 @@ export class LambdaParser {
     return this.processNodeWithNesting(node, tableAlias);
   }
 
+  /**
+   * Analisa as atribuições de um UPDATE, ex: u => ({ isActive: false, score: u.score - 1 }),
+   * com suporte a propriedades aninhadas
+   * @returns Mapa de nome da propriedade → expressão do novo valor
+   */
+  parseAssignments<T, P = Record<string, any>>(
+    setter: (entity: T, params?: P) => Record<string, any>,
+    tableAlias: string,
+  ): Map<string, Expression> {
+    const fnString = setter.toString();
+    const node = this.parseLambda(fnString);
+    this.extractParameterNames(fnString);
+
+    const objectLiteral = this.findObjectLiteral(node);
+    if (!objectLiteral) {
+      throw new Error(
+        `Expected an object literal with the new values, e.g. u => ({ isActive: false })`,
+      );
+    }
+
+    const result = new Map<string, Expression>();
+
+    for (const property of objectLiteral.properties) {
+      if (
+        !ts.isPropertyAssignment(property) ||
+        !(ts.isIdentifier(property.name) || ts.isStringLiteral(property.name))
+      ) {
+        throw new Error(`Unsupported assignment '${property.getText()}': use 'property: value'`);
+      }
+
+      result.set(property.name.text, this.processNodeWithNesting(property.initializer, tableAlias));
+    }
+
+    return result;
+  }
+
   /**
    * Processa um nó AST com suporte a propriedades aninhadas
    */
@@ -1257,9 +1818,8 @@ export class LambdaParser {
     if (ts.isBinaryExpression(node)) {
       const left = this.processPropertyWithNesting(node.left, tableAlias);
       const right = this.processPropertyWithNesting(node.right, tableAlias);
-      const operator = this.mapBinaryOperator(node.operatorToken.kind);
 
-      return this.builder.createBinary(operator, left, right);
+      return this.createBinaryOperation(node, left, right);
     }
 
     // For logical expressions (AND, OR)
@@ -1290,6 +1850,11 @@ export class LambdaParser {
 
     // For call expressions (e.g., includes(), startsWith())
     if (ts.isCallExpression(node)) {
+      const navigationExpr = this.processNavigationCall(node, tableAlias);
+      if (navigationExpr) {
+        return navigationExpr;
+      }
+
       // Handle method calls on properties
       if (ts.isPropertyAccessExpression(node.expression)) {
         const method = node.expression.name.text;
@@ -1386,6 +1951,11 @@ export class LambdaParser {
         return this.builder.createConstant(null);
       }
 
+      const outerAlias = this.resolveOuterParameter(propPath);
+      if (outerAlias) {
+        return this.builder.createColumn(propPath[1], outerAlias);
+      }
+
       // If we have a nested property (at least 3 parts: parameter.object.property)
       if (propPath.length >= 3 && propPath[0] === this.parameterName) {
         const objectName = propPath[1]; // e.g., "order" or "traducao"
@@ -1633,7 +2203,7 @@ export class LambdaParser {
 
     if (oneParamMatch) {
       // Usar o nome do parâmetro capturado
-      this.parameterName = (oneParamMatch[1] || oneParamMatch[2]).trim();
+      this.parameterName = (oneParamMatch[1] || oneParamMatch[2] || '').trim();
       this.secondParameterName = null; // Não há segundo parâmetro
     } else {
       // Nome de parâmetro padrão se não pudermos extraí-lo
@@ -1,15 +1,18 @@
 // src/core/query/Queryable.ts
-import { IDatabaseProvider } from './Types';
+import { IDatabaseProvider, ParameterizedQuery } from './Types';
 import { ExpressionBuilder } from './ExpressionBuilder';
 import { LambdaParser } from './LambdaParser';
 import { PropertyTracker } from './PropertyTracker';
 import { TableExpression } from '../expressions/TableExpression';
+import { DerivedTableExpression } from '../expressions/DerivedTableExpression';
 import { ProjectionExpression } from '../expressions/ProjectionExpression';
 import { JoinExpression } from '../expressions/JoinExpression';
 import { Expression } from '../expressions/Expression';
 import { OrderingExpression, SelectExpression } from '../expressions/SelectExpression';
-import { SqlServerGenerationVisitor } from '../visitors/SqlServerGenerationVisitor';
+import { SqlDialect, SqlDialects } from '../dialects/SqlDialect';
+import { DbContext } from '../context/DbContext';
 import { ExpressionSerializer } from '../../utils/ExpressionSerializer';
+import { getSelectedPropertyName } from '../model/EntityTypeBuilder';
 
 // Import extension types
 import { IQueryWhereExtensions } from './extensions/WhereExtensionsInterface';
@@ -22,6 +25,8 @@ import { IQueryAggregationExtensions } from './extensions/AggregationExtensionsI
 import { IQuerySubqueryExtensions } from './extensions/SubqueryExtensionsInterface';
 import { IQueryPaginationExtensions } from './extensions/PaginationExtensionsInterface';
 import { IQueryExecutionExtensions } from './extensions/ExecutionExtensionsInterface';
+import { IQueryModificationExtensions } from './extensions/ModificationExtensionsInterface';
+import { IQuerySetOperationExtensions } from './extensions/SetOperationExtensionsInterface';
 
 /**
  * Represents a query that can be built and executed against a data source
@@ -37,10 +42,12 @@ export class Queryable<T>
     IQueryAggregationExtensions<T>,
     IQuerySubqueryExtensions<T>,
     IQueryPaginationExtensions<T>,
-    IQueryExecutionExtensions<T>
+    IQueryExecutionExtensions<T>,
+    IQueryModificationExtensions<T>,
+    IQuerySetOperationExtensions<T>
 {
   // Query components
-  fromTable: TableExpression;
+  fromTable: TableExpression | DerivedTableExpression;
   whereClause: Expression | null = null;
   projections: ProjectionExpression[] = [];
   joins: JoinExpression[] = [];
@@ -51,6 +58,15 @@ export class Queryable<T>
   offsetValue: Expression | null = null;
   isDistinct: boolean = false;
 
+  // Navigations loaded after the query runs (see include())
+  includes: string[] = [];
+
+  // Whether the global query filters of the model are applied (see ignoreQueryFilters())
+  applyQueryFilters: boolean = true;
+
+  // Dialect override for this query (falls back to the context dialect)
+  dialect: SqlDialect | null = null;
+
   // Property tracker
   propertyTracker: PropertyTracker;
 
@@ -61,6 +77,7 @@ export class Queryable<T>
    * @param alias The alias for the table
    * @param contextVariables Context variables for the query
    * @param propertyTracker Optional property tracker
+   * @param context Optional database context that owns the query
    */
   constructor(
     readonly provider: IDatabaseProvider,
@@ -68,8 +85,9 @@ export class Queryable<T>
     readonly alias: string,
     readonly contextVariables: Record<string, any> = {},
     propertyTracker?: PropertyTracker,
+    readonly context?: DbContext,
   ) {
-    this.expressionBuilder = new ExpressionBuilder();
+    this.expressionBuilder = new ExpressionBuilder(context);
     this.lambdaParser = new LambdaParser(this.expressionBuilder, contextVariables);
     this.fromTable = this.expressionBuilder.createTable(tableName, alias);
 
@@ -87,6 +105,8 @@ export class Queryable<T>
     const { applyAggregationExtensions } = require('./extensions/AggregationExtensionsImpl');
     const { applyPaginationExtensions } = require('./extensions/PaginationExtensionsImpl');
     const { applyExecutionExtensions } = require('./extensions/ExecutionExtensionsImpl');
+    const { applyModificationExtensions } = require('./extensions/ModificationExtensionsImpl');
+    const { applySetOperationExtensions } = require('./extensions/SetOperationExtensionsImpl');
 
     // Apply all extensions
     applyWhereExtensions(this);
@@ -98,6 +118,8 @@ export class Queryable<T>
     applyAggregationExtensions(this);
     applyPaginationExtensions(this);
     applyExecutionExtensions(this);
+    applyModificationExtensions(this);
+    applySetOperationExtensions(this);
   }
 
   readonly expressionBuilder: ExpressionBuilder;
@@ -125,21 +147,10 @@ export class Queryable<T>
         ...variables,
       },
       this.propertyTracker.clone(),
+      this.context,
     );
 
-    // Copy all the query components
-    newQueryable.fromTable = this.fromTable;
-    newQueryable.whereClause = this.whereClause;
-    newQueryable.projections = [...this.projections];
-    newQueryable.joins = [...this.joins];
-    newQueryable.groupByColumns = [...this.groupByColumns];
-    newQueryable.havingClause = this.havingClause;
-    newQueryable.orderByColumns = [...this.orderByColumns];
-    newQueryable.limitValue = this.limitValue;
-    newQueryable.offsetValue = this.offsetValue;
-    newQueryable.isDistinct = this.isDistinct;
-
-    return newQueryable;
+    return this.copyQueryComponentsTo(newQueryable);
   }
 
   /**
@@ -152,21 +163,10 @@ export class Queryable<T>
       this.alias,
       this.contextVariables,
       this.propertyTracker.clone(),
+      this.context,
     );
 
-    // Copy all the query components
-    newQueryable.fromTable = this.fromTable;
-    newQueryable.whereClause = this.whereClause;
-    newQueryable.projections = [...this.projections];
-    newQueryable.joins = [...this.joins];
-    newQueryable.groupByColumns = [...this.groupByColumns];
-    newQueryable.havingClause = this.havingClause;
-    newQueryable.orderByColumns = [...this.orderByColumns];
-    newQueryable.limitValue = this.limitValue;
-    newQueryable.offsetValue = this.offsetValue;
-    newQueryable.isDistinct = this.isDistinct;
-
-    return newQueryable;
+    return this.copyQueryComponentsTo(newQueryable);
   }
 
   /**
@@ -179,21 +179,34 @@ export class Queryable<T>
       this.alias,
       this.contextVariables,
       this.propertyTracker.clone(),
+      this.context,
     );
 
-    // Copy all the query components
-    newQueryable.fromTable = this.fromTable;
-    newQueryable.whereClause = this.whereClause;
-    newQueryable.projections = [...this.projections];
-    newQueryable.joins = [...this.joins];
-    newQueryable.groupByColumns = [...this.groupByColumns];
-    newQueryable.havingClause = this.havingClause;
-    newQueryable.orderByColumns = [...this.orderByColumns];
-    newQueryable.limitValue = this.limitValue;
-    newQueryable.offsetValue = this.offsetValue;
-    newQueryable.isDistinct = this.isDistinct;
+    return this.copyQueryComponentsTo(newQueryable);
+  }
 
-    return newQueryable;
+  /**
+   * Copies all the query components to another queryable
+   */
+  private copyQueryComponentsTo<TResult>(target: Queryable<TResult>): Queryable<TResult> {
+    target.fromTable = this.fromTable;
+    target.whereClause = this.whereClause;
+    target.projections = [...this.projections];
+    target.joins = [...this.joins];
+    target.groupByColumns = [...this.groupByColumns];
+    target.havingClause = this.havingClause;
+    target.orderByColumns = [...this.orderByColumns];
+    target.limitValue = this.limitValue;
+    target.offsetValue = this.offsetValue;
+    target.isDistinct = this.isDistinct;
+    target.includes = [...this.includes];
+    target.applyQueryFilters = this.applyQueryFilters;
+    target.dialect = this.dialect;
+    if (this.expressionBuilder.isProjectedAlias(this.alias)) {
+      target.expressionBuilder.addProjectedAlias(this.alias);
+    }
+
+    return target;
   }
 
   /**
@@ -205,15 +218,69 @@ export class Queryable<T>
     return newQueryable;
   }
 
+  /**
+   * Loads a navigation declared with hasMany() together with the results.
+   * The related rows are fetched by a second query (WHERE foreignKey IN (...)) and
+   * assigned to the collection property. Ignored by queries with select() or join().
+   * @param navigation Selects the collection, e.g. u => u.orders
+   */
+  include(navigation: (entity: T) => any[]): Queryable<T> {
+    const propertyName = getSelectedPropertyName(navigation);
+
+    if (!this.context?.findNavigation(this.alias, propertyName)) {
+      throw new Error(
+        `No navigation '${propertyName}' is configured for table '${this.tableName}'. Declare it with modelBuilder.entity().hasMany()`,
+      );
+    }
+
+    const newQueryable = this.clone();
+    if (!newQueryable.includes.includes(propertyName)) {
+      newQueryable.includes.push(propertyName);
+    }
+    return newQueryable;
+  }
+
+  /**
+   * Disables the global query filters of the model for this query
+   */
+  ignoreQueryFilters(): Queryable<T> {
+    const newQueryable = this.clone();
+    newQueryable.applyQueryFilters = false;
+    return newQueryable;
+  }
+
   /**
    * Converts the query to a metadata representation
    */
   toMetadata(): SelectExpression {
+    let whereClause = this.whereClause;
+    let joins = this.joins;
+
+    // Os filtros globais são aplicados aqui para acompanhar mudanças nos parâmetros do contexto
+    if (this.applyQueryFilters) {
+      const filter = this.expressionBuilder.createQueryFilter(this.alias);
+      if (filter) {
+        whereClause = whereClause ? this.expressionBuilder.createAnd(whereClause, filter) : filter;
+      }
+
+      joins = joins.map(join => {
+        const targetTable = join.getTargetTable() as TableExpression;
+        const joinFilter = this.expressionBuilder.createQueryFilter(targetTable.getAlias());
+        return joinFilter
+          ? this.expressionBuilder.createJoin(
+              targetTable,
+              this.expressionBuilder.createAnd(join.getJoinCondition(), joinFilter),
+              join.getJoinType(),
+            )
+          : join;
+      });
+    }
+
     return this.expressionBuilder.createSelect(
       this.projections,
       this.fromTable,
-      this.joins,
-      this.whereClause,
+      joins,
+      whereClause,
       this.groupByColumns,
       this.havingClause,
       this.orderByColumns,
@@ -223,15 +290,42 @@ export class Queryable<T>
     );
   }
 
+  /**
+   * Converts the query to the statement that is executed: the metadata of toMetadata()
+   * preceded by the common table expressions it references (see DbContext.with())
+   */
+  toStatement(): SelectExpression {
+    const select = this.toMetadata();
+    const commonTables = this.context?.getCommonTables(select, this.expressionBuilder) || [];
+    return commonTables.length > 0 ? select.withCommonTables(commonTables) : select;
+  }
+
+  /**
+   * Overrides the SQL dialect used by this query
+   * @param dialect The dialect or the name of a registered dialect
+   */
+  useDialect(dialect: SqlDialect | string): Queryable<T> {
+    const newQueryable = this.clone();
+    newQueryable.dialect = SqlDialects.resolve(dialect);
+    return newQueryable;
+  }
+
+  /**
+   * Gets the SQL dialect used by this query
+   */
+  getDialect(): SqlDialect {
+    return this.dialect || this.context?.getDialect() || SqlDialects.default;
+  }
+
   /**
    * Converts the query to a SQL string
    */
   toQueryString(): string {
     // Create the SELECT expression
-    const selectExpr = this.toMetadata();
+    const selectExpr = this.toStatement();
 
-    // Create a SQL visitor
-    const visitor = new SqlServerGenerationVisitor();
+    // Create a SQL visitor for the configured dialect
+    const visitor = this.getDialect().createVisitor();
 
     // Generate the SQL
     const sql = selectExpr.accept(visitor);
@@ -239,6 +333,18 @@ export class Queryable<T>
     return sql;
   }
 
+  /**
+   * Converts the query to SQL with every value extracted into a parameter
+   * using the placeholder style of the configured dialect
+   */
+  toParameterizedQuery(): ParameterizedQuery {
+    const selectExpr = this.toStatement();
+    const visitor = this.getDialect().createVisitor(undefined, { parameterize: true });
+    const sql = selectExpr.accept(visitor);
+
+    return { sql, parameters: visitor.getParameters() };
+  }
+
   /**
    * Determines the origin of a nested property (e.g., joined.order.amount)
    * @param path Path of the nested property
@@ -567,4 +673,26 @@ export class Queryable<T>
    * Methods from ExecutionExtensions
    */
   execAsync!: IQueryExecutionExtensions<T>['execAsync'];
+  toListAsync!: IQueryExecutionExtensions<T>['toListAsync'];
+  firstAsync!: IQueryExecutionExtensions<T>['firstAsync'];
+  firstOrDefaultAsync!: IQueryExecutionExtensions<T>['firstOrDefaultAsync'];
+  singleAsync!: IQueryExecutionExtensions<T>['singleAsync'];
+  anyAsync!: IQueryExecutionExtensions<T>['anyAsync'];
+  countAsync!: IQueryExecutionExtensions<T>['countAsync'];
+  pluckAsync!: IQueryExecutionExtensions<T>['pluckAsync'];
+  toMapAsync!: IQueryExecutionExtensions<T>['toMapAsync'];
+
+  /**
+   * Methods from ModificationExtensions
+   */
+  updateAsync!: IQueryModificationExtensions<T>['updateAsync'];
+  deleteAsync!: IQueryModificationExtensions<T>['deleteAsync'];
+
+  /**
+   * Methods from SetOperationExtensions
+   */
+  union!: IQuerySetOperationExtensions<T>['union'];
+  unionAll!: IQuerySetOperationExtensions<T>['unionAll'];
+  intersect!: IQuerySetOperationExtensions<T>['intersect'];
+  except!: IQuerySetOperationExtensions<T>['except'];
 }
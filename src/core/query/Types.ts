@@ -2,12 +2,182 @@
  * Defines common types used in query building
  */
 
-import { ExpressionJson } from '../../utils/ExpressionSerializer';
+import { ExpressionJson } from '../../utils/ExpressionJson';
 import { Expression } from '../expressions/Expression';
 import { Queryable } from './Queryable';
+import { ExpressionBuilder } from './ExpressionBuilder';
 
 export interface IDatabaseProvider {
   execAsync(metadata: ExpressionJson): Promise<any>;
+
+  /**
+   * Starts a transaction. Providers that do not implement it cannot be used with
+   * DbContext.transaction()
+   * @param options Isolation level of the transaction
+   * @returns A provider whose statements run inside the transaction
+   */
+  beginTransactionAsync?(options: TransactionOptions): Promise<ITransactionProvider>;
+}
+
+/**
+ * Provider bound to an open transaction: every statement it executes runs inside it
+ */
+export interface ITransactionProvider extends IDatabaseProvider {
+  /** Makes the changes of the transaction permanent */
+  commitAsync(): Promise<void>;
+  /** Discards every change of the transaction */
+  rollbackAsync(): Promise<void>;
+  /** Creates a savepoint (SAVEPOINT name / SAVE TRANSACTION name) */
+  savepointAsync(name: string): Promise<void>;
+  /** Discards the changes made after the savepoint */
+  rollbackToSavepointAsync(name: string): Promise<void>;
+  /** Releases a savepoint whose changes were kept (no-op on databases without RELEASE) */
+  releaseSavepointAsync(name: string): Promise<void>;
+}
+
+/**
+ * Isolation levels accepted by DbContext.transaction()
+ */
+export type IsolationLevel =
+  | 'READ UNCOMMITTED'
+  | 'READ COMMITTED'
+  | 'REPEATABLE READ'
+  | 'SERIALIZABLE'
+  | 'SNAPSHOT';
+
+/**
+ * Options of DbContext.transaction()
+ */
+export interface TransactionOptions {
+  /** Isolation level of the transaction (default: the database default) */
+  isolationLevel?: IsolationLevel;
+}
+
+/**
+ * Result a provider returns for INSERT, UPDATE and DELETE statements
+ */
+export interface ModificationResult {
+  /** Number of rows written by the statement */
+  rowsAffected: number;
+  /** Rows returned by OUTPUT / RETURNING, in the order they were written (empty when not requested) */
+  rows: Record<string, any>[];
+}
+
+/**
+ * Options of DbSet.upsert()
+ */
+export interface UpsertOptions<T> {
+  /** Properties that identify an existing record (a unique key), e.g. r => r.externalId */
+  match: (row: T) => any;
+  /**
+   * New values of an existing record, computed from the incoming row, e.g. r => ({ name: r.name }).
+   * By default every property that is not matched is updated
+   */
+  update?: (row: T) => Record<string, any>;
+}
+
+/**
+ * What an upsert did with a row
+ */
+export type UpsertAction = 'inserted' | 'updated' | 'unknown';
+
+/**
+ * Outcome of each row written by DbSet.upsert()
+ */
+export interface UpsertResult<T> {
+  /** The record as written, with the values returned by the database */
+  entity: T;
+  /**
+   * Whether the record was inserted or an existing one was updated, or 'unknown' when the
+   * database cannot tell (e.g. SQLite, or a MySQL upsert of several rows)
+   */
+  action: UpsertAction;
+}
+
+/**
+ * A table name optionally qualified by schema and database
+ * (e.g. { database: 'archive', schema: 'sales', table: 'orders' })
+ */
+export interface TableReference {
+  table: string;
+  schema?: string;
+  database?: string;
+}
+
+/**
+ * A navigation resolved for a query, with the alias reserved for the related table
+ */
+export interface ResolvedNavigation {
+  /** Table of the related entities, as passed to DbContext.set() */
+  tableName: string;
+  /** Alias reserved for the related table */
+  alias: string;
+  /** Property of the related entity that references the owner */
+  foreignKey: string;
+  /** Property of the owner referenced by the foreign key */
+  principalKey: string;
+}
+
+/**
+ * Translates the property names used in lambdas to the names used by the database
+ */
+export interface INameResolver {
+  /**
+   * Gets the database table for the name used by the model
+   * @param tableName Name passed to DbContext.set()
+   * @param tableAlias Alias of the table in the query
+   */
+  getTable(tableName: string, tableAlias: string): TableReference;
+
+  /**
+   * Gets the column mapped to a property of the table with the given alias
+   * @param tableAlias Alias of the table in the query
+   * @param propertyName Name of the property on the model
+   */
+  getColumnName(tableAlias: string, propertyName: string): string;
+
+  /**
+   * Resolves a navigation declared with hasMany() and picks an alias for its table
+   * @param tableAlias Alias of the owner table in the query
+   * @param propertyName Name of the collection property
+   * @param aliasesInScope Aliases of the enclosing queries, which the alias must not hide
+   * @returns The navigation, or null if the property is not a navigation
+   */
+  resolveNavigation(
+    tableAlias: string,
+    propertyName: string,
+    aliasesInScope?: string[],
+  ): ResolvedNavigation | null;
+
+  /**
+   * Builds the global query filters of the table with the given alias
+   * @param tableAlias Alias of the table in the query
+   * @param builder Builder used to create the filter expression
+   * @returns The filters combined with AND, or null if the table has none
+   */
+  getQueryFilter(tableAlias: string, builder: ExpressionBuilder): Expression | null;
+}
+
+/**
+ * A value bound to a placeholder of a parameterized query
+ */
+export interface QueryParameter {
+  /** Parameter name (p0, p1, ...) */
+  name: string;
+  /** Placeholder used in the SQL text (e.g. @p0, $1, ?) */
+  placeholder: string;
+  /** The bound value */
+  value: any;
+  /** Value type: 'string', 'integer', 'number', 'boolean', 'date' or 'unknown' */
+  type: string;
+}
+
+/**
+ * SQL text with its values extracted into parameters
+ */
+export interface ParameterizedQuery {
+  sql: string;
+  parameters: QueryParameter[];
 }
 
 /**
@@ -0,0 +1,133 @@
+/**
+ * Cláusulas OVER de uma função de janela, encadeadas dentro das lambdas de select() e orderBy()
+ */
+export interface WindowClauses<V> {
+  /**
+   * Splits the rows into partitions, computed independently
+   * @param values Values that identify the partition of each row
+   */
+  partitionBy(...values: any[]): WindowFunction<V>;
+
+  /**
+   * Orders the rows of each partition (ascending)
+   * @param value The ordering value
+   */
+  orderBy(value: any): WindowFunction<V>;
+
+  /**
+   * Orders the rows of each partition (descending)
+   * @param value The ordering value
+   */
+  orderByDesc(value: any): WindowFunction<V>;
+
+  /**
+   * Limits the rows read for each row: ROWS BETWEEN start AND end
+   * @param start Rows relative to the current row (negative = PRECEDING), or Window.unboundedPreceding
+   * @param end Rows relative to the current row (positive = FOLLOWING), or Window.unboundedFollowing
+   */
+  rowsBetween(start: number | null, end: number | null): WindowFunction<V>;
+
+  /**
+   * Limits the rows read for each row by the value of the window's ORDER BY:
+   * RANGE BETWEEN start AND end
+   * @param start Distance before the current value, or Window.unboundedPreceding
+   * @param end Distance after the current value, or Window.unboundedFollowing
+   */
+  rangeBetween(start: number | null, end: number | null): WindowFunction<V>;
+}
+
+/**
+ * Valor de uma função de janela: tem o tipo do resultado e aceita as cláusulas OVER
+ */
+export type WindowFunction<V> = V & WindowClauses<V>;
+
+/**
+ * Window functions, translated to FUNCTION(...) OVER (...) when used in the lambdas of
+ * select() and orderBy(). They are never called at runtime
+ *
+ * @example
+ * orders.select(o => ({
+ *   id: o.id,
+ *   rn: Window.rowNumber().partitionBy(o.userId).orderBy(o.createdAt),
+ *   running: Window.sum(o.amount).orderBy(o.createdAt).rowsBetween(Window.unboundedPreceding, Window.currentRow),
+ * }));
+ */
+export class Window {
+  /** Frame bound: UNBOUNDED PRECEDING */
+  static readonly unboundedPreceding: null = null;
+
+  /** Frame bound: UNBOUNDED FOLLOWING */
+  static readonly unboundedFollowing: null = null;
+
+  /** Frame bound: CURRENT ROW */
+  static readonly currentRow: 0 = 0;
+
+  /** ROW_NUMBER(): sequential number of the row in its partition */
+  static rowNumber(): WindowFunction<number> {
+    return notTranslated();
+  }
+
+  /** RANK(): rank of the row, with gaps after ties */
+  static rank(): WindowFunction<number> {
+    return notTranslated();
+  }
+
+  /** DENSE_RANK(): rank of the row, without gaps after ties */
+  static denseRank(): WindowFunction<number> {
+    return notTranslated();
+  }
+
+  /** NTILE(buckets): number of the bucket of the row, from 1 to buckets */
+  static ntile(buckets: number): WindowFunction<number> {
+    return notTranslated();
+  }
+
+  /** LAG(value, offset, default): value of a previous row of the partition */
+  static lag<V>(value: V, offset?: number, defaultValue?: V): WindowFunction<V> {
+    return notTranslated();
+  }
+
+  /** LEAD(value, offset, default): value of a following row of the partition */
+  static lead<V>(value: V, offset?: number, defaultValue?: V): WindowFunction<V> {
+    return notTranslated();
+  }
+
+  /** FIRST_VALUE(value): value of the first row of the frame */
+  static firstValue<V>(value: V): WindowFunction<V> {
+    return notTranslated();
+  }
+
+  /** LAST_VALUE(value): value of the last row of the frame */
+  static lastValue<V>(value: V): WindowFunction<V> {
+    return notTranslated();
+  }
+
+  /** SUM(value) over the frame */
+  static sum(value: number): WindowFunction<number> {
+    return notTranslated();
+  }
+
+  /** AVG(value) over the frame */
+  static avg(value: number): WindowFunction<number> {
+    return notTranslated();
+  }
+
+  /** MIN(value) over the frame */
+  static min<V>(value: V): WindowFunction<V> {
+    return notTranslated();
+  }
+
+  /** MAX(value) over the frame */
+  static max<V>(value: V): WindowFunction<V> {
+    return notTranslated();
+  }
+
+  /** COUNT(value) over the frame, or COUNT(*) without a value */
+  static count(value?: any): WindowFunction<number> {
+    return notTranslated();
+  }
+}
+
+function notTranslated(): never {
+  throw new Error('Window functions can only be used inside the lambdas of select() and orderBy()');
+}
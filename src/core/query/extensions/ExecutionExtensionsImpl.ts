@@ -1,4 +1,8 @@
 import { ExpressionSerializer } from '../../../utils/ExpressionSerializer';
+import { ColumnExpression } from '../../expressions/ColumnExpression';
+import { ConstantExpression } from '../../expressions/ConstantExpression';
+import { ExpressionType } from '../../expressions/Expression';
+import { LambdaParser } from '../LambdaParser';
 import { Queryable } from '../Queryable';
 import { IQueryExecutionExtensions } from './ExecutionExtensionsInterface';
 
@@ -9,9 +13,280 @@ export class ExecutionExtensions<T> implements IQueryExecutionExtensions<T> {
   constructor(private queryable: Queryable<T>) {}
 
   async execAsync(): Promise<any> {
-    const metadata = ExpressionSerializer.serialize(this.queryable.toMetadata());
+    const metadata = ExpressionSerializer.serialize(this.queryable.toStatement());
     return await this.queryable.provider.execAsync(metadata);
   }
+
+  async toListAsync(): Promise<T[]> {
+    return this.fetchRows(this.queryable);
+  }
+
+  async firstAsync(): Promise<T> {
+    const rows = await this.fetchRows(this.limitTo(1));
+
+    if (rows.length === 0) {
+      throw new Error('Sequence contains no elements');
+    }
+
+    return rows[0];
+  }
+
+  async firstOrDefaultAsync(): Promise<T | null> {
+    const rows = await this.fetchRows(this.limitTo(1));
+    return rows.length > 0 ? rows[0] : null;
+  }
+
+  async singleAsync(): Promise<T> {
+    // Dois registros bastam para saber se há mais de um
+    const rows = await this.fetchRows(this.limitTo(2));
+
+    if (rows.length === 0) {
+      throw new Error('Sequence contains no elements');
+    }
+
+    if (rows.length > 1) {
+      throw new Error('Sequence contains more than one element');
+    }
+
+    return rows[0];
+  }
+
+  async anyAsync(): Promise<boolean> {
+    // SELECT CASE WHEN EXISTS (SELECT 1 ...) THEN 1 ELSE 0 END: os registros não são retornados
+    const builder = this.queryable.expressionBuilder;
+    const probe = this.queryable.clone();
+    probe.projections = [builder.createProjection(builder.createConstant(1), null)];
+
+    // A ordenação só é mantida junto de offset(), que depende dela
+    if (!probe.offsetValue) {
+      probe.orderByColumns = [];
+    }
+
+    const exists = builder.createCase(
+      null,
+      [
+        {
+          when: builder.createExistsSubquery(builder.createSubquery(probe.toMetadata())),
+          then: builder.createConstant(1),
+        },
+      ],
+      builder.createConstant(0),
+    );
+    let statement = builder.createSelect([builder.createProjection(exists, 'any')], null);
+
+    const commonTables = this.queryable.context?.getCommonTables(statement, builder) || [];
+    if (commonTables.length > 0) {
+      statement = statement.withCommonTables(commonTables);
+    }
+
+    const rows = await this.queryable.provider.execAsync(ExpressionSerializer.serialize(statement));
+
+    if (!Array.isArray(rows)) {
+      throw new Error('The database provider must return an array of rows for SELECT queries');
+    }
+
+    return rows.length > 0 && Number(rows[0].any) === 1;
+  }
+
+  async countAsync(): Promise<number> {
+    const query = this.queryable;
+
+    if (
+      query.groupByColumns.length > 0 ||
+      query.isDistinct ||
+      query.limitValue ||
+      query.offsetValue
+    ) {
+      throw new Error(
+        'countAsync() does not support grouped, distinct or paginated queries. Use toListAsync() and count the results instead.',
+      );
+    }
+
+    const countQuery = query.clone();
+    countQuery.projections = [
+      countQuery.expressionBuilder.createProjection(
+        countQuery.expressionBuilder.createCount(),
+        'count',
+      ),
+    ];
+    countQuery.orderByColumns = [];
+
+    const rows = await this.fetchRows(countQuery);
+    return rows.length > 0 ? Number(rows[0].count) : 0;
+  }
+
+  async pluckAsync<K>(selector: (entity: T) => K): Promise<K[]> {
+    // Consultas já projetadas são resolvidas sobre os registros retornados
+    if (this.queryable.projections.length > 0) {
+      const rows = await this.toListAsync();
+      return rows.map(selector);
+    }
+
+    const lambdaParser = new LambdaParser(
+      this.queryable.expressionBuilder,
+      this.queryable.contextVariables,
+      this.queryable.getPropertyTracker(),
+    );
+    const node = lambdaParser.parseLambda(selector.toString());
+    const expression = lambdaParser.processSimpleExpression(node, this.queryable.alias);
+
+    const pluckQuery = this.queryable.clone();
+    pluckQuery.projections = [pluckQuery.expressionBuilder.createProjection(expression, 'value')];
+
+    const rows = await this.fetchRows(pluckQuery);
+    return rows.map(row => row.value);
+  }
+
+  async toMapAsync<K>(keySelector: (entity: T) => K): Promise<Map<K, T>> {
+    const rows = await this.toListAsync();
+    const map = new Map<K, T>();
+
+    for (const row of rows) {
+      const key = keySelector(row);
+
+      if (map.has(key)) {
+        throw new Error(`An element with the key '${String(key)}' has already been added`);
+      }
+
+      map.set(key, row);
+    }
+
+    return map;
+  }
+
+  /**
+   * Limita a consulta a no máximo count registros, mantendo um limit() menor já definido
+   * (o offset() da consulta continua valendo)
+   */
+  private limitTo(count: number): Queryable<T> {
+    const current = this.queryable.limitValue;
+
+    if (current instanceof ConstantExpression && Number(current.getValue()) <= count) {
+      return this.queryable;
+    }
+
+    return this.queryable.limit(count);
+  }
+
+  /**
+   * Executes a query and ensures the provider returned a list of rows
+   */
+  private async fetchRows(query: Queryable<any>): Promise<any[]> {
+    const result = await query.execAsync();
+
+    if (!Array.isArray(result)) {
+      throw new Error('The database provider must return an array of rows for SELECT queries');
+    }
+
+    const rows = this.mapColumnsToProperties(query, result);
+
+    if (query.includes.length > 0 && query.projections.length === 0 && query.joins.length === 0) {
+      await this.loadIncludes(query, rows);
+    }
+
+    return rows;
+  }
+
+  /**
+   * Loads the navigations requested with include() using one query per navigation
+   */
+  private async loadIncludes(query: Queryable<any>, rows: any[]): Promise<void> {
+    for (const propertyName of query.includes) {
+      const navigation = query.context.findNavigation(query.alias, propertyName);
+      const keys = [
+        ...new Set(
+          rows
+            .map(row => row[navigation.principalKey])
+            .filter(key => key !== null && key !== undefined),
+        ),
+      ];
+      const relatedByKey = new Map<any, any[]>();
+
+      if (keys.length > 0) {
+        let related = query.context.getNavigationSet(navigation).query();
+        if (!query.applyQueryFilters) {
+          related = related.ignoreQueryFilters();
+        }
+        related.whereClause = related.expressionBuilder.createBinary(
+          ExpressionType.In,
+          related.expressionBuilder.createColumn(navigation.foreignKey, related.alias),
+          related.expressionBuilder.createConstant(keys),
+        );
+
+        for (const relatedRow of await related.toListAsync()) {
+          const key = relatedRow[navigation.foreignKey];
+          if (!relatedByKey.has(key)) {
+            relatedByKey.set(key, []);
+          }
+          relatedByKey.get(key).push(relatedRow);
+        }
+      }
+
+      for (const row of rows) {
+        row[propertyName] = relatedByKey.get(row[navigation.principalKey]) || [];
+      }
+    }
+  }
+
+  /**
+   * Renames the columns of the returned rows back to the property names configured
+   * in the model of the context
+   */
+  private mapColumnsToProperties(query: Queryable<any>, rows: any[]): any[] {
+    const context = query.context;
+    if (!context) {
+      return rows;
+    }
+
+    if (query.projections.length === 0) {
+      // SELECT * : as colunas vêm da tabela principal e das junções
+      const aliases = [query.alias, ...query.joins.map(j => j.getTargetTable().getAlias())].filter(
+        alias => !query.expressionBuilder.isProjectedAlias(alias),
+      );
+      const resolve = (columnName: string) => {
+        for (const alias of aliases) {
+          const propertyName = context.getPropertyName(alias, columnName);
+          if (propertyName !== columnName) {
+            return propertyName;
+          }
+        }
+        return columnName;
+      };
+
+      return rows.map(row => this.renameKeys(row, resolve));
+    }
+
+    // Projeções com alias já usam o nome da propriedade
+    const propertyNames = new Map<string, string>();
+    for (const projection of query.projections) {
+      const expression = projection.getExpression();
+      if (!projection.getAlias() && expression instanceof ColumnExpression) {
+        const columnName = expression.getColumnName();
+        propertyNames.set(
+          columnName,
+          context.getPropertyName(expression.getTableAlias(), columnName),
+        );
+      }
+    }
+
+    if (propertyNames.size === 0) {
+      return rows;
+    }
+
+    return rows.map(row => this.renameKeys(row, c => propertyNames.get(c) ?? c));
+  }
+
+  private renameKeys(row: any, resolve: (columnName: string) => string): any {
+    if (!row || typeof row !== 'object') {
+      return row;
+    }
+
+    const mapped: Record<string, any> = {};
+    for (const [columnName, value] of Object.entries(row)) {
+      mapped[resolve(columnName)] = value;
+    }
+    return mapped;
+  }
 }
 
 /**
@@ -22,4 +297,12 @@ export function applyExecutionExtensions<T>(queryable: Queryable<T>): void {
 
   // Assign all methods from the extensions to the queryable
   queryable.execAsync = extensions.execAsync.bind(extensions);
+  queryable.toListAsync = extensions.toListAsync.bind(extensions);
+  queryable.firstAsync = extensions.firstAsync.bind(extensions);
+  queryable.firstOrDefaultAsync = extensions.firstOrDefaultAsync.bind(extensions);
+  queryable.singleAsync = extensions.singleAsync.bind(extensions);
+  queryable.anyAsync = extensions.anyAsync.bind(extensions);
+  queryable.countAsync = extensions.countAsync.bind(extensions);
+  queryable.pluckAsync = extensions.pluckAsync.bind(extensions);
+  queryable.toMapAsync = extensions.toMapAsync.bind(extensions);
 }
@@ -3,7 +3,51 @@
  */
 export interface IQueryExecutionExtensions<T> {
   /**
-   * Executes the query and returns all records
+   * Executes the query and returns the raw provider result
    */
   execAsync(): Promise<any>;
+
+  /**
+   * Executes the query and returns all records
+   */
+  toListAsync(): Promise<T[]>;
+
+  /**
+   * Returns the first record (TOP 1)
+   * @throws Error if the query returns no records
+   */
+  firstAsync(): Promise<T>;
+
+  /**
+   * Returns the first record (TOP 1), or null if the query returns no records
+   */
+  firstOrDefaultAsync(): Promise<T | null>;
+
+  /**
+   * Returns the only record of the query (TOP 2)
+   * @throws Error if the query returns no records or more than one record
+   */
+  singleAsync(): Promise<T>;
+
+  /**
+   * Checks whether the query returns at least one record
+   */
+  anyAsync(): Promise<boolean>;
+
+  /**
+   * Counts the records returned by the query (COUNT(*))
+   */
+  countAsync(): Promise<number>;
+
+  /**
+   * Returns the values of a single property for every record
+   * @param selector Function that selects the property
+   */
+  pluckAsync<K>(selector: (entity: T) => K): Promise<K[]>;
+
+  /**
+   * Executes the query and indexes the records by key
+   * @param keySelector Function that selects the key of each record
+   */
+  toMapAsync<K>(keySelector: (entity: T) => K): Promise<Map<K, T>>;
 }
@@ -19,7 +19,18 @@ export class GroupByExtensions<T> implements IQueryGroupByExtensions<T> {
     // Try to detect if it's returning an array
     const isArraySelector = selectorStr.includes('[') && selectorStr.includes(']');
 
-    if (isArraySelector) {
+    // Keys computed with ternaries or object lookups become CASE expressions
+    const computedColumns = isArraySelector
+      ? new LambdaParser(
+          this.queryable.expressionBuilder,
+          this.queryable.contextVariables,
+          this.queryable.getPropertyTracker(),
+        ).parseComputedArraySelector(selector, this.queryable.alias)
+      : null;
+
+    if (computedColumns) {
+      newQueryable.groupByColumns.push(...computedColumns);
+    } else if (isArraySelector) {
       // Parse the array contents - this is a more complex case
       // Look for patterns like [entity.prop1, entity.prop2] or [entity.obj.prop1, entity.prop2]
       const properties = this.queryable.extractPropertiesFromArray(selectorStr);
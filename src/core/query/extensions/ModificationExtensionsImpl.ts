@@ -0,0 +1,104 @@
+import { ExpressionSerializer } from '../../../utils/ExpressionSerializer';
+import { Expression } from '../../expressions/Expression';
+import { TableExpression } from '../../expressions/TableExpression';
+import { LambdaParser } from '../LambdaParser';
+import { Queryable } from '../Queryable';
+import { ModificationResult } from '../Types';
+import { DeleteOptions, IQueryModificationExtensions } from './ModificationExtensionsInterface';
+
+/**
+ * Implementation of set-based modification extensions
+ */
+export class ModificationExtensions<T> implements IQueryModificationExtensions<T> {
+  constructor(private queryable: Queryable<T>) {}
+
+  async updateAsync<P = Record<string, any>>(
+    setter: (entity: T, params: P) => Record<string, any>,
+  ): Promise<number> {
+    const query = this.queryable;
+    this.assertSetBased('updateAsync');
+
+    // Filtros globais e condições das junções vêm do mesmo pipeline das consultas
+    const select = query.toMetadata();
+
+    const lambdaParser = new LambdaParser(
+      query.expressionBuilder,
+      query.contextVariables,
+      query.getPropertyTracker(),
+    );
+    const assignments = lambdaParser.parseAssignments(setter, query.alias);
+
+    const update = query.expressionBuilder.createUpdate(
+      select.getFromTable() as TableExpression,
+      [...assignments.keys()].map(property =>
+        query.expressionBuilder.createColumn(property, query.alias).getColumnName(),
+      ),
+      [...assignments.values()],
+      select.getJoins(),
+      select.getWhereClause(),
+    );
+
+    return this.executeAsync(update);
+  }
+
+  async deleteAsync(options: DeleteOptions = {}): Promise<number> {
+    const query = this.queryable;
+    this.assertSetBased('deleteAsync');
+
+    if (!query.whereClause && !options.allowWithoutWhere) {
+      throw new Error(
+        `deleteAsync() without a where clause would delete every record of '${query.tableName}'. Pass { allowWithoutWhere: true } to confirm`,
+      );
+    }
+
+    const select = query.toMetadata();
+    const statement = query.expressionBuilder.createDelete(
+      select.getFromTable() as TableExpression,
+      select.getJoins(),
+      select.getWhereClause(),
+    );
+
+    return this.executeAsync(statement);
+  }
+
+  /**
+   * Sends a modification statement to the provider and returns the rows affected
+   */
+  private async executeAsync(statement: Expression): Promise<number> {
+    const result: ModificationResult = await this.queryable.provider.execAsync(
+      ExpressionSerializer.serialize(statement),
+    );
+    return result?.rowsAffected ?? 0;
+  }
+
+  /**
+   * Ensures the query only filters records, so that it maps to a single statement
+   */
+  private assertSetBased(method: string): void {
+    const query = this.queryable;
+
+    if (
+      query.projections.length > 0 ||
+      query.groupByColumns.length > 0 ||
+      query.havingClause ||
+      query.limitValue ||
+      query.offsetValue ||
+      query.isDistinct ||
+      !(query.fromTable instanceof TableExpression)
+    ) {
+      throw new Error(
+        `${method}() cannot be used on queries with select(), groupBy(), having(), limit(), offset(), distinct() or set operations`,
+      );
+    }
+  }
+}
+
+/**
+ * Extension method to apply the Modification extensions to Queryable
+ */
+export function applyModificationExtensions<T>(queryable: Queryable<T>): void {
+  const extensions = new ModificationExtensions(queryable);
+
+  queryable.updateAsync = extensions.updateAsync.bind(extensions);
+  queryable.deleteAsync = extensions.deleteAsync.bind(extensions);
+}
@@ -0,0 +1,31 @@
+/**
+ * Options of deleteAsync()
+ */
+export interface DeleteOptions {
+  /** Allows deleting every record when the query has no where clause (default: false) */
+  allowWithoutWhere?: boolean;
+}
+
+/**
+ * Extension interface for set-based data modification
+ */
+export interface IQueryModificationExtensions<T> {
+  /**
+   * Updates every record matched by the query in a single UPDATE statement.
+   * The keys of the returned object are properties of the main table; the values may
+   * reference any table of the query, including joined ones
+   * @param setter Function that returns the new values, e.g. u => ({ score: u.score - 1 })
+   * @returns The number of updated records
+   */
+  updateAsync<P = Record<string, any>>(
+    setter: (entity: T, params: P) => Record<string, any>,
+  ): Promise<number>;
+
+  /**
+   * Deletes every record matched by the query in a single DELETE statement.
+   * Joins and whereExists/whereIn subqueries can be used to filter the records
+   * @param options Pass { allowWithoutWhere: true } to delete from a query without where()
+   * @returns The number of deleted records
+   */
+  deleteAsync(options?: DeleteOptions): Promise<number>;
+}
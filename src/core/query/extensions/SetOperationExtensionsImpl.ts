@@ -0,0 +1,205 @@
+import { DbSet } from '../../context/DbSet';
+import { ColumnExpression } from '../../expressions/ColumnExpression';
+import { CompoundSelectExpression, SetOperation } from '../../expressions/CompoundSelectExpression';
+import { DerivedTableExpression } from '../../expressions/DerivedTableExpression';
+import { ProjectionExpression } from '../../expressions/ProjectionExpression';
+import { SelectExpression } from '../../expressions/SelectExpression';
+import { Queryable } from '../Queryable';
+import { IQuerySetOperationExtensions } from './SetOperationExtensionsInterface';
+
+/**
+ * Implementation of set operation extensions
+ */
+export class SetOperationExtensions<T> implements IQuerySetOperationExtensions<T> {
+  constructor(private queryable: Queryable<T>) {}
+
+  union(other: Queryable<T> | DbSet<T>): Queryable<T> {
+    return this.combine(SetOperation.UNION, 'union', other);
+  }
+
+  unionAll(other: Queryable<T> | DbSet<T>): Queryable<T> {
+    return this.combine(SetOperation.UNION_ALL, 'unionAll', other);
+  }
+
+  intersect(other: Queryable<T> | DbSet<T>): Queryable<T> {
+    return this.combine(SetOperation.INTERSECT, 'intersect', other);
+  }
+
+  except(other: Queryable<T> | DbSet<T>): Queryable<T> {
+    return this.combine(SetOperation.EXCEPT, 'except', other);
+  }
+
+  /**
+   * Combines both queries and returns a query that reads from the result:
+   * SELECT * FROM (left OP right) AS alias
+   */
+  private combine(
+    operation: SetOperation,
+    method: string,
+    other: Queryable<T> | DbSet<T>,
+  ): Queryable<T> {
+    const query = this.queryable;
+    const right = other instanceof Queryable ? other : other.query();
+    this.assertCompatible(method, query, right);
+
+    const builder = query.expressionBuilder;
+    const compound = builder.createCompoundSelect(
+      operation,
+      this.getSameOperation(query, operation) || this.toOperand(query),
+      this.toOperand(right),
+    );
+
+    const result = query.clone();
+    result.fromTable = builder.createDerivedTable(compound, query.alias);
+    result.whereClause = null;
+    result.projections = [];
+    result.joins = [];
+    result.groupByColumns = [];
+    result.havingClause = null;
+    result.orderByColumns = [];
+    result.limitValue = null;
+    result.offsetValue = null;
+    result.isDistinct = false;
+    result.includes = [];
+    // Os filtros globais já foram aplicados em cada uma das consultas
+    result.applyQueryFilters = false;
+    // Com select(), a tabela derivada expõe os nomes projetados, e não as colunas mapeadas
+    if (this.getResultProjections(query).length > 0) {
+      result.expressionBuilder.addProjectedAlias(query.alias);
+    }
+
+    return result;
+  }
+
+  /**
+   * Returns the compound select of a query that only reads the result of the same
+   * operation, so that a.union(b).union(c) produces a flat a UNION b UNION c
+   */
+  private getSameOperation(
+    query: Queryable<any>,
+    operation: SetOperation,
+  ): CompoundSelectExpression | null {
+    const source = query.fromTable;
+
+    if (
+      !(source instanceof DerivedTableExpression) ||
+      !(source.getQuery() instanceof CompoundSelectExpression) ||
+      query.whereClause ||
+      query.projections.length > 0 ||
+      query.joins.length > 0 ||
+      query.groupByColumns.length > 0 ||
+      query.orderByColumns.length > 0 ||
+      query.limitValue ||
+      query.offsetValue ||
+      query.isDistinct
+    ) {
+      return null;
+    }
+
+    const compound = source.getQuery() as CompoundSelectExpression;
+    return compound.getOperation() === operation ? compound : null;
+  }
+
+  /**
+   * Converts a query into an operand of the set operation. ORDER BY is only kept
+   * together with limit()/offset(), inside a derived table, because the operands
+   * of UNION, INTERSECT and EXCEPT cannot be ordered or paginated directly.
+   */
+  private toOperand(query: Queryable<any>): SelectExpression {
+    if (!query.limitValue && !query.offsetValue) {
+      const unordered = query.clone();
+      unordered.orderByColumns = [];
+      return unordered.toMetadata();
+    }
+
+    const builder = query.expressionBuilder;
+    return builder.createSelect([], builder.createDerivedTable(query.toMetadata(), query.alias));
+  }
+
+  /**
+   * Ensures both queries return the same columns in the same order
+   */
+  private assertCompatible(method: string, left: Queryable<any>, right: Queryable<any>): void {
+    const leftProjections = this.getResultProjections(left);
+    const rightProjections = this.getResultProjections(right);
+
+    if (leftProjections.length === 0 && rightProjections.length === 0) {
+      if (left.tableName !== right.tableName) {
+        throw new Error(
+          `${method}() of queries without select() requires both to read the same table, but got '${left.tableName}' and '${right.tableName}'`,
+        );
+      }
+      return;
+    }
+
+    if (leftProjections.length === 0 || rightProjections.length === 0) {
+      throw new Error(`${method}() requires both queries to use select(), or neither of them`);
+    }
+
+    if (leftProjections.length !== rightProjections.length) {
+      throw new Error(
+        `${method}() requires queries with the same number of columns, but got ${leftProjections.length} and ${rightProjections.length}`,
+      );
+    }
+
+    leftProjections.forEach((projection, index) => {
+      const leftName = this.getColumnName(projection);
+      const rightName = this.getColumnName(rightProjections[index]);
+
+      if (leftName && rightName && leftName !== rightName) {
+        throw new Error(
+          `${method}() requires the columns in the same order, but column ${index + 1} is '${leftName}' in the first query and '${rightName}' in the second`,
+        );
+      }
+    });
+  }
+
+  /**
+   * Gets the projections that name the columns returned by a query. A query that reads
+   * the result of another set operation returns the columns of its first operand.
+   */
+  private getResultProjections(query: Queryable<any>): ProjectionExpression[] {
+    if (query.projections.length > 0) {
+      return query.projections;
+    }
+
+    let source =
+      query.fromTable instanceof DerivedTableExpression ? query.fromTable.getQuery() : null;
+    while (source) {
+      if (source instanceof CompoundSelectExpression) {
+        source = source.getLeft();
+      } else if (source.getProjections().length > 0) {
+        return source.getProjections();
+      } else {
+        const from = source.getFromTable();
+        source = from instanceof DerivedTableExpression ? from.getQuery() : null;
+      }
+    }
+
+    return [];
+  }
+
+  /**
+   * Gets the name of a projected column, or null when the database chooses it
+   */
+  private getColumnName(projection: ProjectionExpression): string | null {
+    const expression = projection.getExpression();
+    return (
+      projection.getAlias() ||
+      (expression instanceof ColumnExpression ? expression.getColumnName() : null)
+    );
+  }
+}
+
+/**
+ * Extension method to apply the SetOperation extensions to Queryable
+ */
+export function applySetOperationExtensions<T>(queryable: Queryable<T>): void {
+  const extensions = new SetOperationExtensions(queryable);
+
+  // Assign all methods from the extensions to the queryable
+  queryable.union = extensions.union.bind(extensions);
+  queryable.unionAll = extensions.unionAll.bind(extensions);
+  queryable.intersect = extensions.intersect.bind(extensions);
+  queryable.except = extensions.except.bind(extensions);
+}
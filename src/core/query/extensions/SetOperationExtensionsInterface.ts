@@ -0,0 +1,34 @@
+import { DbSet } from '../../context/DbSet';
+import { Queryable } from '../Queryable';
+
+/**
+ * Extension interface for set operations (UNION, INTERSECT, EXCEPT).
+ *
+ * The combined query becomes the FROM of a new query, so where(), orderBy(),
+ * limit() and select() called afterwards apply to the result of the operation.
+ */
+export interface IQuerySetOperationExtensions<T> {
+  /**
+   * Combines the rows of both queries, removing duplicates (UNION)
+   * @param other Query with the same columns, in the same order
+   */
+  union(other: Queryable<T> | DbSet<T>): Queryable<T>;
+
+  /**
+   * Combines the rows of both queries, keeping duplicates (UNION ALL)
+   * @param other Query with the same columns, in the same order
+   */
+  unionAll(other: Queryable<T> | DbSet<T>): Queryable<T>;
+
+  /**
+   * Keeps the rows returned by both queries (INTERSECT)
+   * @param other Query with the same columns, in the same order
+   */
+  intersect(other: Queryable<T> | DbSet<T>): Queryable<T>;
+
+  /**
+   * Keeps the rows of this query that the other query does not return (EXCEPT)
+   * @param other Query with the same columns, in the same order
+   */
+  except(other: Queryable<T> | DbSet<T>): Queryable<T>;
+}
@@ -0,0 +1,1205 @@
+import { BinaryExpression } from '../expressions/BinaryExpression';
+import { ColumnExpression } from '../expressions/ColumnExpression';
+import { ConstantExpression } from '../expressions/ConstantExpression';
+import {
+  Expression,
+  ExpressionType,
+  IExpressionVisitor,
+  IFragmentExpression,
+} from '../expressions/Expression';
+import { FunctionExpression } from '../expressions/FunctionExpression';
+import { InsertExpression } from '../expressions/InsertExpression';
+import { UpdateExpression } from '../expressions/UpdateExpression';
+import { DeleteExpression } from '../expressions/DeleteExpression';
+import { UpsertExpression } from '../expressions/UpsertExpression';
+import { CompoundSelectExpression } from '../expressions/CompoundSelectExpression';
+import { DerivedTableExpression } from '../expressions/DerivedTableExpression';
+import { CommonTableExpression } from '../expressions/CommonTableExpression';
+import { WindowExpression } from '../expressions/WindowExpression';
+import { CaseExpression } from '../expressions/CaseExpression';
+import { JoinExpression, JoinType } from '../expressions/JoinExpression';
+import { ParameterExpression } from '../expressions/ParameterExpression';
+import { ParentColumnExpression } from '../expressions/ParentColumnExpression';
+import { ProjectionExpression } from '../expressions/ProjectionExpression';
+import { SelectExpression } from '../expressions/SelectExpression';
+import { ScalarSubqueryExpression } from '../expressions/ScalarSubqueryExpression';
+import { TableExpression } from '../expressions/TableExpression';
+import { UnaryExpression } from '../expressions/UnaryExpression';
+import { QueryParameter } from '../query/Types';
+
+/**
+ * Opções para a geração de SQL
+ */
+export interface SqlGenerationOptions {
+  /** Usar delimitadores para identificadores (padrão: true) */
+  useDelimitedIdentifiers?: boolean;
+  /** Tamanho da indentação (padrão: 2) */
+  indentSize?: number;
+  /** Flag para indicar se estamos em uma subconsulta */
+  isSubquery?: boolean;
+  /** Extrair valores para parâmetros em vez de embuti-los no SQL (padrão: false) */
+  parameterize?: boolean;
+}
+
+/**
+ * Como um UPDATE referencia as tabelas das junções:
+ * - 'from': UPDATE t AS a SET ... FROM j WHERE cond (PostgreSQL, SQLite)
+ * - 'alias': UPDATE a SET ... FROM t AS a JOIN j ON cond (SQL Server)
+ * - 'join': UPDATE t AS a JOIN j ON cond SET a.col = ... (MySQL)
+ */
+export type UpdateJoinStyle = 'from' | 'alias' | 'join';
+
+/**
+ * Como um DELETE referencia as tabelas das junções:
+ * - 'alias': DELETE a FROM t AS a JOIN j ON cond (SQL Server, MySQL)
+ * - 'using': DELETE FROM t AS a USING j WHERE cond (PostgreSQL)
+ * - 'exists': DELETE FROM t AS a WHERE EXISTS (SELECT 1 FROM j WHERE cond) (SQLite, ANSI)
+ */
+export type DeleteJoinStyle = 'alias' | 'using' | 'exists';
+
+/**
+ * Sintaxe usada para inserir ou atualizar (upsert):
+ * - 'merge': MERGE INTO t USING (VALUES ...) ON ... WHEN MATCHED ... (SQL Server, ANSI)
+ * - 'on-conflict': INSERT ... ON CONFLICT (keys) DO UPDATE SET ... (PostgreSQL, SQLite)
+ * - 'on-duplicate-key': INSERT ... ON DUPLICATE KEY UPDATE ... (MySQL)
+ */
+export type UpsertStyle = 'merge' | 'on-conflict' | 'on-duplicate-key';
+
+/**
+ * Alias das linhas recebidas no USING de um MERGE
+ */
+const UPSERT_SOURCE_ALIAS = 'source';
+
+/**
+ * Base visitor that generates formatted SQL from an expression tree.
+ *
+ * The statement layout lives here; everything that differs between databases
+ * (identifier quoting, literals, paging, function names and join keywords) is
+ * exposed as protected hooks that each dialect visitor overrides.
+ */
+export abstract class BaseSqlGenerationVisitor implements IExpressionVisitor<string> {
+  protected parameters: Map<string, any> = new Map();
+  protected indentLevel: number = 0;
+  protected indentSize: number = 2;
+  protected useDelimitedIdentifiers: boolean = true;
+  protected isSubquery: boolean = false;
+  protected parameterize: boolean = false;
+  private collectedParameters: QueryParameter[] = [];
+  private upsertTableAlias: string | null = null;
+  private sb: string[] = []; // String builder simulado
+
+  /**
+   * Creates a new SQL generation visitor
+   * @param parameters Optional map of parameter names to values
+   * @param options Optional SQL generation options
+   */
+  constructor(parameters?: Map<string, any>, options?: SqlGenerationOptions) {
+    if (parameters) {
+      this.parameters = parameters;
+    }
+
+    if (options) {
+      this.useDelimitedIdentifiers = options.useDelimitedIdentifiers !== false;
+      this.indentSize = options.indentSize || 2;
+      this.isSubquery = options.isSubquery || false;
+      this.parameterize = options.parameterize || false;
+    }
+  }
+
+  /**
+   * Wraps an identifier in the dialect's delimiters, escaping it as needed
+   * @param identifier The identifier to quote
+   */
+  protected abstract quoteIdentifier(identifier: string): string;
+
+  /**
+   * Formats a string literal
+   */
+  protected formatString(value: string): string {
+    return `'${this.escapeSqlString(value)}'`;
+  }
+
+  /**
+   * Formats a boolean literal
+   */
+  protected formatBoolean(value: boolean): string {
+    return value ? '1' : '0';
+  }
+
+  /**
+   * Formats a date literal
+   */
+  protected formatDate(value: Date): string {
+    return `'${value.toISOString()}'`;
+  }
+
+  /**
+   * Gets the row limiting clause placed right after SELECT (e.g. TOP n), if the dialect uses one
+   */
+  protected getTopClause(
+    limitValue: Expression | null,
+    offsetValue: Expression | null,
+  ): string | null {
+    return null;
+  }
+
+  /**
+   * Gets the lines of the paging clause placed after ORDER BY
+   */
+  protected getPagingClauses(
+    limitValue: Expression | null,
+    offsetValue: Expression | null,
+  ): string[] {
+    const clauses: string[] = [];
+
+    if (limitValue) {
+      clauses.push(`LIMIT ${this.formatPagingValue(limitValue)}`);
+    }
+
+    if (offsetValue) {
+      clauses.push(`OFFSET ${this.formatPagingValue(offsetValue)}`);
+    }
+
+    return clauses;
+  }
+
+  /**
+   * Gets the keyword that marks a WITH clause with recursive common table expressions,
+   * or null when the dialect does not use one
+   */
+  protected getRecursiveKeyword(): string | null {
+    return 'RECURSIVE';
+  }
+
+  /**
+   * Validates a select expression before generating it
+   */
+  protected validateSelect(expr: SelectExpression): void {}
+
+  /**
+   * Translates a function call into the dialect's syntax.
+   * Returns null to fall back to the generic translation.
+   * @param functionName The upper-cased function name
+   * @param args The SQL of each argument, already generated
+   * @param fnArgs The argument expressions
+   */
+  protected translateFunction(
+    functionName: string,
+    args: string[],
+    fnArgs: Expression[],
+  ): string | null {
+    return null;
+  }
+
+  /**
+   * Gets the keyword used for a join type
+   */
+  protected getJoinKeyword(joinType: JoinType): string {
+    switch (joinType) {
+      case JoinType.INNER:
+        return 'INNER JOIN';
+      case JoinType.LEFT:
+        return 'LEFT OUTER JOIN';
+      case JoinType.RIGHT:
+        return 'RIGHT OUTER JOIN';
+      case JoinType.FULL:
+        return 'FULL OUTER JOIN';
+      default:
+        return 'JOIN';
+    }
+  }
+
+  /**
+   * Gets the clause placed before VALUES that returns the written rows (e.g. OUTPUT INSERTED.*),
+   * if the dialect uses one
+   */
+  protected getOutputClause(): string | null {
+    return null;
+  }
+
+  /**
+   * Gets the clause placed at the end of the statement that returns the written rows
+   * (e.g. RETURNING *), if the dialect uses one
+   */
+  protected getReturningClause(): string | null {
+    return null;
+  }
+
+  /**
+   * Gets how an UPDATE statement references the joined tables
+   */
+  protected getUpdateJoinStyle(): UpdateJoinStyle {
+    return 'from';
+  }
+
+  /**
+   * Gets how a DELETE statement references the joined tables
+   */
+  protected getDeleteJoinStyle(): DeleteJoinStyle {
+    return 'exists';
+  }
+
+  /**
+   * Gets the syntax used by upserts
+   */
+  protected getUpsertStyle(): UpsertStyle {
+    return 'merge';
+  }
+
+  /**
+   * Gets the clause placed at the end of an upsert that returns the written rows together with
+   * the action column ('INSERT' / 'UPDATE'), if the dialect can report it
+   */
+  protected getUpsertReturningClause(): string | null {
+    return null;
+  }
+
+  /**
+   * Formats a reference to a column of the incoming row in the update part of an upsert
+   */
+  protected formatUpsertSourceColumn(column: string): string {
+    switch (this.getUpsertStyle()) {
+      case 'on-conflict':
+        return `EXCLUDED.${this.delimitIdentifier(column)}`;
+      case 'on-duplicate-key':
+        return `VALUES(${this.delimitIdentifier(column)})`;
+      default:
+        return `${this.delimitIdentifier(UPSERT_SOURCE_ALIAS)}.${this.delimitIdentifier(column)}`;
+    }
+  }
+
+  /**
+   * Gets the placeholder of the n-th (zero-based) extracted parameter
+   */
+  protected formatParameterPlaceholder(index: number): string {
+    return `@p${index}`;
+  }
+
+  /**
+   * Gets the placeholder emitted for a parameter that has no value
+   */
+  protected formatParameterName(name: string): string {
+    return `@${name}`;
+  }
+
+  /**
+   * Gets the current indentation string
+   */
+  protected getIndent(): string {
+    return ' '.repeat(this.indentLevel * this.indentSize);
+  }
+
+  /**
+   * Append text to the SQL output
+   */
+  protected append(text: string): void {
+    this.sb.push(text);
+  }
+
+  /**
+   * Append text to the SQL output with a newline and indentation
+   */
+  protected appendLine(text: string = ''): void {
+    if (text) {
+      this.sb.push('\n' + this.getIndent() + text);
+    } else {
+      this.sb.push('\n' + this.getIndent());
+    }
+  }
+
+  /**
+   * Increase the indentation level
+   */
+  protected indent(): void {
+    this.indentLevel++;
+  }
+
+  /**
+   * Decrease the indentation level
+   */
+  protected unindent(): void {
+    if (this.indentLevel > 0) {
+      this.indentLevel--;
+    }
+  }
+
+  /**
+   * Delimits an identifier using the dialect's quoting rules
+   * @param identifier The identifier to delimit
+   * @returns The delimited identifier
+   */
+  delimitIdentifier(identifier: string): string {
+    if (!this.useDelimitedIdentifiers) {
+      return identifier;
+    }
+    return this.quoteIdentifier(identifier);
+  }
+
+  /**
+   * Sets a parameter value
+   */
+  setParameter(name: string, value: any): void {
+    this.parameters.set(name, value);
+  }
+
+  /**
+   * Gets the parameters extracted so far, in placeholder order
+   */
+  getParameters(): QueryParameter[] {
+    return [...this.collectedParameters];
+  }
+
+  /**
+   * Formats a LIMIT/OFFSET/TOP value, which is always emitted inline
+   */
+  protected formatPagingValue(expr: Expression): string {
+    if (expr instanceof ConstantExpression) {
+      const value = expr.getValue();
+
+      if (!Number.isInteger(value) || value < 0) {
+        throw new Error(`Invalid paging value: ${value}. Expected a non-negative integer.`);
+      }
+
+      return String(value);
+    }
+
+    return expr.accept(this);
+  }
+
+  /**
+   * Visits a binary expression
+   */
+  visitBinaryExpression(expr: BinaryExpression): string {
+    const left = expr.getLeft().accept(this);
+    const right = expr.getRight().accept(this);
+    const operator = this.getBinaryOperator(expr.getOperatorType());
+
+    // Caso especial para operadores IN e NOT IN com subconsulta
+    if (
+      expr.getOperatorType() === ExpressionType.In ||
+      expr.getOperatorType() === ExpressionType.NotIn
+    ) {
+      return `${left} ${operator} (${right})`;
+    }
+
+    return `(${left} ${operator} ${right})`;
+  }
+
+  /**
+   * Visits a fragment expression
+   */
+  visitFragmentExpression(expr: IFragmentExpression): string {
+    return expr.getValue();
+  }
+
+  /**
+   * Visits a unary expression
+   */
+  visitUnaryExpression(expr: UnaryExpression): string {
+    const operand = expr.getOperand().accept(this);
+
+    // IS NULL e IS NOT NULL são pós-fixados
+    switch (expr.getOperatorType()) {
+      case ExpressionType.IsNull:
+        return `(${operand} IS NULL)`;
+      case ExpressionType.IsNotNull:
+        return `(${operand} IS NOT NULL)`;
+    }
+
+    const operator = this.getUnaryOperator(expr.getOperatorType());
+
+    return `${operator}(${operand})`;
+  }
+
+  /**
+   * Visits a column expression
+   */
+  visitColumnExpression(expr: ColumnExpression): string {
+    if (expr.getColumnName() === '*') {
+      return `${this.delimitIdentifier(expr.getTableAlias())}.*`;
+    }
+    if (this.upsertTableAlias !== null && expr.getTableAlias() === this.upsertTableAlias) {
+      return this.formatUpsertSourceColumn(expr.getColumnName());
+    }
+    return `${this.delimitIdentifier(expr.getTableAlias())}.${this.delimitIdentifier(expr.getColumnName())}`;
+  }
+
+  /**
+   * Visits a constant expression
+   */
+  visitConstantExpression(expr: ConstantExpression): string {
+    const value = expr.getValue();
+
+    if (Array.isArray(value)) {
+      // Não inclui parênteses aqui, pois serão adicionados pelo operador IN
+      return value.map(item => this.formatValueOrParameter(item)).join(', ');
+    }
+
+    return this.formatValueOrParameter(value);
+  }
+
+  /**
+   * Visits a function expression
+   */
+  visitFunctionExpression(expr: FunctionExpression): string {
+    const functionName = expr.getFunctionName().toUpperCase();
+    const fnArgs = expr.getArguments();
+
+    // Each argument is generated exactly once
+    const args = fnArgs.map(arg => arg.accept(this));
+    const argsStr = args.join(', ');
+
+    const translated = this.translateFunction(functionName, args, fnArgs);
+    if (translated !== null) {
+      return translated;
+    }
+
+    switch (functionName) {
+      case 'INCLUDES':
+        if (args.length === 2) {
+          return `${args[0]} LIKE ${args[1]}`;
+        }
+        return `${argsStr} LIKE ${this.formatString('%%')}`;
+
+      case 'LIKE':
+        if (args.length === 2) {
+          return `${args[0]} LIKE ${args[1]}`;
+        }
+        return `${argsStr} LIKE ?`;
+
+      default:
+        return `${functionName}(${argsStr})`;
+    }
+  }
+
+  /**
+   * Visits a scalar subquery expression
+   */
+  visitScalarSubqueryExpression(expr: ScalarSubqueryExpression): string {
+    // Save current state
+    const wasSubquery = this.isSubquery;
+    const originalIndentLevel = this.indentLevel;
+
+    try {
+      // We're in a subquery
+      this.isSubquery = true;
+
+      // Add just one level of indentation for the opening parenthesis (2 spaces)
+      const parentIndent = ' '.repeat(originalIndentLevel * this.indentSize + 2);
+
+      // Add just one more level for subquery content
+      this.indentLevel += 1;
+
+      // Generate the subquery SQL with moderate indentation
+      const subquerySql = expr.getQuery().accept(this);
+
+      // Return with proper formatting - but NO comma
+      return '\n' + parentIndent + '(' + subquerySql + ')';
+    } finally {
+      // Restore original state
+      this.isSubquery = wasSubquery;
+      this.indentLevel = originalIndentLevel;
+    }
+  }
+
+  /**
+   * Visits a select expression
+   */
+  visitSelectExpression(expr: SelectExpression): string {
+    this.validateSelect(expr);
+
+    // Save current state
+    const originalStringBuilder = [...this.sb];
+    const originalIndentLevel = this.indentLevel;
+
+    // Clear state for this query
+    this.sb = [];
+
+    // Add WITH clause
+    const commonTables = expr.getCommonTables();
+    if (commonTables.length > 0) {
+      const recursiveKeyword = commonTables.some(c => c.isRecursive())
+        ? this.getRecursiveKeyword()
+        : null;
+      this.append(recursiveKeyword ? `WITH ${recursiveKeyword} ` : 'WITH ');
+      this.append(commonTables.map(c => c.accept(this)).join(',\n'));
+      this.append('\n');
+    }
+
+    // Add SELECT clause
+    this.append('SELECT');
+
+    const limitValue = expr.getLimitValue();
+    const offsetValue = expr.getOffsetValue();
+    const orderByColumns = expr.getOrderByColumns();
+
+    if (expr.getIsDistinct()) {
+      this.append(' DISTINCT');
+    }
+
+    const topClause = this.getTopClause(limitValue, offsetValue);
+    if (topClause) {
+      this.append(` ${topClause}`);
+    }
+
+    // Add projections
+    const projections = expr.getProjections();
+
+    if (projections.length === 0) {
+      this.append(' *');
+    } else {
+      // Important: Use indentation for projections regardless of current level
+      this.indentLevel = this.isSubquery ? originalIndentLevel : 1;
+
+      // First projection with proper indentation
+      this.append(' ' + projections[0].accept(this));
+
+      // Subsequent projections
+      for (let i = 1; i < projections.length; i++) {
+        const projection = projections[i];
+        const isSubquery = projection.getExpression() instanceof ScalarSubqueryExpression;
+
+        if (isSubquery) {
+          // For subqueries, add comma at beginning of new line
+          this.append(',');
+          this.append(projection.accept(this));
+        } else {
+          // For regular fields, stay on same line with comma before
+          this.append(', ' + projection.accept(this));
+        }
+      }
+    }
+
+    // Reset indent level to original or 0 for main query
+    this.indentLevel = this.isSubquery ? originalIndentLevel : 0;
+
+    // Add FROM clause (omitido em um SELECT sem tabela, como SELECT CASE WHEN EXISTS ...)
+    const fromTable = expr.getFromTable();
+    if (fromTable) {
+      this.appendLine('');
+      this.append(this.getIndent() + 'FROM ' + fromTable.accept(this));
+    }
+
+    // Add JOINs
+    const joins = expr.getJoins();
+    joins.forEach(j => {
+      this.appendLine(this.getIndent() + j.accept(this));
+    });
+
+    // Add WHERE clause
+    const whereClause = expr.getWhereClause();
+    if (whereClause) {
+      this.appendLine('');
+      this.append(this.getIndent() + 'WHERE ' + whereClause.accept(this));
+    }
+
+    // Add GROUP BY clause
+    const groupByColumns = expr.getGroupByColumns();
+    if (groupByColumns.length > 0) {
+      this.appendLine('');
+      this.append(this.getIndent() + 'GROUP BY ');
+
+      // Todos os campos do GROUP BY na mesma linha
+      this.append(groupByColumns.map(c => c.accept(this)).join(', '));
+
+      // Add HAVING clause
+      const havingClause = expr.getHavingClause();
+      if (havingClause) {
+        this.appendLine('');
+        this.append(this.getIndent() + 'HAVING ' + havingClause.accept(this));
+      }
+    }
+
+    // Add ORDER BY clause
+    if (orderByColumns.length > 0) {
+      this.appendLine('');
+      this.append(this.getIndent() + 'ORDER BY ');
+
+      // Todos os campos do ORDER BY na mesma linha
+      const orderByExpr = orderByColumns
+        .map(o => {
+          const direction = o.isAscending() ? 'ASC' : 'DESC';
+          return `${o.getColumn().accept(this)} ${direction}`;
+        })
+        .join(', ');
+
+      this.append(orderByExpr);
+    }
+
+    // Paginação específica do dialeto
+    for (const clause of this.getPagingClauses(limitValue, offsetValue)) {
+      this.appendLine('');
+      this.append(this.getIndent() + clause);
+    }
+
+    // Get the SQL result
+    const sql = this.sb.join('');
+
+    // Restore original state
+    this.sb = originalStringBuilder;
+    this.indentLevel = originalIndentLevel;
+
+    // Return the generated SQL
+    return sql;
+  }
+
+  /**
+   * Visits a table expression
+   */
+  visitTableExpression(expr: TableExpression): string {
+    return `${this.formatTableName(expr)} AS ${this.delimitIdentifier(expr.getAlias())}`;
+  }
+
+  /**
+   * Visits two queries combined by a set operation
+   */
+  visitCompoundSelectExpression(expr: CompoundSelectExpression): string {
+    const indent = this.getNestedQueryIndent();
+    return [
+      expr.getLeft().accept(this),
+      indent + expr.getOperation(),
+      indent + expr.getRight().accept(this),
+    ].join('\n');
+  }
+
+  /**
+   * Visits a derived table: (SELECT ...) AS alias
+   */
+  visitDerivedTableExpression(expr: DerivedTableExpression): string {
+    const wasSubquery = this.isSubquery;
+    const originalIndentLevel = this.indentLevel;
+
+    // O parêntese fecha alinhado com o FROM do SELECT externo
+    const closingIndent = this.isSubquery ? this.getIndent() + this.getIndent() : '';
+
+    try {
+      this.isSubquery = true;
+      this.indentLevel = (wasSubquery ? originalIndentLevel : 0) + 1;
+
+      const querySql = expr.getQuery().accept(this);
+      return (
+        '(\n' +
+        this.getNestedQueryIndent() +
+        querySql +
+        '\n' +
+        closingIndent +
+        ') AS ' +
+        this.delimitIdentifier(expr.getAlias())
+      );
+    } finally {
+      this.isSubquery = wasSubquery;
+      this.indentLevel = originalIndentLevel;
+    }
+  }
+
+  /**
+   * Visits a common table expression: name AS (SELECT ...)
+   */
+  visitCommonTableExpression(expr: CommonTableExpression): string {
+    const wasSubquery = this.isSubquery;
+    const originalIndentLevel = this.indentLevel;
+
+    try {
+      this.isSubquery = true;
+      this.indentLevel = originalIndentLevel + 1;
+
+      const querySql = expr.getQuery().accept(this);
+      return `${this.delimitIdentifier(expr.getName())} AS (\n${this.getNestedQueryIndent()}${querySql}\n)`;
+    } finally {
+      this.isSubquery = wasSubquery;
+      this.indentLevel = originalIndentLevel;
+    }
+  }
+
+  /**
+   * Visits a window function: FUNCTION(...) OVER (PARTITION BY ... ORDER BY ... frame)
+   */
+  visitWindowExpression(expr: WindowExpression): string {
+    // A função vem antes do OVER no SQL: visitá-la primeiro mantém a ordem dos parâmetros
+    const func = expr.getFunction().accept(this);
+    const clauses: string[] = [];
+
+    const partitionBy = expr.getPartitionBy();
+    if (partitionBy.length > 0) {
+      clauses.push(`PARTITION BY ${partitionBy.map(p => p.accept(this)).join(', ')}`);
+    }
+
+    const orderBy = expr.getOrderBy();
+    if (orderBy.length > 0) {
+      const columns = orderBy.map(
+        o => `${o.getColumn().accept(this)} ${o.isAscending() ? 'ASC' : 'DESC'}`,
+      );
+      clauses.push(`ORDER BY ${columns.join(', ')}`);
+    }
+
+    const frame = expr.getFrame();
+    if (frame) {
+      clauses.push(
+        `${frame.unit} BETWEEN ${this.formatFrameBound(frame.start, 'PRECEDING')} AND ${this.formatFrameBound(frame.end, 'FOLLOWING')}`,
+      );
+    }
+
+    return `${func} OVER (${clauses.join(' ')})`;
+  }
+
+  /**
+   * Visits a CASE expression: CASE [operand] WHEN ... THEN ... [ELSE ...] END
+   */
+  visitCaseExpression(expr: CaseExpression): string {
+    const parts = ['CASE'];
+
+    const operand = expr.getOperand();
+    if (operand) {
+      parts.push(operand.accept(this));
+    }
+
+    for (const clause of expr.getWhenClauses()) {
+      parts.push(`WHEN ${clause.when.accept(this)} THEN ${clause.then.accept(this)}`);
+    }
+
+    const elseResult = expr.getElse();
+    if (elseResult) {
+      parts.push(`ELSE ${elseResult.accept(this)}`);
+    }
+
+    parts.push('END');
+    return parts.join(' ');
+  }
+
+  /**
+   * Formats a bound of a window frame
+   * @param offset Rows relative to the current row, or null when unbounded
+   * @param unboundedDirection Direction of an unbounded limit
+   */
+  private formatFrameBound(offset: number | null, unboundedDirection: string): string {
+    if (offset === null) {
+      return `UNBOUNDED ${unboundedDirection}`;
+    }
+
+    if (offset === 0) {
+      return 'CURRENT ROW';
+    }
+
+    return offset < 0 ? `${-offset} PRECEDING` : `${offset} FOLLOWING`;
+  }
+
+  /**
+   * Gets the indentation of a query nested in parentheses, one level before its clauses
+   */
+  private getNestedQueryIndent(): string {
+    if (!this.isSubquery) {
+      return '';
+    }
+    return ' '.repeat(Math.max(0, this.indentLevel * 2 - 1) * this.indentSize);
+  }
+
+  /**
+   * Visits an insert expression
+   */
+  visitInsertExpression(expr: InsertExpression): string {
+    const columns = expr
+      .getColumns()
+      .map(column => this.delimitIdentifier(column))
+      .join(', ');
+    const lines = [`INSERT INTO ${this.formatTableName(expr.getTable())} (${columns})`];
+
+    const outputClause = expr.getReturning() ? this.getOutputClause() : null;
+    if (outputClause) {
+      lines.push(outputClause);
+    }
+
+    const query = expr.getQuery();
+    if (query) {
+      lines.push(query.accept(this));
+    } else {
+      const rows = expr
+        .getValues()
+        .map(row => `(${row.map(value => value.accept(this)).join(', ')})`);
+      lines.push(`VALUES ${rows.join(', ')}`);
+    }
+
+    const returningClause = expr.getReturning() ? this.getReturningClause() : null;
+    if (returningClause) {
+      lines.push(returningClause);
+    }
+
+    return lines.join('\n');
+  }
+
+  /**
+   * Visits an update expression
+   */
+  visitUpdateExpression(expr: UpdateExpression): string {
+    const table = expr.getTable();
+    const alias = this.delimitIdentifier(table.getAlias());
+    const joins = expr.getJoins();
+    const style = this.getUpdateJoinStyle();
+    const values = expr.getValues();
+
+    // Com junções no próprio UPDATE (MySQL) a coluna precisa do alias para não ser ambígua
+    const assignments = expr
+      .getColumns()
+      .map((column, index) => {
+        const target =
+          style === 'join'
+            ? `${alias}.${this.delimitIdentifier(column)}`
+            : this.delimitIdentifier(column);
+        return `${target} = ${values[index].accept(this)}`;
+      })
+      .join(', ');
+
+    let whereClause = expr.getWhereClause();
+    const lines: string[] = [];
+
+    switch (style) {
+      case 'alias':
+        lines.push(`UPDATE ${alias}`, `SET ${assignments}`, `FROM ${table.accept(this)}`);
+        lines.push(...joins.map(j => j.accept(this)));
+        break;
+
+      case 'join':
+        lines.push(`UPDATE ${table.accept(this)}`);
+        lines.push(...joins.map(j => j.accept(this)));
+        lines.push(`SET ${assignments}`);
+        break;
+
+      default:
+        lines.push(`UPDATE ${table.accept(this)}`, `SET ${assignments}`);
+        if (joins.length > 0) {
+          lines.push(`FROM ${joins.map(j => j.getTargetTable().accept(this)).join(', ')}`);
+          whereClause = this.combineWithJoinConditions(joins, whereClause);
+        }
+        break;
+    }
+
+    if (whereClause) {
+      lines.push(`WHERE ${whereClause.accept(this)}`);
+    }
+
+    return lines.join('\n');
+  }
+
+  /**
+   * Visits a delete expression
+   */
+  visitDeleteExpression(expr: DeleteExpression): string {
+    const table = expr.getTable();
+    const joins = expr.getJoins();
+    let whereClause = expr.getWhereClause();
+    const lines: string[] = [];
+
+    switch (this.getDeleteJoinStyle()) {
+      case 'alias':
+        lines.push(`DELETE ${this.delimitIdentifier(table.getAlias())} FROM ${table.accept(this)}`);
+        lines.push(...joins.map(j => j.accept(this)));
+        break;
+
+      case 'using':
+        lines.push(`DELETE FROM ${table.accept(this)}`);
+        if (joins.length > 0) {
+          lines.push(`USING ${joins.map(j => j.getTargetTable().accept(this)).join(', ')}`);
+          whereClause = this.combineWithJoinConditions(joins, whereClause);
+        }
+        break;
+
+      default:
+        lines.push(`DELETE FROM ${table.accept(this)}`);
+        if (joins.length > 0) {
+          // As junções viram uma subconsulta correlacionada com o filtro completo
+          const [first, ...others] = joins;
+          const subquery = new SelectExpression(
+            [new ProjectionExpression(new ConstantExpression(1), null)],
+            first.getTargetTable() as TableExpression,
+            others,
+            this.combineWithJoinConditions([first], whereClause),
+            [],
+            null,
+            [],
+            null,
+            null,
+            false,
+          );
+          whereClause = new UnaryExpression(
+            ExpressionType.Exists,
+            new ScalarSubqueryExpression(subquery),
+          );
+        }
+        break;
+    }
+
+    if (whereClause) {
+      lines.push(`WHERE ${whereClause.accept(this)}`);
+    }
+
+    return lines.join('\n');
+  }
+
+  /**
+   * Visits an upsert expression
+   */
+  visitUpsertExpression(expr: UpsertExpression): string {
+    const table = expr.getTable();
+    const columns = expr.getColumns().map(column => this.delimitIdentifier(column));
+    const rows = expr
+      .getValues()
+      .map(row => `(${row.map(value => value.accept(this)).join(', ')})`)
+      .join(', ');
+    const style = this.getUpsertStyle();
+
+    // Nos valores da atualização, as colunas da tabela se referem à linha recebida
+    let assignments: string[];
+    this.upsertTableAlias = table.getAlias();
+    try {
+      const updateValues = expr.getUpdateValues();
+      assignments = expr
+        .getUpdateColumns()
+        .map(
+          (column, index) =>
+            `${this.delimitIdentifier(column)} = ${updateValues[index].accept(this)}`,
+        );
+    } finally {
+      this.upsertTableAlias = null;
+    }
+
+    const lines: string[] = [];
+    switch (style) {
+      case 'on-conflict':
+        lines.push(`INSERT INTO ${this.formatTableName(table)} (${columns.join(', ')})`);
+        lines.push(`VALUES ${rows}`);
+        lines.push(
+          `ON CONFLICT (${expr
+            .getMatchColumns()
+            .map(column => this.delimitIdentifier(column))
+            .join(', ')}) ` +
+            (assignments.length > 0 ? `DO UPDATE SET ${assignments.join(', ')}` : 'DO NOTHING'),
+        );
+        break;
+
+      case 'on-duplicate-key': {
+        // O MySQL usa as chaves únicas da tabela; sem colunas a atualizar a linha fica como está
+        const match = this.delimitIdentifier(expr.getMatchColumns()[0]);
+        lines.push(`INSERT INTO ${this.formatTableName(table)} (${columns.join(', ')})`);
+        lines.push(`VALUES ${rows}`);
+        lines.push(
+          `ON DUPLICATE KEY UPDATE ${assignments.length > 0 ? assignments.join(', ') : `${match} = ${match}`}`,
+        );
+        break;
+      }
+
+      default: {
+        const alias = this.delimitIdentifier(table.getAlias());
+        const source = this.delimitIdentifier(UPSERT_SOURCE_ALIAS);
+        const on = expr
+          .getMatchColumns()
+          .map(column => {
+            const name = this.delimitIdentifier(column);
+            return `${alias}.${name} = ${source}.${name}`;
+          })
+          .join(' AND ');
+        lines.push(`MERGE INTO ${table.accept(this)}`);
+        lines.push(`USING (VALUES ${rows}) AS ${source} (${columns.join(', ')})`);
+        lines.push(`ON (${on})`);
+        if (assignments.length > 0) {
+          lines.push(`WHEN MATCHED THEN UPDATE SET ${assignments.join(', ')}`);
+        }
+        lines.push(
+          `WHEN NOT MATCHED THEN INSERT (${columns.join(', ')}) VALUES (${columns
+            .map(column => `${source}.${column}`)
+            .join(', ')})`,
+        );
+        break;
+      }
+    }
+
+    const returningClause = expr.getReturning() ? this.getUpsertReturningClause() : null;
+    if (returningClause) {
+      lines.push(returningClause);
+    }
+
+    // O MERGE precisa ser terminado por ponto e vírgula
+    return lines.join('\n') + (style === 'merge' ? ';' : '');
+  }
+
+  /**
+   * Moves the conditions of inner joins into the WHERE clause, for statements that
+   * list the joined tables in FROM / USING
+   */
+  protected combineWithJoinConditions(
+    joins: JoinExpression[],
+    whereClause: Expression | null,
+  ): Expression | null {
+    const outerJoin = joins.find(j => j.getJoinType() !== JoinType.INNER);
+    if (outerJoin) {
+      throw new Error(
+        `Only inner joins can be used to filter an UPDATE or DELETE in this dialect, but '${outerJoin.getTargetTable().getTableName()}' uses ${outerJoin.getJoinType()}`,
+      );
+    }
+
+    return [...joins.map(j => j.getJoinCondition()), whereClause]
+      .filter((condition): condition is Expression => !!condition)
+      .reduce((combined, condition) =>
+        combined ? new BinaryExpression(ExpressionType.AndAlso, combined, condition) : condition,
+      );
+  }
+
+  /**
+   * Formats the name of a table qualified by schema and database, without the alias
+   */
+  protected formatTableName(expr: TableExpression): string {
+    return [expr.getDatabase(), expr.getSchema(), expr.getTableName()]
+      .filter(part => !!part)
+      .map(part => this.delimitIdentifier(part))
+      .join('.');
+  }
+
+  /**
+   * Visits a join expression
+   */
+  visitJoinExpression(expr: JoinExpression): string {
+    const joinType = this.getJoinKeyword(expr.getJoinType());
+    return `${joinType} ${expr.getTargetTable().accept(this)} ON ${expr.getJoinCondition().accept(this)}`;
+  }
+
+  /**
+   * Visits a projection expression
+   */
+  visitProjectionExpression(expr: ProjectionExpression): string {
+    if (!expr.getAlias()) {
+      return expr.getExpression().accept(this);
+    }
+
+    return `${expr.getExpression().accept(this)} AS ${this.delimitIdentifier(expr.getAlias())}`;
+  }
+
+  /**
+   * Visits a parameter expression
+   */
+  visitParameterExpression(expr: ParameterExpression): string {
+    const paramName = expr.getName();
+    if (this.parameters.has(paramName)) {
+      const value = this.parameters.get(paramName);
+
+      // Create a constant expression with the parameter value
+      const constExpr = new ConstantExpression(value);
+      return constExpr.accept(this);
+    }
+
+    return this.formatParameterName(paramName);
+  }
+
+  /**
+   * Visita uma expressão de coluna pai
+   */
+  visitParentColumnExpression(expr: ParentColumnExpression): string {
+    return `${this.delimitIdentifier(expr.getTableAlias())}.${this.delimitIdentifier(expr.getColumnName())}`;
+  }
+
+  /**
+   * Formats a single value, extracting it into a parameter when parameterizing
+   */
+  private formatValueOrParameter(value: any): string {
+    if (!this.parameterize || value === null || value === undefined) {
+      return this.formatValue(value);
+    }
+
+    const index = this.collectedParameters.length;
+    const placeholder = this.formatParameterPlaceholder(index);
+
+    this.collectedParameters.push({
+      name: `p${index}`,
+      placeholder,
+      value,
+      type: new ConstantExpression(value).getValueType(),
+    });
+
+    return placeholder;
+  }
+
+  /**
+   * Formats a single (non-array) literal value
+   */
+  protected formatValue(value: any): string {
+    if (value === null || value === undefined) {
+      return 'NULL';
+    }
+
+    if (typeof value === 'string') {
+      return this.formatString(value);
+    }
+
+    if (typeof value === 'boolean') {
+      return this.formatBoolean(value);
+    }
+
+    if (value instanceof Date) {
+      return this.formatDate(value);
+    }
+
+    return String(value);
+  }
+
+  /**
+   * Maps a binary expression type to SQL operator
+   */
+  protected getBinaryOperator(type: ExpressionType): string {
+    switch (type) {
+      case ExpressionType.Add:
+        return '+';
+      case ExpressionType.Subtract:
+        return '-';
+      case ExpressionType.Multiply:
+        return '*';
+      case ExpressionType.Divide:
+        return '/';
+      case ExpressionType.Modulo:
+        return '%';
+      case ExpressionType.Equal:
+        return '=';
+      case ExpressionType.NotEqual:
+        return '<>';
+      case ExpressionType.GreaterThan:
+        return '>';
+      case ExpressionType.GreaterThanOrEqual:
+        return '>=';
+      case ExpressionType.LessThan:
+        return '<';
+      case ExpressionType.LessThanOrEqual:
+        return '<=';
+      case ExpressionType.AndAlso:
+        return 'AND';
+      case ExpressionType.OrElse:
+        return 'OR';
+      case ExpressionType.In:
+        return 'IN';
+      case ExpressionType.NotIn:
+        return 'NOT IN';
+      default:
+        throw new Error(`Unsupported binary operator: ${ExpressionType[type]}`);
+    }
+  }
+
+  /**
+   * Maps a unary expression type to SQL operator
+   */
+  protected getUnaryOperator(type: ExpressionType): string {
+    switch (type) {
+      case ExpressionType.Not:
+        return 'NOT ';
+      case ExpressionType.Negate:
+        return '-';
+      case ExpressionType.Exists:
+        return 'EXISTS ';
+      case ExpressionType.NotExists:
+        return 'NOT EXISTS ';
+      default:
+        throw new Error(`Unsupported unary operator: ${ExpressionType[type]}`);
+    }
+  }
+
+  /**
+   * Escapes a string for SQL to prevent SQL injection
+   */
+  protected escapeSqlString(str: string): string {
+    return str.replace(/'/g, "''");
+  }
+}
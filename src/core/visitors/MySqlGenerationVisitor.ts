@@ -0,0 +1,131 @@
+import { Expression } from '../expressions/Expression';
+import { JoinType } from '../expressions/JoinExpression';
+import {
+  BaseSqlGenerationVisitor,
+  DeleteJoinStyle,
+  UpdateJoinStyle,
+  UpsertStyle,
+} from './BaseSqlGenerationVisitor';
+
+/**
+ * Maior valor aceito pelo LIMIT do MySQL, usado quando só existe OFFSET
+ */
+const MAX_LIMIT = '18446744073709551615';
+
+/**
+ * A visitor that generates SQL for MySQL and MariaDB
+ */
+export class MySqlGenerationVisitor extends BaseSqlGenerationVisitor {
+  /**
+   * MySQL delimita identificadores com crases
+   */
+  protected quoteIdentifier(identifier: string): string {
+    return `\`${identifier.replace(/`/g, '``')}\``;
+  }
+
+  /**
+   * MySQL aceita TRUE/FALSE como aliases de 1/0
+   */
+  protected formatBoolean(value: boolean): string {
+    return value ? 'TRUE' : 'FALSE';
+  }
+
+  /**
+   * Datas no formato DATETIME do MySQL (UTC, sem o sufixo de fuso)
+   */
+  protected formatDate(value: Date): string {
+    return `'${value.toISOString().replace('T', ' ').replace('Z', '')}'`;
+  }
+
+  /**
+   * MySQL declara as junções antes do SET
+   */
+  protected getUpdateJoinStyle(): UpdateJoinStyle {
+    return 'join';
+  }
+
+  /**
+   * MySQL remove pelo alias, com a tabela e as junções no FROM
+   */
+  protected getDeleteJoinStyle(): DeleteJoinStyle {
+    return 'alias';
+  }
+
+  /**
+   * MySQL faz upsert com ON DUPLICATE KEY UPDATE, usando as chaves únicas da tabela
+   */
+  protected getUpsertStyle(): UpsertStyle {
+    return 'on-duplicate-key';
+  }
+
+  /**
+   * MySQL usa LIMIT offset, count
+   */
+  protected getPagingClauses(
+    limitValue: Expression | null,
+    offsetValue: Expression | null,
+  ): string[] {
+    if (offsetValue) {
+      const offset = this.formatPagingValue(offsetValue);
+      const count = limitValue ? this.formatPagingValue(limitValue) : MAX_LIMIT;
+      return [`LIMIT ${offset}, ${count}`];
+    }
+
+    if (limitValue) {
+      return [`LIMIT ${this.formatPagingValue(limitValue)}`];
+    }
+
+    return [];
+  }
+
+  /**
+   * MySQL não suporta FULL OUTER JOIN
+   */
+  protected getJoinKeyword(joinType: JoinType): string {
+    if (joinType === JoinType.FULL) {
+      throw new Error(
+        'MySQL does not support FULL OUTER JOIN. Use a LEFT JOIN and a RIGHT JOIN combined with UNION instead.',
+      );
+    }
+
+    return super.getJoinKeyword(joinType);
+  }
+
+  /**
+   * MySQL usa parâmetros posicionais (?)
+   */
+  protected formatParameterPlaceholder(index: number): string {
+    return '?';
+  }
+
+  /**
+   * Handles specific MySQL functions
+   */
+  protected translateFunction(
+    functionName: string,
+    args: string[],
+    fnArgs: Expression[],
+  ): string | null {
+    const argsStr = args.join(', ');
+
+    switch (functionName) {
+      case 'LEN':
+      case 'LENGTH':
+        // LENGTH conta bytes no MySQL
+        return `CHAR_LENGTH(${argsStr})`;
+
+      case 'GETDATE':
+        return 'NOW()';
+
+      default:
+        return null;
+    }
+  }
+
+  /**
+   * MySQL também trata a barra invertida como caractere de escape
+   */
+  protected escapeSqlString(str: string): string {
+    return str.replace(/\\/g, '\\\\').replace(/'/g, "''");
+  }
+}
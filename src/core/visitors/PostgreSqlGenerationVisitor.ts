@@ -0,0 +1,163 @@
+import { ConstantExpression } from '../expressions/ConstantExpression';
+import { Expression } from '../expressions/Expression';
+import { FunctionExpression } from '../expressions/FunctionExpression';
+import { UPSERT_ACTION_COLUMN } from '../expressions/UpsertExpression';
+import { BaseSqlGenerationVisitor, DeleteJoinStyle, UpsertStyle } from './BaseSqlGenerationVisitor';
+
+/**
+ * A visitor that generates SQL for PostgreSQL
+ */
+export class PostgreSqlGenerationVisitor extends BaseSqlGenerationVisitor {
+  /**
+   * PostgreSQL delimita identificadores com aspas duplas
+   */
+  protected quoteIdentifier(identifier: string): string {
+    return `"${identifier.replace(/"/g, '""')}"`;
+  }
+
+  /**
+   * PostgreSQL possui literais booleanos nativos
+   */
+  protected formatBoolean(value: boolean): string {
+    return value ? 'TRUE' : 'FALSE';
+  }
+
+  /**
+   * Datas são enviadas como timestamptz em UTC
+   */
+  protected formatDate(value: Date): string {
+    return `'${value.toISOString()}'::timestamptz`;
+  }
+
+  /**
+   * PostgreSQL lista as tabelas das junções em USING
+   */
+  protected getDeleteJoinStyle(): DeleteJoinStyle {
+    return 'using';
+  }
+
+  /**
+   * PostgreSQL retorna os registros inseridos com RETURNING
+   */
+  protected getReturningClause(): string | null {
+    return 'RETURNING *';
+  }
+
+  /**
+   * PostgreSQL faz upsert com INSERT ... ON CONFLICT
+   */
+  protected getUpsertStyle(): UpsertStyle {
+    return 'on-conflict';
+  }
+
+  /**
+   * Uma linha recém-inserida ainda não tem xmax, o que distingue inserções de atualizações
+   */
+  protected getUpsertReturningClause(): string | null {
+    return `RETURNING *, CASE WHEN xmax = 0 THEN 'INSERT' ELSE 'UPDATE' END AS ${this.delimitIdentifier(UPSERT_ACTION_COLUMN)}`;
+  }
+
+  /**
+   * PostgreSQL usa parâmetros posicionais numerados ($1, $2, ...)
+   */
+  protected formatParameterPlaceholder(index: number): string {
+    return `$${index + 1}`;
+  }
+
+  /**
+   * Handles specific PostgreSQL functions
+   */
+  protected translateFunction(
+    functionName: string,
+    args: string[],
+    fnArgs: Expression[],
+  ): string | null {
+    const argsStr = args.join(', ');
+
+    switch (functionName) {
+      case 'CONCAT':
+        return `(${args.join(' || ')})`;
+
+      case 'LEN':
+        return `LENGTH(${argsStr})`;
+
+      case 'NOW':
+      case 'GETDATE':
+        return 'NOW()';
+
+      case 'DATEPART':
+      case 'EXTRACT':
+        return `DATE_PART(${argsStr})`;
+
+      default:
+        return null;
+    }
+  }
+
+  /**
+   * Visits a function expression
+   */
+  visitFunctionExpression(expr: FunctionExpression): string {
+    const caseInsensitiveLike = this.translateCaseInsensitiveLike(expr);
+    return caseInsensitiveLike !== null ? caseInsensitiveLike : super.visitFunctionExpression(expr);
+  }
+
+  /**
+   * Translates LOWER(column) LIKE pattern (or UPPER) into column ILIKE pattern,
+   * as long as the pattern cannot contain characters in the opposite case
+   */
+  private translateCaseInsensitiveLike(expr: FunctionExpression): string | null {
+    const functionName = expr.getFunctionName().toUpperCase();
+    const fnArgs = expr.getArguments();
+
+    if (functionName !== 'LIKE' && functionName !== 'INCLUDES') {
+      return null;
+    }
+
+    if (fnArgs.length !== 2 || !(fnArgs[0] instanceof FunctionExpression)) {
+      return null;
+    }
+
+    const caseFunction = fnArgs[0].getFunctionName().toUpperCase();
+    const caseArgs = fnArgs[0].getArguments();
+
+    if ((caseFunction !== 'LOWER' && caseFunction !== 'UPPER') || caseArgs.length !== 1) {
+      return null;
+    }
+
+    if (!this.isPatternInCase(fnArgs[1], caseFunction)) {
+      return null;
+    }
+
+    return `${caseArgs[0].accept(this)} ILIKE ${fnArgs[1].accept(this)}`;
+  }
+
+  /**
+   * Checks whether a LIKE pattern only produces text already in the case of the given function
+   */
+  private isPatternInCase(pattern: Expression, caseFunction: string): boolean {
+    if (pattern instanceof ConstantExpression) {
+      const value = pattern.getValue();
+      if (typeof value !== 'string') {
+        return true;
+      }
+      return caseFunction === 'LOWER'
+        ? value === value.toLowerCase()
+        : value === value.toUpperCase();
+    }
+
+    if (pattern instanceof FunctionExpression) {
+      const name = pattern.getFunctionName().toUpperCase();
+
+      if (name === caseFunction) {
+        return true;
+      }
+
+      if (name === 'CONCAT') {
+        return pattern.getArguments().every(arg => this.isPatternInCase(arg, caseFunction));
+      }
+    }
+
+    return false;
+  }
+}
@@ -1,269 +1,166 @@
-import { BinaryExpression } from '../expressions/BinaryExpression';
-import { ColumnExpression } from '../expressions/ColumnExpression';
-import { ConstantExpression } from '../expressions/ConstantExpression';
-import { ExpressionType, IExpressionVisitor, IFragmentExpression } from '../expressions/Expression';
-import { FunctionExpression } from '../expressions/FunctionExpression';
-import { JoinExpression, JoinType } from '../expressions/JoinExpression';
-import { ParameterExpression } from '../expressions/ParameterExpression';
-import { ParentColumnExpression } from '../expressions/ParentColumnExpression';
-import { ProjectionExpression } from '../expressions/ProjectionExpression';
+import { Expression } from '../expressions/Expression';
 import { SelectExpression } from '../expressions/SelectExpression';
-import { ScalarSubqueryExpression } from '../expressions/ScalarSubqueryExpression';
-import { TableExpression } from '../expressions/TableExpression';
-import { UnaryExpression } from '../expressions/UnaryExpression';
+import {
+  BaseSqlGenerationVisitor,
+  DeleteJoinStyle,
+  UpdateJoinStyle,
+} from './BaseSqlGenerationVisitor';
+import { UPSERT_ACTION_COLUMN } from '../expressions/UpsertExpression';
+import { WindowExpression, WindowFrameUnit } from '../expressions/WindowExpression';
 
-/**
- * Opções para a geração de SQL
- */
-export interface SqlGenerationOptions {
-  /** Usar colchetes para identificadores (padrão: true) */
-  useDelimitedIdentifiers?: boolean;
-  /** Tamanho da indentação (padrão: 2) */
-  indentSize?: number;
-  /** Flag para indicar se estamos em uma subconsulta */
-  isSubquery?: boolean;
-}
+export { SqlGenerationOptions } from './BaseSqlGenerationVisitor';
 
 /**
  * A visitor that generates SQL for SQL Server with proper formatting
  */
-export class SqlServerGenerationVisitor implements IExpressionVisitor<string> {
-  private parameters: Map<string, any> = new Map();
-  private indentLevel: number = 0;
-  private indentSize: number = 2;
-  private useDelimitedIdentifiers: boolean = true;
-  private isSubquery: boolean = false;
-  private sb: string[] = []; // String builder simulado
-
+export class SqlServerGenerationVisitor extends BaseSqlGenerationVisitor {
   /**
-   * Creates a new SQL Server generation visitor
-   * @param parameters Optional map of parameter names to values
-   * @param options Optional SQL generation options
+   * Escapes a SQL Server identifier by replacing ] with ]]
+   * @param identifier The identifier to escape
+   * @returns The escaped identifier
    */
-  constructor(parameters?: Map<string, any>, options?: SqlGenerationOptions) {
-    if (parameters) {
-      this.parameters = parameters;
-    }
-
-    if (options) {
-      this.useDelimitedIdentifiers = options.useDelimitedIdentifiers !== false;
-      this.indentSize = options.indentSize || 2;
-      this.isSubquery = options.isSubquery || false;
-    }
+  escapeIdentifier(identifier: string): string | null {
+    return identifier?.replace(/]/g, ']]');
   }
 
   /**
-   * Gets the current indentation string
+   * SQL Server usa colchetes para identificadores
    */
-  private getIndent(): string {
-    return ' '.repeat(this.indentLevel * this.indentSize);
+  protected quoteIdentifier(identifier: string): string {
+    return `[${this.escapeIdentifier(identifier)}]`;
   }
 
   /**
-   * Append text to the SQL output
+   * SQL Server usa N prefix para strings Unicode
    */
-  private append(text: string): void {
-    this.sb.push(text);
+  protected formatString(value: string): string {
+    return `N'${this.escapeSqlString(value)}'`;
   }
 
   /**
-   * Append text to the SQL output with a newline and indentation
+   * Format para datetime no SQL Server
    */
-  private appendLine(text: string = ''): void {
-    if (text) {
-      this.sb.push('\n' + this.getIndent() + text);
-    } else {
-      this.sb.push('\n' + this.getIndent());
-    }
+  protected formatDate(value: Date): string {
+    return `CONVERT(DATETIME2, '${value.toISOString()}', 126)`;
   }
 
   /**
-   * Increase the indentation level
+   * SQL Server requer ORDER BY para OFFSET/FETCH
    */
-  private indent(): void {
-    this.indentLevel++;
+  protected validateSelect(expr: SelectExpression): void {
+    if (expr.getOffsetValue() && expr.getOrderByColumns().length === 0) {
+      throw new Error('SQL Server requires ORDER BY when using OFFSET');
+    }
   }
 
   /**
-   * Decrease the indentation level
+   * SQL Server usa TOP em vez de LIMIT quando não tem OFFSET
    */
-  private unindent(): void {
-    if (this.indentLevel > 0) {
-      this.indentLevel--;
+  protected getTopClause(
+    limitValue: Expression | null,
+    offsetValue: Expression | null,
+  ): string | null {
+    if (limitValue && !offsetValue) {
+      return `TOP ${this.formatPagingValue(limitValue)}`;
     }
+    return null;
   }
 
   /**
-   * Escapes a SQL Server identifier by replacing ] with ]]
-   * @param identifier The identifier to escape
-   * @returns The escaped identifier
+   * SQL Server usa OFFSET/FETCH para paginação (requer ORDER BY)
    */
-  escapeIdentifier(identifier: string): string | null {
-    return identifier?.replace(/]/g, ']]');
-  }
+  protected getPagingClauses(
+    limitValue: Expression | null,
+    offsetValue: Expression | null,
+  ): string[] {
+    if (!offsetValue) {
+      return [];
+    }
 
-  /**
-   * Delimits a SQL Server identifier with square brackets
-   * @param identifier The identifier to delimit
-   * @returns The delimited identifier
-   */
-  delimitIdentifier(identifier: string): string {
-    if (!this.useDelimitedIdentifiers) {
-      return identifier;
+    const clauses = [`OFFSET ${this.formatPagingValue(offsetValue)} ROWS`];
+
+    if (limitValue) {
+      clauses.push(`FETCH NEXT ${this.formatPagingValue(limitValue)} ROWS ONLY`);
     }
-    return `[${this.escapeIdentifier(identifier)}]`;
+
+    return clauses;
   }
 
   /**
-   * Sets a parameter value
+   * SQL Server atualiza pelo alias, com a tabela e as junções no FROM
    */
-  setParameter(name: string, value: any): void {
-    this.parameters.set(name, value);
+  protected getUpdateJoinStyle(): UpdateJoinStyle {
+    return 'alias';
   }
 
   /**
-   * Visits a binary expression
+   * SQL Server remove pelo alias, com a tabela e as junções no FROM
    */
-  visitBinaryExpression(expr: BinaryExpression): string {
-    const left = expr.getLeft().accept(this);
-    const right = expr.getRight().accept(this);
-    const operator = this.getBinaryOperator(expr.getOperatorType());
-
-    // Caso especial para operadores IN e NOT IN com subconsulta
-    if (
-      expr.getOperatorType() === ExpressionType.In ||
-      expr.getOperatorType() === ExpressionType.NotIn
-    ) {
-      return `${left} ${operator} (${right})`;
-    }
-
-    return `(${left} ${operator} ${right})`;
+  protected getDeleteJoinStyle(): DeleteJoinStyle {
+    return 'alias';
   }
 
   /**
-   * Visits a fragment expression
+   * SQL Server não usa WITH RECURSIVE: a recursão é identificada pela própria referência
    */
-  visitFragmentExpression(expr: IFragmentExpression): string {
-    const value = expr.getValue();
-    return value;
+  protected getRecursiveKeyword(): string | null {
+    return null;
   }
 
   /**
-   * Visits a unary expression
+   * SQL Server só aceita UNBOUNDED e CURRENT ROW nos limites de um frame RANGE
    */
-  visitUnaryExpression(expr: UnaryExpression): string {
-    const operand = expr.getOperand().accept(this);
-    const operator = this.getUnaryOperator(expr.getOperatorType());
-
-    // Caso especial para EXISTS e NOT EXISTS
+  visitWindowExpression(expr: WindowExpression): string {
+    const frame = expr.getFrame();
     if (
-      expr.getOperatorType() === ExpressionType.Exists ||
-      expr.getOperatorType() === ExpressionType.NotExists
+      frame?.unit === WindowFrameUnit.RANGE &&
+      [frame.start, frame.end].some(b => b !== null && b !== 0)
     ) {
-      return `${operator}(${operand})`;
+      throw new Error('SQL Server does not support RANGE frames with offsets. Use rowsBetween()');
     }
 
-    return `${operator}(${operand})`;
+    return super.visitWindowExpression(expr);
   }
 
   /**
-   * Visits a column expression
+   * SQL Server retorna os registros inseridos com OUTPUT
    */
-  visitColumnExpression(expr: ColumnExpression): string {
-    if (expr.getColumnName() === '*') {
-      return `${this.delimitIdentifier(expr.getTableAlias())}.*`;
-    }
-    // SQL Server usa colchetes para identificadores
-    return `${this.delimitIdentifier(expr.getTableAlias())}.${this.delimitIdentifier(expr.getColumnName())}`;
+  protected getOutputClause(): string | null {
+    return 'OUTPUT INSERTED.*';
   }
 
   /**
-   * Visits a constant expression
+   * No MERGE, $action informa se cada registro foi inserido ou atualizado
    */
-  visitConstantExpression(expr: ConstantExpression): string {
-    const value = expr.getValue();
-
-    if (value === null) {
-      return 'NULL';
-    }
-
-    if (typeof value === 'string') {
-      // SQL Server usa N prefix para strings Unicode
-      return `N'${this.escapeSqlString(value)}'`;
-    }
-
-    if (typeof value === 'boolean') {
-      // SQL Server usa 1/0 para booleanos
-      return value ? '1' : '0';
-    }
-
-    if (value instanceof Date) {
-      // Format para datetime no SQL Server
-      return `CONVERT(DATETIME2, '${value.toISOString()}', 126)`;
-    }
-
-    // Novo: suporte para arrays
-    if (Array.isArray(value)) {
-      // Converte cada elemento do array para o formato SQL e junta com vírgulas
-      const sqlValues = value.map(item => {
-        if (item === null) return 'NULL';
-        if (typeof item === 'string') return `N'${this.escapeSqlString(item)}'`;
-        if (typeof item === 'boolean') return item ? '1' : '0';
-        if (item instanceof Date) return `CONVERT(DATETIME2, '${item.toISOString()}', 126)`;
-        return String(item);
-      });
-
-      // Retorna os valores separados por vírgulas
-      // Não inclui parênteses aqui, pois serão adicionados pelo operador IN
-      return sqlValues.join(', ');
-    }
-
-    return String(value);
+  protected getUpsertReturningClause(): string | null {
+    return `OUTPUT $action AS ${this.delimitIdentifier(UPSERT_ACTION_COLUMN)}, INSERTED.*`;
   }
 
   /**
-   * Visits a function expression
+   * Handles specific SQL Server functions
    */
-  visitFunctionExpression(expr: FunctionExpression): string {
-    const functionName = expr.getFunctionName().toUpperCase();
-    const fnArgs = expr.getArguments();
+  protected translateFunction(
+    functionName: string,
+    args: string[],
+    fnArgs: Expression[],
+  ): string | null {
+    const argsStr = args.join(', ');
 
-    // Process arguments individually to generate SQL for each one
-    const argsStr = fnArgs.map(arg => arg.accept(this)).join(', ');
-
-    // Handle specific SQL Server functions
     switch (functionName) {
-      // Standard SQL functions that pass through directly
-      case 'SUBSTRING':
-      case 'UPPER':
-      case 'LOWER':
-      case 'LEN':
-      case 'GETDATE':
-      case 'DATEPART':
-        return `${functionName}(${argsStr})`;
-
       // Direct function mappings
       case 'NOW':
-        return `GETDATE()`;
       case 'CURRENT_TIMESTAMP':
         return `GETDATE()`;
       case 'LENGTH':
         return `LEN(${argsStr})`;
 
-      // CONCAT should already be handled correctly
-      case 'CONCAT':
-        return `CONCAT(${argsStr})`;
-
       // TRIM for older SQL Server versions
       case 'TRIM':
         return `LTRIM(RTRIM(${argsStr}))`;
 
-      // Special case for EXTRACT - work with original arguments if possible
       case 'EXTRACT':
-        if (fnArgs.length === 2) {
-          const part = fnArgs[0].accept(this);
-          const date = fnArgs[1].accept(this);
-          return `DATEPART(${part}, ${date})`;
+        if (args.length === 2) {
+          return `DATEPART(${args[0]}, ${args[1]})`;
         } else if (argsStr.includes('FROM')) {
           // Fall back to string parsing if needed
           const parts = argsStr.split(/\s+FROM\s+/);
@@ -273,329 +170,8 @@ export class SqlServerGenerationVisitor implements IExpressionVisitor<string> {
         }
         return `DATEPART(${argsStr})`;
 
-      // Handle INCLUDES - fix the original issue
-      case 'INCLUDES':
-        if (fnArgs.length === 2) {
-          const column = fnArgs[0].accept(this);
-          const value = fnArgs[1].accept(this);
-          return `${column} LIKE ${value}`;
-        }
-        return `${argsStr} LIKE N'%%'`;
-
-      // Handle LIKE - similar to INCLUDES
-      case 'LIKE':
-        if (fnArgs.length === 2) {
-          const column = fnArgs[0].accept(this);
-          const pattern = fnArgs[1].accept(this);
-          return `${column} LIKE ${pattern}`;
-        }
-        return `${argsStr} LIKE ?`;
-
-      // Default case for all other functions
-      default:
-        return `${functionName}(${argsStr})`;
-    }
-  }
-  /**
-   * Visits a select expression
-   */
-  visitScalarSubqueryExpression(expr: ScalarSubqueryExpression): string {
-    // Save current state
-    const wasSubquery = this.isSubquery;
-    const originalIndentLevel = this.indentLevel;
-
-    try {
-      // We're in a subquery
-      this.isSubquery = true;
-
-      // Add just one level of indentation for the opening parenthesis (2 spaces)
-      const parentIndent = ' '.repeat(originalIndentLevel * this.indentSize + 2);
-
-      // Add just one more level for subquery content
-      this.indentLevel += 1;
-
-      // Generate the subquery SQL with moderate indentation
-      const subquerySql = expr.getQuery().accept(this);
-
-      // Return with proper formatting - but NO comma
-      return '\n' + parentIndent + '(' + subquerySql + ')';
-    } finally {
-      // Restore original state
-      this.isSubquery = wasSubquery;
-      this.indentLevel = originalIndentLevel;
-    }
-  }
-
-  /**
-   * Visits a select expression
-   */
-  visitSelectExpression(expr: SelectExpression): string {
-    // Save current state
-    const originalStringBuilder = [...this.sb];
-    const originalIndentLevel = this.indentLevel;
-
-    // Clear state for this query
-    this.sb = [];
-
-    // Add SELECT clause
-    this.append('SELECT');
-
-    // Verificar se temos LIMIT sem OFFSET - se sim, usar TOP
-    const limitValue = expr.getLimitValue();
-    const offsetValue = expr.getOffsetValue();
-    const orderByColumns = expr.getOrderByColumns();
-
-    // SQL Server requer ORDER BY para OFFSET/FETCH
-    if (offsetValue && orderByColumns.length === 0) {
-      throw new Error('SQL Server requires ORDER BY when using OFFSET');
-    }
-
-    if (expr.getIsDistinct()) {
-      this.append(' DISTINCT');
-    }
-
-    // SQL Server usa TOP em vez de LIMIT quando não tem OFFSET
-    if (limitValue && !offsetValue) {
-      this.append(` TOP ${limitValue.accept(this)}`);
-    }
-
-    // Add projections
-    const projections = expr.getProjections();
-
-    if (projections.length === 0) {
-      this.append(' *');
-    } else {
-      // Important: Use indentation for projections regardless of current level
-      this.indentLevel = this.isSubquery ? originalIndentLevel : 1;
-
-      // Get current indentation
-      const currentIndent = this.getIndent();
-
-      // First projection with proper indentation
-      this.append(' ' + projections[0].accept(this));
-
-      // Subsequent projections
-      for (let i = 1; i < projections.length; i++) {
-        const projection = projections[i];
-        const isSubquery = projection.getExpression() instanceof ScalarSubqueryExpression;
-
-        if (isSubquery) {
-          // For subqueries, add comma at beginning of new line
-          this.append(',');
-          this.append(projection.accept(this));
-        } else {
-          // For regular fields, stay on same line with comma before
-          this.append(', ' + projection.accept(this));
-        }
-      }
-    }
-
-    // Reset indent level to original or 0 for main query
-    this.indentLevel = this.isSubquery ? originalIndentLevel : 0;
-
-    // Add FROM clause
-    this.appendLine('');
-    this.append(this.getIndent() + 'FROM ' + expr.getFromTable().accept(this));
-
-    // Add JOINs
-    const joins = expr.getJoins();
-    joins.forEach(j => {
-      this.appendLine(this.getIndent() + j.accept(this));
-    });
-
-    // Add WHERE clause
-    const whereClause = expr.getWhereClause();
-    if (whereClause) {
-      this.appendLine('');
-      this.append(this.getIndent() + 'WHERE ' + whereClause.accept(this));
-    }
-
-    // Add GROUP BY clause
-    const groupByColumns = expr.getGroupByColumns();
-    if (groupByColumns.length > 0) {
-      this.appendLine('');
-      this.append(this.getIndent() + 'GROUP BY ');
-
-      // Todos os campos do GROUP BY na mesma linha
-      this.append(groupByColumns.map(c => c.accept(this)).join(', '));
-
-      // Add HAVING clause
-      const havingClause = expr.getHavingClause();
-      if (havingClause) {
-        this.appendLine('');
-        this.append(this.getIndent() + 'HAVING ' + havingClause.accept(this));
-      }
-    }
-
-    // Add ORDER BY clause
-    if (orderByColumns.length > 0) {
-      this.appendLine('');
-      this.append(this.getIndent() + 'ORDER BY ');
-
-      // Todos os campos do ORDER BY na mesma linha
-      const orderByExpr = orderByColumns
-        .map(o => {
-          const direction = o.isAscending() ? 'ASC' : 'DESC';
-          return `${o.getColumn().accept(this)} ${direction}`;
-        })
-        .join(', ');
-
-      this.append(orderByExpr);
-    }
-
-    // SQL Server usa OFFSET/FETCH para paginação (requer ORDER BY)
-    if (offsetValue) {
-      this.appendLine('');
-      this.append(this.getIndent() + `OFFSET ${offsetValue.accept(this)} ROWS`);
-
-      if (limitValue) {
-        this.appendLine('');
-        this.append(this.getIndent() + `FETCH NEXT ${limitValue.accept(this)} ROWS ONLY`);
-      }
-    }
-
-    // Get the SQL result
-    const sql = this.sb.join('');
-
-    // Restore original state
-    this.sb = originalStringBuilder;
-    this.indentLevel = originalIndentLevel;
-
-    // Return the generated SQL
-    return sql;
-  }
-  /**
-   * Visits a table expression
-   */
-  visitTableExpression(expr: TableExpression): string {
-    // SQL Server usa colchetes para identificadores
-    return `${this.delimitIdentifier(expr.getTableName())} AS ${this.delimitIdentifier(expr.getAlias())}`;
-  }
-
-  /**
-   * Visits a join expression
-   */
-  visitJoinExpression(expr: JoinExpression): string {
-    // Mapear tipos de JOIN para SQL Server
-    let joinType: string;
-    switch (expr.getJoinType()) {
-      case JoinType.INNER:
-        joinType = 'INNER JOIN';
-        break;
-      case JoinType.LEFT:
-        joinType = 'LEFT OUTER JOIN';
-        break;
-      case JoinType.RIGHT:
-        joinType = 'RIGHT OUTER JOIN';
-        break;
-      case JoinType.FULL:
-        joinType = 'FULL OUTER JOIN';
-        break;
       default:
-        joinType = 'JOIN';
-    }
-
-    return `${joinType} ${expr.getTargetTable().accept(this)} ON ${expr.getJoinCondition().accept(this)}`;
-  }
-
-  /**
-   * Visits a projection expression
-   */
-  visitProjectionExpression(expr: ProjectionExpression): string {
-    if (!expr.getAlias()) {
-      return expr.getExpression().accept(this);
+        return null;
     }
-
-    return `${expr.getExpression().accept(this)} AS ${this.delimitIdentifier(expr.getAlias())}`;
-  }
-
-  /**
-   * Visits a parameter expression
-   */
-  visitParameterExpression(expr: ParameterExpression): string {
-    const paramName = expr.getName();
-    if (this.parameters.has(paramName)) {
-      const value = this.parameters.get(paramName);
-
-      // Create a constant expression with the parameter value
-      const constExpr = new ConstantExpression(value);
-      return constExpr.accept(this);
-    }
-
-    // SQL Server usa @ para parâmetros
-    return `@${paramName}`;
-  }
-
-  /**
-   * Visita uma expressão de coluna pai
-   */
-  visitParentColumnExpression(expr: ParentColumnExpression): string {
-    // SQL Server usa colchetes para identificadores
-    return `${this.delimitIdentifier(expr.getTableAlias())}.${this.delimitIdentifier(expr.getColumnName())}`;
-  }
-
-  /**
-   * Maps a binary expression type to SQL operator
-   */
-  private getBinaryOperator(type: ExpressionType): string {
-    switch (type) {
-      case ExpressionType.Add:
-        return '+';
-      case ExpressionType.Subtract:
-        return '-';
-      case ExpressionType.Multiply:
-        return '*';
-      case ExpressionType.Divide:
-        return '/';
-      case ExpressionType.Modulo:
-        return '%';
-      case ExpressionType.Equal:
-        return '=';
-      case ExpressionType.NotEqual:
-        return '<>'; // SQL Server prefere <> em vez de !=
-      case ExpressionType.GreaterThan:
-        return '>';
-      case ExpressionType.GreaterThanOrEqual:
-        return '>=';
-      case ExpressionType.LessThan:
-        return '<';
-      case ExpressionType.LessThanOrEqual:
-        return '<=';
-      case ExpressionType.AndAlso:
-        return 'AND';
-      case ExpressionType.OrElse:
-        return 'OR';
-      case ExpressionType.In:
-        return 'IN';
-      case ExpressionType.NotIn:
-        return 'NOT IN';
-      default:
-        throw new Error(`Unsupported binary operator: ${ExpressionType[type]}`);
-    }
-  }
-
-  /**
-   * Maps a unary expression type to SQL operator
-   */
-  private getUnaryOperator(type: ExpressionType): string {
-    switch (type) {
-      case ExpressionType.Not:
-        return 'NOT ';
-      case ExpressionType.Negate:
-        return '-';
-      case ExpressionType.Exists:
-        return 'EXISTS ';
-      case ExpressionType.NotExists:
-        return 'NOT EXISTS ';
-      default:
-        throw new Error(`Unsupported unary operator: ${ExpressionType[type]}`);
-    }
-  }
-
-  /**
-   * Escapes a string for SQL to prevent SQL injection
-   */
-  private escapeSqlString(str: string): string {
-    return str.replace(/'/g, "''");
   }
 }
@@ -0,0 +1,88 @@
+import { Expression } from '../expressions/Expression';
+import { BaseSqlGenerationVisitor, UpsertStyle } from './BaseSqlGenerationVisitor';
+
+/**
+ * A visitor that generates SQL for SQLite
+ */
+export class SqliteGenerationVisitor extends BaseSqlGenerationVisitor {
+  /**
+   * SQLite delimita identificadores com aspas duplas
+   */
+  protected quoteIdentifier(identifier: string): string {
+    return `"${identifier.replace(/"/g, '""')}"`;
+  }
+
+  /**
+   * SQLite usa LIMIT/OFFSET; OFFSET sem LIMIT exige LIMIT -1
+   */
+  protected getPagingClauses(
+    limitValue: Expression | null,
+    offsetValue: Expression | null,
+  ): string[] {
+    const clauses: string[] = [];
+
+    if (limitValue) {
+      clauses.push(`LIMIT ${this.formatPagingValue(limitValue)}`);
+    } else if (offsetValue) {
+      clauses.push('LIMIT -1');
+    }
+
+    if (offsetValue) {
+      clauses.push(`OFFSET ${this.formatPagingValue(offsetValue)}`);
+    }
+
+    return clauses;
+  }
+
+  /**
+   * SQLite (3.35+) retorna os registros inseridos com RETURNING
+   */
+  protected getReturningClause(): string | null {
+    return 'RETURNING *';
+  }
+
+  /**
+   * SQLite retorna os registros gravados pelo upsert, mas não tem como informar se cada
+   * um foi inserido ou atualizado
+   */
+  protected getUpsertReturningClause(): string | null {
+    return 'RETURNING *';
+  }
+
+  /**
+   * SQLite (3.24+) faz upsert com INSERT ... ON CONFLICT
+   */
+  protected getUpsertStyle(): UpsertStyle {
+    return 'on-conflict';
+  }
+
+  /**
+   * SQLite usa parâmetros posicionais (?)
+   */
+  protected formatParameterPlaceholder(index: number): string {
+    return '?';
+  }
+
+  /**
+   * Handles specific SQLite functions
+   */
+  protected translateFunction(
+    functionName: string,
+    args: string[],
+    fnArgs: Expression[],
+  ): string | null {
+    const argsStr = args.join(', ');
+
+    switch (functionName) {
+      case 'LEN':
+        return `LENGTH(${argsStr})`;
+      case 'NOW':
+      case 'GETDATE':
+        return 'CURRENT_TIMESTAMP';
+      case 'CONCAT':
+        return `(${args.join(' || ')})`;
+      default:
+        return null;
+    }
+  }
+}
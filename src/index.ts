@@ -6,17 +6,88 @@
  */
 
 // Main exports
-export { DbContext } from './core/context/DbContext';
+export { DbContext, DbContextOptions } from './core/context/DbContext';
 export { DbSet } from './core/context/DbSet';
+export { ChangeTracker, EntityEntry, EntityState } from './core/context/ChangeTracker';
 export { Queryable } from './core/query/Queryable';
+export { Window, WindowFunction, WindowClauses } from './core/query/Window';
+
+export { DeleteOptions } from './core/query/extensions/ModificationExtensionsInterface';
+
+// Model configuration
+export { ModelBuilder } from './core/model/ModelBuilder';
+export {
+  EntityTypeBuilder,
+  PropertyBuilder,
+  CollectionNavigationBuilder,
+} from './core/model/EntityTypeBuilder';
+export { EntityModel, NavigationModel } from './core/model/EntityModel';
+export {
+  NamingConvention,
+  NamingConventionOptions,
+  DefaultNamingConvention,
+  SnakeCaseNamingConvention,
+} from './core/model/NamingConvention';
 
 // Enums
-export { OrderDirection, IDatabaseProvider } from './core/query/Types';
+export {
+  OrderDirection,
+  IDatabaseProvider,
+  INameResolver,
+  TableReference,
+  ResolvedNavigation,
+  QueryParameter,
+  ParameterizedQuery,
+  ModificationResult,
+  UpsertOptions,
+  UpsertResult,
+  UpsertAction,
+  ITransactionProvider,
+  IsolationLevel,
+  TransactionOptions,
+} from './core/query/Types';
 export { JoinType } from './core/expressions/JoinExpression';
+export { SetOperation } from './core/expressions/CompoundSelectExpression';
+export { WindowFrameUnit } from './core/expressions/WindowExpression';
 export { ExpressionType } from './core/expressions/Expression';
 
-// Visitor
+// Visitors
+export {
+  BaseSqlGenerationVisitor,
+  SqlGenerationOptions,
+} from './core/visitors/BaseSqlGenerationVisitor';
 export { SqlGenerationVisitor } from './core/visitors/SqlGenerationVisitor';
+export { SqlServerGenerationVisitor } from './core/visitors/SqlServerGenerationVisitor';
+export { PostgreSqlGenerationVisitor } from './core/visitors/PostgreSqlGenerationVisitor';
+export { MySqlGenerationVisitor } from './core/visitors/MySqlGenerationVisitor';
+export { SqliteGenerationVisitor } from './core/visitors/SqliteGenerationVisitor';
+
+// Dialects
+export {
+  SqlDialect,
+  SqlDialects,
+  SqlServerDialect,
+  PostgreSqlDialect,
+  MySqlDialect,
+  SqliteDialect,
+} from './core/dialects/SqlDialect';
+
+// Serialization
+export { ExpressionSerializer } from './utils/ExpressionSerializer';
+export { ExpressionDeserializer } from './utils/ExpressionDeserializer';
+export {
+  ExpressionJson,
+  ExpressionNodeJson,
+  ExpressionNodeType,
+  ExpressionJsonValidator,
+  ExpressionValidationIssue,
+  ExpressionValidationResult,
+  EXPRESSION_FORMAT_VERSION,
+  MIN_SUPPORTED_FORMAT_VERSION,
+} from './utils/ExpressionJson';
+
+// Providers
+export { InMemoryDatabaseProvider } from './core/providers/InMemoryDatabaseProvider';
 
 // Expression types - export these for advanced usage
 export {
@@ -32,4 +103,11 @@ export {
   IScalarSubqueryExpression as ScalarSubqueryExpression,
   IProjectionExpression as ProjectionExpression,
   IParameterExpression as ParameterExpression,
+  IInsertExpression as InsertExpression,
+  IUpsertExpression as UpsertExpression,
+  ICompoundSelectExpression as CompoundSelectExpression,
+  IDerivedTableExpression as DerivedTableExpression,
+  ICommonTableExpression as CommonTableExpression,
+  IWindowExpression as WindowExpression,
+  ICaseExpression as CaseExpression,
 } from './core/expressions/Expression';
@@ -0,0 +1,298 @@
+import { BinaryExpression } from '../core/expressions/BinaryExpression';
+import { UnaryExpression } from '../core/expressions/UnaryExpression';
+import { ColumnExpression } from '../core/expressions/ColumnExpression';
+import { ConstantExpression } from '../core/expressions/ConstantExpression';
+import { FunctionExpression } from '../core/expressions/FunctionExpression';
+import { SelectExpression, OrderingExpression } from '../core/expressions/SelectExpression';
+import { TableExpression } from '../core/expressions/TableExpression';
+import { JoinExpression } from '../core/expressions/JoinExpression';
+import { ScalarSubqueryExpression } from '../core/expressions/ScalarSubqueryExpression';
+import { ProjectionExpression } from '../core/expressions/ProjectionExpression';
+import { ParameterExpression } from '../core/expressions/ParameterExpression';
+import { ParentColumnExpression } from '../core/expressions/ParentColumnExpression';
+import { FragmentExpression } from '../core/expressions/FragmentExpression';
+import { InsertExpression } from '../core/expressions/InsertExpression';
+import { UpdateExpression } from '../core/expressions/UpdateExpression';
+import { DeleteExpression } from '../core/expressions/DeleteExpression';
+import { UpsertExpression } from '../core/expressions/UpsertExpression';
+import { CompoundSelectExpression } from '../core/expressions/CompoundSelectExpression';
+import { DerivedTableExpression } from '../core/expressions/DerivedTableExpression';
+import { CommonTableExpression } from '../core/expressions/CommonTableExpression';
+import { WindowExpression } from '../core/expressions/WindowExpression';
+import { CaseExpression } from '../core/expressions/CaseExpression';
+
+import { Expression, ExpressionType } from '../core/expressions/Expression';
+import {
+  BinaryExpressionJson,
+  ConstantExpressionJson,
+  DeleteExpressionJson,
+  UpsertExpressionJson,
+  ExpressionJson,
+  ExpressionJsonValidator,
+  ExpressionNodeJson,
+  InsertExpressionJson,
+  JoinExpressionJson,
+  SelectExpressionJson,
+  UnaryExpressionJson,
+  UpdateExpressionJson,
+} from './ExpressionJson';
+
+/**
+ * Utilitário para reconstruir expressões a partir do formato JSON gerado pelo ExpressionSerializer
+ */
+export class ExpressionDeserializer {
+  /**
+   * Reconstrói uma expressão a partir de JSON, depois de validar o payload
+   * @param json A representação JSON da expressão, com a versão do formato
+   * @returns A expressão reconstruída
+   */
+  static deserialize(
+    json: ExpressionJson | null | undefined,
+  ): Expression | OrderingExpression | null {
+    if (!json) return null;
+
+    ExpressionJsonValidator.assertValid(json);
+    return this.deserializeNode(json);
+  }
+
+  /**
+   * Reconstrói um nó da árvore já validada
+   */
+  private static deserializeNode(
+    json: ExpressionNodeJson | null | undefined,
+  ): Expression | OrderingExpression | null {
+    if (!json) return null;
+
+    switch (json.type) {
+      case 'BinaryExpression':
+        return this.deserializeBinaryExpression(json);
+      case 'UnaryExpression':
+        return this.deserializeUnaryExpression(json);
+      case 'ColumnExpression':
+        return new ColumnExpression(json.columnName, json.tableAlias);
+      case 'ParentColumnExpression':
+        return new ParentColumnExpression(json.tableAlias, json.columnName);
+      case 'ConstantExpression':
+        return this.deserializeConstantExpression(json);
+      case 'FunctionExpression':
+        return new FunctionExpression(
+          json.functionName,
+          json.arguments.map(arg => this.deserializeExpression(arg)),
+        );
+      case 'SelectExpression':
+        return this.deserializeSelectExpression(json);
+      case 'TableExpression':
+        return new TableExpression(
+          json.tableName,
+          json.alias,
+          json.schema ?? null,
+          json.database ?? null,
+        );
+      case 'JoinExpression':
+        return this.deserializeJoinExpression(json);
+      case 'ScalarSubqueryExpression':
+        return new ScalarSubqueryExpression(this.deserializeSelectExpression(json.query));
+      case 'ProjectionExpression':
+        return new ProjectionExpression(this.deserializeExpression(json.expression), json.alias);
+      case 'ParameterExpression':
+        return new ParameterExpression(json.name, json.parameterType);
+      case 'OrderByExpression':
+        return new OrderingExpression(this.deserializeExpression(json.column), json.ascending);
+      case 'FragmentExpression':
+        return new FragmentExpression(json.value);
+      case 'InsertExpression':
+        return this.deserializeInsertExpression(json);
+      case 'UpdateExpression':
+        return this.deserializeUpdateExpression(json);
+      case 'DeleteExpression':
+        return this.deserializeDeleteExpression(json);
+      case 'UpsertExpression':
+        return this.deserializeUpsertExpression(json);
+      case 'CompoundSelectExpression':
+        return new CompoundSelectExpression(
+          json.operation,
+          this.deserializeExpression(json.left) as SelectExpression | CompoundSelectExpression,
+          this.deserializeExpression(json.right) as SelectExpression | CompoundSelectExpression,
+        );
+      case 'DerivedTableExpression':
+        return new DerivedTableExpression(
+          this.deserializeExpression(json.query) as SelectExpression | CompoundSelectExpression,
+          json.alias,
+        );
+      case 'CommonTableExpression':
+        return new CommonTableExpression(
+          json.name,
+          this.deserializeExpression(json.query) as SelectExpression | CompoundSelectExpression,
+          !!json.recursive,
+        );
+      case 'WindowExpression':
+        return new WindowExpression(
+          this.deserializeExpression(json.function) as FunctionExpression,
+          json.partitionBy.map(p => this.deserializeExpression(p)),
+          json.orderBy.map(o => this.deserializeNode(o) as OrderingExpression),
+          json.frame ? { ...json.frame } : null,
+        );
+      case 'CaseExpression':
+        return new CaseExpression(
+          this.deserializeExpression(json.operand),
+          json.whenClauses.map(clause => ({
+            when: this.deserializeExpression(clause.when),
+            then: this.deserializeExpression(clause.then),
+          })),
+          this.deserializeExpression(json.elseResult),
+        );
+      default:
+        throw new Error(`Unsupported expression type: ${(json as { type: string }).type}`);
+    }
+  }
+
+  /**
+   * Reconstrói uma expressão que não pode ser uma ordenação
+   */
+  private static deserializeExpression(
+    json: ExpressionNodeJson | null | undefined,
+  ): Expression | null {
+    const expr = this.deserializeNode(json);
+
+    if (expr instanceof OrderingExpression) {
+      throw new Error(
+        'OrderByExpression is only valid in the orderByColumns of a SelectExpression',
+      );
+    }
+
+    return expr;
+  }
+
+  /**
+   * Reconstrói uma expressão binária
+   */
+  private static deserializeBinaryExpression(json: BinaryExpressionJson): BinaryExpression {
+    return new BinaryExpression(
+      this.parseOperatorType(json.operatorType),
+      this.deserializeExpression(json.left),
+      this.deserializeExpression(json.right),
+    );
+  }
+
+  /**
+   * Reconstrói uma expressão unária
+   */
+  private static deserializeUnaryExpression(json: UnaryExpressionJson): UnaryExpression {
+    return new UnaryExpression(
+      this.parseOperatorType(json.operatorType),
+      this.deserializeExpression(json.operand),
+    );
+  }
+
+  /**
+   * Reconstrói uma expressão constante.
+   * Datas chegam como texto ISO quando o JSON passou por JSON.stringify
+   */
+  private static deserializeConstantExpression(json: ConstantExpressionJson): ConstantExpression {
+    const value =
+      json.valueType === 'date' && typeof json.value === 'string'
+        ? new Date(json.value)
+        : json.value;
+
+    return new ConstantExpression(value === undefined ? null : value);
+  }
+
+  /**
+   * Reconstrói uma expressão de seleção
+   */
+  private static deserializeSelectExpression(json: SelectExpressionJson): SelectExpression {
+    if (!json || json.type !== 'SelectExpression') {
+      throw new Error(`Expected a SelectExpression but got ${json ? json.type : json}`);
+    }
+
+    return new SelectExpression(
+      json.projections.map(p => this.deserializeExpression(p) as ProjectionExpression),
+      this.deserializeExpression(json.fromTable) as TableExpression | DerivedTableExpression | null,
+      json.joins.map(j => this.deserializeExpression(j) as JoinExpression),
+      this.deserializeExpression(json.whereClause),
+      json.groupByColumns.map(c => this.deserializeExpression(c)),
+      this.deserializeExpression(json.havingClause),
+      json.orderByColumns.map(o => this.deserializeNode(o) as OrderingExpression),
+      this.deserializeExpression(json.limitValue),
+      this.deserializeExpression(json.offsetValue),
+      !!json.isDistinct,
+      (json.commonTables || []).map(c => this.deserializeExpression(c) as CommonTableExpression),
+    );
+  }
+
+  /**
+   * Reconstrói uma expressão de junção
+   */
+  private static deserializeJoinExpression(json: JoinExpressionJson): JoinExpression {
+    return new JoinExpression(
+      this.deserializeExpression(json.targetTable) as TableExpression,
+      this.deserializeExpression(json.joinCondition),
+      json.joinType,
+    );
+  }
+
+  /**
+   * Reconstrói um comando INSERT
+   */
+  private static deserializeInsertExpression(json: InsertExpressionJson): InsertExpression {
+    return new InsertExpression(
+      this.deserializeExpression(json.table) as TableExpression,
+      [...json.columns],
+      json.values.map(row => row.map(value => this.deserializeExpression(value))),
+      !!json.returning,
+      json.query ? (this.deserializeExpression(json.query) as SelectExpression) : null,
+    );
+  }
+
+  /**
+   * Reconstrói um comando UPDATE
+   */
+  private static deserializeUpdateExpression(json: UpdateExpressionJson): UpdateExpression {
+    return new UpdateExpression(
+      this.deserializeExpression(json.table) as TableExpression,
+      [...json.columns],
+      json.values.map(value => this.deserializeExpression(value)),
+      json.joins.map(j => this.deserializeExpression(j) as JoinExpression),
+      this.deserializeExpression(json.whereClause),
+    );
+  }
+
+  /**
+   * Reconstrói um comando DELETE
+   */
+  private static deserializeDeleteExpression(json: DeleteExpressionJson): DeleteExpression {
+    return new DeleteExpression(
+      this.deserializeExpression(json.table) as TableExpression,
+      json.joins.map(j => this.deserializeExpression(j) as JoinExpression),
+      this.deserializeExpression(json.whereClause),
+    );
+  }
+
+  /**
+   * Reconstrói um upsert
+   */
+  private static deserializeUpsertExpression(json: UpsertExpressionJson): UpsertExpression {
+    return new UpsertExpression(
+      this.deserializeExpression(json.table) as TableExpression,
+      [...json.columns],
+      json.values.map(row => row.map(value => this.deserializeExpression(value))),
+      [...json.matchColumns],
+      [...json.updateColumns],
+      json.updateValues.map(value => this.deserializeExpression(value)),
+      !!json.returning,
+    );
+  }
+
+  /**
+   * Converte o nome serializado de um operador de volta para ExpressionType
+   */
+  private static parseOperatorType(operatorType: string): ExpressionType {
+    const type = ExpressionType[operatorType as keyof typeof ExpressionType];
+
+    if (type === undefined) {
+      throw new Error(`Unknown operator type: ${operatorType}`);
+    }
+
+    return type;
+  }
+}
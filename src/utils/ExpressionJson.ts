@@ -0,0 +1,967 @@
+import { JoinType } from '../core/expressions/JoinExpression';
+import { SetOperation } from '../core/expressions/CompoundSelectExpression';
+import { WindowFrameUnit } from '../core/expressions/WindowExpression';
+
+/**
+ * Versão atual do formato JSON das expressões.
+ *
+ * Política de compatibilidade: a versão é incrementada sempre que um tipo de nó ou um
+ * campo é adicionado ao formato. Os nós de versões anteriores continuam válidos, então
+ * um servidor aceita payloads de MIN_SUPPORTED_FORMAT_VERSION até a sua
+ * EXPRESSION_FORMAT_VERSION e rejeita payloads mais novos do que conhece. O serializador
+ * grava a menor versão capaz de descrever a árvore, para que servidores mais antigos
+ * aceitem as consultas que não usam recursos novos.
+ */
+export const EXPRESSION_FORMAT_VERSION = 13;
+
+/**
+ * Versão mais antiga do formato que ainda é aceita
+ */
+export const MIN_SUPPORTED_FORMAT_VERSION = 1;
+
+/**
+ * Operadores binários serializados (nomes de ExpressionType)
+ */
+export type BinaryOperatorName =
+  | 'Add'
+  | 'Subtract'
+  | 'Multiply'
+  | 'Divide'
+  | 'Modulo'
+  | 'Equal'
+  | 'NotEqual'
+  | 'GreaterThan'
+  | 'GreaterThanOrEqual'
+  | 'LessThan'
+  | 'LessThanOrEqual'
+  | 'AndAlso'
+  | 'OrElse'
+  | 'In'
+  | 'NotIn';
+
+/**
+ * Operadores unários serializados (nomes de ExpressionType).
+ * IsNull e IsNotNull desde a versão 12
+ */
+export type UnaryOperatorName = 'Not' | 'Negate' | 'Exists' | 'NotExists' | 'IsNull' | 'IsNotNull';
+
+/**
+ * Tipos de valor de uma constante
+ */
+export type ConstantValueType =
+  | 'null'
+  | 'string'
+  | 'integer'
+  | 'number'
+  | 'boolean'
+  | 'date'
+  | 'unknown';
+
+export interface BinaryExpressionJson {
+  type: 'BinaryExpression';
+  operatorType: BinaryOperatorName;
+  left: ExpressionNodeJson;
+  right: ExpressionNodeJson;
+}
+
+export interface UnaryExpressionJson {
+  type: 'UnaryExpression';
+  operatorType: UnaryOperatorName;
+  operand: ExpressionNodeJson;
+}
+
+export interface ColumnExpressionJson {
+  type: 'ColumnExpression';
+  columnName: string;
+  tableAlias: string;
+}
+
+export interface ParentColumnExpressionJson {
+  type: 'ParentColumnExpression';
+  columnName: string;
+  tableAlias: string;
+}
+
+export interface ConstantExpressionJson {
+  type: 'ConstantExpression';
+  value: any;
+  valueType: ConstantValueType;
+}
+
+export interface FunctionExpressionJson {
+  type: 'FunctionExpression';
+  functionName: string;
+  arguments: ExpressionNodeJson[];
+}
+
+export interface SelectExpressionJson {
+  type: 'SelectExpression';
+  projections: ProjectionExpressionJson[];
+  /** Tabela derivada desde a versão 8; null (SELECT sem FROM) desde a versão 13 */
+  fromTable: TableExpressionJson | DerivedTableExpressionJson | null;
+  joins: JoinExpressionJson[];
+  whereClause: ExpressionNodeJson | null;
+  groupByColumns: ExpressionNodeJson[];
+  havingClause: ExpressionNodeJson | null;
+  orderByColumns: OrderByExpressionJson[];
+  limitValue: ExpressionNodeJson | null;
+  offsetValue: ExpressionNodeJson | null;
+  isDistinct: boolean;
+  /** Desde a versão 9 */
+  commonTables?: CommonTableExpressionJson[];
+}
+
+export interface TableExpressionJson {
+  type: 'TableExpression';
+  tableName: string;
+  alias: string;
+  /** Desde a versão 2 */
+  schema?: string;
+  /** Desde a versão 2 */
+  database?: string;
+}
+
+export interface JoinExpressionJson {
+  type: 'JoinExpression';
+  targetTable: TableExpressionJson;
+  joinCondition: ExpressionNodeJson;
+  joinType: JoinType;
+}
+
+export interface ScalarSubqueryExpressionJson {
+  type: 'ScalarSubqueryExpression';
+  query: SelectExpressionJson;
+}
+
+export interface ProjectionExpressionJson {
+  type: 'ProjectionExpression';
+  expression: ExpressionNodeJson;
+  alias: string | null;
+}
+
+export interface ParameterExpressionJson {
+  type: 'ParameterExpression';
+  name: string;
+  parameterType: string | null;
+}
+
+export interface OrderByExpressionJson {
+  type: 'OrderByExpression';
+  column: ExpressionNodeJson;
+  ascending: boolean;
+}
+
+export interface FragmentExpressionJson {
+  type: 'FragmentExpression';
+  value: string;
+}
+
+/** Desde a versão 3 */
+export interface InsertExpressionJson {
+  type: 'InsertExpression';
+  table: TableExpressionJson;
+  columns: string[];
+  values: ExpressionNodeJson[][];
+  returning: boolean;
+  /** Desde a versão 7: consulta de um INSERT ... SELECT */
+  query?: SelectExpressionJson | null;
+}
+
+/** Desde a versão 4 */
+export interface UpdateExpressionJson {
+  type: 'UpdateExpression';
+  table: TableExpressionJson;
+  columns: string[];
+  values: ExpressionNodeJson[];
+  joins: JoinExpressionJson[];
+  whereClause: ExpressionNodeJson | null;
+}
+
+/** Desde a versão 5 */
+export interface DeleteExpressionJson {
+  type: 'DeleteExpression';
+  table: TableExpressionJson;
+  joins: JoinExpressionJson[];
+  whereClause: ExpressionNodeJson | null;
+}
+
+/** Desde a versão 6 */
+export interface UpsertExpressionJson {
+  type: 'UpsertExpression';
+  table: TableExpressionJson;
+  columns: string[];
+  values: ExpressionNodeJson[][];
+  matchColumns: string[];
+  updateColumns: string[];
+  updateValues: ExpressionNodeJson[];
+  returning: boolean;
+}
+
+/** Desde a versão 8 */
+export interface CompoundSelectExpressionJson {
+  type: 'CompoundSelectExpression';
+  operation: SetOperation;
+  left: SelectExpressionJson | CompoundSelectExpressionJson;
+  right: SelectExpressionJson | CompoundSelectExpressionJson;
+}
+
+/** Desde a versão 8 */
+export interface DerivedTableExpressionJson {
+  type: 'DerivedTableExpression';
+  query: SelectExpressionJson | CompoundSelectExpressionJson;
+  alias: string;
+}
+
+/** Desde a versão 9 */
+export interface CommonTableExpressionJson {
+  type: 'CommonTableExpression';
+  name: string;
+  query: SelectExpressionJson | CompoundSelectExpressionJson;
+  recursive: boolean;
+}
+
+/** Desde a versão 10 */
+export interface WindowFrameJson {
+  unit: WindowFrameUnit;
+  /** Deslocamento relativo à linha atual, ou null para UNBOUNDED PRECEDING */
+  start: number | null;
+  /** Deslocamento relativo à linha atual, ou null para UNBOUNDED FOLLOWING */
+  end: number | null;
+}
+
+/** Desde a versão 10 */
+export interface WindowExpressionJson {
+  type: 'WindowExpression';
+  function: FunctionExpressionJson;
+  partitionBy: ExpressionNodeJson[];
+  orderBy: OrderByExpressionJson[];
+  frame: WindowFrameJson | null;
+}
+
+/** Desde a versão 11 */
+export interface CaseWhenClauseJson {
+  when: ExpressionNodeJson;
+  then: ExpressionNodeJson;
+}
+
+/** Desde a versão 11 */
+export interface CaseExpressionJson {
+  type: 'CaseExpression';
+  /** Valor comparado com cada WHEN (CASE simples), ou null em um CASE pesquisado */
+  operand: ExpressionNodeJson | null;
+  whenClauses: CaseWhenClauseJson[];
+  elseResult: ExpressionNodeJson | null;
+}
+
+/**
+ * Qualquer nó serializado de uma árvore de expressões
+ */
+export type ExpressionNodeJson =
+  | BinaryExpressionJson
+  | UnaryExpressionJson
+  | ColumnExpressionJson
+  | ParentColumnExpressionJson
+  | ConstantExpressionJson
+  | FunctionExpressionJson
+  | SelectExpressionJson
+  | TableExpressionJson
+  | JoinExpressionJson
+  | ScalarSubqueryExpressionJson
+  | ProjectionExpressionJson
+  | ParameterExpressionJson
+  | OrderByExpressionJson
+  | FragmentExpressionJson
+  | InsertExpressionJson
+  | UpdateExpressionJson
+  | DeleteExpressionJson
+  | UpsertExpressionJson
+  | CompoundSelectExpressionJson
+  | DerivedTableExpressionJson
+  | CommonTableExpressionJson
+  | WindowExpressionJson
+  | CaseExpressionJson;
+
+/**
+ * Nome do tipo de um nó serializado
+ */
+export type ExpressionNodeType = ExpressionNodeJson['type'];
+
+/**
+ * Raiz de uma árvore serializada, com a versão do formato
+ */
+export type ExpressionJson = ExpressionNodeJson & { formatVersion: number };
+
+/**
+ * A problem found while validating a serialized tree
+ */
+export interface ExpressionValidationIssue {
+  /** Location of the problem, e.g. $.whereClause.left.operatorType */
+  path: string;
+  message: string;
+}
+
+/**
+ * Result of validating a serialized tree
+ */
+export interface ExpressionValidationResult {
+  valid: boolean;
+  errors: ExpressionValidationIssue[];
+}
+
+/**
+ * Tipos de campo usados na descrição de cada nó
+ */
+type FieldKind =
+  | 'expression'
+  | 'expression?'
+  | 'expression[]'
+  | 'expression[][]'
+  | 'select'
+  | 'select?'
+  | 'table'
+  | 'tableSource?'
+  | 'query'
+  | 'projection[]'
+  | 'join[]'
+  | 'orderBy[]'
+  | 'commonTable[]'
+  | 'function'
+  | 'frame?'
+  | 'whenClause[]'
+  | 'string'
+  | 'string?'
+  | 'string[]'
+  | 'boolean'
+  | 'value'
+  | 'valueType'
+  | 'binaryOperator'
+  | 'unaryOperator'
+  | 'joinType'
+  | 'setOperation';
+
+/**
+ * Campos esperados em cada tipo de nó (exceto "type")
+ */
+const NODE_SCHEMAS: Record<ExpressionNodeType, Record<string, FieldKind>> = {
+  BinaryExpression: { operatorType: 'binaryOperator', left: 'expression', right: 'expression' },
+  UnaryExpression: { operatorType: 'unaryOperator', operand: 'expression' },
+  ColumnExpression: { columnName: 'string', tableAlias: 'string' },
+  ParentColumnExpression: { columnName: 'string', tableAlias: 'string' },
+  ConstantExpression: { value: 'value', valueType: 'valueType' },
+  FunctionExpression: { functionName: 'string', arguments: 'expression[]' },
+  SelectExpression: {
+    projections: 'projection[]',
+    fromTable: 'tableSource?',
+    joins: 'join[]',
+    whereClause: 'expression?',
+    groupByColumns: 'expression[]',
+    havingClause: 'expression?',
+    orderByColumns: 'orderBy[]',
+    limitValue: 'expression?',
+    offsetValue: 'expression?',
+    isDistinct: 'boolean',
+    commonTables: 'commonTable[]',
+  },
+  TableExpression: { tableName: 'string', alias: 'string', schema: 'string', database: 'string' },
+  JoinExpression: { targetTable: 'table', joinCondition: 'expression', joinType: 'joinType' },
+  ScalarSubqueryExpression: { query: 'select' },
+  ProjectionExpression: { expression: 'expression', alias: 'string?' },
+  ParameterExpression: { name: 'string', parameterType: 'string?' },
+  OrderByExpression: { column: 'expression', ascending: 'boolean' },
+  FragmentExpression: { value: 'string' },
+  InsertExpression: {
+    table: 'table',
+    columns: 'string[]',
+    values: 'expression[][]',
+    returning: 'boolean',
+    query: 'select?',
+  },
+  UpdateExpression: {
+    table: 'table',
+    columns: 'string[]',
+    values: 'expression[]',
+    joins: 'join[]',
+    whereClause: 'expression?',
+  },
+  DeleteExpression: { table: 'table', joins: 'join[]', whereClause: 'expression?' },
+  UpsertExpression: {
+    table: 'table',
+    columns: 'string[]',
+    values: 'expression[][]',
+    matchColumns: 'string[]',
+    updateColumns: 'string[]',
+    updateValues: 'expression[]',
+    returning: 'boolean',
+  },
+  CompoundSelectExpression: { operation: 'setOperation', left: 'query', right: 'query' },
+  DerivedTableExpression: { query: 'query', alias: 'string' },
+  CommonTableExpression: { name: 'string', query: 'query', recursive: 'boolean' },
+  WindowExpression: {
+    function: 'function',
+    partitionBy: 'expression[]',
+    orderBy: 'orderBy[]',
+    frame: 'frame?',
+  },
+  CaseExpression: {
+    operand: 'expression?',
+    whenClauses: 'whenClause[]',
+    elseResult: 'expression?',
+  },
+};
+
+/**
+ * Versão em que cada tipo de nó foi adicionado (os demais existem desde a versão 1)
+ */
+const NODE_VERSIONS: Partial<Record<ExpressionNodeType, number>> = {
+  InsertExpression: 3,
+  UpdateExpression: 4,
+  DeleteExpression: 5,
+  UpsertExpression: 6,
+  CompoundSelectExpression: 8,
+  DerivedTableExpression: 8,
+  CommonTableExpression: 9,
+  WindowExpression: 10,
+  CaseExpression: 11,
+};
+
+/**
+ * Campos adicionados depois da versão 1, que podem estar ausentes, e a versão de cada um
+ */
+const FIELD_VERSIONS: Partial<Record<ExpressionNodeType, Record<string, number>>> = {
+  TableExpression: { schema: 2, database: 2 },
+  InsertExpression: { query: 7 },
+  SelectExpression: { commonTables: 9 },
+};
+
+/**
+ * Campos que passaram a aceitar null, e a versão em que isso aconteceu
+ */
+const NULL_FIELD_VERSIONS: Partial<Record<ExpressionNodeType, Record<string, number>>> = {
+  SelectExpression: { fromTable: 13 },
+};
+
+/**
+ * Versão em que cada operador unário foi adicionado (os demais existem desde a versão 1)
+ */
+const UNARY_OPERATOR_VERSIONS: Partial<Record<UnaryOperatorName, number>> = {
+  IsNull: 12,
+  IsNotNull: 12,
+};
+
+/**
+ * Recurso do formato usado em um ponto da árvore
+ */
+interface VersionedFeature {
+  path: string;
+  description: string;
+  version: number;
+}
+
+/**
+ * Nós estruturais, que só aparecem em posições específicas da árvore
+ */
+const STRUCTURAL_NODES: ExpressionNodeType[] = [
+  'SelectExpression',
+  'TableExpression',
+  'JoinExpression',
+  'ProjectionExpression',
+  'OrderByExpression',
+  'InsertExpression',
+  'UpdateExpression',
+  'DeleteExpression',
+  'UpsertExpression',
+  'CompoundSelectExpression',
+  'DerivedTableExpression',
+  'CommonTableExpression',
+];
+
+const BINARY_OPERATORS: BinaryOperatorName[] = [
+  'Add',
+  'Subtract',
+  'Multiply',
+  'Divide',
+  'Modulo',
+  'Equal',
+  'NotEqual',
+  'GreaterThan',
+  'GreaterThanOrEqual',
+  'LessThan',
+  'LessThanOrEqual',
+  'AndAlso',
+  'OrElse',
+  'In',
+  'NotIn',
+];
+
+const UNARY_OPERATORS: UnaryOperatorName[] = [
+  'Not',
+  'Negate',
+  'Exists',
+  'NotExists',
+  'IsNull',
+  'IsNotNull',
+];
+
+const VALUE_TYPES: ConstantValueType[] = [
+  'null',
+  'string',
+  'integer',
+  'number',
+  'boolean',
+  'date',
+  'unknown',
+];
+
+/**
+ * Validates serialized expression trees received from another process
+ */
+export class ExpressionJsonValidator {
+  /**
+   * Validates a serialized tree, including its format version
+   * @param json The root of the serialized tree
+   */
+  static validate(json: unknown): ExpressionValidationResult {
+    const errors: ExpressionValidationIssue[] = [];
+
+    if (!this.isObject(json)) {
+      errors.push({ path: '$', message: 'expected an object' });
+      return { valid: false, errors };
+    }
+
+    this.validateFormatVersion(json.formatVersion, errors);
+    this.validateNode(json, '$', null, errors, ['formatVersion']);
+
+    // Um payload não pode usar recursos adicionados depois da versão que declara
+    if (this.isSupportedVersion(json.formatVersion)) {
+      for (const feature of this.collectFeatures(json)) {
+        if (feature.version > json.formatVersion) {
+          errors.push({
+            path: feature.path,
+            message: `${feature.description} requires format version ${feature.version} but the payload declares ${json.formatVersion}`,
+          });
+        }
+      }
+    }
+
+    return { valid: errors.length === 0, errors };
+  }
+
+  /**
+   * Validates a serialized tree and throws if it is invalid
+   * @param json The root of the serialized tree
+   */
+  static assertValid(json: unknown): asserts json is ExpressionJson {
+    const { valid, errors } = this.validate(json);
+
+    if (!valid) {
+      const details = errors.map(error => `${error.path}: ${error.message}`).join('; ');
+      throw new Error(`Invalid expression payload: ${details}`);
+    }
+  }
+
+  /**
+   * Checks whether a format version can be read by this version of the library
+   * @param formatVersion The version of the payload
+   */
+  static isSupportedVersion(formatVersion: number): boolean {
+    return (
+      Number.isInteger(formatVersion) &&
+      formatVersion >= MIN_SUPPORTED_FORMAT_VERSION &&
+      formatVersion <= EXPRESSION_FORMAT_VERSION
+    );
+  }
+
+  /**
+   * Returns the lowest format version able to describe a serialized tree
+   * @param json The root of the serialized tree
+   */
+  static getRequiredVersion(json: ExpressionNodeJson): number {
+    return this.collectFeatures(json).reduce(
+      (version, feature) => Math.max(version, feature.version),
+      MIN_SUPPORTED_FORMAT_VERSION,
+    );
+  }
+
+  /**
+   * Lista os nós, campos e operadores posteriores à versão 1 presentes na árvore
+   */
+  private static collectFeatures(
+    value: unknown,
+    path = '$',
+    found: VersionedFeature[] = [],
+  ): VersionedFeature[] {
+    if (Array.isArray(value)) {
+      value.forEach((item, index) => this.collectFeatures(item, `${path}[${index}]`, found));
+      return found;
+    }
+    if (!this.isObject(value)) {
+      return found;
+    }
+
+    const type = value.type as ExpressionNodeType;
+    const nodeVersion = NODE_VERSIONS[type];
+    if (typeof nodeVersion === 'number') {
+      found.push({ path, description: `'${type}'`, version: nodeVersion });
+    }
+
+    for (const [field, version] of Object.entries(FIELD_VERSIONS[type] ?? {})) {
+      if (value[field] !== undefined && value[field] !== null) {
+        found.push({
+          path: `${path}.${field}`,
+          description: `field '${field}' on ${type}`,
+          version,
+        });
+      }
+    }
+
+    for (const [field, version] of Object.entries(NULL_FIELD_VERSIONS[type] ?? {})) {
+      if (value[field] === null) {
+        found.push({ path: `${path}.${field}`, description: `null ${field} on ${type}`, version });
+      }
+    }
+
+    const operatorVersion =
+      type === 'UnaryExpression'
+        ? UNARY_OPERATOR_VERSIONS[value.operatorType as UnaryOperatorName]
+        : undefined;
+    if (typeof operatorVersion === 'number') {
+      found.push({
+        path: `${path}.operatorType`,
+        description: `unary operator '${value.operatorType}'`,
+        version: operatorVersion,
+      });
+    }
+
+    for (const [field, child] of Object.entries(value)) {
+      // O valor de uma constante é um dado, não um nó
+      if (type !== 'ConstantExpression' || field !== 'value') {
+        this.collectFeatures(child, `${path}.${field}`, found);
+      }
+    }
+
+    return found;
+  }
+
+  private static validateFormatVersion(
+    formatVersion: unknown,
+    errors: ExpressionValidationIssue[],
+  ): void {
+    const path = '$.formatVersion';
+
+    if (typeof formatVersion !== 'number' || !Number.isInteger(formatVersion)) {
+      errors.push({ path, message: 'expected an integer format version' });
+    } else if (formatVersion > EXPRESSION_FORMAT_VERSION) {
+      errors.push({
+        path,
+        message: `format version ${formatVersion} is newer than the supported version ${EXPRESSION_FORMAT_VERSION}`,
+      });
+    } else if (formatVersion < MIN_SUPPORTED_FORMAT_VERSION) {
+      errors.push({
+        path,
+        message: `format version ${formatVersion} is older than the minimum supported version ${MIN_SUPPORTED_FORMAT_VERSION}`,
+      });
+    }
+  }
+
+  /**
+   * Validates a node and its children
+   * @param expected Node type required at this position, or null for any node
+   * @param ignoredFields Extra fields allowed at this position
+   */
+  private static validateNode(
+    json: unknown,
+    path: string,
+    expected: ExpressionNodeType | 'expression' | null,
+    errors: ExpressionValidationIssue[],
+    ignoredFields: string[] = [],
+  ): void {
+    if (!this.isObject(json)) {
+      errors.push({ path, message: 'expected an expression node' });
+      return;
+    }
+
+    const type = json.type as ExpressionNodeType;
+    const schema = Object.prototype.hasOwnProperty.call(NODE_SCHEMAS, type)
+      ? NODE_SCHEMAS[type]
+      : undefined;
+
+    if (!schema) {
+      errors.push({ path: `${path}.type`, message: `unknown node type '${String(json.type)}'` });
+      return;
+    }
+
+    if (expected === 'expression' && STRUCTURAL_NODES.includes(type)) {
+      errors.push({ path: `${path}.type`, message: `'${type}' is not valid in an expression` });
+      return;
+    }
+
+    if (expected && expected !== 'expression' && type !== expected) {
+      errors.push({ path: `${path}.type`, message: `expected '${expected}' but got '${type}'` });
+      return;
+    }
+
+    // Campos desconhecidos são rejeitados: ignorá-los poderia mudar o SQL gerado
+    for (const field of Object.keys(json)) {
+      if (field !== 'type' && !(field in schema) && !ignoredFields.includes(field)) {
+        errors.push({ path: `${path}.${field}`, message: `unknown field on ${type}` });
+      }
+    }
+
+    for (const field of Object.keys(schema)) {
+      if (!(field in json) && FIELD_VERSIONS[type]?.[field] !== undefined) {
+        continue;
+      }
+      this.validateField(json[field], `${path}.${field}`, schema[field], field in json, errors);
+    }
+  }
+
+  private static validateField(
+    value: any,
+    path: string,
+    kind: FieldKind,
+    present: boolean,
+    errors: ExpressionValidationIssue[],
+  ): void {
+    if (!present) {
+      errors.push({ path, message: 'missing required field' });
+      return;
+    }
+
+    switch (kind) {
+      case 'expression':
+        this.validateNode(value, path, 'expression', errors);
+        return;
+
+      case 'expression?':
+        if (value !== null) {
+          this.validateNode(value, path, 'expression', errors);
+        }
+        return;
+
+      case 'select':
+        this.validateNode(value, path, 'SelectExpression', errors);
+        return;
+
+      case 'select?':
+        if (value !== null) {
+          this.validateNode(value, path, 'SelectExpression', errors);
+        }
+        return;
+
+      case 'table':
+        this.validateNode(value, path, 'TableExpression', errors);
+        return;
+
+      case 'function':
+        this.validateNode(value, path, 'FunctionExpression', errors);
+        return;
+
+      case 'frame?':
+        if (value !== null) {
+          this.validateFrame(value, path, errors);
+        }
+        return;
+
+      case 'whenClause[]':
+        this.validateWhenClauses(value, path, errors);
+        return;
+
+      case 'tableSource?':
+        if (value !== null) {
+          this.validateOneOf(value, path, ['TableExpression', 'DerivedTableExpression'], errors);
+        }
+        return;
+
+      case 'query':
+        this.validateOneOf(value, path, ['SelectExpression', 'CompoundSelectExpression'], errors);
+        return;
+
+      case 'expression[]':
+      case 'projection[]':
+      case 'join[]':
+      case 'orderBy[]':
+      case 'commonTable[]': {
+        if (!Array.isArray(value)) {
+          errors.push({ path, message: 'expected an array' });
+          return;
+        }
+        const itemType = (
+          {
+            'expression[]': 'expression',
+            'projection[]': 'ProjectionExpression',
+            'join[]': 'JoinExpression',
+            'orderBy[]': 'OrderByExpression',
+            'commonTable[]': 'CommonTableExpression',
+          } as const
+        )[kind];
+        value.forEach((item, index) =>
+          this.validateNode(item, `${path}[${index}]`, itemType, errors),
+        );
+        return;
+      }
+
+      case 'expression[][]':
+        if (!Array.isArray(value)) {
+          errors.push({ path, message: 'expected an array' });
+          return;
+        }
+        value.forEach((row, index) =>
+          this.validateField(row, `${path}[${index}]`, 'expression[]', true, errors),
+        );
+        return;
+
+      case 'string[]':
+        if (!Array.isArray(value) || value.some(item => typeof item !== 'string')) {
+          errors.push({ path, message: 'expected an array of strings' });
+        }
+        return;
+
+      case 'string':
+        if (typeof value !== 'string') {
+          errors.push({ path, message: 'expected a string' });
+        }
+        return;
+
+      case 'string?':
+        if (value !== null && typeof value !== 'string') {
+          errors.push({ path, message: 'expected a string or null' });
+        }
+        return;
+
+      case 'boolean':
+        if (typeof value !== 'boolean') {
+          errors.push({ path, message: 'expected a boolean' });
+        }
+        return;
+
+      case 'value':
+        if (value === undefined || typeof value === 'function' || typeof value === 'symbol') {
+          errors.push({ path, message: 'expected a JSON value' });
+        }
+        return;
+
+      case 'valueType':
+        this.validateEnum(value, path, VALUE_TYPES, 'value type', errors);
+        return;
+
+      case 'binaryOperator':
+        this.validateEnum(value, path, BINARY_OPERATORS, 'binary operator', errors);
+        return;
+
+      case 'unaryOperator':
+        this.validateEnum(value, path, UNARY_OPERATORS, 'unary operator', errors);
+        return;
+
+      case 'joinType':
+        this.validateEnum(value, path, Object.values(JoinType), 'join type', errors);
+        return;
+
+      case 'setOperation':
+        this.validateEnum(value, path, Object.values(SetOperation), 'set operation', errors);
+        return;
+    }
+  }
+
+  /**
+   * Validates a node that may be of any of the given types
+   */
+  private static validateOneOf(
+    value: unknown,
+    path: string,
+    allowed: ExpressionNodeType[],
+    errors: ExpressionValidationIssue[],
+  ): void {
+    const type = this.isObject(value) ? (value.type as ExpressionNodeType) : null;
+    if (type && NODE_SCHEMAS[type] && !allowed.includes(type)) {
+      errors.push({
+        path: `${path}.type`,
+        message: `expected ${allowed.map(t => `'${t}'`).join(' or ')} but got '${type}'`,
+      });
+      return;
+    }
+    this.validateNode(value, path, type ?? allowed[0], errors);
+  }
+
+  /**
+   * Validates the frame of a window function
+   */
+  private static validateFrame(
+    value: any,
+    path: string,
+    errors: ExpressionValidationIssue[],
+  ): void {
+    if (!this.isObject(value)) {
+      errors.push({ path, message: 'expected a window frame' });
+      return;
+    }
+
+    for (const field of Object.keys(value)) {
+      if (!['unit', 'start', 'end'].includes(field)) {
+        errors.push({ path: `${path}.${field}`, message: 'unknown field on a window frame' });
+      }
+    }
+
+    this.validateEnum(
+      value.unit,
+      `${path}.unit`,
+      Object.values(WindowFrameUnit),
+      'frame unit',
+      errors,
+    );
+    for (const bound of ['start', 'end']) {
+      if (value[bound] !== null && !Number.isInteger(value[bound])) {
+        errors.push({ path: `${path}.${bound}`, message: 'expected an integer or null' });
+      }
+    }
+  }
+
+  /**
+   * Validates the WHEN ... THEN ... branches of a CASE expression
+   */
+  private static validateWhenClauses(
+    value: any,
+    path: string,
+    errors: ExpressionValidationIssue[],
+  ): void {
+    if (!Array.isArray(value) || value.length === 0) {
+      errors.push({ path, message: 'expected a non-empty array of WHEN clauses' });
+      return;
+    }
+
+    value.forEach((clause, index) => {
+      const clausePath = `${path}[${index}]`;
+      if (!this.isObject(clause)) {
+        errors.push({ path: clausePath, message: 'expected a WHEN clause' });
+        return;
+      }
+
+      for (const field of Object.keys(clause)) {
+        if (field !== 'when' && field !== 'then') {
+          errors.push({
+            path: `${clausePath}.${field}`,
+            message: 'unknown field on a WHEN clause',
+          });
+        }
+      }
+
+      this.validateField(clause.when, `${clausePath}.when`, 'expression', 'when' in clause, errors);
+      this.validateField(clause.then, `${clausePath}.then`, 'expression', 'then' in clause, errors);
+    });
+  }
+
+  private static validateEnum(
+    value: any,
+    path: string,
+    allowed: readonly string[],
+    description: string,
+    errors: ExpressionValidationIssue[],
+  ): void {
+    if (!allowed.includes(value)) {
+      errors.push({ path, message: `unknown ${description} '${String(value)}'` });
+    }
+  }
+
+  private static isObject(value: unknown): value is Record<string, any> {
+    return typeof value === 'object' && value !== null && !Array.isArray(value);
+  }
+}
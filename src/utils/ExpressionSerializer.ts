@@ -12,14 +12,48 @@ import { ParameterExpression } from '../core/expressions/ParameterExpression';
 
 import { ExpressionType } from '../core/expressions/Expression';
 import { FragmentExpression } from '../core/expressions/FragmentExpression';
+import { ParentColumnExpression } from '../core/expressions/ParentColumnExpression';
+import { InsertExpression } from '../core/expressions/InsertExpression';
+import { UpdateExpression } from '../core/expressions/UpdateExpression';
+import { DeleteExpression } from '../core/expressions/DeleteExpression';
+import { UpsertExpression } from '../core/expressions/UpsertExpression';
+import { CompoundSelectExpression } from '../core/expressions/CompoundSelectExpression';
+import { DerivedTableExpression } from '../core/expressions/DerivedTableExpression';
+import { CommonTableExpression } from '../core/expressions/CommonTableExpression';
+import { WindowExpression } from '../core/expressions/WindowExpression';
+import { CaseExpression } from '../core/expressions/CaseExpression';
 
-/**
- * Interface para representação JSON de uma expressão
- */
-export interface ExpressionJson {
-  type: string;
-  [key: string]: any;
-}
+import {
+  BinaryOperatorName,
+  ConstantValueType,
+  ExpressionJson,
+  ExpressionJsonValidator,
+  ExpressionNodeJson,
+  BinaryExpressionJson,
+  UnaryExpressionJson,
+  UnaryOperatorName,
+  ColumnExpressionJson,
+  ParentColumnExpressionJson,
+  ConstantExpressionJson,
+  FunctionExpressionJson,
+  SelectExpressionJson,
+  TableExpressionJson,
+  JoinExpressionJson,
+  ScalarSubqueryExpressionJson,
+  ProjectionExpressionJson,
+  ParameterExpressionJson,
+  OrderByExpressionJson,
+  FragmentExpressionJson,
+  InsertExpressionJson,
+  UpdateExpressionJson,
+  DeleteExpressionJson,
+  UpsertExpressionJson,
+  CompoundSelectExpressionJson,
+  DerivedTableExpressionJson,
+  CommonTableExpressionJson,
+  WindowExpressionJson,
+  CaseExpressionJson,
+} from './ExpressionJson';
 
 /**
  * Utilitário para serializar expressões em formato JSON
@@ -28,9 +62,19 @@ export class ExpressionSerializer {
   /**
    * Serializa uma expressão para JSON
    * @param expr A expressão a ser serializada
-   * @returns Representação JSON da expressão
+   * @returns Representação JSON da expressão, com a menor versão do formato que a descreve
    */
   static serialize(expr: any | null | undefined): ExpressionJson | null {
+    const node = this.serializeNode(expr);
+    return node
+      ? { formatVersion: ExpressionJsonValidator.getRequiredVersion(node), ...node }
+      : null;
+  }
+
+  /**
+   * Serializa um nó da árvore (sem a versão do formato)
+   */
+  private static serializeNode(expr: any | null | undefined): ExpressionNodeJson | null {
     if (!expr) return null;
 
     // Método genérico de serialização baseado no tipo de expressão
@@ -46,6 +90,10 @@ export class ExpressionSerializer {
       return this.serializeColumnExpression(expr);
     }
 
+    if (expr instanceof ParentColumnExpression) {
+      return this.serializeParentColumnExpression(expr);
+    }
+
     if (expr instanceof ConstantExpression) {
       return this.serializeConstantExpression(expr);
     }
@@ -86,36 +134,72 @@ export class ExpressionSerializer {
       return this.serializeFragmentExpression(expr);
     }
 
+    if (expr instanceof InsertExpression) {
+      return this.serializeInsertExpression(expr);
+    }
+
+    if (expr instanceof UpdateExpression) {
+      return this.serializeUpdateExpression(expr);
+    }
+
+    if (expr instanceof DeleteExpression) {
+      return this.serializeDeleteExpression(expr);
+    }
+
+    if (expr instanceof UpsertExpression) {
+      return this.serializeUpsertExpression(expr);
+    }
+
+    if (expr instanceof CompoundSelectExpression) {
+      return this.serializeCompoundSelectExpression(expr);
+    }
+
+    if (expr instanceof DerivedTableExpression) {
+      return this.serializeDerivedTableExpression(expr);
+    }
+
+    if (expr instanceof CommonTableExpression) {
+      return this.serializeCommonTableExpression(expr);
+    }
+
+    if (expr instanceof WindowExpression) {
+      return this.serializeWindowExpression(expr);
+    }
+
+    if (expr instanceof CaseExpression) {
+      return this.serializeCaseExpression(expr);
+    }
+
     throw new Error(`Unsupported expression type: ${expr.constructor.name}`);
   }
 
   /**
    * Serializa uma expressão binária
    */
-  private static serializeBinaryExpression(expr: BinaryExpression): ExpressionJson {
+  private static serializeBinaryExpression(expr: BinaryExpression): BinaryExpressionJson {
     return {
       type: 'BinaryExpression',
-      operatorType: ExpressionType[expr.getOperatorType()],
-      left: this.serialize(expr.getLeft()),
-      right: this.serialize(expr.getRight()),
+      operatorType: ExpressionType[expr.getOperatorType()] as BinaryOperatorName,
+      left: this.serializeNode(expr.getLeft()),
+      right: this.serializeNode(expr.getRight()),
     };
   }
 
   /**
    * Serializa uma expressão unária
    */
-  private static serializeUnaryExpression(expr: UnaryExpression): ExpressionJson {
+  private static serializeUnaryExpression(expr: UnaryExpression): UnaryExpressionJson {
     return {
       type: 'UnaryExpression',
-      operatorType: ExpressionType[expr.getOperatorType()],
-      operand: this.serialize(expr.getOperand()),
+      operatorType: ExpressionType[expr.getOperatorType()] as UnaryOperatorName,
+      operand: this.serializeNode(expr.getOperand()),
     };
   }
 
   /**
    * Serializa uma expressão de coluna
    */
-  private static serializeColumnExpression(expr: ColumnExpression): ExpressionJson {
+  private static serializeColumnExpression(expr: ColumnExpression): ColumnExpressionJson {
     return {
       type: 'ColumnExpression',
       columnName: expr.getColumnName(),
@@ -123,66 +207,104 @@ export class ExpressionSerializer {
     };
   }
 
+  /**
+   * Serializa uma referência a uma coluna da consulta pai
+   */
+  private static serializeParentColumnExpression(
+    expr: ParentColumnExpression,
+  ): ParentColumnExpressionJson {
+    return {
+      type: 'ParentColumnExpression',
+      columnName: expr.getColumnName(),
+      tableAlias: expr.getTableAlias(),
+    };
+  }
+
   /**
    * Serializa uma expressão constante
    */
-  private static serializeConstantExpression(expr: ConstantExpression): ExpressionJson {
+  private static serializeConstantExpression(expr: ConstantExpression): ConstantExpressionJson {
     return {
       type: 'ConstantExpression',
       value: expr.getValue(),
-      valueType: expr.getValueType(),
+      valueType: expr.getValueType() as ConstantValueType,
     };
   }
 
   /**
    * Serializa uma expressão de função
    */
-  private static serializeFunctionExpression(expr: FunctionExpression): ExpressionJson {
+  private static serializeFunctionExpression(expr: FunctionExpression): FunctionExpressionJson {
     return {
       type: 'FunctionExpression',
       functionName: expr.getFunctionName(),
-      arguments: expr.getArguments().map(arg => this.serialize(arg)),
+      arguments: expr.getArguments().map(arg => this.serializeNode(arg)),
     };
   }
 
   /**
    * Serializa uma expressão de seleção
    */
-  private static serializeSelectExpression(expr: SelectExpression): ExpressionJson {
-    return {
+  private static serializeSelectExpression(expr: SelectExpression): SelectExpressionJson {
+    const json: SelectExpressionJson = {
       type: 'SelectExpression',
-      projections: expr.getProjections().map(p => this.serialize(p)),
-      fromTable: this.serialize(expr.getFromTable()),
-      joins: expr.getJoins().map(j => this.serialize(j)),
-      whereClause: this.serialize(expr.getWhereClause()),
-      groupByColumns: expr.getGroupByColumns().map(c => this.serialize(c)),
-      havingClause: this.serialize(expr.getHavingClause()),
-      orderByColumns: expr.getOrderByColumns().map(o => this.serialize(o)),
-      limitValue: this.serialize(expr.getLimitValue()),
-      offsetValue: this.serialize(expr.getOffsetValue()),
+      projections: expr
+        .getProjections()
+        .map(p => this.serializeNode(p) as ProjectionExpressionJson),
+      fromTable: this.serializeNode(expr.getFromTable()) as
+        | TableExpressionJson
+        | DerivedTableExpressionJson
+        | null,
+      joins: expr.getJoins().map(j => this.serializeNode(j) as JoinExpressionJson),
+      whereClause: this.serializeNode(expr.getWhereClause()),
+      groupByColumns: expr.getGroupByColumns().map(c => this.serializeNode(c)),
+      havingClause: this.serializeNode(expr.getHavingClause()),
+      orderByColumns: expr
+        .getOrderByColumns()
+        .map(o => this.serializeNode(o) as OrderByExpressionJson),
+      limitValue: this.serializeNode(expr.getLimitValue()),
+      offsetValue: this.serializeNode(expr.getOffsetValue()),
       isDistinct: expr.getIsDistinct(),
     };
+
+    // Campo da versão 9, omitido quando vazio
+    const commonTables = expr.getCommonTables();
+    if (commonTables.length > 0) {
+      json.commonTables = commonTables.map(c => this.serializeNode(c) as CommonTableExpressionJson);
+    }
+
+    return json;
   }
 
   /**
    * Serializa uma expressão de tabela
    */
-  private static serializeTableExpression(expr: TableExpression): ExpressionJson {
-    return {
+  private static serializeTableExpression(expr: TableExpression): TableExpressionJson {
+    const json: TableExpressionJson = {
       type: 'TableExpression',
       tableName: expr.getTableName(),
       alias: expr.getAlias(),
     };
+
+    // Schema e database só são emitidos quando informados
+    if (expr.getSchema()) {
+      json.schema = expr.getSchema();
+    }
+    if (expr.getDatabase()) {
+      json.database = expr.getDatabase();
+    }
+
+    return json;
   }
 
   /**
    * Serializa uma expressão de junção
    */
-  private static serializeJoinExpression(expr: JoinExpression): ExpressionJson {
+  private static serializeJoinExpression(expr: JoinExpression): JoinExpressionJson {
     return {
       type: 'JoinExpression',
-      targetTable: this.serialize(expr.getTargetTable()),
-      joinCondition: this.serialize(expr.getJoinCondition()),
+      targetTable: this.serializeNode(expr.getTargetTable()) as TableExpressionJson,
+      joinCondition: this.serializeNode(expr.getJoinCondition()),
       joinType: expr.getJoinType(),
     };
   }
@@ -190,20 +312,24 @@ export class ExpressionSerializer {
   /**
    * Serializa uma expressão de subconsulta
    */
-  private static serializeSubqueryExpression(expr: ScalarSubqueryExpression): ExpressionJson {
+  private static serializeSubqueryExpression(
+    expr: ScalarSubqueryExpression,
+  ): ScalarSubqueryExpressionJson {
     return {
       type: 'ScalarSubqueryExpression',
-      query: this.serialize(expr.getQuery()),
+      query: this.serializeNode(expr.getQuery()) as SelectExpressionJson,
     };
   }
 
   /**
    * Serializa uma expressão de projeção
    */
-  private static serializeProjectionExpression(expr: ProjectionExpression): ExpressionJson {
+  private static serializeProjectionExpression(
+    expr: ProjectionExpression,
+  ): ProjectionExpressionJson {
     return {
       type: 'ProjectionExpression',
-      expression: this.serialize(expr.getExpression()),
+      expression: this.serializeNode(expr.getExpression()),
       alias: expr.getAlias(),
     };
   }
@@ -211,7 +337,7 @@ export class ExpressionSerializer {
   /**
    * Serializa uma expressão de parâmetro
    */
-  private static serializeParameterExpression(expr: ParameterExpression): ExpressionJson {
+  private static serializeParameterExpression(expr: ParameterExpression): ParameterExpressionJson {
     return {
       type: 'ParameterExpression',
       name: expr.getName(),
@@ -222,18 +348,162 @@ export class ExpressionSerializer {
   /**
    * Serializa uma expressão de ordenação
    */
-  private static serializeOrderByExpression(expr: OrderingExpression): ExpressionJson {
+  private static serializeOrderByExpression(expr: OrderingExpression): OrderByExpressionJson {
     return {
       type: 'OrderByExpression',
-      column: this.serialize(expr.getColumn()),
+      column: this.serializeNode(expr.getColumn()),
       ascending: expr.isAscending(),
     };
   }
 
-  private static serializeFragmentExpression(expr: FragmentExpression): ExpressionJson {
+  /**
+   * Serializa um fragmento de SQL
+   */
+  private static serializeFragmentExpression(expr: FragmentExpression): FragmentExpressionJson {
     return {
       type: 'FragmentExpression',
       value: expr.getValue(),
     };
   }
+
+  /**
+   * Serializa um comando INSERT
+   */
+  private static serializeInsertExpression(expr: InsertExpression): InsertExpressionJson {
+    const json: InsertExpressionJson = {
+      type: 'InsertExpression',
+      table: this.serializeNode(expr.getTable()) as TableExpressionJson,
+      columns: [...expr.getColumns()],
+      values: expr.getValues().map(row => row.map(value => this.serializeNode(value))),
+      returning: expr.getReturning(),
+    };
+
+    // Campo da versão 7, omitido em um INSERT ... VALUES
+    if (expr.getQuery()) {
+      json.query = this.serializeNode(expr.getQuery()) as SelectExpressionJson;
+    }
+
+    return json;
+  }
+
+  /**
+   * Serializa um comando UPDATE
+   */
+  private static serializeUpdateExpression(expr: UpdateExpression): UpdateExpressionJson {
+    return {
+      type: 'UpdateExpression',
+      table: this.serializeNode(expr.getTable()) as TableExpressionJson,
+      columns: [...expr.getColumns()],
+      values: expr.getValues().map(value => this.serializeNode(value)),
+      joins: expr.getJoins().map(j => this.serializeNode(j) as JoinExpressionJson),
+      whereClause: this.serializeNode(expr.getWhereClause()),
+    };
+  }
+
+  /**
+   * Serializa um comando DELETE
+   */
+  private static serializeDeleteExpression(expr: DeleteExpression): DeleteExpressionJson {
+    return {
+      type: 'DeleteExpression',
+      table: this.serializeNode(expr.getTable()) as TableExpressionJson,
+      joins: expr.getJoins().map(j => this.serializeNode(j) as JoinExpressionJson),
+      whereClause: this.serializeNode(expr.getWhereClause()),
+    };
+  }
+
+  /**
+   * Serializa um upsert (MERGE / ON CONFLICT / ON DUPLICATE KEY UPDATE)
+   */
+  private static serializeUpsertExpression(expr: UpsertExpression): UpsertExpressionJson {
+    return {
+      type: 'UpsertExpression',
+      table: this.serializeNode(expr.getTable()) as TableExpressionJson,
+      columns: [...expr.getColumns()],
+      values: expr.getValues().map(row => row.map(value => this.serializeNode(value))),
+      matchColumns: [...expr.getMatchColumns()],
+      updateColumns: [...expr.getUpdateColumns()],
+      updateValues: expr.getUpdateValues().map(value => this.serializeNode(value)),
+      returning: expr.getReturning(),
+    };
+  }
+
+  /**
+   * Serializa consultas combinadas por uma operação de conjunto
+   */
+  private static serializeCompoundSelectExpression(
+    expr: CompoundSelectExpression,
+  ): CompoundSelectExpressionJson {
+    return {
+      type: 'CompoundSelectExpression',
+      operation: expr.getOperation(),
+      left: this.serializeNode(expr.getLeft()) as
+        | SelectExpressionJson
+        | CompoundSelectExpressionJson,
+      right: this.serializeNode(expr.getRight()) as
+        | SelectExpressionJson
+        | CompoundSelectExpressionJson,
+    };
+  }
+
+  /**
+   * Serializa uma tabela derivada (subconsulta no FROM)
+   */
+  private static serializeDerivedTableExpression(
+    expr: DerivedTableExpression,
+  ): DerivedTableExpressionJson {
+    return {
+      type: 'DerivedTableExpression',
+      query: this.serializeNode(expr.getQuery()) as
+        | SelectExpressionJson
+        | CompoundSelectExpressionJson,
+      alias: expr.getAlias(),
+    };
+  }
+
+  /**
+   * Serializa uma expressão de tabela comum (WITH)
+   */
+  private static serializeCommonTableExpression(
+    expr: CommonTableExpression,
+  ): CommonTableExpressionJson {
+    return {
+      type: 'CommonTableExpression',
+      name: expr.getName(),
+      query: this.serializeNode(expr.getQuery()) as
+        | SelectExpressionJson
+        | CompoundSelectExpressionJson,
+      recursive: expr.isRecursive(),
+    };
+  }
+
+  /**
+   * Serializa uma função de janela
+   */
+  private static serializeWindowExpression(expr: WindowExpression): WindowExpressionJson {
+    const frame = expr.getFrame();
+
+    return {
+      type: 'WindowExpression',
+      function: this.serializeFunctionExpression(expr.getFunction()),
+      partitionBy: expr.getPartitionBy().map(p => this.serializeNode(p)),
+      orderBy: expr.getOrderBy().map(o => this.serializeNode(o) as OrderByExpressionJson),
+      frame: frame ? { unit: frame.unit, start: frame.start, end: frame.end } : null,
+    };
+  }
+
+  /**
+   * Serializa uma expressão CASE
+   */
+  private static serializeCaseExpression(expr: CaseExpression): CaseExpressionJson {
+    return {
+      type: 'CaseExpression',
+      operand: this.serializeNode(expr.getOperand()),
+      whenClauses: expr.getWhenClauses().map(clause => ({
+        when: this.serializeNode(clause.when),
+        then: this.serializeNode(clause.then),
+      })),
+      elseResult: this.serializeNode(expr.getElse()),
+    };
+  }
 }